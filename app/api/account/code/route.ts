@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import {
+  CODE_REQUEST_WINDOW_MS,
+  CODE_TTL_MS,
+  createLoginCode,
+  hashLoginCode,
+  MAX_CODES_PER_ADDRESS,
+  MAX_CODES_PER_EMAIL,
+} from "@/lib/accounts/login";
+import { sendLoginCode } from "@/lib/accounts/mailer";
+import { getAccountStore } from "@/lib/accounts/store";
+import { parseCodeRequest } from "@/lib/accounts/validation";
+import { createRateLimiter, getClientAddress } from "@/lib/server/rate-limit";
+
+export const dynamic = "force-dynamic";
+
+const allowAddress = createRateLimiter({ limit: MAX_CODES_PER_ADDRESS, windowMs: CODE_REQUEST_WINDOW_MS });
+const allowEmail = createRateLimiter({ limit: MAX_CODES_PER_EMAIL, windowMs: CODE_REQUEST_WINDOW_MS });
+
+/** Mails a login code. New emails get one too; the account is created when it is redeemed. */
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const input = parseCodeRequest(body);
+  if (!input.ok) {
+    return NextResponse.json({ error: input.error }, { status: 400 });
+  }
+
+  const { email } = input.value;
+  if (!allowAddress(getClientAddress(request)) || !allowEmail(email)) {
+    return NextResponse.json({ error: "Too many codes requested. Try again later." }, { status: 429 });
+  }
+  const code = createLoginCode();
+  await getAccountStore().saveLoginCode({
+    email,
+    codeHash: hashLoginCode(email, code),
+    expiresAt: new Date(Date.now() + CODE_TTL_MS).toISOString(),
+    attempts: 0,
+  });
+  await sendLoginCode(email, code);
+  return NextResponse.json({ sent: true }, { status: 202 });
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { createSecret, hashSecret } from "@/lib/accounts/login";
+import { getAccountStore } from "@/lib/accounts/store";
+import { parseGuestRegistration } from "@/lib/accounts/validation";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Issues the secret that proves a device owns its guest id. Guest ids are
+ * public on the boards, so each one can only be claimed once.
+ */
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const input = parseGuestRegistration(body);
+  if (!input.ok) {
+    return NextResponse.json({ error: input.error }, { status: 400 });
+  }
+
+  const secret = createSecret();
+  const { guestId } = input.value;
+  const claimed = await getAccountStore().claimGuest({
+    guestId,
+    secretHash: hashSecret(secret),
+    claimedAt: new Date().toISOString(),
+  });
+  if (!claimed) {
+    return NextResponse.json({ error: "This guest id is already registered" }, { status: 409 });
+  }
+  return NextResponse.json({ secret }, { status: 201 });
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { getRequestSession } from "@/lib/accounts/auth";
+import { mergeAchievements, mergeRunHistory } from "@/lib/accounts/merge";
+import { getAccountStore } from "@/lib/accounts/store";
+import { parseMergeRequest } from "@/lib/accounts/validation";
+import { getLeaderboardStore } from "@/lib/leaderboards/store";
+import { getLeagueStore } from "@/lib/leagues/store";
+import { getTournamentStore } from "@/lib/tournament/store";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Uploads the device's local history into the account and returns the merged
+ * data for the device to keep. A guest's lifetime totals are added the first
+ * time it merges, and its leaderboard entries, league memberships and
+ * tournament runs move to the account.
+ */
+export async function POST(request: Request) {
+  const session = await getRequestSession(request);
+  const store = getAccountStore();
+  const account = session && (await store.findAccount(session.accountId));
+  if (!session || !account) {
+    return NextResponse.json({ error: "Sign in first" }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const input = parseMergeRequest(body);
+  if (!input.ok) {
+    return NextResponse.json({ error: input.error }, { status: 400 });
+  }
+
+  const { history, achievements, settings } = input.value;
+  const guestId = session.deviceId;
+  let counted = false;
+  const data = await store.updateData(account.id, (current) => {
+    counted = current.mergedGuests.includes(guestId);
+    return {
+      history: mergeRunHistory(current.history, history, counted ? "max" : "add"),
+      achievements: mergeAchievements(current.achievements, achievements),
+      settings: current.settings ?? settings,
+      mergedGuests: counted ? current.mergedGuests : [...current.mergedGuests, guestId],
+    };
+  });
+  // A device keeps the guest id an account was created from after signing out of it. That id
+  // is the account's own, so its entries stay put, whichever account the device signs in to next.
+  if (!counted && !(await store.findAccount(guestId))) {
+    await Promise.all(
+      [getLeaderboardStore(), getLeagueStore(), getTournamentStore()].map((players) =>
+        players.reassignPlayer(guestId, account.id, account.displayName),
+      ),
+    );
+  }
+  return NextResponse.json({ data });
+}
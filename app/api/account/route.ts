@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import type { AccountSnapshot } from "@/lib/accounts/types";
+import { getRequestSession } from "@/lib/accounts/auth";
+import { mergeAchievements } from "@/lib/accounts/merge";
+import { getAccountStore } from "@/lib/accounts/store";
+import { parseAccountPatch } from "@/lib/accounts/validation";
+
+export const dynamic = "force-dynamic";
+
+const UNAUTHORIZED = { error: "Sign in first" };
+
+/** The signed-in account with its linked devices and synced data. */
+export async function GET(request: Request) {
+  const session = await getRequestSession(request);
+  const store = getAccountStore();
+  const account = session && (await store.findAccount(session.accountId));
+  if (!account) {
+    return NextResponse.json(UNAUTHORIZED, { status: 401 });
+  }
+  const [sessions, data] = await Promise.all([store.listSessions(account.id), store.readData(account.id)]);
+  const snapshot: AccountSnapshot = {
+    account,
+    devices: sessions.map(({ deviceId, linkedAt }) => ({ deviceId, linkedAt })),
+    data,
+  };
+  return NextResponse.json(snapshot);
+}
+
+/** Updates the profile, replaces the synced settings, or folds in achievement progress. */
+export async function PATCH(request: Request) {
+  const session = await getRequestSession(request);
+  if (!session) {
+    return NextResponse.json(UNAUTHORIZED, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const patch = parseAccountPatch(body);
+  if (!patch.ok) {
+    return NextResponse.json({ error: patch.error }, { status: 400 });
+  }
+
+  const { displayName, avatar, settings, achievements } = patch.value;
+  // Only the fields that were sent, so a settings push leaves the name and avatar alone.
+  const profile = {
+    ...(displayName !== undefined && { displayName }),
+    ...(avatar !== undefined && { avatar }),
+  };
+  const store = getAccountStore();
+  const account =
+    Object.keys(profile).length > 0
+      ? await store.updateAccount(session.accountId, profile)
+      : await store.findAccount(session.accountId);
+  if (!account) {
+    return NextResponse.json(UNAUTHORIZED, { status: 401 });
+  }
+  if (settings || achievements) {
+    await store.updateData(account.id, (data) => ({
+      ...data,
+      settings: settings ?? data.settings,
+      achievements: achievements ? mergeAchievements(data.achievements, achievements) : data.achievements,
+    }));
+  }
+  return NextResponse.json({ account });
+}
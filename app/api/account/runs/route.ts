@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { getRequestSession } from "@/lib/accounts/auth";
+import { addRunToHistory } from "@/lib/accounts/merge";
+import { getAccountStore } from "@/lib/accounts/store";
+import { parseAccountRun } from "@/lib/accounts/validation";
+
+export const dynamic = "force-dynamic";
+
+/** Adds a run a signed-in device just finished to the account's history. */
+export async function POST(request: Request) {
+  const session = await getRequestSession(request);
+  if (!session) {
+    return NextResponse.json({ error: "Sign in first" }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const input = parseAccountRun(body);
+  if (!input.ok) {
+    return NextResponse.json({ error: input.error }, { status: 400 });
+  }
+
+  const { gameId, run } = input.value;
+  await getAccountStore().updateData(session.accountId, (data) => ({
+    ...data,
+    history: addRunToHistory(data.history, gameId, run),
+  }));
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import type { Account } from "@/lib/accounts/types";
+import { getRequestSession } from "@/lib/accounts/auth";
+import { createSecret, hashLoginCode, hashSecret } from "@/lib/accounts/login";
+import { getAccountStore } from "@/lib/accounts/store";
+import { parseSignIn } from "@/lib/accounts/validation";
+import { createId } from "@/lib/ids";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Redeems a login code and links the device. The first sign-in with an email
+ * creates its account from the device's guest profile, reusing the guest id.
+ */
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const input = parseSignIn(body);
+  if (!input.ok) {
+    return NextResponse.json({ error: input.error }, { status: 400 });
+  }
+
+  const { email, code, deviceId, deviceSecret, displayName, avatar } = input.value;
+  const store = getAccountStore();
+  // The guest id may become the account's id and hand over its boards, so the device has to own it.
+  if (!(await store.verifyGuest(deviceId, hashSecret(deviceSecret)))) {
+    return NextResponse.json({ error: "deviceId is not registered to this device" }, { status: 403 });
+  }
+  if (!(await store.redeemLoginCode(email, hashLoginCode(email, code)))) {
+    return NextResponse.json({ error: "The code is wrong or has expired" }, { status: 401 });
+  }
+
+  const now = new Date().toISOString();
+  let account = await store.findAccountByEmail(email);
+  if (!account) {
+    // A guest that signed out of another account keeps its id, which that account already owns.
+    const id = (await store.findAccount(deviceId)) ? createId() : deviceId;
+    const created: Account = { id, email, displayName, avatar, createdAt: now };
+    account = await store.createAccount(created);
+  }
+  const token = createSecret();
+  await store.addSession({ token, accountId: account.id, deviceId, linkedAt: now });
+  return NextResponse.json({ token, account });
+}
+
+/** Signs this device out; its guest profile takes over again. */
+export async function DELETE(request: Request) {
+  const session = await getRequestSession(request);
+  if (session) {
+    await getAccountStore().removeSession(session.token);
+  }
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { getGame } from "@/games/registry";
+import { getRequestPlayerId } from "@/lib/accounts/auth";
+import { createId } from "@/lib/ids";
+import { getLeaderboardStore } from "@/lib/leaderboards/store";
+import type { LeaderboardEntry, LeaderboardQuery } from "@/lib/leaderboards/types";
+import { LEADERBOARD_WINDOWS } from "@/lib/leaderboards/types";
+import { isDailyBoardOpen, parseBoardParams, parseSubmission } from "@/lib/leaderboards/validation";
+import { getArcadeSchedule } from "@/lib/schedule";
+
+type RouteContext = {
+  params: Promise<{ game: string }>;
+};
+
+export const dynamic = "force-dynamic";
+
+const resolveGame = async (context: RouteContext) => {
+  const { game: gameId } = await context.params;
+  return getGame(gameId);
+};
+
+export async function GET(request: Request, context: RouteContext) {
+  const game = await resolveGame(context);
+  if (!game) {
+    return NextResponse.json({ error: "Unknown game" }, { status: 404 });
+  }
+
+  const params = parseBoardParams(new URL(request.url).searchParams);
+  if (!params.ok) {
+    return NextResponse.json({ error: params.error }, { status: 400 });
+  }
+
+  const { window, page, pageSize, playerId } = params.value;
+  const { dateKey, weekKey } = getArcadeSchedule();
+  const query: LeaderboardQuery = { gameId: game.id, window, dateKey, weekKey };
+  const store = getLeaderboardStore();
+  const [board, me] = await Promise.all([
+    store.listEntries(query, page, pageSize),
+    playerId ? store.findRank(query, playerId) : Promise.resolve(null),
+  ]);
+
+  return NextResponse.json({ game: game.id, window, dateKey, weekKey, ...board, me });
+}
+
+export async function POST(request: Request, context: RouteContext) {
+  const game = await resolveGame(context);
+  if (!game) {
+    return NextResponse.json({ error: "Unknown game" }, { status: 404 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const submission = parseSubmission(body);
+  if (!submission.ok) {
+    return NextResponse.json({ error: submission.error }, { status: 400 });
+  }
+  const callerId = await getRequestPlayerId(request);
+  if (!callerId) {
+    return NextResponse.json({ error: "Authorization is required" }, { status: 401 });
+  }
+  if (callerId !== submission.value.playerId) {
+    return NextResponse.json({ error: "Runs can only be submitted for your own profile" }, { status: 403 });
+  }
+
+  const { playedAt, ...fields } = submission.value;
+  const { dateKey, weekKey } = getArcadeSchedule(playedAt ? new Date(playedAt) : undefined);
+  const entry: LeaderboardEntry = {
+    ...fields,
+    id: createId(),
+    gameId: game.id,
+    submittedAt: new Date().toISOString(),
+    dateKey,
+    weekKey,
+    ...(playedAt && !isDailyBoardOpen(playedAt) ? { offDaily: true } : {}),
+  };
+
+  const store = getLeaderboardStore();
+  await store.addEntry(entry);
+  const ranks = await Promise.all(
+    LEADERBOARD_WINDOWS.map(async (window) => {
+      const ranked = await store.findRank({ gameId: game.id, window, dateKey, weekKey }, entry.playerId);
+      return [window, ranked?.rank ?? null] as const;
+    }),
+  );
+
+  return NextResponse.json({ entry, ranks: Object.fromEntries(ranks) }, { status: 201 });
+}
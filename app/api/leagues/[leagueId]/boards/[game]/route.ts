@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import type { LeagueBoard } from "@/lib/leagues/types";
+import { getGame } from "@/games/registry";
+import { getRequestPlayerId } from "@/lib/accounts/auth";
+import { getLeaderboardStore } from "@/lib/leaderboards/store";
+import { getLeagueStore } from "@/lib/leagues/store";
+import { MAX_LEAGUE_MEMBERS } from "@/lib/leagues/types";
+import { parseLeagueWindow } from "@/lib/leagues/validation";
+import { getArcadeSchedule } from "@/lib/schedule";
+
+type RouteContext = {
+  params: Promise<{ leagueId: string; game: string }>;
+};
+
+export const dynamic = "force-dynamic";
+
+/** A game's `daily` or `weekly` board (`?window=`) ranked among the league's members only. */
+export async function GET(request: Request, context: RouteContext) {
+  const { leagueId, game: gameId } = await context.params;
+  const game = getGame(gameId);
+  if (!game) {
+    return NextResponse.json({ error: "Unknown game" }, { status: 404 });
+  }
+
+  const searchParams = new URL(request.url).searchParams;
+  const window = parseLeagueWindow(searchParams);
+  if (!window.ok) {
+    return NextResponse.json({ error: window.error }, { status: 400 });
+  }
+
+  const callerId = await getRequestPlayerId(request);
+  if (!callerId) {
+    return NextResponse.json({ error: "Authorization is required" }, { status: 401 });
+  }
+
+  const store = getLeagueStore();
+  if (!(await store.findLeague(leagueId))) {
+    return NextResponse.json({ error: "Unknown league" }, { status: 404 });
+  }
+  const playerIds = (await store.listMembers(leagueId)).map((member) => member.playerId);
+  if (!playerIds.includes(callerId)) {
+    return NextResponse.json({ error: "Only members can see this league" }, { status: 403 });
+  }
+
+  const { dateKey, weekKey } = getArcadeSchedule();
+  const { entries } = await getLeaderboardStore().listEntries(
+    { gameId: game.id, window: window.value, dateKey, weekKey, playerIds },
+    1,
+    MAX_LEAGUE_MEMBERS,
+  );
+  const board: LeagueBoard = { leagueId, game: game.id, window: window.value, dateKey, weekKey, entries };
+  return NextResponse.json(board);
+}
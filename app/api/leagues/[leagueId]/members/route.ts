@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { getRequestPlayerId } from "@/lib/accounts/auth";
+import { getLeagueStore } from "@/lib/leagues/store";
+
+type RouteContext = {
+  params: Promise<{ leagueId: string }>;
+};
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Takes `?player=<id>` out of the league. Players can only remove themselves,
+ * and the league's owner can remove anyone; the caller proves who they are
+ * with their account session or registered guest credential.
+ */
+export async function DELETE(request: Request, context: RouteContext) {
+  const { leagueId } = await context.params;
+  const playerId = new URL(request.url).searchParams.get("player");
+  if (!playerId) {
+    return NextResponse.json({ error: "player is required" }, { status: 400 });
+  }
+  const callerId = await getRequestPlayerId(request);
+  if (!callerId) {
+    return NextResponse.json({ error: "Authorization is required" }, { status: 401 });
+  }
+  const store = getLeagueStore();
+  if (callerId !== playerId && (await store.findLeague(leagueId))?.createdBy !== callerId) {
+    return NextResponse.json({ error: "Only the league's owner can remove other members" }, { status: 403 });
+  }
+  await store.removeMember(leagueId, playerId);
+  return new NextResponse(null, { status: 204 });
+}
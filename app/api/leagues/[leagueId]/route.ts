@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import type { LeagueDetails, LeagueTodayRow } from "@/lib/leagues/types";
+import { getGameForDay } from "@/games/registry";
+import { getRequestPlayerId } from "@/lib/accounts/auth";
+import { getLeaderboardStore } from "@/lib/leaderboards/store";
+import { getLeagueStore } from "@/lib/leagues/store";
+import { MAX_LEAGUE_MEMBERS } from "@/lib/leagues/types";
+import { DAYS, getArcadeSchedule } from "@/lib/schedule";
+
+type RouteContext = {
+  params: Promise<{ leagueId: string }>;
+};
+
+export const dynamic = "force-dynamic";
+
+/** The league, its members and who has played today's game, for members only. */
+export async function GET(request: Request, context: RouteContext) {
+  const { leagueId } = await context.params;
+  const callerId = await getRequestPlayerId(request);
+  if (!callerId) {
+    return NextResponse.json({ error: "Authorization is required" }, { status: 401 });
+  }
+  const store = getLeagueStore();
+  const league = await store.findLeague(leagueId);
+  if (!league) {
+    return NextResponse.json({ error: "Unknown league" }, { status: 404 });
+  }
+  const members = await store.listMembers(leagueId);
+  if (!members.some((member) => member.playerId === callerId)) {
+    return NextResponse.json({ error: "Only members can see this league" }, { status: 403 });
+  }
+
+  const { todayIndex, dateKey, weekKey } = getArcadeSchedule();
+  const game = getGameForDay(DAYS[todayIndex].id);
+  const board = game
+    ? await getLeaderboardStore().listEntries(
+        { gameId: game.id, window: "daily", dateKey, weekKey, playerIds: members.map((member) => member.playerId) },
+        1,
+        MAX_LEAGUE_MEMBERS,
+      )
+    : null;
+  // members who have played come first, best score first, in board order
+  const played: LeagueTodayRow[] = (board?.entries ?? []).map(({ playerId, score }) => ({
+    playerId,
+    playerName: members.find((member) => member.playerId === playerId)?.playerName ?? "",
+    best: score,
+  }));
+  const waiting: LeagueTodayRow[] = members
+    .filter((member) => !played.some((row) => row.playerId === member.playerId))
+    .map(({ playerId, playerName }) => ({ playerId, playerName, best: null }));
+
+  const details: LeagueDetails = {
+    league,
+    members,
+    today: { dayIndex: todayIndex, dateKey, gameId: game?.id ?? null, rows: [...played, ...waiting] },
+  };
+  return NextResponse.json(details);
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { getRequestPlayerId } from "@/lib/accounts/auth";
+import { JOIN_ATTEMPT_WINDOW_MS, MAX_JOINS_PER_ADDRESS, MAX_JOINS_PER_PLAYER } from "@/lib/leagues/codes";
+import { getLeagueStore } from "@/lib/leagues/store";
+import { parseJoinRequest } from "@/lib/leagues/validation";
+import { createRateLimiter, getClientAddress } from "@/lib/server/rate-limit";
+
+export const dynamic = "force-dynamic";
+
+const allowAddress = createRateLimiter({ limit: MAX_JOINS_PER_ADDRESS, windowMs: JOIN_ATTEMPT_WINDOW_MS });
+const allowPlayer = createRateLimiter({ limit: MAX_JOINS_PER_PLAYER, windowMs: JOIN_ATTEMPT_WINDOW_MS });
+
+/** Joins the league behind a code; joining again is a no-op. */
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const input = parseJoinRequest(body);
+  if (!input.ok) {
+    return NextResponse.json({ error: input.error }, { status: 400 });
+  }
+  const callerId = await getRequestPlayerId(request);
+  if (!callerId) {
+    return NextResponse.json({ error: "Authorization is required" }, { status: 401 });
+  }
+  if (callerId !== input.value.playerId) {
+    return NextResponse.json({ error: "Players can only join leagues themselves" }, { status: 403 });
+  }
+
+  if (!allowAddress(getClientAddress(request)) || !allowPlayer(callerId)) {
+    return NextResponse.json({ error: "Too many join attempts. Try again later." }, { status: 429 });
+  }
+
+  const { playerId, playerName, code } = input.value;
+  const store = getLeagueStore();
+  const league = await store.findLeagueByCode(code);
+  if (!league) {
+    return NextResponse.json({ error: "No league uses this code" }, { status: 404 });
+  }
+  if (!(await store.addMember({ leagueId: league.id, playerId, playerName, joinedAt: new Date().toISOString() }))) {
+    return NextResponse.json({ error: "This league is full" }, { status: 409 });
+  }
+  return NextResponse.json({ league });
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import type { League, LeagueMember } from "@/lib/leagues/types";
+import { getRequestPlayerId } from "@/lib/accounts/auth";
+import { createId } from "@/lib/ids";
+import { createJoinCode } from "@/lib/leagues/codes";
+import { getLeagueStore } from "@/lib/leagues/store";
+import { parseNewLeague } from "@/lib/leagues/validation";
+
+export const dynamic = "force-dynamic";
+
+// A clash among 32^6 codes is rare; a few retries make it practically impossible.
+const MAX_CODE_ATTEMPTS = 5;
+
+/** The leagues the caller belongs to. */
+export async function GET(request: Request) {
+  const callerId = await getRequestPlayerId(request);
+  if (!callerId) {
+    return NextResponse.json({ error: "Authorization is required" }, { status: 401 });
+  }
+  return NextResponse.json({ leagues: await getLeagueStore().listLeagues(callerId) });
+}
+
+/** Creates a league with a fresh join code and its creator as the first member. */
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const input = parseNewLeague(body);
+  if (!input.ok) {
+    return NextResponse.json({ error: input.error }, { status: 400 });
+  }
+  const callerId = await getRequestPlayerId(request);
+  if (!callerId) {
+    return NextResponse.json({ error: "Authorization is required" }, { status: 401 });
+  }
+  if (callerId !== input.value.playerId) {
+    return NextResponse.json({ error: "Players can only create leagues for themselves" }, { status: 403 });
+  }
+
+  const { playerId, playerName, name } = input.value;
+  const createdAt = new Date().toISOString();
+  const store = getLeagueStore();
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt += 1) {
+    const league: League = { id: createId(), name, code: createJoinCode(), createdBy: playerId, createdAt };
+    const owner: LeagueMember = { leagueId: league.id, playerId, playerName, joinedAt: createdAt };
+    if (await store.createLeague(league, owner)) {
+      return NextResponse.json({ league }, { status: 201 });
+    }
+  }
+  return NextResponse.json({ error: "Could not find a free join code" }, { status: 503 });
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { getGame } from "@/games/registry";
+import { getRequestPlayerId } from "@/lib/accounts/auth";
+import { createRateLimiter, getClientAddress } from "@/lib/server/rate-limit";
+import { getShareCardStore } from "@/lib/share/store";
+import { shareCardPath } from "@/lib/share/types";
+import { parseShareCard } from "@/lib/share/validation";
+
+type RouteContext = {
+  params: Promise<{ game: string }>;
+};
+
+export const dynamic = "force-dynamic";
+
+// Every finished run uploads its card, so this leaves room for steady play and stops a flood.
+const CARD_WINDOW_MS = 10 * 60 * 1000;
+const MAX_CARDS_PER_ADDRESS = 60;
+
+const allowAddress = createRateLimiter({ limit: MAX_CARDS_PER_ADDRESS, windowMs: CARD_WINDOW_MS });
+
+/** Saves the card for one of the caller's runs, so its share link can be opened by anyone. */
+
+export async function POST(request: Request, context: RouteContext) {
+  const { game: gameId } = await context.params;
+  const game = getGame(gameId);
+  if (!game) {
+    return NextResponse.json({ error: "Unknown game" }, { status: 404 });
+  }
+
+  const playerId = await getRequestPlayerId(request);
+  if (!playerId) {
+    return NextResponse.json({ error: "Authorization is required" }, { status: 401 });
+  }
+  if (!allowAddress(getClientAddress(request))) {
+    return NextResponse.json({ error: "Too many cards shared. Try again later." }, { status: 429 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const card = parseShareCard(body, game.id);
+  if (!card.ok) {
+    return NextResponse.json({ error: card.error }, { status: 400 });
+  }
+
+  const saved = await getShareCardStore().saveCard(card.value, playerId);
+  if (!saved) {
+    return NextResponse.json({ error: "This run's card belongs to another player" }, { status: 409 });
+  }
+  return NextResponse.json({ card: saved, path: shareCardPath(game.id, saved.runId) }, { status: 201 });
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import type { TournamentEntrant } from "@/lib/tournament/types";
+import { getRequestPlayerId } from "@/lib/accounts/auth";
+import { parsePlayer } from "@/lib/leaderboards/validation";
+import { getArcadeSchedule } from "@/lib/schedule";
+import { buildTournamentWeek } from "@/lib/tournament/standings";
+import { getTournamentStore } from "@/lib/tournament/store";
+import { JOIN_DAY_INDEX } from "@/lib/tournament/types";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const schedule = getArcadeSchedule();
+  const { entrants, runs } = await getTournamentStore().listWeek(schedule.weekKey);
+  return NextResponse.json(buildTournamentWeek(entrants, runs, schedule));
+}
+
+/** Enters the player into this week's tournament; entries are only open on Monday. */
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const player = parsePlayer(body);
+  if (!player.ok) {
+    return NextResponse.json({ error: player.error }, { status: 400 });
+  }
+  const callerId = await getRequestPlayerId(request);
+  if (!callerId) {
+    return NextResponse.json({ error: "Authorization is required" }, { status: 401 });
+  }
+  if (callerId !== player.value.playerId) {
+    return NextResponse.json({ error: "Players can only enter themselves" }, { status: 403 });
+  }
+
+  const { todayIndex, weekKey } = getArcadeSchedule();
+  if (todayIndex !== JOIN_DAY_INDEX) {
+    return NextResponse.json({ error: "Entries for this week are closed" }, { status: 409 });
+  }
+
+  const entrant: TournamentEntrant = { ...player.value, weekKey, joinedAt: new Date().toISOString() };
+  if (!(await getTournamentStore().addEntrant(entrant))) {
+    return NextResponse.json({ error: "Already entered this week" }, { status: 409 });
+  }
+  return NextResponse.json({ entrant }, { status: 201 });
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { getRequestPlayerId } from "@/lib/accounts/auth";
+import { parseSubmission } from "@/lib/leaderboards/validation";
+import { getArcadeSchedule } from "@/lib/schedule";
+import { getTournamentStore } from "@/lib/tournament/store";
+
+type RouteContext = {
+  params: Promise<{ runId: string }>;
+};
+
+export const dynamic = "force-dynamic";
+
+/** Records the result of a claimed run, as long as its arcade day has not rolled over. */
+export async function PUT(request: Request, context: RouteContext) {
+  const { runId } = await context.params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const submission = parseSubmission(body);
+  if (!submission.ok) {
+    return NextResponse.json({ error: submission.error }, { status: 400 });
+  }
+  const callerId = await getRequestPlayerId(request);
+  if (!callerId) {
+    return NextResponse.json({ error: "Authorization is required" }, { status: 401 });
+  }
+
+  const store = getTournamentStore();
+  const run = await store.findRun(runId);
+  if (!run) {
+    return NextResponse.json({ error: "Unknown tournament run" }, { status: 404 });
+  }
+  if (run.playerId !== callerId) {
+    return NextResponse.json({ error: "This run belongs to another player" }, { status: 403 });
+  }
+  if (run.dateKey !== getArcadeSchedule().dateKey) {
+    return NextResponse.json({ error: "The tournament day has closed" }, { status: 409 });
+  }
+
+  const { score, level, durationMs } = submission.value;
+  const finished = await store.finishRun(runId, { score, level, durationMs }, new Date().toISOString());
+  if (!finished) {
+    return NextResponse.json({ error: "This run has already been recorded" }, { status: 409 });
+  }
+  return NextResponse.json({ run: finished });
+}
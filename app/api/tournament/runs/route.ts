@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import type { TournamentRun } from "@/lib/tournament/types";
+import { getGameForDay, isGamePlayable } from "@/games/registry";
+import { getRequestPlayerId } from "@/lib/accounts/auth";
+import { createId } from "@/lib/ids";
+import { DAYS, getArcadeSchedule } from "@/lib/schedule";
+import { getTournamentStore } from "@/lib/tournament/store";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Claims the calling entrant's one attempt at today's game. The claim is made
+ * before the run starts, so abandoning a bad run does not earn a second try.
+ */
+export async function POST(request: Request) {
+  const callerId = await getRequestPlayerId(request);
+  if (!callerId) {
+    return NextResponse.json({ error: "Authorization is required" }, { status: 401 });
+  }
+
+  const { todayIndex, dateKey, weekKey } = getArcadeSchedule();
+  const game = getGameForDay(DAYS[todayIndex].id);
+  if (!isGamePlayable(game)) {
+    return NextResponse.json({ error: "Today's game is not playable yet" }, { status: 409 });
+  }
+
+  const store = getTournamentStore();
+  const { entrants } = await store.listWeek(weekKey);
+  if (!entrants.some((entrant) => entrant.playerId === callerId)) {
+    return NextResponse.json({ error: "Not entered in this week's tournament" }, { status: 403 });
+  }
+
+  const run: TournamentRun = {
+    id: createId(),
+    playerId: callerId,
+    gameId: game.id,
+    dateKey,
+    weekKey,
+    startedAt: new Date().toISOString(),
+    score: null,
+    level: null,
+    durationMs: null,
+    finishedAt: null,
+  };
+  if (!(await store.addRun(run))) {
+    return NextResponse.json({ error: "Today's tournament run has already been played" }, { status: 409 });
+  }
+  return NextResponse.json({ run }, { status: 201 });
+}
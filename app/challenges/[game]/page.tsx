@@ -0,0 +1,61 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import AchievementToasts from "@/components/achievements/achievement-toasts";
+import ChallengeSession from "@/components/challenges/challenge-session";
+import { getGame, isGamePlayable } from "@/games/registry";
+import { parseChallenge } from "@/lib/challenges/challenge";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+import { getTranslations } from "@/lib/i18n/server";
+import { getArcadeSchedule, isDayUnlocked } from "@/lib/schedule";
+
+type ChallengePageProps = {
+  params: Promise<{ game: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export async function generateMetadata({ params, searchParams }: ChallengePageProps): Promise<Metadata> {
+  const [{ game: gameId }, query, t] = await Promise.all([params, searchParams, getTranslations(APP_MESSAGES)]);
+  const game = getGame(gameId);
+  const challenge = game && parseChallenge(game.id, query, getArcadeSchedule().dateKey);
+  if (!game || !challenge) {
+    return { title: `${t("challenge.invalid")} · MM Games` };
+  }
+  const title = `${t("challenge.pageTitle", { name: challenge.from, target: challenge.target, title: game.title })} · MM Games`;
+  return { title, openGraph: { title } };
+}
+
+/** Plays a friend's challenge link: the same game, seed and settings, with their score to beat, once the game's day has unlocked. */
+export default async function ChallengePage({ params, searchParams }: ChallengePageProps) {
+  const [{ game: gameId }, query, t] = await Promise.all([params, searchParams, getTranslations(APP_MESSAGES)]);
+  const game = getGame(gameId);
+  if (!isGamePlayable(game)) {
+    notFound();
+  }
+  // Challenges follow the weekly unlocks, like the game's own day.
+  const schedule = getArcadeSchedule();
+  if (!isDayUnlocked(game.day, schedule)) {
+    redirect("/");
+  }
+
+  const challenge = parseChallenge(game.id, query, schedule.dateKey);
+  if (!challenge) {
+    return (
+      <main className="mx-auto flex min-h-screen w-full max-w-3xl flex-col gap-4 px-6 py-16 sm:px-10">
+        <Link href="/" className="w-fit text-sm text-muted/70 transition hover:text-white">
+          ← {t("nav.arcade")}
+        </Link>
+        <h1 className="text-3xl font-semibold text-white">{t("challenge.invalid")}</h1>
+        <p className="text-sm text-muted">{t("challenge.invalidBody")}</p>
+      </main>
+    );
+  }
+
+  const { default: Game } = await game.load();
+  return (
+    <ChallengeSession challenge={challenge}>
+      <Game seed={challenge.seed} />
+      <AchievementToasts />
+    </ChallengeSession>
+  );
+}
@@ -0,0 +1,42 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import AchievementToasts from "@/components/achievements/achievement-toasts";
+import { getGameForDay, isGamePlayable } from "@/games/registry";
+import { localize } from "@/lib/i18n/format";
+import { getLocale } from "@/lib/i18n/server";
+import { getDailySeed } from "@/lib/random";
+import { LiveGameSession } from "@/lib/replay/session";
+import { getArcadeSchedule } from "@/lib/schedule";
+
+type GamePageProps = {
+  params: Promise<{ day: string }>;
+};
+
+export const dynamic = "force-dynamic";
+
+export async function generateMetadata({ params }: GamePageProps): Promise<Metadata> {
+  const { day } = await params;
+  const game = getGameForDay(day);
+  if (!game) {
+    return {};
+  }
+  return { title: game.metadata.title, description: localize(game.metadata.description, await getLocale()) };
+}
+
+export default async function GamePage({ params }: GamePageProps) {
+  const { day } = await params;
+  const game = getGameForDay(day);
+  if (!isGamePlayable(game)) {
+    notFound();
+  }
+
+  const { default: Game } = await game.load();
+  const { dateKey, timeZone, rolloverHour } = getArcadeSchedule();
+  const seed = getDailySeed(game.id, dateKey);
+  return (
+    <LiveGameSession gameId={game.id} seed={seed} schedule={{ timeZone, rolloverHour }}>
+      <Game seed={seed} />
+      <AchievementToasts />
+    </LiveGameSession>
+  );
+}
@@ -0,0 +1,13 @@
+import { renderAppIcon } from "@/lib/pwa/icon";
+
+const SIZES = [192, 512];
+
+export const contentType = "image/png";
+
+export function generateImageMetadata() {
+  return SIZES.map((size) => ({ id: `${size}`, size: { width: size, height: size }, contentType }));
+}
+
+export default async function Icon({ id }: { id: string }) {
+  return renderAppIcon(Number(id));
+}
@@ -1,20 +1,51 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
+import AccountSync from "@/components/account/account-sync";
+import GamepadStatus from "@/components/gamepad/gamepad-status";
+import OfflineSync from "@/components/pwa/offline-sync";
+import UpdatePrompt from "@/components/pwa/update-prompt";
+import AudioUnlock from "@/components/settings/audio-unlock";
+import MotionPreference from "@/components/settings/motion-preference";
+import { LocaleProvider } from "@/lib/i18n/locale";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+import { getLocale, getTranslations } from "@/lib/i18n/server";
 import "./globals.css";
 
-export const metadata: Metadata = {
-  title: "MM Games · Weekly Arcade",
-  description: "Seven minimalist game experiences crafted for each day of the week.",
+export async function generateMetadata(): Promise<Metadata> {
+  const t = await getTranslations(APP_MESSAGES);
+  return {
+    title: t("app.title"),
+    description: t("app.description"),
+    applicationName: "MM Games",
+    appleWebApp: {
+      capable: true,
+      title: "MM Games",
+      statusBarStyle: "black-translucent",
+    },
+  };
+}
+
+export const viewport: Viewport = {
+  themeColor: "#030712",
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const locale = await getLocale();
   return (
-    <html lang="en">
+    <html lang={locale}>
       <body className="bg-background text-foreground antialiased">
-        {children}
+        <LocaleProvider initialLocale={locale}>
+          <AudioUnlock />
+          <MotionPreference />
+          <GamepadStatus />
+          <OfflineSync />
+          <AccountSync />
+          <UpdatePrompt />
+          {children}
+        </LocaleProvider>
       </body>
     </html>
   );
@@ -0,0 +1,33 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import LeagueView from "@/components/leagues/league-view";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+import { getTranslations } from "@/lib/i18n/server";
+
+type LeaguePageProps = {
+  params: Promise<{ leagueId: string }>;
+};
+
+export async function generateMetadata(): Promise<Metadata> {
+  const t = await getTranslations(APP_MESSAGES);
+  return { title: `${t("leagues.title")} · MM Games` };
+}
+
+/** Leagues are private, so the page loads on the client where the player's id is known. */
+export default async function LeaguePage({ params }: LeaguePageProps) {
+  const [{ leagueId }, t] = await Promise.all([params, getTranslations(APP_MESSAGES)]);
+  return (
+    <div className="min-h-screen w-full bg-transparent text-foreground">
+      <main className="mx-auto flex w-full max-w-3xl flex-col gap-8 px-6 py-16 sm:px-10">
+        <Link
+          href="/leagues"
+          className="inline-flex w-fit items-center gap-2 rounded-full border border-white/10 px-4 py-2 text-sm text-muted/70 transition hover:border-white/40 hover:text-white"
+        >
+          <span aria-hidden>←</span>
+          {t("nav.leagues")}
+        </Link>
+        <LeagueView leagueId={leagueId} />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import LeagueList from "@/components/leagues/league-list";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+import { getTranslations } from "@/lib/i18n/server";
+
+type LeaguesPageProps = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export async function generateMetadata(): Promise<Metadata> {
+  const t = await getTranslations(APP_MESSAGES);
+  return { title: `${t("leagues.title")} · MM Games`, description: t("leagues.description") };
+}
+
+/** Lists the player's leagues; invite links open it with `?code=` filled into the join form. */
+export default async function LeaguesPage({ searchParams }: LeaguesPageProps) {
+  const [{ code }, t] = await Promise.all([searchParams, getTranslations(APP_MESSAGES)]);
+  return (
+    <div className="min-h-screen w-full bg-transparent text-foreground">
+      <main className="mx-auto flex w-full max-w-3xl flex-col gap-8 px-6 py-16 sm:px-10">
+        <header className="flex flex-col gap-6">
+          <Link
+            href="/"
+            className="inline-flex w-fit items-center gap-2 rounded-full border border-white/10 px-4 py-2 text-sm text-muted/70 transition hover:border-white/40 hover:text-white"
+          >
+            <span aria-hidden>←</span>
+            {t("nav.arcade")}
+          </Link>
+          <h1 className="text-4xl font-semibold leading-tight text-white">{t("leagues.title")}</h1>
+          <p className="text-base text-muted">{t("leagues.intro")}</p>
+        </header>
+        <LeagueList initialCode={typeof code === "string" ? code : ""} />
+      </main>
+    </div>
+  );
+}
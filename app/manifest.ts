@@ -0,0 +1,19 @@
+import type { MetadataRoute } from "next";
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "MM Games · Weekly Arcade",
+    short_name: "MM Games",
+    description: "Seven minimalist game experiences crafted for each day of the week.",
+    start_url: "/",
+    scope: "/",
+    display: "standalone",
+    background_color: "#030712",
+    theme_color: "#030712",
+    icons: [
+      { src: "/icon/192", sizes: "192x192", type: "image/png", purpose: "any" },
+      { src: "/icon/512", sizes: "512x512", type: "image/png", purpose: "any" },
+      { src: "/icon/512", sizes: "512x512", type: "image/png", purpose: "maskable" },
+    ],
+  };
+}
@@ -1,108 +1,115 @@
 import Link from "next/link";
+import GamepadNavigation from "@/components/gamepad/gamepad-navigation";
+import SettingsButton from "@/components/settings/settings-button";
+import WeekCalendar from "@/components/streaks/week-calendar";
+import { getGameForDay, isGamePlayable } from "@/games/registry";
+import { formatWeekday, localize } from "@/lib/i18n/format";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+import { getLocale, getTranslations } from "@/lib/i18n/server";
+import { DAYS, getArcadeSchedule, getDayState, getNextUnlock } from "@/lib/schedule";
 
-const DAYS = [
-  {
-    id: "monday",
-    name: "Monday",
-    game: "Snakemoji",
-    vibe: "Glide through a neon grid and snack on living emojis.",
-  },
-  {
-    id: "tuesday",
-    name: "Tuesday",
-    game: "Colors+",
-    vibe: "Hyper-fast hue locks with fake-outs and streak multipliers.",
-  },
-  {
-    id: "wednesday",
-    name: "Wednesday",
-    game: "Chroma Trace",
-    vibe: "Shapes flash in color — trace them from memory to stay in the run.",
-  },
-  {
-    id: "thursday",
-    name: "Thursday",
-    game: "Tilt Drop",
-    vibe: "Tap to spin falling blocks while the arena tilts mid-run.",
-  },
-  {
-    id: "friday",
-    name: "Friday",
-    game: "Simon Colors",
-    vibe: "Memorize glowing sequences in a classic weekend warmup.",
-  },
-  {
-    id: "saturday",
-    name: "Saturday",
-    game: "Angrymoji",
-    vibe: "Embrace the weekend rage in a charged emoji arena.",
-  },
-  {
-    id: "sunday",
-    name: "Sunday",
-    game: "Low Tide",
-    vibe: "Slow meditative flows to reset your pace.",
-  },
-];
+export const dynamic = "force-dynamic";
 
-const getTodayIndex = () => {
-  return 5;
-//  const today = new Date();
-//  return (today.getDay() + 6) % 7; // shift so Monday = 0 ... Sunday = 6
-};
-
-export default function Home() {
-  const todayIndex = getTodayIndex();
-  const nextUnlock = DAYS.find((_, index) => index > todayIndex);
-  const nextUnlockDay = nextUnlock ?? DAYS[0];
-  const nextUnlockLabel = nextUnlock ? nextUnlockDay.name : `Cycle resets · ${nextUnlockDay.name}`;
+export default async function Home() {
+  const locale = await getLocale();
+  const t = await getTranslations(APP_MESSAGES);
+  const schedule = getArcadeSchedule();
+  const { day: nextUnlockDay, wrapsAround } = getNextUnlock(schedule);
+  const nextUnlockGame = getGameForDay(nextUnlockDay.id);
+  const nextUnlockDayName = formatWeekday(locale, DAYS.indexOf(nextUnlockDay));
 
   return (
     <div className="min-h-screen w-full bg-transparent text-foreground">
+      <GamepadNavigation />
       <main className="mx-auto flex w-full max-w-5xl flex-col gap-8 px-6 py-16 sm:px-10 lg:px-12">
         <header className="flex flex-col gap-8">
-          <div className="flex items-center justify-between gap-4">
+          <div className="flex flex-wrap items-center justify-between gap-4">
             <span className="text-sm uppercase tracking-[0.35em] text-muted">MM Games</span>
-            <span className="text-xs uppercase tracking-[0.25em] text-muted/80">
-              Weekly Arcade
-            </span>
+            <nav className="flex flex-wrap items-center gap-x-4 gap-y-2">
+              <Link
+                href="/achievements"
+                className="text-xs uppercase tracking-[0.25em] text-muted/80 transition hover:text-white"
+              >
+                {t("nav.achievements")}
+              </Link>
+              <Link
+                href="/replays"
+                className="text-xs uppercase tracking-[0.25em] text-muted/80 transition hover:text-white"
+              >
+                {t("nav.replays")}
+              </Link>
+              <Link
+                href="/challenges"
+                className="text-xs uppercase tracking-[0.25em] text-muted/80 transition hover:text-white"
+              >
+                {t("nav.challenges")}
+              </Link>
+              <Link
+                href="/tournament"
+                className="text-xs uppercase tracking-[0.25em] text-muted/80 transition hover:text-white"
+              >
+                {t("nav.tournament")}
+              </Link>
+              <Link
+                href="/leagues"
+                className="text-xs uppercase tracking-[0.25em] text-muted/80 transition hover:text-white"
+              >
+                {t("nav.leagues")}
+              </Link>
+              <Link
+                href="/stats"
+                className="text-xs uppercase tracking-[0.25em] text-muted/80 transition hover:text-white"
+              >
+                {t("nav.stats")}
+              </Link>
+              <Link
+                href="/profile"
+                className="text-xs uppercase tracking-[0.25em] text-muted/80 transition hover:text-white"
+              >
+                {t("nav.profile")}
+              </Link>
+              <span className="text-xs uppercase tracking-[0.25em] text-muted/80">
+                {t("home.weeklyArcade")}
+              </span>
+              <SettingsButton className="text-xs" />
+            </nav>
           </div>
           <div className="flex flex-col gap-6">
             <h1 className="text-4xl font-semibold leading-tight text-white sm:text-5xl lg:text-6xl">
-             One day. One game.
+              {t("home.headline")}
             </h1>
             <p className="max-w-2xl text-base text-muted sm:text-lg">
-              Stay in the flow with a clean, focused arcade built for your weekday rhythm.
+              {t("home.tagline")}
             </p>
           </div>
           <div className="flex flex-wrap items-center gap-3 text-xs text-muted/70 sm:text-sm">
             <div className="flex items-center gap-2 rounded-full border border-white/10 px-4 py-2 backdrop-blur">
               <span className="h-2 w-2 rounded-full bg-accent" />
               <span className="font-medium text-white/80">
-                Next unlock · {nextUnlockDay.game}
+                {t("home.nextUnlock", { title: nextUnlockGame?.title ?? "" })}
+              </span>
+              <span className="text-muted/60">
+                ({wrapsAround ? t("home.cycleResets", { day: nextUnlockDayName }) : nextUnlockDayName})
               </span>
-              <span className="text-muted/60">({nextUnlockLabel})</span>
             </div>
           </div>
+          <WeekCalendar schedule={schedule} />
         </header>
 
         <section className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
           {DAYS.map((day, index) => {
-            const isToday = index === todayIndex;
-            const isUnlocked = index <= todayIndex;
-            const hasRoute = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday"].includes(day.id);
+            const { isToday, isUnlocked, isBeforeToday, isTomorrow } = getDayState(index, schedule.todayIndex);
+            const game = getGameForDay(day.id);
+            const hasRoute = isGamePlayable(game);
             const isPlayable = hasRoute && isUnlocked;
 
-            const isBeforeToday = index < todayIndex;
-            const isTomorrow = index === (todayIndex + 1) % 7;
-
             const actionLabel = isPlayable
               ? isToday
-                ? "Launch"
-                : "Replay"
+                ? t("home.action.launch")
+                : t("home.action.replay")
               : isUnlocked || isTomorrow
-              ? "Coming soon"
-              : "Locked";
+              ? t("home.action.comingSoon")
+              : t("home.action.locked");
 
             const { actionClasses, actionIconClass } = (() => {
               if (isPlayable && isToday) {
@@ -141,14 +148,14 @@ export default function Home() {
               >
                 <div className="absolute inset-x-6 top-6 z-0 h-32 rounded-3xl bg-gradient-to-br from-white/15 to-white/0 opacity-0 blur-2xl transition group-hover:opacity-100" />
                 <header className="relative z-10 mb-8 flex items-center justify-between text-xs uppercase tracking-[0.3em] text-muted/80">
-                  <span>{day.name}</span>
+                  <span>{formatWeekday(locale, index)}</span>
                   <span className="font-mono text-[0.65rem] tracking-[0.4em] text-muted/50">
                     {day.id}
                   </span>
                 </header>
                 <div className="relative z-10 flex flex-1 flex-col gap-4">
-                  <h2 className="text-2xl font-semibold text-white">{day.game}</h2>
-                  <p className="text-sm leading-relaxed text-muted/90">{day.vibe}</p>
+                  <h2 className="text-2xl font-semibold text-white">{game?.title}</h2>
+                  <p className="text-sm leading-relaxed text-muted/90">{game && localize(game.vibe, locale)}</p>
                   <div className="mt-auto flex items-center justify-between pt-6 text-xs text-muted/70">
                     <span className="flex items-center gap-2">
                       <span
@@ -156,17 +163,18 @@ export default function Home() {
                       />
                       {isToday
                         ? hasRoute
-                          ? "Live today"
-                          : "Waiting to unlock"
+                          ? t("home.status.liveToday")
+                          : t("home.status.waiting")
                         : isUnlocked
                         ? hasRoute
-                          ? "Available to revisit"
-                          : "Coming soon"
-                        : "Unlocks soon"}
+                          ? t("home.status.revisit")
+                          : t("home.status.comingSoon")
+                        : t("home.status.unlocksSoon")}
                     </span>
                     {isPlayable ? (
                       <Link
                         href={`/games/${day.id}`}
+                        data-gamepad-focus
                         className={`inline-flex items-center gap-2 rounded-full border px-4 py-2 font-medium transition ${actionClasses}`}
                       >
                         {actionLabel}
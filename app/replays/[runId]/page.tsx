@@ -0,0 +1,18 @@
+import type { Metadata } from "next";
+import ReplayViewer from "@/components/replays/replay-viewer";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+import { getTranslations } from "@/lib/i18n/server";
+
+type ReplayPageProps = {
+  params: Promise<{ runId: string }>;
+};
+
+export async function generateMetadata(): Promise<Metadata> {
+  const t = await getTranslations(APP_MESSAGES);
+  return { title: `${t("replays.pageTitle")} · MM Games` };
+}
+
+export default async function ReplayPage({ params }: ReplayPageProps) {
+  const { runId } = await params;
+  return <ReplayViewer runId={runId} />;
+}
@@ -0,0 +1,16 @@
+import { getGame } from "@/games/registry";
+import { CARD_SIZE, renderShareCard } from "@/lib/share/card-image";
+import { getShareCardStore } from "@/lib/share/store";
+
+export const size = CARD_SIZE;
+export const contentType = "image/png";
+export const alt = "MM Games score card";
+
+export default async function ShareCardImage({ params }: { params: { game: string; runId: string } }) {
+  const game = getGame(params.game);
+  const card = await getShareCardStore().findCard(params.runId);
+  if (!game || !card || card.gameId !== game.id) {
+    return new Response("Not found", { status: 404 });
+  }
+  return renderShareCard(card, game);
+}
@@ -0,0 +1,88 @@
+import type { Metadata } from "next";
+import Image from "next/image";
+import Link from "next/link";
+import { getGame } from "@/games/registry";
+import { formatNumber, formatWeekday, localize } from "@/lib/i18n/format";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+import { getLocale, getTranslations } from "@/lib/i18n/server";
+import { getDayIndex } from "@/lib/schedule";
+import { getShareCardStore } from "@/lib/share/store";
+import { shareCardPath } from "@/lib/share/types";
+
+type SharePageProps = {
+  params: Promise<{ game: string; runId: string }>;
+};
+
+const loadCard = async (params: SharePageProps["params"]) => {
+  const { game: gameId, runId } = await params;
+  const game = getGame(gameId);
+  const card = game ? await getShareCardStore().findCard(runId) : null;
+  return game && card?.gameId === game.id ? { game, card } : null;
+};
+
+export async function generateMetadata({ params }: SharePageProps): Promise<Metadata> {
+  const [shared, locale, t] = await Promise.all([loadCard(params), getLocale(), getTranslations(APP_MESSAGES)]);
+  if (!shared) {
+    return { title: `${t("share.notFound")} · MM Games` };
+  }
+  const { game, card } = shared;
+  const title = `${t("share.pageTitle", { score: card.score, title: game.title })} · MM Games`;
+  const description = localize(game.metadata.description, locale);
+  return { title, description, openGraph: { title, description }, twitter: { card: "summary_large_image" } };
+}
+
+export default async function SharePage({ params }: SharePageProps) {
+  const [shared, locale, t] = await Promise.all([loadCard(params), getLocale(), getTranslations(APP_MESSAGES)]);
+
+  if (!shared) {
+    return (
+      <main className="mx-auto flex min-h-screen w-full max-w-3xl flex-col gap-4 px-6 py-16 sm:px-10">
+        <Link href="/" className="w-fit text-sm text-muted/70 transition hover:text-white">
+          ← {t("nav.arcade")}
+        </Link>
+        <h1 className="text-3xl font-semibold text-white">{t("share.notFound")}</h1>
+        <p className="text-sm text-muted">{t("share.notFoundBody")}</p>
+      </main>
+    );
+  }
+
+  const { game, card } = shared;
+  return (
+    <div className="min-h-screen w-full bg-transparent text-foreground">
+      <main className="mx-auto flex w-full max-w-3xl flex-col gap-8 px-6 py-16 sm:px-10">
+        <header className="flex flex-col gap-3">
+          <span className="text-xs uppercase tracking-[0.35em] text-muted/60">
+            {formatWeekday(locale, getDayIndex(game.day))}
+          </span>
+          <h1 className="text-4xl font-semibold leading-tight text-white">{game.title}</h1>
+          <p className="text-base text-muted">{localize(game.vibe, locale)}</p>
+        </header>
+        <Image
+          unoptimized
+          src={`${shareCardPath(game.id, card.runId)}/opengraph-image`}
+          alt={t("share.pageTitle", { score: card.score, title: game.title })}
+          width={1200}
+          height={630}
+          className="w-full rounded-3xl border border-white/10"
+        />
+        <dl className="flex gap-10 text-sm text-muted/70">
+          <div className="flex flex-col gap-1">
+            <dt className="text-xs uppercase tracking-[0.3em] text-muted/60">{t("share.score")}</dt>
+            <dd className="font-mono text-2xl text-white">{formatNumber(locale, card.score)}</dd>
+          </div>
+          <div className="flex flex-col gap-1">
+            <dt className="text-xs uppercase tracking-[0.3em] text-muted/60">{t("share.best")}</dt>
+            <dd className="font-mono text-2xl text-white">{formatNumber(locale, card.best)}</dd>
+          </div>
+        </dl>
+        <Link
+          href={`/games/${game.day}`}
+          className="inline-flex w-fit items-center gap-2 rounded-full border border-white/20 bg-white/10 px-6 py-3 text-sm font-semibold text-white transition hover:border-white/40 hover:bg-white/20"
+        >
+          {t("share.play", { title: game.title })}
+          <span aria-hidden>→</span>
+        </Link>
+      </main>
+    </div>
+  );
+}
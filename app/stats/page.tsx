@@ -0,0 +1,32 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import StatsDashboard from "@/components/stats/stats-dashboard";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+import { getTranslations } from "@/lib/i18n/server";
+
+export async function generateMetadata(): Promise<Metadata> {
+  const t = await getTranslations(APP_MESSAGES);
+  return { title: `${t("stats.title")} · MM Games`, description: t("stats.description") };
+}
+
+export default async function StatsPage() {
+  const t = await getTranslations(APP_MESSAGES);
+  return (
+    <div className="min-h-screen w-full bg-transparent text-foreground">
+      <main className="mx-auto flex w-full max-w-4xl flex-col gap-8 px-6 py-16 sm:px-10">
+        <header className="flex flex-col gap-6">
+          <Link
+            href="/"
+            className="inline-flex w-fit items-center gap-2 rounded-full border border-white/10 px-4 py-2 text-sm text-muted/70 transition hover:border-white/40 hover:text-white"
+          >
+            <span aria-hidden>←</span>
+            {t("nav.arcade")}
+          </Link>
+          <h1 className="text-4xl font-semibold leading-tight text-white">{t("stats.title")}</h1>
+          <p className="text-base text-muted">{t("stats.intro")}</p>
+        </header>
+        <StatsDashboard />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import { renderServiceWorker } from "@/lib/pwa/service-worker";
+
+export const dynamic = "force-static";
+
+export function GET() {
+  return new Response(renderServiceWorker(process.env.NEXT_PUBLIC_BUILD_ID ?? "dev"), {
+    headers: {
+      "Content-Type": "text/javascript; charset=utf-8",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
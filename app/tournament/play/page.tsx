@@ -0,0 +1,34 @@
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import AchievementToasts from "@/components/achievements/achievement-toasts";
+import TournamentSession from "@/components/tournament/tournament-session";
+import { getGameForDay, isGamePlayable } from "@/games/registry";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+import { getTranslations } from "@/lib/i18n/server";
+import { getDailySeed } from "@/lib/random";
+import { DAYS, getArcadeSchedule } from "@/lib/schedule";
+
+export const dynamic = "force-dynamic";
+
+export async function generateMetadata(): Promise<Metadata> {
+  const t = await getTranslations(APP_MESSAGES);
+  return { title: `${t("tournament.startTitle")} · MM Games` };
+}
+
+/** Today's game on the shared daily seed, played as the day's single tournament attempt. */
+export default async function TournamentPlayPage() {
+  const { todayIndex, dateKey, timeZone, rolloverHour } = getArcadeSchedule();
+  const game = getGameForDay(DAYS[todayIndex].id);
+  if (!isGamePlayable(game)) {
+    redirect("/tournament");
+  }
+
+  const { default: Game } = await game.load();
+  const seed = getDailySeed(game.id, dateKey);
+  return (
+    <TournamentSession gameId={game.id} seed={seed} schedule={{ timeZone, rolloverHour }}>
+      <Game seed={seed} />
+      <AchievementToasts />
+    </TournamentSession>
+  );
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { useEffect } from "react";
+import { pullAccount, pushAccountData, registerGuest } from "@/lib/accounts/client";
+import { achievementStore } from "@/lib/achievements/store";
+import { settingsStore } from "@/lib/settings/store";
+import { useCurrentProfile } from "@/lib/use-current-profile";
+
+// Settings sliders fire on every step; wait for them to settle before sending.
+const PUSH_DELAY_MS = 2000;
+
+/**
+ * Creates and registers the guest profile on first launch, and keeps a
+ * signed-in device in step with its account: pulls on launch and whenever the
+ * connection returns, and pushes settings and achievement progress as they
+ * change.
+ */
+export default function AccountSync() {
+  const { account } = useCurrentProfile();
+  const accountId = account?.id ?? null;
+
+  useEffect(() => {
+    void registerGuest().catch(() => undefined);
+  }, []);
+
+  useEffect(() => {
+    if (!accountId) {
+      return;
+    }
+    let timer: number | undefined;
+    const pull = () => void pullAccount().catch(() => undefined);
+    const push = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => void pushAccountData().catch(() => undefined), PUSH_DELAY_MS);
+    };
+    pull();
+    window.addEventListener("online", pull);
+    const unsubscribeSettings = settingsStore.subscribe(push);
+    const unsubscribeAchievements = achievementStore.subscribe(push);
+    return () => {
+      window.clearTimeout(timer);
+      window.removeEventListener("online", pull);
+      unsubscribeSettings();
+      unsubscribeAchievements();
+    };
+  }, [accountId]);
+
+  return null;
+}
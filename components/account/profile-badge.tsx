@@ -0,0 +1,27 @@
+"use client";
+
+import Link from "next/link";
+import { useTranslations } from "@/lib/i18n/locale";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+import { useCurrentProfile } from "@/lib/use-current-profile";
+
+/** The profile this game's runs are submitted under, linking to where it is edited. */
+export default function ProfileBadge() {
+  const t = useTranslations(APP_MESSAGES);
+  const { profile } = useCurrentProfile();
+
+  if (!profile) {
+    return null;
+  }
+
+  return (
+    <Link
+      href="/profile"
+      title={t("nav.profile")}
+      className="inline-flex max-w-[10rem] items-center gap-2 rounded-full border border-white/10 px-3 py-2 text-muted/70 transition hover:border-white/40 hover:text-white"
+    >
+      <span aria-hidden>{profile.avatar}</span>
+      <span className="truncate">{profile.name}</span>
+    </Link>
+  );
+}
@@ -0,0 +1,277 @@
+"use client";
+
+import type { FormEvent } from "react";
+import { useEffect, useState } from "react";
+import type { CodeRequestOutcome } from "@/lib/accounts/client";
+import type { Account, LinkedDevice } from "@/lib/accounts/types";
+import type { PlayerProfile } from "@/lib/player";
+import {
+  mergeDeviceHistory,
+  pullAccount,
+  requestLoginCode,
+  signIn,
+  signOut,
+  updateAccountProfile,
+} from "@/lib/accounts/client";
+import { useFormatters, useTranslations } from "@/lib/i18n/locale";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+import { AVATARS, getGuestProfile, MAX_PLAYER_NAME_LENGTH, updateGuestProfile } from "@/lib/player";
+import { useCurrentProfile } from "@/lib/use-current-profile";
+
+type SaveStatus = "idle" | "saving" | "saved" | "failed";
+
+type SyncStatus = "idle" | "syncing" | "synced" | "failed";
+
+type SignInError = "profile.sendFailed" | "profile.sendThrottled" | "profile.signInFailed";
+
+const CODE_REQUEST_ERRORS: Record<CodeRequestOutcome, SignInError | null> = {
+  sent: null,
+  throttled: "profile.sendThrottled",
+  failed: "profile.sendFailed",
+};
+
+const PANEL = "flex flex-col gap-4 rounded-3xl border border-white/10 px-6 py-6";
+const HEADING = "text-xs uppercase tracking-[0.3em] text-muted/70";
+const INPUT =
+  "min-w-0 flex-1 rounded-full border border-white/10 bg-white/5 px-4 py-2 text-sm text-white placeholder:text-muted/50 focus:border-white/40 focus:outline-none";
+const BUTTON =
+  "rounded-full border border-white/20 bg-white/10 px-6 py-2 text-xs font-semibold uppercase tracking-[0.3em] text-white transition hover:border-white/40 hover:bg-white/20 disabled:opacity-50";
+const TEXT_BUTTON = "w-fit text-xs text-muted/70 underline-offset-4 transition hover:text-white hover:underline";
+
+/** Edits the name and avatar runs are submitted under, on the account when signed in. */
+const ProfileForm = ({ profile, account }: { profile: PlayerProfile; account: Account | null }) => {
+  const t = useTranslations(APP_MESSAGES);
+  const [name, setName] = useState(profile.name);
+  const [avatar, setAvatar] = useState(profile.avatar);
+  const [status, setStatus] = useState<SaveStatus>("idle");
+
+  const save = async (event: FormEvent) => {
+    event.preventDefault();
+    const displayName = name.trim();
+    if (!account) {
+      updateGuestProfile({ name: displayName, avatar });
+      setStatus("saved");
+      return;
+    }
+    setStatus("saving");
+    try {
+      await updateAccountProfile({ displayName, avatar });
+      setStatus("saved");
+    } catch {
+      setStatus("failed");
+    }
+  };
+
+  return (
+    <form onSubmit={save} className={PANEL}>
+      <h2 className={HEADING}>{t("profile.you")}</h2>
+      <div className="flex items-center gap-4">
+        <span className="text-4xl" aria-hidden>
+          {avatar}
+        </span>
+        <input
+          value={name}
+          onChange={(event) => {
+            setName(event.target.value);
+            setStatus("idle");
+          }}
+          aria-label={t("profile.name")}
+          maxLength={MAX_PLAYER_NAME_LENGTH}
+          required
+          className={INPUT}
+        />
+      </div>
+      <fieldset className="flex flex-col gap-2">
+        <legend className={`${HEADING} mb-2`}>{t("profile.avatar")}</legend>
+        <div className="flex flex-wrap gap-2">
+          {AVATARS.map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => {
+                setAvatar(option);
+                setStatus("idle");
+              }}
+              aria-pressed={option === avatar}
+              className={`h-10 w-10 rounded-full border text-xl transition ${
+                option === avatar ? "border-white/60 bg-white/15" : "border-white/10 hover:border-white/40"
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </fieldset>
+      <div className="flex items-center gap-4">
+        <button type="submit" disabled={status === "saving" || name.trim().length === 0} className={BUTTON}>
+          {t("profile.save")}
+        </button>
+        {status === "saved" && <p className="text-sm text-muted">{t("profile.saved")}</p>}
+        {status === "failed" && <p className="text-sm text-rose-200">{t("profile.saveFailed")}</p>}
+      </div>
+    </form>
+  );
+};
+
+/** Passwordless sign-in: an email, then the code mailed to it. */
+const SignInForm = () => {
+  const t = useTranslations(APP_MESSAGES);
+  const [email, setEmail] = useState("");
+  const [code, setCode] = useState("");
+  const [step, setStep] = useState<"email" | "code">("email");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<SignInError | null>(null);
+
+  const sendCode = async (event: FormEvent) => {
+    event.preventDefault();
+    setBusy(true);
+    const outcome = await requestLoginCode(email);
+    setBusy(false);
+    setError(CODE_REQUEST_ERRORS[outcome]);
+    if (outcome === "sent") {
+      setStep("code");
+    }
+  };
+
+  const redeem = async (event: FormEvent) => {
+    event.preventDefault();
+    setBusy(true);
+    const signedIn = await signIn(email, code).catch(() => false);
+    setBusy(false);
+    if (!signedIn) {
+      setError("profile.signInFailed");
+    }
+  };
+
+  return (
+    <section className={PANEL}>
+      <h2 className={HEADING}>{t("profile.account")}</h2>
+      <p className="text-sm text-muted">{t("profile.guest")}</p>
+      {step === "email" ? (
+        <form onSubmit={sendCode} className="flex gap-2">
+          <input
+            type="email"
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+            placeholder={t("profile.emailPlaceholder")}
+            aria-label={t("profile.email")}
+            autoComplete="email"
+            required
+            className={INPUT}
+          />
+          <button type="submit" disabled={busy} className={BUTTON}>
+            {t("profile.sendCode")}
+          </button>
+        </form>
+      ) : (
+        <>
+          <p className="text-sm text-muted">{t("profile.codeSent", { email })}</p>
+          <form onSubmit={redeem} className="flex gap-2">
+            <input
+              value={code}
+              onChange={(event) => setCode(event.target.value.replace(/\D/g, ""))}
+              placeholder="000000"
+              aria-label={t("profile.code")}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              required
+              className={`${INPUT} font-mono tracking-[0.3em]`}
+            />
+            <button type="submit" disabled={busy || code.length !== 6} className={BUTTON}>
+              {t("profile.signIn")}
+            </button>
+          </form>
+          <button
+            type="button"
+            onClick={() => {
+              setStep("email");
+              setCode("");
+              setError(null);
+            }}
+            className={TEXT_BUTTON}
+          >
+            {t("profile.otherEmail")}
+          </button>
+        </>
+      )}
+      {error && <p className="text-sm text-rose-200">{t(error)}</p>}
+      <p className="text-xs text-muted/70">{t("profile.mergeNote")}</p>
+    </section>
+  );
+};
+
+/** The signed-in account: its linked devices, a manual sync and signing out. */
+const AccountDetails = ({ account }: { account: Account }) => {
+  const t = useTranslations(APP_MESSAGES);
+  const format = useFormatters();
+  const [devices, setDevices] = useState<LinkedDevice[] | null>(null);
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const [status, setStatus] = useState<SyncStatus>("idle");
+
+  useEffect(() => {
+    setDeviceId(getGuestProfile().id);
+    pullAccount()
+      .then((snapshot) => setDevices(snapshot.devices))
+      .catch(() => setDevices(null));
+  }, [account.id]);
+
+  const sync = async () => {
+    setStatus("syncing");
+    try {
+      await mergeDeviceHistory();
+      setDevices((await pullAccount()).devices);
+      setStatus("synced");
+    } catch {
+      setStatus("failed");
+    }
+  };
+
+  return (
+    <section className={PANEL}>
+      <h2 className={HEADING}>{t("profile.account")}</h2>
+      <p className="text-sm text-white">{t("profile.signedIn", { email: account.email })}</p>
+      {devices && (
+        <div className="flex flex-col gap-2">
+          <span className="text-xs text-muted/70">{t("profile.devices", { count: devices.length })}</span>
+          <ul className="flex flex-col gap-1 text-sm text-muted">
+            {devices.map((device, index) => (
+              <li key={`${device.deviceId}-${index}`} className="flex justify-between gap-4">
+                <span className={device.deviceId === deviceId ? "text-white" : undefined}>
+                  {device.deviceId === deviceId ? t("profile.thisDevice") : `#${device.deviceId.slice(0, 8)}`}
+                </span>
+                <span>{t("profile.linkedAt", { date: format.date(device.linkedAt) })}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-4">
+        <button type="button" onClick={sync} disabled={status === "syncing"} className={BUTTON}>
+          {status === "syncing" ? t("profile.syncing") : t("profile.sync")}
+        </button>
+        <button type="button" onClick={() => void signOut()} className={TEXT_BUTTON}>
+          {t("profile.signOut")}
+        </button>
+      </div>
+      {status === "synced" && <p className="text-sm text-muted">{t("profile.synced")}</p>}
+      {status === "failed" && <p className="text-sm text-rose-200">{t("profile.syncFailed")}</p>}
+    </section>
+  );
+};
+
+/** The current profile, with the account it is signed in to or the form to sign in. */
+export default function ProfilePanel() {
+  const { profile, account } = useCurrentProfile();
+
+  if (!profile) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col gap-6">
+      <ProfileForm key={`${profile.id}:${profile.name}:${profile.avatar}`} profile={profile} account={account} />
+      {account ? <AccountDetails account={account} /> : <SignInForm />}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { GAMES } from "@/games/registry";
+import { getAchievements } from "@/lib/achievements/catalogue";
+import { achievementStore, getAchievementProgress } from "@/lib/achievements/store";
+import { useFormatters, useTranslations } from "@/lib/i18n/locale";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+
+export default function AchievementList() {
+  const state = useSyncExternalStore(achievementStore.subscribe, achievementStore.read, achievementStore.getServerSnapshot);
+  const t = useTranslations(APP_MESSAGES);
+  const format = useFormatters();
+  const catalogue = GAMES.map((game) => ({ game, achievements: getAchievements(game.id) }));
+  const total = catalogue.reduce((sum, { achievements }) => sum + achievements.length, 0);
+  const unlocked = catalogue.reduce(
+    (sum, { game, achievements }) =>
+      sum + achievements.filter((achievement) => getAchievementProgress(state, game.id, achievement.id).unlockedAt).length,
+    0,
+  );
+
+  return (
+    <div className="flex flex-col gap-8">
+      <p className="text-sm uppercase tracking-[0.3em] text-muted/70">
+        {t("achievements.unlocked")} <span className="font-mono text-white">{format.number(unlocked)}</span> /{" "}
+        {format.number(total)}
+      </p>
+      {catalogue.map(({ game, achievements }) => (
+        <section key={game.id} className="flex flex-col gap-3">
+          <h2 className="text-xs uppercase tracking-[0.35em] text-muted/70">{game.title}</h2>
+          <ul className="grid gap-3 sm:grid-cols-2">
+            {achievements.map((achievement) => {
+              const { progress, unlockedAt } = getAchievementProgress(state, game.id, achievement.id);
+              const ratio = Math.min(1, progress / achievement.goal);
+              return (
+                <li
+                  key={achievement.id}
+                  className={`flex flex-col gap-3 rounded-2xl border px-5 py-4 ${
+                    unlockedAt ? "border-amber-300/50 bg-amber-500/10" : "border-white/10"
+                  }`}
+                >
+                  <div className="flex items-center gap-3">
+                    <span className={`text-2xl ${unlockedAt ? "" : "opacity-40 grayscale"}`} aria-hidden>
+                      {achievement.icon}
+                    </span>
+                    <div className="flex flex-col">
+                      <span className="text-sm font-semibold text-white">{format.text(achievement.title)}</span>
+                      <span className="text-xs text-muted">{format.text(achievement.description)}</span>
+                    </div>
+                  </div>
+                  {unlockedAt ? (
+                    <span className="text-[0.65rem] uppercase tracking-[0.3em] text-amber-200/80">
+                      {t("achievements.unlockedOn", { date: format.date(unlockedAt, { dateStyle: "medium" }) })}
+                    </span>
+                  ) : (
+                    <div className="flex items-center gap-3">
+                      <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-white/10">
+                        <div className="h-full rounded-full bg-white/50" style={{ width: `${ratio * 100}%` }} />
+                      </div>
+                      <span className="font-mono text-xs text-muted/70">
+                        {format.number(progress)}/{format.number(achievement.goal)}
+                      </span>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { AchievementDefinition } from "@/lib/achievements/types";
+import { useFormatters, useTranslations } from "@/lib/i18n/locale";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+import { useGameSession } from "@/lib/replay/session";
+
+const TOAST_MS = 4000;
+
+/** Announces achievements as the current session unlocks them. */
+export default function AchievementToasts() {
+  const session = useGameSession();
+  const t = useTranslations(APP_MESSAGES);
+  const format = useFormatters();
+  const [toasts, setToasts] = useState<AchievementDefinition[]>([]);
+
+  useEffect(() => {
+    const tracker = session.achievements;
+    if (!tracker) {
+      return;
+    }
+    const timers = new Set<number>();
+    const unsubscribe = tracker.subscribe((achievement) => {
+      setToasts((current) => [...current, achievement]);
+      const timer = window.setTimeout(() => {
+        timers.delete(timer);
+        setToasts((current) => current.filter((toast) => toast !== achievement));
+      }, TOAST_MS);
+      timers.add(timer);
+    });
+    return () => {
+      unsubscribe();
+      timers.forEach((timer) => window.clearTimeout(timer));
+    };
+  }, [session]);
+
+  if (toasts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="pointer-events-none fixed bottom-6 right-6 z-50 flex flex-col items-end gap-3" aria-live="polite">
+      {toasts.map((achievement) => (
+        <div
+          key={achievement.id}
+          className="flex items-center gap-3 rounded-2xl border border-amber-300/50 bg-slate-950/90 px-5 py-3 shadow-[0_0_30px_rgba(251,191,36,0.25)] backdrop-blur"
+        >
+          <span className="text-2xl" aria-hidden>
+            {achievement.icon}
+          </span>
+          <div className="flex flex-col">
+            <span className="text-[0.65rem] uppercase tracking-[0.3em] text-amber-200/80">{t("achievements.toast")}</span>
+            <span className="text-sm font-semibold text-white">{format.text(achievement.title)}</span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import Link from "next/link";
+import { useSyncExternalStore } from "react";
+import type { Challenge } from "@/lib/challenges/challenge";
+import type { ReceivedChallenge, SentChallenge } from "@/lib/challenges/store";
+import { getGame } from "@/games/registry";
+import { challengePath, getChallengeOutcome } from "@/lib/challenges/challenge";
+import { challengeStore, getBestAttempt } from "@/lib/challenges/store";
+import { useFormatters, useTranslations } from "@/lib/i18n/locale";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+
+const DATE_FORMAT: Intl.DateTimeFormatOptions = { month: "short", day: "numeric" };
+
+const ROW = "flex items-center justify-between gap-4 rounded-2xl border border-white/10 px-5 py-3 text-sm text-white/80";
+const LINK_ROW = `${ROW} transition hover:border-white/30 hover:bg-white/5 hover:text-white`;
+
+const ChallengeTitle = ({ challenge, detail }: { challenge: Challenge; detail: string }) => (
+  <span className="flex flex-col gap-1">
+    <span className="text-white">{getGame(challenge.gameId)?.title ?? challenge.gameId}</span>
+    <span className="text-xs text-muted/70">{detail}</span>
+  </span>
+);
+
+const ReceivedRow = ({ challenge }: { challenge: ReceivedChallenge }) => {
+  const t = useTranslations(APP_MESSAGES);
+  const format = useFormatters();
+  const best = getBestAttempt(challenge);
+  const outcome = best && getChallengeOutcome(best.score, challenge.target);
+
+  return (
+    <Link href={challengePath(challenge)} className={LINK_ROW}>
+      <ChallengeTitle
+        challenge={challenge}
+        detail={t("challenges.from", { name: challenge.from, date: format.date(challenge.receivedAt, DATE_FORMAT) })}
+      />
+      <span className="font-mono text-muted/70">
+        {best ? `${format.number(best.score)} / ${format.number(challenge.target)}` : format.number(challenge.target)}
+      </span>
+      <span
+        className={`text-xs uppercase tracking-[0.25em] ${
+          outcome === "won" ? "text-emerald-200" : outcome === "lost" ? "text-rose-200" : "text-muted/60"
+        }`}
+      >
+        {outcome === "won" ? t("challenges.won") : outcome === "lost" ? t("challenges.lost") : t("challenges.unplayed")}
+      </span>
+    </Link>
+  );
+};
+
+const SentRow = ({ challenge }: { challenge: SentChallenge }) => {
+  const t = useTranslations(APP_MESSAGES);
+  const format = useFormatters();
+
+  return (
+    <div className={ROW}>
+      <ChallengeTitle challenge={challenge} detail={t("challenges.sentOn", { date: format.date(challenge.sentAt, DATE_FORMAT) })} />
+      <span className="font-mono text-muted/70">{format.number(challenge.target)}</span>
+    </div>
+  );
+};
+
+export default function ChallengeList() {
+  const log = useSyncExternalStore(challengeStore.subscribe, challengeStore.read, challengeStore.getServerSnapshot);
+  const t = useTranslations(APP_MESSAGES);
+
+  if (log.received.length === 0 && log.sent.length === 0) {
+    return (
+      <p className="rounded-3xl border border-white/10 px-6 py-10 text-center text-sm text-muted">{t("challenges.empty")}</p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-8">
+      {log.received.length > 0 && (
+        <section className="flex flex-col gap-3">
+          <h2 className="text-xs uppercase tracking-[0.35em] text-muted/70">{t("challenges.received")}</h2>
+          <ul className="flex flex-col gap-2">
+            {log.received.map((challenge) => (
+              <li key={challenge.id}>
+                <ReceivedRow challenge={challenge} />
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+      {log.sent.length > 0 && (
+        <section className="flex flex-col gap-3">
+          <h2 className="text-xs uppercase tracking-[0.35em] text-muted/70">{t("challenges.sent")}</h2>
+          <ul className="flex flex-col gap-2">
+            {log.sent.map((challenge) => (
+              <li key={challenge.id}>
+                <SentRow challenge={challenge} />
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+}
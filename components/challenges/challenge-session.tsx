@@ -0,0 +1,23 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { useEffect } from "react";
+import type { Challenge } from "@/lib/challenges/challenge";
+import { receiveChallenge } from "@/lib/challenges/store";
+import { LiveGameSession } from "@/lib/replay/session";
+import { SettingsOverrideProvider } from "@/lib/settings/override";
+
+/** A live session on the challenge's seed, played with the challenger's settings. */
+export default function ChallengeSession({ challenge, children }: { challenge: Challenge; children: ReactNode }) {
+  useEffect(() => {
+    receiveChallenge(challenge);
+  }, [challenge]);
+
+  return (
+    <SettingsOverrideProvider settings={challenge.settings}>
+      <LiveGameSession gameId={challenge.gameId} seed={challenge.seed} challenge={challenge}>
+        {children}
+      </LiveGameSession>
+    </SettingsOverrideProvider>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { useState } from "react";
+import type { GameId } from "@/games/registry";
+import type { Challenge } from "@/lib/challenges/challenge";
+import type { GameRun } from "@/lib/run-history";
+import { getGame } from "@/games/registry";
+import { challengePath } from "@/lib/challenges/challenge";
+import { saveSentChallenge } from "@/lib/challenges/store";
+import { useTranslations } from "@/lib/i18n/locale";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+import { getCurrentProfile } from "@/lib/player";
+import { useGameSession } from "@/lib/replay/session";
+import { useSettings } from "@/lib/settings/use-settings";
+import { shareLink } from "@/lib/share/client";
+
+const COPIED_FEEDBACK_MS = 2000;
+
+const DEFAULT_CLASS =
+  "rounded-full border border-white/20 bg-white/10 px-6 py-2 text-xs font-semibold uppercase tracking-[0.3em] text-white transition hover:border-white/40 hover:bg-white/20";
+
+type ChallengeButtonProps = {
+  gameId: GameId;
+  /** The finished run whose score becomes the target; nothing renders until there is one. */
+  run: GameRun | null;
+  className?: string;
+};
+
+/**
+ * Sends a finished run as a challenge link: the session's seed, the swipe
+ * sensitivity it was played with and the score to beat.
+ */
+export default function ChallengeButton({ gameId, run, className = DEFAULT_CLASS }: ChallengeButtonProps) {
+  const t = useTranslations(APP_MESSAGES);
+  const session = useGameSession();
+  const { swipeSensitivity } = useSettings();
+  const [copied, setCopied] = useState(false);
+
+  if (!run) {
+    return null;
+  }
+
+  const challenge = async () => {
+    const sent: Challenge = {
+      id: run.id,
+      gameId,
+      seed: session.seed,
+      target: run.score,
+      from: getCurrentProfile().name,
+      settings: { swipeSensitivity },
+    };
+    saveSentChallenge(sent);
+    const url = new URL(challengePath(sent), window.location.origin).href;
+    const text = t("challenge.shareText", { score: run.score, title: getGame(gameId)?.title ?? "" });
+    if ((await shareLink({ text, url })) === "copied") {
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS);
+    }
+  };
+
+  return (
+    <button type="button" onClick={challenge} data-swipe-ignore="true" className={className}>
+      {copied ? t("share.linkCopied") : t("challenge.send")}
+    </button>
+  );
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import Link from "next/link";
+import { useState, useSyncExternalStore } from "react";
+import type { Challenge } from "@/lib/challenges/challenge";
+import { getChallengeOutcome } from "@/lib/challenges/challenge";
+import { challengeStore } from "@/lib/challenges/store";
+import { useFormatters, useTranslations } from "@/lib/i18n/locale";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+
+/** Compares the latest run of this visit with the challenge's target. */
+export default function ChallengeResult({ challenge }: { challenge: Challenge }) {
+  const log = useSyncExternalStore(challengeStore.subscribe, challengeStore.read, challengeStore.getServerSnapshot);
+  const t = useTranslations(APP_MESSAGES);
+  const format = useFormatters();
+  const [openedAt] = useState(() => new Date().toISOString());
+  const attempt = log.received.find(({ id }) => id === challenge.id)?.attempts[0];
+
+  if (!attempt || attempt.playedAt < openedAt) {
+    return null;
+  }
+
+  const outcome = getChallengeOutcome(attempt.score, challenge.target);
+  const params = { name: challenge.from, target: format.number(challenge.target), score: format.number(attempt.score) };
+  return (
+    <div
+      role="status"
+      className={`flex flex-wrap items-center justify-between gap-3 rounded-3xl border px-6 py-4 text-sm ${
+        outcome === "won" ? "border-emerald-300/40 bg-emerald-500/10 text-emerald-50" : "border-rose-300/30 bg-rose-500/10 text-rose-50"
+      }`}
+      data-swipe-ignore="true"
+    >
+      <span>{outcome === "won" ? t("challenge.won", params) : t("challenge.lost", params)}</span>
+      <Link href="/challenges" className="text-xs uppercase tracking-[0.3em] text-white/70 transition hover:text-white">
+        {t("nav.challenges")}
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { useEffect, useState, useSyncExternalStore } from "react";
+import type { GameId } from "@/games/registry";
+import type { ControlBinding, InputAction } from "@/lib/input/types";
+import { useFormatters, useTranslations } from "@/lib/i18n/locale";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+import { CONTROLS, getKeyBindings } from "@/lib/input/catalogue";
+import { formatButton, formatKey, normalizeKey } from "@/lib/input/keys";
+import { keyBindingStore, rebindKey, resetKeyBindings } from "@/lib/input/store";
+
+const IGNORED_KEYS = new Set(["Shift", "Control", "Alt", "Meta", "Tab", "Escape"]);
+
+/** Lists a game's controls; pick an action, then press its new key. Controller buttons are fixed. */
+export default function ControlsEditor({ gameId }: { gameId: GameId }) {
+  const state = useSyncExternalStore(keyBindingStore.subscribe, keyBindingStore.read, keyBindingStore.getServerSnapshot);
+  const t = useTranslations(APP_MESSAGES);
+  const format = useFormatters();
+  const [listening, setListening] = useState<InputAction | null>(null);
+  const bindings = getKeyBindings(state, gameId);
+  const controls = Object.entries(CONTROLS[gameId]) as [InputAction, ControlBinding][];
+
+  useEffect(() => {
+    if (!listening) {
+      return;
+    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (IGNORED_KEYS.has(event.key)) {
+        return;
+      }
+      event.preventDefault();
+      rebindKey(gameId, listening, normalizeKey(event.key));
+      setListening(null);
+    };
+    window.addEventListener("keydown", handleKeyDown, { capture: true });
+    return () => window.removeEventListener("keydown", handleKeyDown, { capture: true });
+  }, [gameId, listening]);
+
+  if (controls.length === 0) {
+    return <p className="text-xs text-muted/60">{t("controls.none")}</p>;
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      <ul className="flex flex-col gap-2">
+        {controls.map(([action, control]) => {
+          const keys = bindings[action] ?? [];
+          return (
+            <li key={action} className="flex items-center justify-between gap-4 text-sm">
+              <span className="flex flex-col text-white/80">
+                {format.text(control.label)}
+                {control.buttons && (
+                  <span className="text-xs text-muted/60">{t("controls.controller", { buttons: control.buttons.map(formatButton).join(" · ") })}</span>
+                )}
+              </span>
+              <button
+                type="button"
+                onClick={() => setListening(listening === action ? null : action)}
+                aria-pressed={listening === action}
+                className={`min-w-24 rounded-full border px-4 py-1.5 font-mono text-xs transition ${
+                  listening === action
+                    ? "border-white/40 bg-white/15 text-white"
+                    : "border-white/10 text-muted/70 hover:border-white/30 hover:text-white"
+                }`}
+              >
+                {listening === action
+                  ? t("controls.pressKey")
+                  : keys.length > 0
+                    ? keys.map(formatKey).join(" · ")
+                    : t("controls.unbound")}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      <button
+        type="button"
+        onClick={() => {
+          setListening(null);
+          resetKeyBindings(gameId);
+        }}
+        className="self-start text-xs uppercase tracking-[0.25em] text-muted/60 transition hover:text-white"
+      >
+        {t("controls.reset")}
+      </button>
+    </div>
+  );
+}
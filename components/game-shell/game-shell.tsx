@@ -0,0 +1,144 @@
+"use client";
+
+import Link from "next/link";
+import type { CSSProperties, ReactNode } from "react";
+import { useCallback, useState } from "react";
+import type { HudDescriptor } from "@/components/game-shell/hud";
+import type { GameId } from "@/games/registry";
+import ProfileBadge from "@/components/account/profile-badge";
+import ChallengeResult from "@/components/game-shell/challenge-result";
+import ControlsEditor from "@/components/game-shell/controls-editor";
+import GameHud from "@/components/game-shell/hud";
+import ShareButton from "@/components/game-shell/share-button";
+import TournamentStatus from "@/components/game-shell/tournament-status";
+import SettingsButton from "@/components/settings/settings-button";
+import Dialog from "@/components/ui/dialog";
+import { getGame } from "@/games/registry";
+import { useFormatters, useTranslations } from "@/lib/i18n/locale";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+import { useInputActions } from "@/lib/input/use-input-actions";
+import { useGameSession } from "@/lib/replay/session";
+import { getDayIndex } from "@/lib/schedule";
+import { useAutoPause, useGamePause } from "@/lib/use-game-pause";
+
+type GameShellProps = {
+  gameId: GameId;
+  description: string;
+  hud: HudDescriptor;
+  /** How-to-play content shown from the help button, above the key remapping controls. */
+  help?: ReactNode;
+  /** True while a run is in progress; only running games can be paused. */
+  running: boolean;
+  /** Decorative layer rendered behind the content. */
+  backdrop?: ReactNode;
+  className?: string;
+  style?: CSSProperties;
+  wide?: boolean;
+  children: ReactNode;
+};
+
+const CHROME_BUTTON =
+  "inline-flex items-center justify-center rounded-full border border-white/10 px-3 py-2 text-white/70 transition hover:border-white/40 hover:text-white";
+
+/** Shared page chrome for every game: navigation, HUD, title, the pause, settings, help and share buttons, and the current profile. */
+export default function GameShell({
+  gameId,
+  description,
+  hud,
+  help,
+  running,
+  backdrop,
+  className = "",
+  style,
+  wide = false,
+  children,
+}: GameShellProps) {
+  const t = useTranslations(APP_MESSAGES);
+  const format = useFormatters();
+  const [helpOpen, setHelpOpen] = useState(false);
+  const closeHelp = useCallback(() => setHelpOpen(false), []);
+  const session = useGameSession();
+  const { paused, setPaused } = useGamePause();
+  const canPause = session.mode === "live" && running;
+  const resume = useCallback(() => setPaused(false), [setPaused]);
+  useAutoPause(running);
+
+  useInputActions(({ action, pressed }) => {
+    if (pressed && action === "pause" && (canPause || paused)) {
+      setPaused(!paused);
+    }
+  });
+  const { challenge, tournament } = session;
+  const shownHud = challenge
+    ? { ...hud, target: { label: t("challenge.target", { name: challenge.from }), value: challenge.target } }
+    : hud;
+  const game = getGame(gameId);
+  const dayName = game && format.weekday(getDayIndex(game.day));
+  const title = game?.title ?? gameId;
+
+  return (
+    <div className={`relative min-h-screen w-full overflow-hidden ${className}`} style={style}>
+      {backdrop}
+      <main
+        className={`relative z-10 mx-auto flex min-h-screen w-full ${wide ? "max-w-5xl" : "max-w-4xl"} flex-col gap-10 px-6 py-14 sm:px-10 lg:px-16`}
+      >
+        <div className="flex flex-wrap items-center justify-between gap-4 text-sm text-muted/70">
+          <div className="flex items-center gap-2" data-swipe-ignore="true">
+            <Link
+              href="/"
+              className="inline-flex items-center gap-2 rounded-full border border-white/10 px-4 py-2 text-muted/70 transition hover:border-white/40 hover:text-white"
+            >
+              <span aria-hidden>←</span>
+              {t("nav.back")}
+            </Link>
+            {canPause && (
+              <button type="button" onClick={() => setPaused(true)} aria-label={t("shell.pause")} className={CHROME_BUTTON}>
+                <span aria-hidden>❚❚</span>
+              </button>
+            )}
+            <SettingsButton />
+            {help && (
+              <button type="button" onClick={() => setHelpOpen(true)} aria-label={t("shell.howToPlay")} className={CHROME_BUTTON}>
+                <span aria-hidden>?</span>
+              </button>
+            )}
+            {hud.score && <ShareButton text={t("shell.shareText", { score: hud.score.value, title })} />}
+            <ProfileBadge />
+          </div>
+          <GameHud hud={shownHud} />
+        </div>
+
+        <header className="flex flex-col gap-3">
+          {dayName && <span className="text-xs uppercase tracking-[0.35em] text-muted/70">{dayName}</span>}
+          <h1 className="text-4xl font-semibold text-white sm:text-5xl">{title}</h1>
+          <p className="max-w-2xl text-sm text-muted sm:text-base">{description}</p>
+        </header>
+
+        {challenge && <ChallengeResult challenge={challenge} />}
+        {tournament && <TournamentStatus run={tournament} />}
+        {children}
+      </main>
+      {paused && (
+        <Dialog title={t("shell.paused")} onClose={resume} closeLabel={t("shell.resume")}>
+          <p className="text-sm leading-relaxed text-muted">{t("shell.pausedBody")}</p>
+          <button
+            type="button"
+            onClick={resume}
+            className="rounded-full border border-white/20 bg-white/10 px-6 py-3 text-sm font-semibold uppercase tracking-[0.3em] text-white transition hover:border-white/40 hover:bg-white/20"
+          >
+            {t("shell.resume")}
+          </button>
+        </Dialog>
+      )}
+      {helpOpen && (
+        <Dialog title={t("shell.howToPlay")} onClose={closeHelp}>
+          <div className="flex flex-col gap-3 text-sm leading-relaxed text-muted">{help}</div>
+          <div className="flex flex-col gap-3">
+            <span className="text-xs uppercase tracking-[0.3em] text-muted/70">{t("shell.controls")}</span>
+            <ControlsEditor gameId={gameId} />
+          </div>
+        </Dialog>
+      )}
+    </div>
+  );
+}
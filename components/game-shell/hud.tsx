@@ -0,0 +1,92 @@
+"use client";
+
+import { useFormatters, useTranslations } from "@/lib/i18n/locale";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+
+export type HudStat = {
+  /** Overrides the default label, e.g. Low Tide scores "Glow". */
+  label?: string;
+  value: number;
+};
+
+export type HudTimer = {
+  label: string;
+  remainingMs: number;
+};
+
+export type HudDescriptor = {
+  score?: HudStat;
+  best?: HudStat;
+  /** A score to beat, such as a friend's challenge; it lights up once the score passes it. */
+  target?: HudStat;
+  level?: HudStat;
+  lives?: HudStat & { total: number };
+  timers?: HudTimer[];
+  combo?: HudStat;
+  /** Highlighted status such as Tilt Drop's active tilt. */
+  alert?: string | null;
+};
+
+const PRIMARY_PILL = "rounded-full border border-white/10 px-4 py-2 text-white/80";
+const PILL = "rounded-full border border-white/5 px-4 py-2 text-muted/60";
+const TARGET_PILL = "rounded-full border border-dashed px-4 py-2 transition-colors";
+
+/** Renders whichever stats a game reports, always in the same order. */
+export default function GameHud({ hud }: { hud: HudDescriptor }) {
+  const { score, best, target, level, lives, timers = [], combo, alert } = hud;
+  const targetBeaten = Boolean(target && score && score.value > target.value);
+  const t = useTranslations(APP_MESSAGES);
+  const format = useFormatters();
+  const formatTimer = (remainingMs: number) =>
+    format.number(Math.max(0, Math.ceil(remainingMs / 1000)), { style: "unit", unit: "second", unitDisplay: "narrow" });
+
+  return (
+    <div className="flex flex-wrap items-center justify-end gap-3" data-swipe-ignore="true">
+      {score && (
+        <div className={PRIMARY_PILL}>
+          {score.label ?? t("hud.score")} <span className="font-mono text-muted/70">{format.number(score.value)}</span>
+        </div>
+      )}
+      {best && (
+        <div className={PILL}>
+          {best.label ?? t("hud.best")} <span className="font-mono">{format.number(best.value)}</span>
+        </div>
+      )}
+      {target && (
+        <div
+          className={`${TARGET_PILL} ${targetBeaten ? "border-emerald-300/50 text-emerald-100" : "border-white/20 text-muted/60"}`}
+        >
+          {target.label ?? t("hud.target")} <span className="font-mono">{format.number(target.value)}</span>
+        </div>
+      )}
+      {level && (
+        <div className={PILL}>
+          {level.label ?? t("hud.level")} <span className="font-mono">{format.number(level.value)}</span>
+        </div>
+      )}
+      {lives && (
+        <div className={PILL}>
+          {lives.label ?? t("hud.lives")}{" "}
+          <span className="font-mono">
+            {lives.value}/{lives.total}
+          </span>
+        </div>
+      )}
+      {timers.map((timer) => (
+        <div key={timer.label} className={PILL}>
+          {timer.label} <span className="font-mono">{formatTimer(timer.remainingMs)}</span>
+        </div>
+      ))}
+      {combo && (
+        <div className={PILL}>
+          {combo.label ?? t("hud.combo")} <span className="font-mono">×{format.number(combo.value)}</span>
+        </div>
+      )}
+      {alert && (
+        <div className="rounded-full border border-amber-300/40 bg-amber-500/10 px-4 py-2 text-xs uppercase tracking-[0.25em] text-amber-100 shadow-[0_0_20px_rgba(251,191,36,0.25)]">
+          {alert}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "@/lib/i18n/locale";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+import { shareLink } from "@/lib/share/client";
+
+const COPIED_FEEDBACK_MS = 2000;
+
+/** Shares the current score through the Web Share API, falling back to the clipboard. */
+export default function ShareButton({ text }: { text: string }) {
+  const t = useTranslations(APP_MESSAGES);
+  const [copied, setCopied] = useState(false);
+
+  const share = async () => {
+    if ((await shareLink({ text, url: window.location.href })) === "copied") {
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={share}
+      aria-label={t("share.label")}
+      data-swipe-ignore="true"
+      className="inline-flex items-center justify-center rounded-full border border-white/10 px-3 py-2 text-white/70 transition hover:border-white/40 hover:text-white"
+    >
+      {copied ? <span className="text-xs">{t("share.copied")}</span> : <span aria-hidden>↗</span>}
+    </button>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { GameId } from "@/games/registry";
+import type { GameRun } from "@/lib/run-history";
+import type { ShareSketch } from "@/lib/share/types";
+import { getGame } from "@/games/registry";
+import { useLocale, useTranslations } from "@/lib/i18n/locale";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+import { publishShareCard, shareLink } from "@/lib/share/client";
+import { shareCardPath } from "@/lib/share/types";
+
+const FEEDBACK_MS = 2000;
+
+const DEFAULT_CLASS =
+  "rounded-full border border-white/20 bg-white/10 px-6 py-2 text-xs font-semibold uppercase tracking-[0.3em] text-white transition hover:border-white/40 hover:bg-white/20";
+
+type ShareRunButtonProps = {
+  gameId: GameId;
+  /** The finished run to share; nothing renders until there is one. */
+  run: GameRun | null;
+  best: number;
+  /** Captures the final board for the card's picture, read when the player shares. */
+  sketch?: () => ShareSketch | null;
+  className?: string;
+};
+
+type Feedback = "copied" | "failed";
+
+/**
+ * Shares a finished run as a link to its score card. The card is uploaded as
+ * soon as the run is shown, so the click can open the share sheet or copy the
+ * link straight away; browsers only allow that within the click itself.
+ */
+export default function ShareRunButton({ gameId, run, best, sketch, className = DEFAULT_CLASS }: ShareRunButtonProps) {
+  const t = useTranslations(APP_MESSAGES);
+  const { locale } = useLocale();
+  const [published, setPublished] = useState<{ runId: string; ok: boolean } | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const [feedback, setFeedback] = useState<Feedback | null>(null);
+  const feedbackTimer = useRef<number | undefined>(undefined);
+  const card = useRef({ gameId, run, best, locale, sketch });
+
+  useEffect(() => {
+    card.current = { gameId, run, best, locale, sketch };
+  });
+
+  const runId = run?.id ?? null;
+  useEffect(() => {
+    const { gameId, run, best, locale, sketch } = card.current;
+    if (!run || run.id !== runId) {
+      return;
+    }
+    let cancelled = false;
+    void publishShareCard({
+      runId: run.id,
+      gameId,
+      score: run.score,
+      best: Math.max(best, run.score),
+      playedAt: run.playedAt,
+      locale,
+      sketch: sketch?.() ?? null,
+    }).then((ok) => {
+      if (!cancelled) {
+        setPublished({ runId: run.id, ok });
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [runId, attempt]);
+
+  useEffect(() => () => window.clearTimeout(feedbackTimer.current), []);
+
+  if (!run) {
+    return null;
+  }
+
+  const showBriefly = (shown: Feedback | null) => {
+    window.clearTimeout(feedbackTimer.current);
+    setFeedback(shown);
+    if (shown) {
+      feedbackTimer.current = window.setTimeout(() => setFeedback(null), FEEDBACK_MS);
+    }
+  };
+
+  const uploading = published?.runId !== run.id;
+  const uploadFailed = !uploading && !published.ok;
+
+  const share = async () => {
+    if (uploadFailed) {
+      // try the upload again; the player shares once it is through
+      setPublished(null);
+      setAttempt((count) => count + 1);
+      return;
+    }
+    const url = new URL(shareCardPath(gameId, run.id), window.location.origin).href;
+    const text = t("shell.shareText", { score: run.score, title: getGame(gameId)?.title ?? "" });
+    const outcome = await shareLink({ text, url });
+    showBriefly(outcome === "copied" || outcome === "failed" ? outcome : null);
+  };
+
+  const label = feedback
+    ? { copied: t("share.linkCopied"), failed: t("share.failed") }[feedback]
+    : uploading
+      ? t("share.uploading")
+      : uploadFailed
+        ? t("share.failed")
+        : t("share.run");
+
+  return (
+    <button
+      type="button"
+      onClick={share}
+      disabled={uploading}
+      data-swipe-ignore="true"
+      className={className}
+    >
+      {label}
+    </button>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import Link from "next/link";
+import { useSyncExternalStore } from "react";
+import type { TournamentAttemptStatus } from "@/lib/tournament/attempts";
+import type { TournamentRun } from "@/lib/tournament/types";
+import { useFormatters, useTranslations } from "@/lib/i18n/locale";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+import { findAttempt, tournamentAttemptStore } from "@/lib/tournament/attempts";
+
+const STATUS_STYLES: Record<TournamentAttemptStatus, string> = {
+  playing: "border-accent/50 bg-white/5 text-white/80",
+  sending: "border-white/20 bg-white/5 text-white/80",
+  recorded: "border-emerald-300/40 bg-emerald-500/10 text-emerald-50",
+  closed: "border-rose-300/30 bg-rose-500/10 text-rose-50",
+  failed: "border-rose-300/30 bg-rose-500/10 text-rose-50",
+};
+
+/** Where the session's tournament attempt stands: in play, being sent, or recorded. */
+export default function TournamentStatus({ run }: { run: TournamentRun }) {
+  const attempts = useSyncExternalStore(
+    tournamentAttemptStore.subscribe,
+    tournamentAttemptStore.read,
+    tournamentAttemptStore.getServerSnapshot,
+  );
+  const t = useTranslations(APP_MESSAGES);
+  const format = useFormatters();
+  const attempt = findAttempt(attempts, run.id);
+
+  if (!attempt) {
+    return null;
+  }
+
+  return (
+    <div
+      role="status"
+      className={`flex flex-wrap items-center justify-between gap-3 rounded-3xl border px-6 py-4 text-sm ${STATUS_STYLES[attempt.status]}`}
+      data-swipe-ignore="true"
+    >
+      <span>{t(`tournament.status.${attempt.status}`, { score: format.number(attempt.score ?? 0) })}</span>
+      <Link href="/tournament" className="text-xs uppercase tracking-[0.3em] text-white/70 transition hover:text-white">
+        {t("nav.tournament")}
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { useEffect } from "react";
+import type { GamepadButton } from "@/lib/input/gamepad";
+import { changedButtons, subscribeGamepad } from "@/lib/input/gamepad";
+
+const DIRECTIONS: Partial<Record<GamepadButton, { x: number; y: number }>> = {
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+};
+
+const center = (element: Element) => {
+  const rect = element.getBoundingClientRect();
+  return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+};
+
+/** The nearest target in the pushed direction, favouring ones in line with the current one. */
+const findNext = (targets: HTMLElement[], from: HTMLElement, direction: { x: number; y: number }) => {
+  const origin = center(from);
+  let best: HTMLElement | null = null;
+  let bestScore = Infinity;
+  for (const target of targets) {
+    const point = center(target);
+    const along = (point.x - origin.x) * direction.x + (point.y - origin.y) * direction.y;
+    if (target === from || along <= 0) {
+      continue;
+    }
+    const across = Math.abs((point.x - origin.x) * direction.y) + Math.abs((point.y - origin.y) * direction.x);
+    const score = along + across * 2;
+    if (score < bestScore) {
+      bestScore = score;
+      best = target;
+    }
+  }
+  return best;
+};
+
+/** Moves focus between `[data-gamepad-focus]` elements with the d-pad or stick; A activates. */
+export default function GamepadNavigation() {
+  useEffect(
+    () =>
+      subscribeGamepad((frame, previous) => {
+        changedButtons(frame, previous).forEach((button) => {
+          const targets = Array.from(document.querySelectorAll<HTMLElement>("[data-gamepad-focus]"));
+          const active = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+          if (button === "a" && active && targets.includes(active)) {
+            active.click();
+            return;
+          }
+          const direction = DIRECTIONS[button];
+          if (!direction) {
+            return;
+          }
+          const next = active && targets.includes(active) ? findNext(targets, active, direction) : targets[0];
+          next?.focus();
+        });
+      }),
+    [],
+  );
+
+  return null;
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "@/lib/i18n/locale";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+import { getGamepadName, subscribeGamepadConnection } from "@/lib/input/gamepad";
+
+const TOAST_MS = 3000;
+
+type ConnectionToast = { connected: boolean; name: string | null };
+
+/** Announces controllers as they connect and disconnect. */
+export default function GamepadStatus() {
+  const t = useTranslations(APP_MESSAGES);
+  const [toast, setToast] = useState<ConnectionToast | null>(null);
+
+  useEffect(() => {
+    let lastName: string | null = null;
+    let timer: number | null = null;
+    const unsubscribe = subscribeGamepadConnection(() => {
+      const name = getGamepadName();
+      if (name === lastName) {
+        return;
+      }
+      setToast(name ? { connected: true, name } : { connected: false, name: lastName });
+      lastName = name;
+      if (timer !== null) {
+        window.clearTimeout(timer);
+      }
+      timer = window.setTimeout(() => setToast(null), TOAST_MS);
+    });
+    return () => {
+      unsubscribe();
+      if (timer !== null) {
+        window.clearTimeout(timer);
+      }
+    };
+  }, []);
+
+  if (!toast) {
+    return null;
+  }
+
+  return (
+    <div className="pointer-events-none fixed bottom-6 left-6 z-50" aria-live="polite">
+      <div
+        className={`flex items-center gap-3 rounded-2xl border bg-slate-950/90 px-5 py-3 backdrop-blur ${
+          toast.connected ? "border-emerald-300/50" : "border-white/15"
+        }`}
+      >
+        <span className="text-2xl" aria-hidden>
+          🎮
+        </span>
+        <div className="flex flex-col">
+          <span className="text-[0.65rem] uppercase tracking-[0.3em] text-muted/80">
+            {toast.connected ? t("gamepad.connected") : t("gamepad.disconnected")}
+          </span>
+          <span className="max-w-56 truncate text-sm font-semibold text-white">{toast.name ?? t("gamepad.unnamed")}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import type { FormEvent } from "react";
+import { useEffect, useState } from "react";
+import type { LeagueJoinOutcome } from "@/lib/leagues/client";
+import type { LeagueSummary } from "@/lib/leagues/types";
+import { useTranslations } from "@/lib/i18n/locale";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+import { createLeague, fetchMyLeagues, joinLeague } from "@/lib/leagues/client";
+
+const PANEL = "flex flex-col gap-4 rounded-3xl border border-white/10 px-6 py-6";
+const INPUT =
+  "min-w-0 flex-1 rounded-full border border-white/10 bg-white/5 px-4 py-2 text-sm text-white placeholder:text-muted/50 focus:border-white/40 focus:outline-none";
+const BUTTON =
+  "rounded-full border border-white/20 bg-white/10 px-6 py-2 text-xs font-semibold uppercase tracking-[0.3em] text-white transition hover:border-white/40 hover:bg-white/20 disabled:opacity-50";
+const LINK_ROW =
+  "flex items-center justify-between gap-4 rounded-2xl border border-white/10 px-5 py-3 text-sm text-white/80 transition hover:border-white/30 hover:bg-white/5 hover:text-white";
+
+/** The player's leagues, with forms to create a league or join one by code. */
+export default function LeagueList({ initialCode = "" }: { initialCode?: string }) {
+  const t = useTranslations(APP_MESSAGES);
+  const router = useRouter();
+  const [leagues, setLeagues] = useState<LeagueSummary[] | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [name, setName] = useState("");
+  const [code, setCode] = useState(initialCode);
+  const [busy, setBusy] = useState(false);
+  const [createFailed, setCreateFailed] = useState(false);
+  const [joinFailure, setJoinFailure] = useState<Extract<LeagueJoinOutcome, { ok: false }>["reason"] | null>(null);
+
+  useEffect(() => {
+    fetchMyLeagues()
+      .then(setLeagues)
+      .catch(() => setLoadFailed(true));
+  }, []);
+
+  const create = async (event: FormEvent) => {
+    event.preventDefault();
+    setBusy(true);
+    try {
+      const league = await createLeague(name);
+      router.push(`/leagues/${league.id}`);
+    } catch {
+      setCreateFailed(true);
+      setBusy(false);
+    }
+  };
+
+  const join = async (event: FormEvent) => {
+    event.preventDefault();
+    setBusy(true);
+    const outcome = await joinLeague(code);
+    if (outcome.ok) {
+      router.push(`/leagues/${outcome.league.id}`);
+      return;
+    }
+    setJoinFailure(outcome.reason);
+    setBusy(false);
+  };
+
+  return (
+    <div className="flex flex-col gap-8">
+      <section className="flex flex-col gap-4">
+        <h2 className="text-xs uppercase tracking-[0.3em] text-muted/70">{t("leagues.mine")}</h2>
+        {!leagues ? (
+          <p className="text-sm text-muted">{loadFailed ? t("leagues.loadFailed") : t("leagues.loading")}</p>
+        ) : leagues.length === 0 ? (
+          <p className="rounded-3xl border border-white/10 px-6 py-10 text-center text-sm text-muted">{t("leagues.empty")}</p>
+        ) : (
+          <ul className="flex flex-col gap-2">
+            {leagues.map((league) => (
+              <li key={league.id}>
+                <Link href={`/leagues/${league.id}`} className={LINK_ROW}>
+                  <span className="text-white">{league.name}</span>
+                  <span className="text-xs text-muted/70">{t("leagues.members", { count: league.members })}</span>
+                  <span className="font-mono text-xs tracking-[0.3em] text-muted/70">{league.code}</span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+      <div className="grid gap-4 sm:grid-cols-2">
+        <form onSubmit={join} className={PANEL}>
+          <h2 className="text-xs uppercase tracking-[0.3em] text-muted/70">{t("leagues.join")}</h2>
+          <div className="flex gap-2">
+            <input
+              value={code}
+              onChange={(event) => setCode(event.target.value)}
+              placeholder={t("leagues.codePlaceholder")}
+              aria-label={t("leagues.code")}
+              autoCapitalize="characters"
+              maxLength={12}
+              required
+              className={`${INPUT} font-mono uppercase tracking-[0.3em]`}
+            />
+            <button type="submit" disabled={busy} className={BUTTON}>
+              {t("leagues.joinAction")}
+            </button>
+          </div>
+          {joinFailure && <p className="text-sm text-rose-200">{t(`leagues.joinFailed.${joinFailure}`)}</p>}
+        </form>
+        <form onSubmit={create} className={PANEL}>
+          <h2 className="text-xs uppercase tracking-[0.3em] text-muted/70">{t("leagues.create")}</h2>
+          <div className="flex gap-2">
+            <input
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder={t("leagues.namePlaceholder")}
+              aria-label={t("leagues.namePlaceholder")}
+              maxLength={32}
+              required
+              className={INPUT}
+            />
+            <button type="submit" disabled={busy} className={BUTTON}>
+              {t("leagues.createAction")}
+            </button>
+          </div>
+          {createFailed && <p className="text-sm text-rose-200">{t("leagues.createFailed")}</p>}
+        </form>
+      </div>
+    </div>
+  );
+}
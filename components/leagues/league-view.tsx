@@ -0,0 +1,180 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import type { GameId } from "@/games/registry";
+import type { LeagueBoard, LeagueDetails, LeagueWindow } from "@/lib/leagues/types";
+import { GAMES, getGame, isGamePlayable } from "@/games/registry";
+import { useFormatters, useTranslations } from "@/lib/i18n/locale";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+import { fetchLeague, fetchLeagueBoard, leaveLeague } from "@/lib/leagues/client";
+import { LEAGUE_WINDOWS } from "@/lib/leagues/types";
+import { getCurrentProfile } from "@/lib/player";
+import { shareLink } from "@/lib/share/client";
+
+const PLAYABLE_GAMES = GAMES.filter(isGamePlayable);
+
+const ROW = "flex items-center justify-between gap-4 rounded-2xl border border-white/10 px-5 py-3 text-sm text-white/80";
+const CHROME_BUTTON =
+  "rounded-full border border-white/10 px-4 py-2 text-xs uppercase tracking-[0.25em] text-muted/80 transition hover:border-white/40 hover:text-white";
+const TAB = "rounded-full border px-4 py-2 text-xs uppercase tracking-[0.2em] transition";
+const TAB_ACTIVE = "border-white/40 bg-white/10 text-white";
+const TAB_IDLE = "border-white/10 text-muted/70 hover:border-white/30 hover:text-white";
+
+const Board = ({ leagueId, playerId, todayGameId }: { leagueId: string; playerId: string | null; todayGameId: GameId | null }) => {
+  const t = useTranslations(APP_MESSAGES);
+  const format = useFormatters();
+  const [gameId, setGameId] = useState<GameId>(todayGameId ?? PLAYABLE_GAMES[0].id);
+  const [timeWindow, setTimeWindow] = useState<LeagueWindow>("daily");
+  const [board, setBoard] = useState<LeagueBoard | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchLeagueBoard(leagueId, gameId, timeWindow)
+      .then((next) => {
+        if (!cancelled) {
+          setBoard(next);
+        }
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [leagueId, gameId, timeWindow]);
+
+  const shown = board?.game === gameId && board.window === timeWindow ? board : null;
+
+  return (
+    <section className="flex flex-col gap-4">
+      <h2 className="text-xs uppercase tracking-[0.3em] text-muted/70">{t("leagues.boards")}</h2>
+      <div className="flex flex-wrap gap-2">
+        {PLAYABLE_GAMES.map((game) => (
+          <button
+            key={game.id}
+            type="button"
+            onClick={() => setGameId(game.id)}
+            aria-pressed={game.id === gameId}
+            className={`${TAB} ${game.id === gameId ? TAB_ACTIVE : TAB_IDLE}`}
+          >
+            {game.title}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        {LEAGUE_WINDOWS.map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setTimeWindow(option)}
+            aria-pressed={option === timeWindow}
+            className={`${TAB} ${option === timeWindow ? TAB_ACTIVE : TAB_IDLE}`}
+          >
+            {t(`leagues.window.${option}`)}
+          </button>
+        ))}
+      </div>
+      {shown && shown.entries.length === 0 && (
+        <p className="rounded-3xl border border-white/10 px-6 py-10 text-center text-sm text-muted">{t("leagues.boardEmpty")}</p>
+      )}
+      {shown && shown.entries.length > 0 && (
+        <ol className="flex flex-col gap-2">
+          {shown.entries.map((entry) => (
+            <li key={entry.id} className={`${ROW} ${entry.playerId === playerId ? "bg-white/5" : ""}`}>
+              <span className="flex items-center gap-4">
+                <span className="w-6 font-mono text-muted/70">{entry.rank}</span>
+                <span className="text-white">{entry.playerName}</span>
+              </span>
+              <span className="font-mono">{format.number(entry.score)}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+};
+
+/** A league's invite code, who has played today's game, and its per-game boards. */
+export default function LeagueView({ leagueId }: { leagueId: string }) {
+  const t = useTranslations(APP_MESSAGES);
+  const format = useFormatters();
+  const router = useRouter();
+  const [details, setDetails] = useState<LeagueDetails | null | "missing">(null);
+  const [playerId, setPlayerId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPlayerId(getCurrentProfile().id);
+    fetchLeague(leagueId)
+      .then((next) => setDetails(next ?? "missing"))
+      .catch(() => setDetails("missing"));
+  }, [leagueId]);
+
+  if (details === null) {
+    return <p className="text-sm text-muted">{t("leagues.loading")}</p>;
+  }
+  if (details === "missing") {
+    return (
+      <div className="flex flex-col gap-4">
+        <h1 className="text-3xl font-semibold text-white">{t("leagues.notFound")}</h1>
+        <p className="text-sm text-muted">{t("leagues.notFoundBody")}</p>
+      </div>
+    );
+  }
+
+  const { league, members, today } = details;
+  const todayGame = today.gameId ? getGame(today.gameId) : undefined;
+
+  const invite = () => {
+    const url = new URL(`/leagues?code=${league.code}`, window.location.origin).href;
+    void shareLink({ text: t("leagues.inviteText", { name: league.name, code: league.code }), url });
+  };
+
+  const leave = async () => {
+    await leaveLeague(league.id);
+    router.push("/leagues");
+  };
+
+  return (
+    <div className="flex flex-col gap-8">
+      <header className="flex flex-col gap-4">
+        <h1 className="text-4xl font-semibold leading-tight text-white">{league.name}</h1>
+        <div className="flex flex-wrap items-center gap-3 text-sm text-muted">
+          <span>{t("leagues.members", { count: members.length })}</span>
+          <span className="text-muted/40">·</span>
+          <span>
+            {t("leagues.code")} <span className="font-mono tracking-[0.3em] text-white">{league.code}</span>
+          </span>
+          <button type="button" onClick={invite} className={CHROME_BUTTON}>
+            {t("leagues.invite")}
+          </button>
+          <button type="button" onClick={leave} className={CHROME_BUTTON}>
+            {t("leagues.leave")}
+          </button>
+        </div>
+      </header>
+      <section className="flex flex-col gap-4">
+        <h2 className="text-xs uppercase tracking-[0.3em] text-muted/70">
+          {todayGame ? t("leagues.today", { title: todayGame.title }) : t("leagues.todayNone")}
+        </h2>
+        {todayGame && (
+          <ul className="flex flex-col gap-2">
+            {today.rows.map((row) => (
+              <li key={row.playerId} className={`${ROW} ${row.playerId === playerId ? "bg-white/5" : ""}`}>
+                <span className="flex items-center gap-3">
+                  <span aria-hidden className={row.best === null ? "text-muted/40" : "text-emerald-300"}>
+                    {row.best === null ? "○" : "●"}
+                  </span>
+                  <span className="text-white">{row.playerName}</span>
+                </span>
+                <span className={row.best === null ? "text-xs text-muted/60" : "font-mono"}>
+                  {row.best === null ? t("leagues.waiting") : format.number(row.best)}
+                  <span className="sr-only">{row.best === null ? "" : ` · ${t("leagues.played")}`}</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+      <Board leagueId={league.id} playerId={playerId} todayGameId={todayGame && isGamePlayable(todayGame) ? todayGame.id : null} />
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+"use client";
+
+import { useEffect } from "react";
+import { flushPendingSubmissions } from "@/lib/leaderboards/client";
+
+/** Sends runs queued while offline on launch and whenever the connection returns. */
+export default function OfflineSync() {
+  useEffect(() => {
+    const flush = () => void flushPendingSubmissions();
+    flush();
+    window.addEventListener("online", flush);
+    return () => window.removeEventListener("online", flush);
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useTranslations } from "@/lib/i18n/locale";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+
+/** Registers the service worker and offers a reload once a new build has installed. */
+export default function UpdatePrompt() {
+  const t = useTranslations(APP_MESSAGES);
+  const [waiting, setWaiting] = useState<ServiceWorker | null>(null);
+  const acceptedRef = useRef(false);
+
+  useEffect(() => {
+    // dev builds change on every save; only production installs the worker
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) {
+      return;
+    }
+    let registration: ServiceWorkerRegistration | null = null;
+    let cancelled = false;
+
+    const offer = (worker: ServiceWorker | null) => {
+      // without a controller this is the first install, not an update
+      if (worker && navigator.serviceWorker.controller && !cancelled) {
+        setWaiting(worker);
+      }
+    };
+    const handleUpdateFound = () => {
+      const installing = registration?.installing;
+      installing?.addEventListener("statechange", () => {
+        if (installing.state === "installed") {
+          offer(installing);
+        }
+      });
+    };
+    const handleControllerChange = () => {
+      if (acceptedRef.current) {
+        window.location.reload();
+      }
+    };
+    const handleVisibility = () => {
+      if (document.visibilityState === "visible") {
+        void registration?.update().catch(() => undefined);
+      }
+    };
+
+    navigator.serviceWorker
+      .register("/sw.js")
+      .then((registered) => {
+        registration = registered;
+        offer(registered.waiting);
+        registered.addEventListener("updatefound", handleUpdateFound);
+      })
+      .catch(() => undefined);
+    navigator.serviceWorker.addEventListener("controllerchange", handleControllerChange);
+    document.addEventListener("visibilitychange", handleVisibility);
+    return () => {
+      cancelled = true;
+      registration?.removeEventListener("updatefound", handleUpdateFound);
+      navigator.serviceWorker.removeEventListener("controllerchange", handleControllerChange);
+      document.removeEventListener("visibilitychange", handleVisibility);
+    };
+  }, []);
+
+  if (!waiting) {
+    return null;
+  }
+
+  return (
+    <div className="fixed bottom-6 right-6 z-50" role="status" aria-live="polite">
+      <div className="flex items-center gap-4 rounded-2xl border border-sky-300/40 bg-slate-950/90 px-5 py-3 backdrop-blur">
+        <div className="flex flex-col">
+          <span className="text-[0.65rem] uppercase tracking-[0.3em] text-muted/80">{t("update.available")}</span>
+          <span className="text-sm font-semibold text-white">{t("update.body")}</span>
+        </div>
+        <button
+          type="button"
+          onClick={() => {
+            acceptedRef.current = true;
+            waiting.postMessage({ type: "SKIP_WAITING" });
+          }}
+          className="rounded-full border border-white/20 px-4 py-1.5 text-xs uppercase tracking-[0.25em] text-white transition hover:border-white/50"
+        >
+          {t("update.reload")}
+        </button>
+        <button
+          type="button"
+          onClick={() => setWaiting(null)}
+          aria-label={t("update.dismiss")}
+          className="text-muted/60 transition hover:text-white"
+        >
+          ✕
+        </button>
+      </div>
+    </div>
+  );
+}
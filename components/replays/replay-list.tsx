@@ -0,0 +1,51 @@
+"use client";
+
+import Link from "next/link";
+import { useSyncExternalStore } from "react";
+import { GAMES } from "@/games/registry";
+import { useFormatters, useTranslations } from "@/lib/i18n/locale";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+import { formatFrames, recordingStore } from "@/lib/replay/recording";
+
+const RECORDED_AT_FORMAT: Intl.DateTimeFormatOptions = { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" };
+
+export default function ReplayList() {
+  const archive = useSyncExternalStore(recordingStore.subscribe, recordingStore.read, recordingStore.getServerSnapshot);
+  const t = useTranslations(APP_MESSAGES);
+  const format = useFormatters();
+  const groups = GAMES.map((game) => ({ game, recordings: archive[game.id] ?? [] })).filter(
+    ({ recordings }) => recordings.length > 0,
+  );
+
+  if (groups.length === 0) {
+    return (
+      <p className="rounded-3xl border border-white/10 px-6 py-10 text-center text-sm text-muted">
+        {t("replays.empty")}
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-8">
+      {groups.map(({ game, recordings }) => (
+        <section key={game.id} className="flex flex-col gap-3">
+          <h2 className="text-xs uppercase tracking-[0.35em] text-muted/70">{game.title}</h2>
+          <ul className="flex flex-col gap-2">
+            {recordings.map((recording) => (
+              <li key={recording.runId}>
+                <Link
+                  href={`/replays/${recording.runId}`}
+                  className="flex items-center justify-between gap-4 rounded-2xl border border-white/10 px-5 py-3 text-sm text-white/80 transition hover:border-white/30 hover:bg-white/5 hover:text-white"
+                >
+                  <span className="font-mono text-white">{format.number(recording.score)}</span>
+                  <span className="text-muted/70">{format.date(recording.recordedAt, RECORDED_AT_FORMAT)}</span>
+                  <span className="font-mono text-muted/70">{formatFrames(recording.frames)}</span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </section>
+      ))}
+    </div>
+  );
+}
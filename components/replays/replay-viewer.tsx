@@ -0,0 +1,226 @@
+"use client";
+
+import Link from "next/link";
+import type { ComponentType } from "react";
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from "react";
+import type { GameProps } from "@/games/registry";
+import type { ReplayDriver } from "@/lib/replay/session";
+import { getGame } from "@/games/registry";
+import { useFormatters, useTranslations } from "@/lib/i18n/locale";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+import { FRAME_MS } from "@/lib/replay/clock";
+import { findRecording, formatFrames, recordingStore } from "@/lib/replay/recording";
+import { GameSessionProvider, createReplayDriver } from "@/lib/replay/session";
+
+const PLAYBACK_RATES = [0.5, 1, 2, 4];
+// Frames simulated per animation frame while catching up to a scrub target.
+const SEEK_FRAMES_PER_TICK = 600;
+
+type ActiveReplay = {
+  driver: ReplayDriver;
+  epoch: number;
+};
+
+export default function ReplayViewer({ runId }: { runId: string }) {
+  const archive = useSyncExternalStore(recordingStore.subscribe, recordingStore.read, recordingStore.getServerSnapshot);
+  const t = useTranslations(APP_MESSAGES);
+  const format = useFormatters();
+  const recording = findRecording(archive, runId);
+  const game = recording ? getGame(recording.gameId) : undefined;
+
+  const [Game, setGame] = useState<ComponentType<GameProps> | null>(null);
+  const [replay, setReplay] = useState<ActiveReplay | null>(null);
+  const [frame, setFrame] = useState(0);
+  const [playing, setPlaying] = useState(true);
+  const [rate, setRate] = useState(1);
+  const [replayedScore, setReplayedScore] = useState<number | null>(null);
+  const targetFrameRef = useRef(0);
+  const epochRef = useRef(0);
+
+  useEffect(() => {
+    if (!game?.load) {
+      return;
+    }
+    let cancelled = false;
+    void game.load().then((module) => {
+      if (!cancelled) {
+        setGame(() => module.default);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [game]);
+
+  /** Replays can only run forward, so seeking backwards remounts the game and fast-forwards. */
+  const restartAt = useCallback(
+    (targetFrame: number) => {
+      if (!recording) {
+        return;
+      }
+      epochRef.current += 1;
+      targetFrameRef.current = targetFrame;
+      setReplayedScore(null);
+      setFrame(0);
+      setReplay({ driver: createReplayDriver(recording, setReplayedScore), epoch: epochRef.current });
+    },
+    [recording],
+  );
+
+  useEffect(() => {
+    restartAt(0);
+  }, [restartAt]);
+
+  useEffect(() => {
+    if (!replay || !recording) {
+      return;
+    }
+    const { driver } = replay;
+    let handle = 0;
+    let last: number | null = null;
+
+    const loop = (time: number) => {
+      const elapsed = last === null ? 0 : time - last;
+      last = time;
+
+      if (driver.ready()) {
+        const caughtUp = driver.frame() >= Math.floor(targetFrameRef.current);
+        if (playing && caughtUp) {
+          targetFrameRef.current = Math.min(recording.frames, targetFrameRef.current + (elapsed * rate) / FRAME_MS);
+        }
+        const reached = driver.advanceTo(Math.floor(targetFrameRef.current), SEEK_FRAMES_PER_TICK);
+        setFrame(driver.frame());
+        if (reached && driver.frame() >= recording.frames) {
+          setPlaying(false);
+        }
+      }
+
+      handle = window.requestAnimationFrame(loop);
+    };
+
+    handle = window.requestAnimationFrame(loop);
+    return () => window.cancelAnimationFrame(handle);
+  }, [playing, rate, recording, replay]);
+
+  const handleScrub = (targetFrame: number) => {
+    if (!replay) {
+      return;
+    }
+    if (targetFrame < replay.driver.frame()) {
+      restartAt(targetFrame);
+      return;
+    }
+    targetFrameRef.current = targetFrame;
+  };
+
+  const handlePlayToggle = () => {
+    if (!recording) {
+      return;
+    }
+    if (!playing && frame >= recording.frames) {
+      restartAt(0);
+    }
+    setPlaying((current) => !current);
+  };
+
+  if (!recording || !game) {
+    return (
+      <div className="mx-auto flex min-h-screen w-full max-w-3xl flex-col items-start gap-6 px-6 py-16 sm:px-10">
+        <Link
+          href="/replays"
+          className="inline-flex items-center gap-2 rounded-full border border-white/10 px-4 py-2 text-sm text-muted/70 transition hover:border-white/40 hover:text-white"
+        >
+          <span aria-hidden>←</span>
+          {t("nav.replays")}
+        </Link>
+        <h1 className="text-3xl font-semibold text-white">{t("replays.notFound")}</h1>
+        <p className="text-sm text-muted">{t("replays.notFoundBody")}</p>
+      </div>
+    );
+  }
+
+  const scoreMatches = replayedScore === null ? null : replayedScore === recording.score;
+
+  return (
+    <div className="relative min-h-screen w-full">
+      <div className="sticky top-0 z-50 border-b border-white/10 bg-slate-950/85 backdrop-blur">
+        <div className="mx-auto flex w-full max-w-5xl flex-col gap-4 px-6 py-4 sm:px-10">
+          <div className="flex flex-wrap items-center justify-between gap-3 text-sm text-muted/70">
+            <Link
+              href="/replays"
+              className="inline-flex items-center gap-2 rounded-full border border-white/10 px-4 py-2 text-muted/70 transition hover:border-white/40 hover:text-white"
+            >
+              <span aria-hidden>←</span>
+              {t("nav.replays")}
+            </Link>
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="text-xs uppercase tracking-[0.35em] text-muted/70">{t("replays.heading", { title: game.title })}</span>
+              <div className="rounded-full border border-white/10 px-4 py-2 text-white/80">
+                {t("replays.recorded")} <span className="font-mono text-muted/70">{format.number(recording.score)}</span>
+              </div>
+              {scoreMatches !== null && (
+                <div
+                  className={`rounded-full border px-4 py-2 ${
+                    scoreMatches
+                      ? "border-emerald-400/50 bg-emerald-500/10 text-emerald-100"
+                      : "border-rose-400/50 bg-rose-500/10 text-rose-100"
+                  }`}
+                >
+                  {t("replays.replayed")} <span className="font-mono">{format.number(replayedScore ?? 0)}</span>
+                </div>
+              )}
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-3 text-xs uppercase tracking-[0.3em] text-muted/70">
+            <button
+              type="button"
+              onClick={handlePlayToggle}
+              className="rounded-full border border-white/15 bg-white/5 px-5 py-2 text-white transition hover:border-white/30 hover:bg-white/15"
+            >
+              {playing ? t("replays.pause") : t("replays.play")}
+            </button>
+            <div className="flex items-center gap-1">
+              {PLAYBACK_RATES.map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setRate(option)}
+                  aria-pressed={rate === option}
+                  className={`rounded-full border px-3 py-2 font-mono transition ${
+                    rate === option
+                      ? "border-white/40 bg-white/15 text-white"
+                      : "border-white/10 text-muted/70 hover:border-white/30 hover:text-white"
+                  }`}
+                >
+                  {format.number(option)}x
+                </button>
+              ))}
+            </div>
+            <span className="font-mono normal-case tracking-normal text-white/70">
+              {formatFrames(frame)} / {formatFrames(recording.frames)}
+            </span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={recording.frames}
+            step={1}
+            value={Math.min(frame, recording.frames)}
+            onChange={(event) => handleScrub(Number(event.target.value))}
+            aria-label={t("replays.position")}
+            className="w-full accent-emerald-400"
+          />
+        </div>
+      </div>
+
+      {/* the replay drives the game; the viewer's own input is blocked */}
+      <div className="pointer-events-none select-none">
+        {Game && replay && (
+          <GameSessionProvider key={replay.epoch} session={replay.driver.session}>
+            <Game seed={recording.seed} />
+          </GameSessionProvider>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+"use client";
+
+import { useEffect } from "react";
+import { unlockAudio } from "@/lib/audio/engine";
+
+const GESTURES = ["pointerdown", "keydown", "touchstart"] as const;
+
+/** Unlocks Web Audio on the first user gesture anywhere in the app. */
+export default function AudioUnlock() {
+  useEffect(() => {
+    const handleGesture = () => {
+      unlockAudio();
+      GESTURES.forEach((gesture) => window.removeEventListener(gesture, handleGesture, { capture: true }));
+    };
+    GESTURES.forEach((gesture) => window.addEventListener(gesture, handleGesture, { capture: true }));
+    return () => {
+      GESTURES.forEach((gesture) => window.removeEventListener(gesture, handleGesture, { capture: true }));
+    };
+  }, []);
+
+  return null;
+}
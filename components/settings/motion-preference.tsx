@@ -0,0 +1,15 @@
+"use client";
+
+import { useEffect } from "react";
+import { useReducedMotion } from "@/lib/settings/use-settings";
+
+/** Mirrors the resolved motion setting onto `<html data-motion>` so CSS can calm transitions everywhere. */
+export default function MotionPreference() {
+  const reducedMotion = useReducedMotion();
+
+  useEffect(() => {
+    document.documentElement.dataset.motion = reducedMotion ? "reduced" : "full";
+  }, [reducedMotion]);
+
+  return null;
+}
@@ -0,0 +1,33 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import SettingsPanel from "@/components/settings/settings-panel";
+import Dialog from "@/components/ui/dialog";
+import { useTranslations } from "@/lib/i18n/locale";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+
+/** Opens the global settings panel. Shown in the home header and every game header. */
+export default function SettingsButton({ className = "" }: { className?: string }) {
+  const t = useTranslations(APP_MESSAGES);
+  const [open, setOpen] = useState(false);
+  const close = useCallback(() => setOpen(false), []);
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        aria-label={t("settings.title")}
+        data-swipe-ignore="true"
+        className={`inline-flex items-center justify-center rounded-full border border-white/10 px-3 py-2 text-white/70 transition hover:border-white/40 hover:text-white ${className}`}
+      >
+        <span aria-hidden>⚙</span>
+      </button>
+      {open && (
+        <Dialog title={t("settings.title")} onClose={close}>
+          <SettingsPanel />
+        </Dialog>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import type { ReactNode } from "react";
+import type { AppMessageKey } from "@/lib/i18n/messages";
+import type { ColorVisionMode, MotionPreference, SwipeSensitivity } from "@/lib/settings/store";
+import { useLocale, useTranslations } from "@/lib/i18n/locale";
+import { LOCALES, LOCALE_NAMES } from "@/lib/i18n/locales";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+import { resetSettings, updateSettings } from "@/lib/settings/store";
+import { useSavedSettings } from "@/lib/settings/use-settings";
+
+type Option<T extends string> = { value: T; label: string };
+
+const MOTION_OPTIONS: { value: MotionPreference; label: AppMessageKey }[] = [
+  { value: "system", label: "settings.motion.system" },
+  { value: "reduced", label: "settings.motion.reduced" },
+  { value: "full", label: "settings.motion.full" },
+];
+
+const COLOR_VISION_OPTIONS: { value: ColorVisionMode; label: AppMessageKey }[] = [
+  { value: "standard", label: "settings.colorVision.standard" },
+  { value: "protanopia", label: "settings.colorVision.protanopia" },
+  { value: "deuteranopia", label: "settings.colorVision.deuteranopia" },
+  { value: "tritanopia", label: "settings.colorVision.tritanopia" },
+];
+
+const SWIPE_OPTIONS: { value: SwipeSensitivity; label: AppMessageKey }[] = [
+  { value: "low", label: "settings.swipe.low" },
+  { value: "medium", label: "settings.swipe.medium" },
+  { value: "high", label: "settings.swipe.high" },
+];
+
+// Languages are always listed in their own name.
+const LOCALE_OPTIONS = LOCALES.map((locale) => ({ value: locale, label: LOCALE_NAMES[locale] }));
+
+const Field = ({ label, hint, children }: { label: string; hint?: string; children: ReactNode }) => (
+  <div className="flex flex-col gap-2">
+    <span className="text-xs uppercase tracking-[0.3em] text-muted/70">{label}</span>
+    {children}
+    {hint && <span className="text-xs text-muted/60">{hint}</span>}
+  </div>
+);
+
+const Segmented = <T extends string>({
+  options,
+  value,
+  onChange,
+}: {
+  options: Option<T>[];
+  value: T;
+  onChange: (value: T) => void;
+}) => (
+  <div className="flex flex-wrap gap-2">
+    {options.map((option) => (
+      <button
+        key={option.value}
+        type="button"
+        onClick={() => onChange(option.value)}
+        aria-pressed={value === option.value}
+        className={`rounded-full border px-4 py-2 text-sm transition ${
+          value === option.value
+            ? "border-white/40 bg-white/15 text-white"
+            : "border-white/10 text-muted/70 hover:border-white/30 hover:text-white"
+        }`}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
+
+export default function SettingsPanel() {
+  const settings = useSavedSettings();
+  const { locale, setLocale } = useLocale();
+  const t = useTranslations(APP_MESSAGES);
+  const translated = <T extends string>(options: { value: T; label: AppMessageKey }[]): Option<T>[] =>
+    options.map(({ value, label }) => ({ value, label: t(label) }));
+
+  return (
+    <div className="flex flex-col gap-6">
+      <Field label={t("settings.language")}>
+        <Segmented options={LOCALE_OPTIONS} value={locale} onChange={setLocale} />
+      </Field>
+      <Field label={t("settings.volume")}>
+        <div className="flex items-center gap-4">
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={5}
+            value={Math.round(settings.volume * 100)}
+            onChange={(event) => updateSettings({ volume: Number(event.target.value) / 100 })}
+            aria-label={t("settings.volume")}
+            className="flex-1 accent-emerald-400"
+          />
+          <span className="w-10 text-right font-mono text-sm text-white/80">{Math.round(settings.volume * 100)}</span>
+          <button
+            type="button"
+            onClick={() => updateSettings({ muted: !settings.muted })}
+            aria-pressed={settings.muted}
+            className={`rounded-full border px-4 py-2 text-sm transition ${
+              settings.muted
+                ? "border-rose-300/50 bg-rose-500/10 text-rose-100"
+                : "border-white/10 text-muted/70 hover:border-white/30 hover:text-white"
+            }`}
+          >
+            {settings.muted ? t("settings.muted") : t("settings.mute")}
+          </button>
+        </div>
+      </Field>
+      <Field label={t("settings.motion")} hint={t("settings.motionHint")}>
+        <Segmented options={translated(MOTION_OPTIONS)} value={settings.motion} onChange={(motion) => updateSettings({ motion })} />
+      </Field>
+      <Field label={t("settings.colorVision")} hint={t("settings.colorVisionHint")}>
+        <Segmented
+          options={translated(COLOR_VISION_OPTIONS)}
+          value={settings.colorVision}
+          onChange={(colorVision) => updateSettings({ colorVision })}
+        />
+      </Field>
+      <Field label={t("settings.swipe")} hint={t("settings.swipeHint")}>
+        <Segmented
+          options={translated(SWIPE_OPTIONS)}
+          value={settings.swipeSensitivity}
+          onChange={(swipeSensitivity) => updateSettings({ swipeSensitivity })}
+        />
+      </Field>
+      <Field label={t("settings.layout")}>
+        <Segmented
+          options={[
+            { value: "right", label: t("settings.layout.right") },
+            { value: "left", label: t("settings.layout.left") },
+          ]}
+          value={settings.leftHanded ? "left" : "right"}
+          onChange={(hand) => updateSettings({ leftHanded: hand === "left" })}
+        />
+      </Field>
+      <button
+        type="button"
+        onClick={resetSettings}
+        className="self-start text-xs uppercase tracking-[0.3em] text-muted/60 transition hover:text-white"
+      >
+        {t("settings.reset")}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+export type ChartBar = {
+  key: string;
+  label: string;
+  value: number;
+};
+
+type BarChartProps = {
+  title: string;
+  bars: ChartBar[];
+  formatValue: (value: number) => string;
+  /** Defaults to the largest value, so the longest bar fills the track. */
+  max?: number;
+};
+
+const WIDTH = 600;
+const LABEL_WIDTH = 200;
+const VALUE_WIDTH = 80;
+const ROW_HEIGHT = 28;
+const BAR_HEIGHT = 14;
+
+/** Horizontal bars, one labelled row per value. */
+export default function BarChart({ title, bars, formatValue, max }: BarChartProps) {
+  const scaleMax = max ?? Math.max(...bars.map(({ value }) => value), 0);
+  const track = WIDTH - LABEL_WIDTH - VALUE_WIDTH;
+  const height = bars.length * ROW_HEIGHT;
+
+  return (
+    <svg role="img" aria-label={title} viewBox={`0 0 ${WIDTH} ${height}`} className="w-full">
+      {bars.map(({ key, label, value }, index) => {
+        const y = index * ROW_HEIGHT;
+        const width = scaleMax > 0 ? (value / scaleMax) * track : 0;
+        return (
+          <g key={key}>
+            <text x={0} y={y + ROW_HEIGHT / 2} dominantBaseline="middle" className="fill-white/70 text-[13px]">
+              {label}
+            </text>
+            <rect x={LABEL_WIDTH} y={y + (ROW_HEIGHT - BAR_HEIGHT) / 2} width={track} height={BAR_HEIGHT} rx={7} className="fill-white/5" />
+            <rect
+              x={LABEL_WIDTH}
+              y={y + (ROW_HEIGHT - BAR_HEIGHT) / 2}
+              width={width}
+              height={BAR_HEIGHT}
+              rx={7}
+              className="fill-cyan-300/60"
+            />
+            <text
+              x={WIDTH}
+              y={y + ROW_HEIGHT / 2}
+              dominantBaseline="middle"
+              textAnchor="end"
+              className="fill-white font-mono text-[13px]"
+            >
+              {formatValue(value)}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,51 @@
+import type { HistogramBin } from "@/lib/stats/aggregate";
+
+type HistogramProps = {
+  title: string;
+  bins: HistogramBin[];
+  formatScore: (score: number) => string;
+};
+
+const WIDTH = 600;
+const HEIGHT = 160;
+const AXIS_HEIGHT = 24;
+const COUNT_HEIGHT = 18;
+const GAP = 6;
+
+/** Vertical columns counting runs per score range, labelled with each range's lower bound. */
+export default function Histogram({ title, bins, formatScore }: HistogramProps) {
+  const maxCount = Math.max(...bins.map(({ count }) => count), 1);
+  const columnWidth = WIDTH / bins.length;
+  const plotHeight = HEIGHT - AXIS_HEIGHT - COUNT_HEIGHT;
+
+  return (
+    <svg role="img" aria-label={title} viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full">
+      {bins.map(({ from, to, count }, index) => {
+        const x = index * columnWidth;
+        const height = (count / maxCount) * plotHeight;
+        const top = COUNT_HEIGHT + plotHeight - height;
+        return (
+          <g key={from}>
+            <title>{`${formatScore(from)}–${formatScore(to)}: ${count}`}</title>
+            <rect
+              x={x + GAP / 2}
+              y={top}
+              width={columnWidth - GAP}
+              height={Math.max(height, count > 0 ? 2 : 0)}
+              rx={4}
+              className="fill-cyan-300/60"
+            />
+            {count > 0 && (
+              <text x={x + columnWidth / 2} y={top - 6} textAnchor="middle" className="fill-white/80 font-mono text-[12px]">
+                {count}
+              </text>
+            )}
+            <text x={x + columnWidth / 2} y={HEIGHT - 6} textAnchor="middle" className="fill-white/50 font-mono text-[11px]">
+              {formatScore(from)}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { useSyncExternalStore } from "react";
+import type { GameDefinition } from "@/games/registry";
+import type { GameRecord } from "@/lib/run-history";
+import BarChart from "@/components/stats/bar-chart";
+import Histogram from "@/components/stats/histogram";
+import { GAMES } from "@/games/registry";
+import { useFormatters, useTranslations } from "@/lib/i18n/locale";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+import { getGameRecord, runHistoryStore } from "@/lib/run-history";
+import { buildHistogram, summarizeRecord } from "@/lib/stats/aggregate";
+import { getInsights } from "@/lib/stats/catalogue";
+
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const useDurationFormat = () => {
+  const format = useFormatters();
+  return (durationMs: number) => {
+    if (durationMs >= HOUR_MS) {
+      return format.number(durationMs / HOUR_MS, { style: "unit", unit: "hour", maximumFractionDigits: 1 });
+    }
+    if (durationMs >= MINUTE_MS) {
+      return format.number(Math.round(durationMs / MINUTE_MS), { style: "unit", unit: "minute" });
+    }
+    return format.number(Math.round(durationMs / 1000), { style: "unit", unit: "second" });
+  };
+};
+
+const Figure = ({ label, value }: { label: string; value: string }) => (
+  <div className="flex flex-col gap-1">
+    <dt className="text-xs uppercase tracking-[0.3em] text-muted/60">{label}</dt>
+    <dd className="font-mono text-xl text-white">{value}</dd>
+  </div>
+);
+
+const Chart = ({ title, children }: { title: string; children: ReactNode }) => (
+  <figure className="flex flex-col gap-3">
+    <figcaption className="text-xs uppercase tracking-[0.3em] text-muted/70">{title}</figcaption>
+    {children}
+  </figure>
+);
+
+const GameStats = ({ game, record }: { game: GameDefinition; record: GameRecord }) => {
+  const t = useTranslations(APP_MESSAGES);
+  const format = useFormatters();
+  const formatDuration = useDurationFormat();
+  const summary = summarizeRecord(record);
+  const bins = buildHistogram(record.runs.map(({ score }) => score));
+  const insights = getInsights(game.id)
+    .map((insight) => ({ insight, bars: insight.bars(record.runs) }))
+    .filter(({ bars }) => bars.length > 0);
+
+  return (
+    <section className="flex flex-col gap-6 rounded-3xl border border-white/10 px-6 py-6">
+      <h2 className="text-2xl font-semibold text-white">{game.title}</h2>
+      <dl className="flex flex-wrap gap-10">
+        <Figure label={t("stats.runs")} value={format.number(summary.runs)} />
+        <Figure label={t("stats.average")} value={format.number(summary.average, { maximumFractionDigits: 0 })} />
+        <Figure label={t("stats.best")} value={format.number(summary.best)} />
+        <Figure label={t("stats.timePlayed")} value={formatDuration(summary.durationMs)} />
+      </dl>
+      {bins.length > 0 && (
+        <Chart title={t("stats.distribution", { count: record.runs.length })}>
+          <Histogram
+            title={t("stats.distribution", { count: record.runs.length })}
+            bins={bins}
+            formatScore={(score) => format.number(score)}
+          />
+        </Chart>
+      )}
+      {insights.map(({ insight, bars }) => (
+        <Chart key={insight.id} title={format.text(insight.title)}>
+          <BarChart
+            title={format.text(insight.title)}
+            bars={bars.map(({ key, label, value }) => ({
+              key,
+              label: typeof label === "string" ? label : format.text(label),
+              value,
+            }))}
+            max={insight.unit === "percent" ? 1 : undefined}
+            formatValue={(value) =>
+              insight.unit === "percent"
+                ? format.number(value, { style: "percent", maximumFractionDigits: 0 })
+                : format.number(value, { maximumFractionDigits: 1 })
+            }
+          />
+        </Chart>
+      ))}
+    </section>
+  );
+};
+
+/** Cross-game totals followed by each played game's summary, score histogram and insights. */
+export default function StatsDashboard() {
+  const history = useSyncExternalStore(runHistoryStore.subscribe, runHistoryStore.read, runHistoryStore.getServerSnapshot);
+  const t = useTranslations(APP_MESSAGES);
+  const format = useFormatters();
+  const formatDuration = useDurationFormat();
+  const played = GAMES.map((game) => ({ game, record: getGameRecord(history, game.id) })).filter(
+    ({ record }) => record.played.runs > 0,
+  );
+
+  if (played.length === 0) {
+    return (
+      <p className="rounded-3xl border border-white/10 px-6 py-10 text-center text-sm text-muted">{t("stats.empty")}</p>
+    );
+  }
+
+  const totalRuns = played.reduce((total, { record }) => total + record.played.runs, 0);
+  const totalMs = played.reduce((total, { record }) => total + record.played.durationMs, 0);
+
+  return (
+    <div className="flex flex-col gap-10">
+      <section className="flex flex-col gap-6">
+        <dl className="flex flex-wrap gap-10">
+          <Figure label={t("stats.runs")} value={format.number(totalRuns)} />
+          <Figure label={t("stats.timePlayed")} value={formatDuration(totalMs)} />
+          <Figure label={t("stats.gamesPlayed")} value={`${format.number(played.length)} / ${format.number(GAMES.length)}`} />
+        </dl>
+        <Chart title={t("stats.runsPerGame")}>
+          <BarChart
+            title={t("stats.runsPerGame")}
+            bars={played.map(({ game, record }) => ({ key: game.id, label: game.title, value: record.played.runs }))}
+            formatValue={(value) => format.number(value)}
+          />
+        </Chart>
+        <Chart title={t("stats.timePerGame")}>
+          <BarChart
+            title={t("stats.timePerGame")}
+            bars={played.map(({ game, record }) => ({ key: game.id, label: game.title, value: record.played.durationMs }))}
+            formatValue={formatDuration}
+          />
+        </Chart>
+      </section>
+      {played.map(({ game, record }) => (
+        <GameStats key={game.id} game={game} record={record} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import type { ArcadeSchedule } from "@/lib/schedule";
+import type { CalendarStatus } from "@/lib/streaks/streak";
+import { useFormatters, useTranslations } from "@/lib/i18n/locale";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+import { useStreaks } from "@/lib/streaks/use-streaks";
+
+const PILL = "flex items-center gap-2 rounded-full border border-white/10 px-4 py-2 backdrop-blur";
+
+const STATUS_STYLES: Record<CalendarStatus, { cell: string; mark: string }> = {
+  played: { cell: "border-emerald-300/50 bg-emerald-500/10 text-emerald-50", mark: "●" },
+  frozen: { cell: "border-sky-300/40 bg-sky-500/10 text-sky-50", mark: "❄" },
+  missed: { cell: "border-white/5 text-muted/40", mark: "○" },
+  today: { cell: "border-accent/60 text-white", mark: "◌" },
+  upcoming: { cell: "border-white/5 text-muted/40", mark: "·" },
+};
+
+/** The home header's streak pills and this week's played, missed and upcoming days. */
+export default function WeekCalendar({ schedule }: { schedule: ArcadeSchedule }) {
+  const t = useTranslations(APP_MESSAGES);
+  const format = useFormatters();
+  const { current, longest, freezes, calendar, weekComplete } = useStreaks(schedule);
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap items-center gap-3 text-xs text-muted/70 sm:text-sm">
+        <span className={PILL}>
+          <span aria-hidden>🔥</span>
+          <span className="font-medium text-white/80">{t("streak.current", { count: current })}</span>
+        </span>
+        <span className={PILL}>{t("streak.longest", { count: longest })}</span>
+        <span className={PILL} title={t("streak.freezesHint")}>
+          <span aria-hidden>❄</span>
+          {t("streak.freezes", { count: freezes })}
+        </span>
+        {weekComplete && (
+          <span className="rounded-full border border-amber-300/50 bg-amber-500/10 px-4 py-2 font-medium text-amber-100 shadow-[0_0_20px_rgba(251,191,36,0.2)]">
+            {t("streak.weekComplete")}
+          </span>
+        )}
+      </div>
+      <ol className="grid grid-cols-7 gap-2" aria-label={t("streak.week")}>
+        {calendar.map(({ dayId, status, best }, index) => (
+          <li
+            key={dayId}
+            className={`flex flex-col items-center gap-1 rounded-2xl border px-2 py-3 text-center ${STATUS_STYLES[status].cell}`}
+          >
+            <span className="text-[0.65rem] uppercase tracking-[0.25em]">{format.weekday(index, "short")}</span>
+            <span aria-hidden>{STATUS_STYLES[status].mark}</span>
+            <span className="sr-only">{t(`streak.status.${status}`)}</span>
+            <span className="font-mono text-xs">{best === null ? "—" : format.number(best)}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
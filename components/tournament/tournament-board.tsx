@@ -0,0 +1,213 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import type { TournamentDayResult, TournamentStanding, TournamentWeek } from "@/lib/tournament/types";
+import { getGame, isGamePlayable } from "@/games/registry";
+import { useFormatters, useTranslations } from "@/lib/i18n/locale";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+import { getCurrentProfile } from "@/lib/player";
+import { fetchTournamentWeek, joinTournament } from "@/lib/tournament/client";
+import { JOIN_DAY_INDEX } from "@/lib/tournament/types";
+
+const PANEL = "flex flex-col gap-4 rounded-3xl border border-white/10 px-6 py-6";
+const BUTTON =
+  "w-fit rounded-full border border-emerald-400/70 bg-emerald-500/10 px-6 py-2 text-xs font-semibold uppercase tracking-[0.3em] text-emerald-100 transition hover:border-emerald-300 hover:bg-emerald-500/20 hover:text-white disabled:opacity-50";
+const TAB = "rounded-full border px-4 py-2 text-xs uppercase tracking-[0.2em] transition";
+const TAB_ACTIVE = "border-white/40 bg-white/10 text-white";
+const TAB_IDLE = "border-white/10 text-muted/70 hover:border-white/30 hover:text-white";
+const CLOSES_FORMAT: Intl.DateTimeFormatOptions = { weekday: "short", hour: "2-digit", minute: "2-digit" };
+
+const DayCell = ({ result, upcoming }: { result: TournamentDayResult | null; upcoming: boolean }) => {
+  const t = useTranslations(APP_MESSAGES);
+  const format = useFormatters();
+  if (!result) {
+    return <td className="px-2 py-3 text-center font-mono text-muted/40">{upcoming ? "·" : "—"}</td>;
+  }
+  if (result.score === null) {
+    return (
+      <td className="px-2 py-3 text-center font-mono text-muted/60" title={t("tournament.unfinished")}>
+        0
+      </td>
+    );
+  }
+  return (
+    <td className="px-2 py-3 text-center font-mono text-white/80" title={format.number(result.score)}>
+      {format.number(result.points)}
+    </td>
+  );
+};
+
+const TodayPanel = ({ week, me, onJoined }: { week: TournamentWeek; me: TournamentStanding | null; onJoined: () => void }) => {
+  const t = useTranslations(APP_MESSAGES);
+  const format = useFormatters();
+  const [joining, setJoining] = useState(false);
+  const [joinFailed, setJoinFailed] = useState(false);
+  const today = week.days[week.todayIndex];
+  const todayResult = me?.days[week.todayIndex] ?? null;
+
+  const join = async () => {
+    setJoining(true);
+    const joined = await joinTournament();
+    setJoining(false);
+    setJoinFailed(!joined);
+    if (joined) {
+      onJoined();
+    }
+  };
+
+  if (!me) {
+    return (
+      <section className={PANEL}>
+        {week.todayIndex === JOIN_DAY_INDEX ? (
+          <>
+            <button type="button" onClick={join} disabled={joining} className={BUTTON}>
+              {t("tournament.join")}
+            </button>
+            {joinFailed && <p className="text-sm text-rose-200">{t("tournament.joinFailed")}</p>}
+          </>
+        ) : (
+          <p className="text-sm text-muted">{t("tournament.entriesClosed")}</p>
+        )}
+      </section>
+    );
+  }
+
+  return (
+    <section className={PANEL}>
+      {todayResult ? (
+        <p className="text-sm text-white/80">
+          {t("tournament.todayPlayed")} {t("tournament.points", { count: todayResult.points })}
+        </p>
+      ) : isGamePlayable(getGame(today.gameId ?? "")) ? (
+        <Link href="/tournament/play" className={BUTTON}>
+          {t("tournament.playToday")}
+        </Link>
+      ) : (
+        <p className="text-sm text-muted">{t("tournament.todayUnavailable")}</p>
+      )}
+      <p className="text-xs text-muted/70">{t("tournament.closes", { time: format.date(week.nextRolloverAt, CLOSES_FORMAT) })}</p>
+    </section>
+  );
+};
+
+/** This week's tournament: joining, today's run, and each bracket's standings with every day's points. */
+export default function TournamentBoard() {
+  const t = useTranslations(APP_MESSAGES);
+  const format = useFormatters();
+  const [week, setWeek] = useState<TournamentWeek | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [playerId, setPlayerId] = useState<string | null>(null);
+  const [chosenBracket, setChosenBracket] = useState<number | null>(null);
+
+  const load = useCallback(() => {
+    fetchTournamentWeek()
+      .then((next) => {
+        setWeek(next);
+        setFailed(false);
+      })
+      .catch(() => setFailed(true));
+  }, []);
+
+  useEffect(() => {
+    setPlayerId(getCurrentProfile().id);
+    load();
+  }, [load]);
+
+  if (!week) {
+    return (
+      <p className="rounded-3xl border border-white/10 px-6 py-10 text-center text-sm text-muted">
+        {failed ? t("tournament.loadFailed") : t("tournament.loading")}
+      </p>
+    );
+  }
+
+  const me = week.standings.find((standing) => standing.playerId === playerId) ?? null;
+  const bracket = chosenBracket ?? me?.bracket ?? 0;
+  const bracketed = week.brackets > 1;
+  const standings = week.standings.filter((standing) => standing.bracket === bracket);
+
+  return (
+    <div className="flex flex-col gap-8">
+      <TodayPanel week={week} me={me} onJoined={load} />
+      <ol className="grid grid-cols-7 gap-2">
+        {week.days.map((day) => (
+          <li
+            key={day.dateKey}
+            className={`flex flex-col items-center gap-1 rounded-2xl border px-2 py-3 text-center ${
+              day.dayIndex === week.todayIndex ? "border-accent/60 text-white" : "border-white/5 text-muted/70"
+            }`}
+          >
+            <span className="text-[0.65rem] uppercase tracking-[0.25em]">{format.weekday(day.dayIndex, "short")}</span>
+            <span className="text-xs">{getGame(day.gameId ?? "")?.title ?? "—"}</span>
+            <span className="font-mono text-[0.65rem] text-muted/60">
+              {day.dayIndex > week.todayIndex ? "·" : t("tournament.field", { count: day.finished })}
+            </span>
+          </li>
+        ))}
+      </ol>
+      <section className="flex flex-col gap-4">
+        <h2 className="text-xs uppercase tracking-[0.3em] text-muted/70">{t("tournament.standings")}</h2>
+        {bracketed && (
+          <div className="flex flex-wrap gap-2" role="tablist">
+            {Array.from({ length: week.brackets }, (_, index) => (
+              <button
+                key={index}
+                type="button"
+                role="tab"
+                aria-selected={index === bracket}
+                onClick={() => setChosenBracket(index)}
+                className={`${TAB} ${index === bracket ? TAB_ACTIVE : TAB_IDLE}`}
+              >
+                {t("tournament.bracket", { number: index + 1 })}
+              </button>
+            ))}
+          </div>
+        )}
+        <div className="overflow-x-auto rounded-3xl border border-white/10">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-white/10 text-xs text-muted/70">
+                <th className="px-4 py-3 text-left font-normal">#</th>
+                <th className="px-4 py-3 text-left font-normal">{t("tournament.player")}</th>
+                {week.days.map((day) => (
+                  <th
+                    key={day.dateKey}
+                    className={`px-2 py-3 text-center font-normal ${day.dayIndex === week.todayIndex ? "text-white" : ""}`}
+                    title={getGame(day.gameId ?? "")?.title}
+                  >
+                    {format.weekday(day.dayIndex, "short")}
+                  </th>
+                ))}
+                <th className="px-4 py-3 text-right font-normal">{t("tournament.total")}</th>
+                {bracketed && <th className="px-4 py-3 text-right font-normal">{t("tournament.overall")}</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {standings.map((standing) => (
+                <tr
+                  key={standing.playerId}
+                  className={`border-b border-white/5 last:border-0 ${standing.playerId === playerId ? "bg-white/5" : ""}`}
+                >
+                  <td className="px-4 py-3 font-mono text-muted/70">{standing.bracketRank}</td>
+                  <td className="px-4 py-3 text-white">
+                    {standing.playerName}
+                    {standing.playerId === playerId && (
+                      <span className="ml-2 text-xs uppercase tracking-[0.25em] text-accent">{t("tournament.you")}</span>
+                    )}
+                  </td>
+                  {standing.days.map((result, dayIndex) => (
+                    <DayCell key={dayIndex} result={result} upcoming={dayIndex > week.todayIndex} />
+                  ))}
+                  <td className="px-4 py-3 text-right font-mono text-white">{format.number(standing.points)}</td>
+                  {bracketed && <td className="px-4 py-3 text-right font-mono text-muted/70">{standing.rank}</td>}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {week.standings.length === 0 && <p className="px-6 py-10 text-center text-sm text-muted">{t("tournament.empty")}</p>}
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import Link from "next/link";
+import type { ReactNode } from "react";
+import { useEffect, useState } from "react";
+import type { GameId } from "@/games/registry";
+import type { ScheduleConfig } from "@/lib/schedule";
+import type { TournamentRun } from "@/lib/tournament/types";
+import { getGame } from "@/games/registry";
+import { useTranslations } from "@/lib/i18n/locale";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+import { getCurrentProfile } from "@/lib/player";
+import { LiveGameSession } from "@/lib/replay/session";
+import { fetchTournamentWeek, startTournamentRun } from "@/lib/tournament/client";
+
+type Phase = "loading" | "load-failed" | "not-entered" | "played" | "ready" | "starting" | "start-failed";
+
+type TournamentSessionProps = {
+  gameId: GameId;
+  seed: string;
+  schedule: ScheduleConfig;
+  children: ReactNode;
+};
+
+const BUTTON =
+  "w-fit rounded-full border border-white/20 bg-white/10 px-6 py-3 text-sm font-semibold uppercase tracking-[0.3em] text-white transition hover:border-white/40 hover:bg-white/20 disabled:opacity-50";
+
+/**
+ * Today's game as a tournament run. The attempt is claimed from the server
+ * before the game mounts, and the session sends the first finished run to it.
+ */
+export default function TournamentSession({ gameId, seed, schedule, children }: TournamentSessionProps) {
+  const t = useTranslations(APP_MESSAGES);
+  const [phase, setPhase] = useState<Phase>("loading");
+  const [run, setRun] = useState<TournamentRun | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchTournamentWeek()
+      .then((week) => {
+        const me = week.standings.find((standing) => standing.playerId === getCurrentProfile().id);
+        if (!cancelled) {
+          setPhase(!me ? "not-entered" : me.days[week.todayIndex] ? "played" : "ready");
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setPhase("load-failed");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (run) {
+    return (
+      <LiveGameSession gameId={gameId} seed={seed} schedule={schedule} tournament={run}>
+        {children}
+      </LiveGameSession>
+    );
+  }
+
+  const start = async () => {
+    setPhase("starting");
+    const claimed = await startTournamentRun();
+    setRun(claimed);
+    setPhase(claimed ? "ready" : "start-failed");
+  };
+
+  const message = {
+    loading: t("tournament.loading"),
+    "load-failed": t("tournament.loadFailed"),
+    "not-entered": t("tournament.notEntered"),
+    played: t("tournament.alreadyPlayed"),
+    ready: t("tournament.startBody", { title: getGame(gameId)?.title ?? gameId }),
+    starting: t("tournament.startBody", { title: getGame(gameId)?.title ?? gameId }),
+    "start-failed": t("tournament.startFailed"),
+  }[phase];
+
+  return (
+    <main className="mx-auto flex min-h-screen w-full max-w-3xl flex-col gap-4 px-6 py-16 sm:px-10">
+      <Link href="/tournament" className="w-fit text-sm text-muted/70 transition hover:text-white">
+        ← {t("nav.tournament")}
+      </Link>
+      <h1 className="text-3xl font-semibold text-white">{t("tournament.startTitle")}</h1>
+      <p className="text-sm text-muted" role="status">
+        {message}
+      </p>
+      {(phase === "ready" || phase === "starting" || phase === "start-failed") && (
+        <button type="button" onClick={start} disabled={phase === "starting"} className={BUTTON}>
+          {t("tournament.start")}
+        </button>
+      )}
+    </main>
+  );
+}
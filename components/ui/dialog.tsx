@@ -0,0 +1,58 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { useEffect } from "react";
+import { useTranslations } from "@/lib/i18n/locale";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+
+type DialogProps = {
+  title: string;
+  onClose: () => void;
+  closeLabel?: string;
+  children: ReactNode;
+};
+
+/** Modal panel used by the settings and game chrome buttons. */
+export default function Dialog({ title, onClose, closeLabel, children }: DialogProps) {
+  const t = useTranslations(APP_MESSAGES);
+  useEffect(() => {
+    // keep keystrokes away from the game underneath while the dialog is open
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.stopPropagation();
+      if (event.key === "Escape") {
+        onClose();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown, { capture: true });
+    return () => window.removeEventListener("keydown", handleKeyDown, { capture: true });
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-950/70 px-6 backdrop-blur-sm"
+      onClick={onClose}
+      data-swipe-ignore="true"
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={title}
+        onClick={(event) => event.stopPropagation()}
+        className="flex max-h-[90vh] w-full max-w-md flex-col gap-6 overflow-y-auto rounded-3xl border border-white/10 bg-slate-900/95 p-6 text-left normal-case tracking-normal text-white shadow-[0_30px_80px_rgba(15,23,42,0.6)]"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-white">{title}</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label={closeLabel ?? t("dialog.close", { title: title.toLocaleLowerCase() })}
+            className="rounded-full border border-white/10 px-3 py-1 text-muted/70 transition hover:border-white/40 hover:text-white"
+          >
+            ✕
+          </button>
+        </div>
+        {children}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import type { AchievementDefinition } from "@/lib/achievements/types";
+
+export type AngrymojiEvent = { type: "wave-cleared"; slingsUsed: number };
+
+export const ANGRYMOJI_ACHIEVEMENTS: AchievementDefinition<AngrymojiEvent>[] = [
+  {
+    id: "one-sling-wave",
+    title: { en: "One and Done", tr: "Tek Atışta" },
+    description: { en: "Clear a wave with a single sling.", tr: "Bir dalgayı tek sapan atışıyla temizle." },
+    icon: "🎯",
+    scope: "run",
+    goal: 1,
+    track: (progress, event) => (event.slingsUsed === 1 ? 1 : progress),
+  },
+  {
+    id: "wrecking-crew",
+    title: { en: "Wrecking Crew", tr: "Yıkım Ekibi" },
+    description: { en: "Clear 25 waves in total.", tr: "Toplam 25 dalga temizle." },
+    icon: "💥",
+    scope: "lifetime",
+    goal: 25,
+    track: (progress) => progress + 1,
+  },
+];
@@ -0,0 +1,399 @@
+"use client";
+
+import type React from "react";
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import type { AngrymojiEvent } from "@/games/angrymoji/achievements";
+import type { AngrymojiInput, AngrymojiState, Point } from "@/games/angrymoji/engine";
+import type { AngrymojiMessageKey } from "@/games/angrymoji/messages";
+import type { GameProps } from "@/games/registry";
+import type { Translate } from "@/lib/i18n/types";
+import GameShell from "@/components/game-shell/game-shell";
+import ChallengeButton from "@/components/game-shell/challenge-button";
+import ShareRunButton from "@/components/game-shell/share-run-button";
+import {
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  GROUND_Y,
+  MAX_PULL,
+  SLING_ANCHOR,
+  angrymojiEngine,
+  computeVelocityFromPull,
+  simulateTrajectory,
+} from "@/games/angrymoji/engine";
+import { ANGRYMOJI_MESSAGES } from "@/games/angrymoji/messages";
+import { playImpact, playSlingRelease, playSlingStretch } from "@/games/angrymoji/sounds";
+import { useSound } from "@/lib/audio/use-sound";
+import { useEngine } from "@/lib/engine/use-engine";
+import { useTranslations } from "@/lib/i18n/locale";
+import { useGamepadStick } from "@/lib/input/use-gamepad-stick";
+import { useInputActions } from "@/lib/input/use-input-actions";
+import { FRAME_MS } from "@/lib/replay/clock";
+import { useGameClock, useGameInput } from "@/lib/replay/session";
+import { useSettings } from "@/lib/settings/use-settings";
+import { useAchievementEvents } from "@/lib/use-achievement-events";
+import { useRunHistory } from "@/lib/use-run-history";
+
+// Recorded pulls keep a tenth of a pixel.
+const roundPoint = (point: Point): Point => ({
+  x: Math.round(point.x * 10) / 10,
+  y: Math.round(point.y * 10) / 10,
+});
+
+const countTargetsLeft = ({ targets }: AngrymojiState) => targets.filter((target) => !target.hit).length;
+
+// the canvas draws every frame, so React only re-renders for the text below it
+const hudChanged = (previous: AngrymojiState, next: AngrymojiState) =>
+  previous.message !== next.message ||
+  previous.score !== next.score ||
+  previous.level !== next.level ||
+  previous.shotsLeft !== next.shotsLeft ||
+  countTargetsLeft(previous) !== countTargetsLeft(next);
+
+const drawScene = (ctx: CanvasRenderingContext2D, state: AngrymojiState) => {
+  ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+  // backdrop
+  const gradient = ctx.createLinearGradient(0, 0, 0, CANVAS_HEIGHT);
+  gradient.addColorStop(0, "rgba(15,23,42,0.85)");
+  gradient.addColorStop(1, "rgba(15,23,42,0.2)");
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+  // ground
+  ctx.fillStyle = "rgba(15,23,42,0.75)";
+  ctx.fillRect(0, GROUND_Y, CANVAS_WIDTH, CANVAS_HEIGHT - GROUND_Y);
+  ctx.fillStyle = "rgba(148,163,184,0.2)";
+  ctx.fillRect(0, GROUND_Y, CANVAS_WIDTH, 4);
+
+  // slingshot base
+  ctx.strokeStyle = "rgba(148,163,184,0.4)";
+  ctx.lineWidth = 10;
+  ctx.lineCap = "round";
+  ctx.beginPath();
+  ctx.moveTo(SLING_ANCHOR.x - 14, GROUND_Y);
+  ctx.lineTo(SLING_ANCHOR.x - 4, SLING_ANCHOR.y + 36);
+  ctx.moveTo(SLING_ANCHOR.x + 14, GROUND_Y);
+  ctx.lineTo(SLING_ANCHOR.x + 4, SLING_ANCHOR.y + 36);
+  ctx.stroke();
+
+  // sling band
+  const dragging = state.drag !== null;
+  const slingPoint = state.drag ?? state.projectile.position;
+  const showBand = dragging || !state.projectile.active;
+  if (showBand) {
+    ctx.strokeStyle = "rgba(248,250,252,0.45)";
+    ctx.lineWidth = 4;
+    ctx.beginPath();
+    ctx.moveTo(SLING_ANCHOR.x - 6, SLING_ANCHOR.y);
+    ctx.lineTo(slingPoint.x, slingPoint.y);
+    ctx.lineTo(SLING_ANCHOR.x + 6, SLING_ANCHOR.y);
+    ctx.stroke();
+  }
+
+  // predicted trajectory
+  const trajectory = state.drag
+    ? simulateTrajectory(SLING_ANCHOR, computeVelocityFromPull(state.drag, state.config), state.config)
+    : [];
+  if (trajectory.length > 1) {
+    ctx.save();
+    ctx.setLineDash([6, 8]);
+    ctx.strokeStyle = "rgba(148,163,184,0.7)";
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(SLING_ANCHOR.x, SLING_ANCHOR.y);
+    trajectory.forEach((point) => {
+      ctx.lineTo(point.x, point.y);
+    });
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  // obstacles
+  state.obstacles.forEach((obstacle) => {
+    ctx.save();
+    ctx.fillStyle = "rgba(249,115,22,0.55)";
+    ctx.strokeStyle = "rgba(251,191,36,0.9)";
+    ctx.lineWidth = 3;
+    ctx.shadowColor = "rgba(249,115,22,0.45)";
+    ctx.shadowBlur = 18;
+    ctx.fillRect(obstacle.position.x, obstacle.position.y, obstacle.width, obstacle.height);
+    ctx.strokeRect(obstacle.position.x, obstacle.position.y, obstacle.width, obstacle.height);
+    ctx.restore();
+  });
+
+  // targets
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.font = "38px \"Apple Color Emoji\", \"Segoe UI Emoji\", sans-serif";
+  state.targets.forEach((target) => {
+    const { position, size, hit, emoji } = target;
+    if (hit) {
+      return;
+    }
+    ctx.save();
+    ctx.shadowColor = "rgba(251,191,36,0.75)";
+    ctx.shadowBlur = 28;
+    ctx.strokeStyle = "rgba(15,23,42,0.85)";
+    ctx.lineWidth = 3;
+    ctx.font = "60px \"Apple Color Emoji\", \"Segoe UI Emoji\", sans-serif";
+    ctx.strokeText(emoji, position.x + size / 2, position.y + size / 2);
+    ctx.fillText(emoji, position.x + size / 2, position.y + size / 2);
+    ctx.restore();
+  });
+
+  // projectile (emoji)
+  ctx.save();
+  ctx.font = "40px \"Apple Color Emoji\", \"Segoe UI Emoji\", sans-serif";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.shadowColor = "rgba(248,113,113,0.35)";
+  ctx.shadowBlur = 18;
+  const projectileEmoji = dragging ? "😠" : "😡";
+  ctx.fillText(projectileEmoji, slingPoint.x, slingPoint.y);
+  ctx.restore();
+};
+
+const howToPlay = (t: Translate<AngrymojiMessageKey>) => (
+  <>
+    <p>{t("help.aim")}</p>
+    <p>{t("help.controller")}</p>
+    <p>{t("help.clear")}</p>
+  </>
+);
+
+export default function AngrymojiGame({ seed }: GameProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const stickPullRef = useRef<Point | null>(null);
+  const { best, lastRun, startRun, finishRun } = useRunHistory("angrymoji");
+  const clock = useGameClock();
+  const emitAchievementEvent = useAchievementEvents<AngrymojiEvent>();
+  const { leftHanded } = useSettings();
+  const playSound = useSound();
+  const t = useTranslations(ANGRYMOJI_MESSAGES);
+
+  const { state, stateRef, advance } = useEngine(
+    angrymojiEngine,
+    seed,
+    (event, current) => {
+      switch (event.type) {
+        case "start":
+          startRun();
+          break;
+        case "stretch":
+          playSound(() => playSlingStretch(event.tension));
+          break;
+        case "launch":
+          playSound(playSlingRelease);
+          break;
+        case "hit":
+          playSound(playImpact);
+          break;
+        case "wave":
+          emitAchievementEvent({ type: "wave-cleared", slingsUsed: event.slingsUsed });
+          break;
+        case "over":
+          finishRun({
+            score: current.score,
+            level: current.level,
+            stats: { wavesCleared: current.level - 1, shotsFired: current.shotsFired, ...current.waveShots },
+          });
+          break;
+      }
+    },
+    hudChanged,
+  );
+  const { score, level, shotsLeft, message: statusMessage } = state;
+  const targetsRemaining = countTargetsLeft(state);
+  const highScore = Math.max(best, score);
+
+  // a run is already set up on mount; later ones start from the engine
+  useEffect(() => {
+    startRun();
+  }, [startRun]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) {
+      return undefined;
+    }
+    const context = canvas.getContext("2d");
+    if (!context) {
+      return undefined;
+    }
+
+    const ratio = window.devicePixelRatio ?? 1;
+    canvas.width = CANVAS_WIDTH * ratio;
+    canvas.height = CANVAS_HEIGHT * ratio;
+    canvas.style.width = `${CANVAS_WIDTH}px`;
+    canvas.style.height = `${CANVAS_HEIGHT}px`;
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    context.scale(ratio, ratio);
+    context.imageSmoothingEnabled = true;
+
+    let frame: number | null = null;
+    const tick = () => {
+      advance(null, FRAME_MS);
+      drawScene(context, stateRef.current);
+      frame = clock.requestFrame(tick);
+    };
+    drawScene(context, stateRef.current);
+    frame = clock.requestFrame(tick);
+
+    return () => clock.cancelFrame(frame);
+  }, [advance, clock, stateRef]);
+
+  const getCanvasPoint = useCallback((event: React.PointerEvent<HTMLCanvasElement> | PointerEvent): Point => {
+    const canvas = canvasRef.current;
+    if (!canvas) {
+      return { x: 0, y: 0 };
+    }
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * CANVAS_WIDTH,
+      y: ((event.clientY - rect.top) / rect.height) * CANVAS_HEIGHT,
+    };
+  }, []);
+
+  const dispatch = useGameInput<AngrymojiInput>((input) => advance(input));
+
+  useInputActions(({ action, pressed }) => {
+    if (!pressed || !stateRef.current.drag) {
+      return;
+    }
+    if (action === "tap") {
+      dispatch({ type: "release" });
+    } else if (action === "quit") {
+      dispatch({ type: "cancel" });
+    }
+  });
+
+  // the stick is the pull: its offset from center is where the band is drawn to
+  useGamepadStick((stick) => {
+    const { status } = stateRef.current;
+    if ((stick.x === 0 && stick.y === 0) || (status !== "ready" && status !== "aiming")) {
+      stickPullRef.current = null;
+      return;
+    }
+    const point = roundPoint({ x: SLING_ANCHOR.x + stick.x * MAX_PULL, y: SLING_ANCHOR.y + stick.y * MAX_PULL });
+    const last = stickPullRef.current;
+    if (last && last.x === point.x && last.y === point.y) {
+      return;
+    }
+    stickPullRef.current = point;
+    if (!stateRef.current.drag) {
+      dispatch({ type: "aim", point: SLING_ANCHOR });
+    }
+    dispatch({ type: "pull", point });
+  });
+
+  const handlePointerDown = useCallback(
+    (event: React.PointerEvent<HTMLCanvasElement>) => {
+      const { status } = stateRef.current;
+      if (status !== "ready" && status !== "aiming") {
+        return;
+      }
+      dispatch({ type: "aim", point: roundPoint(getCanvasPoint(event)) });
+      if (!stateRef.current.drag) {
+        return;
+      }
+      event.preventDefault();
+      canvasRef.current?.setPointerCapture(event.pointerId);
+    },
+    [dispatch, getCanvasPoint, stateRef],
+  );
+
+  const handlePointerMove = useCallback(
+    (event: React.PointerEvent<HTMLCanvasElement>) => {
+      if (!stateRef.current.drag) {
+        return;
+      }
+      dispatch({ type: "pull", point: roundPoint(getCanvasPoint(event)) });
+    },
+    [dispatch, getCanvasPoint, stateRef],
+  );
+
+  const handlePointerUp = useCallback(
+    (event: React.PointerEvent<HTMLCanvasElement>) => {
+      if (!stateRef.current.drag) {
+        return;
+      }
+      try {
+        canvasRef.current?.releasePointerCapture(event.pointerId);
+      } catch {
+        // ignore if pointer capture was not set
+      }
+      dispatch({ type: "release" });
+    },
+    [dispatch, stateRef],
+  );
+
+  const handlePointerCancel = useCallback(() => {
+    dispatch({ type: "cancel" });
+  }, [dispatch]);
+
+  const remainingLabel = useMemo(() => {
+    if (targetsRemaining <= 0) {
+      return t("targets.cleared");
+    }
+    return t("targets.left", { count: targetsRemaining });
+  }, [t, targetsRemaining]);
+
+  const shotsLabel = useMemo(() => {
+    if (shotsLeft === 0) {
+      return t("shots.none");
+    }
+    return t("shots.left", { count: shotsLeft });
+  }, [shotsLeft, t]);
+
+  return (
+    <GameShell
+      gameId="angrymoji"
+      description={t("description")}
+      hud={{ score: { value: score }, best: { value: highScore }, level: { value: level } }}
+      help={howToPlay(t)}
+      running
+    >
+      <div className="relative mx-auto flex w-full max-w-lg flex-col items-center gap-4" data-swipe-ignore="true">
+        <canvas
+          ref={canvasRef}
+          className="h-[320px] w-full max-w-[360px] touch-none rounded-[2.5rem] border border-white/15 bg-slate-900/40 shadow-[0_30px_80px_rgba(15,23,42,0.55)]"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerCancel}
+        />
+        <div className="flex flex-col items-center gap-2 text-center text-xs uppercase tracking-[0.35em] text-muted/60">
+          <span>{t(statusMessage, { level })}</span>
+          <span>{remainingLabel}</span>
+          <span>{shotsLabel}</span>
+        </div>
+      </div>
+
+      <div className={`flex flex-wrap items-center justify-between gap-4 text-xs text-muted/60 ${leftHanded ? "flex-row-reverse" : ""}`}>
+        <div>{t("footer")}</div>
+        <div className={`flex items-center gap-3 ${leftHanded ? "flex-row-reverse" : ""}`}>
+          {/* runs restart on their own, so this shares the one that just ended */}
+          <ShareRunButton
+            gameId="angrymoji"
+            run={lastRun}
+            best={highScore}
+            className="inline-flex items-center gap-2 rounded-full border border-white/10 px-4 py-2 text-muted/70 transition hover:border-white/40 hover:text-white"
+          />
+          <ChallengeButton
+            gameId="angrymoji"
+            run={lastRun}
+            className="inline-flex items-center gap-2 rounded-full border border-white/10 px-4 py-2 text-muted/70 transition hover:border-white/40 hover:text-white"
+          />
+          <button
+            type="button"
+            onClick={() => dispatch({ type: "reset" })}
+            className="inline-flex items-center gap-2 rounded-full border border-white/10 px-4 py-2 text-muted/70 transition hover:border-white/40 hover:text-white"
+          >
+            {t("reset")}
+            <span aria-hidden className="text-white/60">↻</span>
+          </button>
+        </div>
+      </div>
+    </GameShell>
+  );
+}
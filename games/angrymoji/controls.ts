@@ -0,0 +1,8 @@
+import type { GameControls } from "@/lib/input/types";
+
+/** The sling is aimed by dragging or with the left stick. */
+export const ANGRYMOJI_CONTROLS: GameControls = {
+  tap: { label: { en: "Release the sling", tr: "Sapanı bırak" }, keys: [], buttons: ["rt"] },
+  quit: { label: { en: "Cancel the shot", tr: "Atışı iptal et" }, keys: [], buttons: ["b"] },
+  pause: { label: { en: "Pause", tr: "Duraklat" }, keys: ["Escape", "p"], buttons: ["start"] },
+};
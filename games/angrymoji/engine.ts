@@ -0,0 +1,619 @@
+import type { AngrymojiMessageKey } from "@/games/angrymoji/messages";
+import type { EngineState, GameEngine } from "@/lib/engine/types";
+import type { Rng } from "@/lib/random";
+import type { RunStats } from "@/lib/run-history";
+import { createRng, restoreRng } from "@/lib/random";
+import { addToBreakdown } from "@/lib/stats/breakdown";
+
+export type Point = { x: number; y: number };
+
+export type Target = {
+  id: string;
+  position: Point;
+  basePosition: Point;
+  size: number;
+  emoji: string;
+  hit: boolean;
+  motion?: {
+    axis: "x" | "y";
+    amplitude: number;
+    speed: number;
+    phase: number;
+  };
+};
+
+export type Obstacle = {
+  id: string;
+  position: Point;
+  width: number;
+  height: number;
+};
+
+export type AngrymojiStatus = "ready" | "aiming" | "flying" | "cooldown" | "failed";
+
+export type Projectile = {
+  position: Point;
+  velocity: Point;
+  active: boolean;
+};
+
+/** What happens when a cooldown runs out. */
+type Pending = { action: "next-wave" | "next-shot" | "another-angle" | "restart"; remainingMs: number };
+
+export type AngrymojiConfig = {
+  shotsPerWave: number;
+  /** Pixels per second squared. */
+  gravity: number;
+  /** Launch speed per pixel of pull. */
+  velocityMultiplier: number;
+  /** Pause after a cleared wave. */
+  waveDelayMs: number;
+  /** Pause after a shot lands on the ground. */
+  groundDelayMs: number;
+  /** Pause after a shot leaves the screen. */
+  boundsDelayMs: number;
+  /** Pause on the last missed shot before a new run. */
+  restartDelayMs: number;
+};
+
+export type AngrymojiInput =
+  | { type: "aim"; point: Point }
+  | { type: "pull"; point: Point }
+  | { type: "release" }
+  | { type: "cancel" }
+  | { type: "reset" };
+
+export type AngrymojiEngineEvent =
+  | { type: "start" }
+  | { type: "stretch"; tension: number }
+  | { type: "launch" }
+  | { type: "hit" }
+  | { type: "wave"; slingsUsed: number }
+  | { type: "over" };
+
+export type AngrymojiState = EngineState<AngrymojiEngineEvent> & {
+  seed: string;
+  config: AngrymojiConfig;
+  status: AngrymojiStatus;
+  message: AngrymojiMessageKey;
+  score: number;
+  level: number;
+  shotsLeft: number;
+  shotsFired: number;
+  /** Shots fired in each wave, reported with the run. */
+  waveShots: RunStats;
+  targets: Target[];
+  obstacles: Obstacle[];
+  projectile: Projectile;
+  /** Where the band is pulled to while aiming. */
+  drag: Point | null;
+  /** The stretch sound ticks once per band of pull rather than on every move. */
+  stretchBand: number;
+  /** Seconds since the run started; target sway is measured from it. */
+  time: number;
+  pending: Pending | null;
+  rngState: number;
+};
+
+export const ANGRYMOJI_CONFIG: AngrymojiConfig = {
+  shotsPerWave: 2,
+  gravity: 2000,
+  velocityMultiplier: 9.2,
+  waveDelayMs: 800,
+  groundDelayMs: 600,
+  boundsDelayMs: 450,
+  restartDelayMs: 900,
+};
+
+export const CANVAS_WIDTH = 360;
+export const CANVAS_HEIGHT = 320;
+export const GROUND_Y = CANVAS_HEIGHT - 34;
+export const SLING_ANCHOR: Point = { x: 90, y: GROUND_Y - 40 };
+export const MAX_PULL = 115;
+const STRETCH_BANDS = 6;
+const PROJECTILE_RADIUS = 22;
+const TRAJECTORY_STEPS = 64;
+const TRAJECTORY_INTERVAL = 1 / 55; // seconds per simulated step
+const TARGET_SIZE = 48;
+const MAX_TARGETS = 3;
+const MAX_STEP_SECONDS = 1 / 60;
+
+const TARGET_EMOJIS = ["😈", "🤖", "👾", "🥵", "💥", "👹"];
+
+const clampPullPoint = (point: Point): Point => {
+  const dx = point.x - SLING_ANCHOR.x;
+  const dy = point.y - SLING_ANCHOR.y;
+  const distance = Math.hypot(dx, dy);
+  if (distance <= MAX_PULL) {
+    return { x: point.x, y: point.y };
+  }
+  const ratio = MAX_PULL / distance;
+  return {
+    x: SLING_ANCHOR.x + dx * ratio,
+    y: SLING_ANCHOR.y + dy * ratio,
+  };
+};
+
+
+const withinAnchorZone = (point: Point) => {
+  const distance = Math.hypot(point.x - SLING_ANCHOR.x, point.y - SLING_ANCHOR.y);
+  return distance <= PROJECTILE_RADIUS * 2.2;
+};
+
+const buildObstacle = (level: number, rng: Rng): Obstacle | null => {
+  if (level < 2) {
+    return null;
+  }
+
+  const minHeight = 70;
+  const maxHeight = 150;
+  const levelBoost = Math.min(maxHeight - minHeight, level * 20);
+  const rawHeight = minHeight + levelBoost * rng.range(0.6, 1);
+  const height = Math.max(minHeight, Math.min(maxHeight, rawHeight));
+  const width = 16;
+
+  const minX = SLING_ANCHOR.x + 110;
+  const maxX = CANVAS_WIDTH - width - 110;
+  const positionX = maxX > minX ? rng.range(minX, maxX) : minX;
+
+  const maxHover = 120;
+  const hoverOffset = rng.range(0, maxHover);
+  const positionY = Math.max(50, GROUND_Y - height - hoverOffset);
+
+  return {
+    id: `pillar-${level}-${rng.token(4)}`,
+    position: { x: positionX, y: positionY },
+    width,
+    height,
+  };
+};
+
+const buildTargets = (level: number, obstacle: Obstacle | null, shotsPerWave: number, rng: Rng): Target[] => {
+  const count = Math.min(MAX_TARGETS, Math.max(2, Math.min(level + 1, shotsPerWave * 2)));
+  const targets: Target[] = [];
+  const minX = SLING_ANCHOR.x + 70;
+  const maxX = CANVAS_WIDTH - TARGET_SIZE - 12;
+  const groundY = GROUND_Y - TARGET_SIZE - 6;
+  const verticalRange = Math.min(140, 60 + level * 20);
+  const minY = Math.max(45, groundY - verticalRange);
+
+  const overlapsExisting = (x: number, y: number) => {
+    return targets.some((target) => {
+      const dx = target.position.x - x;
+      const dy = target.position.y - y;
+      return Math.abs(dx) < TARGET_SIZE + 12 && Math.abs(dy) < TARGET_SIZE + 12;
+    });
+  };
+
+  const intersectsObstacle = (x: number, y: number) => {
+    if (!obstacle) {
+      return false;
+    }
+    const horizontalOverlap = x + TARGET_SIZE > obstacle.position.x - 10 && x < obstacle.position.x + obstacle.width + 10;
+    if (!horizontalOverlap) {
+      return false;
+    }
+    return y + TARGET_SIZE > obstacle.position.y - 10;
+  };
+
+  for (let index = 0; index < count; index += 1) {
+    let placed = false;
+    for (let attempt = 0; attempt < 36 && !placed; attempt += 1) {
+      const spanX = Math.max(10, maxX - minX);
+      const randomX = minX + rng.range(0, spanX);
+      const clampedX = Math.min(maxX, Math.max(minX, randomX));
+      const randomY = groundY - rng.range(0, verticalRange);
+      const clampedY = Math.min(groundY, Math.max(minY, randomY));
+
+      if (overlapsExisting(clampedX, clampedY)) {
+        continue;
+      }
+      if (intersectsObstacle(clampedX, clampedY)) {
+        continue;
+      }
+
+      const basePosition = { x: clampedX, y: clampedY };
+      const target: Target = {
+        id: `target-${level}-${index}-${rng.token()}`,
+        position: { ...basePosition },
+        basePosition,
+        size: TARGET_SIZE,
+        emoji: rng.pick(TARGET_EMOJIS),
+        hit: false,
+      };
+      targets.push(target);
+      placed = true;
+    }
+
+    if (!placed) {
+      let fallbackX = Math.min(maxX, minX + index * (TARGET_SIZE + 18));
+      if (obstacle) {
+        const horizontalOverlap =
+          fallbackX + TARGET_SIZE > obstacle.position.x - 10 && fallbackX < obstacle.position.x + obstacle.width + 10;
+        if (horizontalOverlap) {
+          fallbackX = obstacle.position.x - TARGET_SIZE - 16;
+        }
+      }
+      fallbackX = Math.min(maxX, Math.max(minX, fallbackX));
+
+      let fallbackY = groundY - Math.floor(index / 2) * (TARGET_SIZE + 18);
+      if (obstacle && fallbackY + TARGET_SIZE > obstacle.position.y - 10) {
+        fallbackY = obstacle.position.y - TARGET_SIZE - 12;
+      }
+      fallbackY = Math.min(groundY, Math.max(minY, fallbackY));
+
+      const basePosition = { x: fallbackX, y: fallbackY };
+      const target: Target = {
+        id: `target-${level}-${index}-${rng.token()}`,
+        position: { ...basePosition },
+        basePosition,
+        size: TARGET_SIZE,
+        emoji: rng.pick(TARGET_EMOJIS),
+        hit: false,
+      };
+      targets.push(target);
+    }
+  }
+
+  if (level >= 2 && targets.length > 0) {
+    const movingIndex = (level + targets.length) % targets.length;
+    const movingTarget = targets[movingIndex];
+    const horizontalRoomLeft = movingTarget.basePosition.x - minX;
+    const horizontalRoomRight = maxX - movingTarget.basePosition.x;
+    const verticalRoomUp = movingTarget.basePosition.y - minY;
+    const verticalRoomDown = groundY - movingTarget.basePosition.y;
+
+    const horizontalRoom = Math.min(horizontalRoomLeft, horizontalRoomRight);
+    const verticalRoom = Math.min(verticalRoomUp, verticalRoomDown);
+
+    const amplitudeForAxis = (axis: "x" | "y") => {
+      if (axis === "x") {
+        return Math.min(24, horizontalRoom);
+      }
+      return Math.min(20, verticalRoom);
+    };
+
+    let axis: "x" | "y" = rng.chance(0.5) ? "x" : "y";
+    if (amplitudeForAxis(axis) < 6) {
+      axis = axis === "x" ? "y" : "x";
+    }
+
+    const amplitude = amplitudeForAxis(axis);
+    if (amplitude >= 6) {
+      movingTarget.motion = {
+        axis,
+        amplitude,
+        speed: rng.range(0.8, 1.4),
+        phase: rng.range(0, Math.PI * 2),
+      };
+    } else {
+      delete movingTarget.motion;
+      movingTarget.position = { ...movingTarget.basePosition };
+    }
+  }
+
+  return targets;
+};
+
+export const computeVelocityFromPull = (pullPoint: Point, config = ANGRYMOJI_CONFIG) => {
+  const pull = { x: pullPoint.x - SLING_ANCHOR.x, y: pullPoint.y - SLING_ANCHOR.y };
+  return {
+    x: -pull.x * config.velocityMultiplier,
+    y: -pull.y * config.velocityMultiplier,
+  };
+};
+
+export const simulateTrajectory = (start: Point, velocity: Point, config = ANGRYMOJI_CONFIG) => {
+  const points: Point[] = [];
+  let position = { ...start };
+  const currentVelocity = { ...velocity };
+  for (let step = 0; step < TRAJECTORY_STEPS; step += 1) {
+    currentVelocity.y += config.gravity * TRAJECTORY_INTERVAL;
+    position = {
+      x: position.x + currentVelocity.x * TRAJECTORY_INTERVAL,
+      y: position.y + currentVelocity.y * TRAJECTORY_INTERVAL,
+    };
+    if (position.y > GROUND_Y - PROJECTILE_RADIUS) {
+      break;
+    }
+    points.push({ ...position });
+  }
+  return points;
+};
+
+const circleRectIntersect = (center: Point, radius: number, obstacle: Obstacle) => {
+  const closestX = Math.max(obstacle.position.x, Math.min(center.x, obstacle.position.x + obstacle.width));
+  const closestY = Math.max(obstacle.position.y, Math.min(center.y, obstacle.position.y + obstacle.height));
+  const dx = center.x - closestX;
+  const dy = center.y - closestY;
+  return dx * dx + dy * dy <= radius * radius;
+};
+
+/** Whether a shot at `position` overlaps a blocker. */
+export const hitsObstacle = (position: Point, obstacle: Obstacle) =>
+  circleRectIntersect(position, PROJECTILE_RADIUS, obstacle);
+
+/** Whether a shot at `position` reaches a target. */
+export const hitsTarget = (position: Point, target: Target) =>
+  Math.hypot(position.x - (target.position.x + target.size / 2), position.y - (target.position.y + target.size / 2)) <=
+  PROJECTILE_RADIUS + target.size / 2.4;
+
+const resetProjectile = (): Projectile => ({ position: { ...SLING_ANCHOR }, velocity: { x: 0, y: 0 }, active: false });
+
+const setupLevel = (state: AngrymojiState, level: number): AngrymojiState => {
+  const rng = restoreRng(state.rngState);
+  const obstacle = buildObstacle(level, rng);
+  const targets = buildTargets(level, obstacle, state.config.shotsPerWave, rng);
+  return {
+    ...state,
+    status: "ready",
+    message: level === 1 ? "status.start" : "status.level",
+    level,
+    shotsLeft: state.config.shotsPerWave,
+    targets,
+    obstacles: obstacle ? [obstacle] : [],
+    projectile: resetProjectile(),
+    drag: null,
+    stretchBand: 0,
+    pending: null,
+    rngState: rng.state(),
+  };
+};
+
+const init = (seed: string, config = ANGRYMOJI_CONFIG): AngrymojiState =>
+  setupLevel(
+    {
+      events: [],
+      seed,
+      config,
+      status: "ready",
+      message: "status.start",
+      score: 0,
+      level: 1,
+      shotsLeft: config.shotsPerWave,
+      shotsFired: 0,
+      waveShots: {},
+      targets: [],
+      obstacles: [],
+      projectile: resetProjectile(),
+      drag: null,
+      stretchBand: 0,
+      time: 0,
+      pending: null,
+      rngState: createRng(seed).state(),
+    },
+    1,
+  );
+
+/** Runs restart on their own, so a new run is the only kind of start. */
+const restart = (state: AngrymojiState): AngrymojiState => ({
+  ...init(state.seed, state.config),
+  events: [...state.events, { type: "start" }],
+});
+
+const aim = (state: AngrymojiState, point: Point): AngrymojiState => {
+  if ((state.status !== "ready" && state.status !== "aiming") || !withinAnchorZone(point)) {
+    return state;
+  }
+  if (state.shotsLeft <= 0) {
+    return { ...state, message: "status.noSlings" };
+  }
+  return { ...state, status: "aiming", drag: clampPullPoint(point), message: "status.lineUp" };
+};
+
+const pull = (state: AngrymojiState, rawPoint: Point): AngrymojiState => {
+  if (!state.drag) {
+    return state;
+  }
+  const point = clampPullPoint(rawPoint);
+  const tension = Math.hypot(point.x - SLING_ANCHOR.x, point.y - SLING_ANCHOR.y) / MAX_PULL;
+  const band = Math.floor(tension * STRETCH_BANDS);
+  const pulled: AngrymojiState = { ...state, drag: point, message: "status.release" };
+  if (band === state.stretchBand) {
+    return pulled;
+  }
+  return { ...pulled, stretchBand: band, events: [...state.events, { type: "stretch", tension }] };
+};
+
+const release = (state: AngrymojiState): AngrymojiState => {
+  const pullPoint = state.drag;
+  if (!pullPoint) {
+    return state;
+  }
+  const released: AngrymojiState = { ...state, drag: null, stretchBand: 0 };
+  const pullDistance = Math.hypot(pullPoint.x - SLING_ANCHOR.x, pullPoint.y - SLING_ANCHOR.y);
+  if (pullDistance < 6) {
+    return { ...released, status: "ready", message: "status.biggerPull" };
+  }
+
+  return {
+    ...released,
+    status: "flying",
+    message: "status.fired",
+    shotsLeft: Math.max(0, state.shotsLeft - 1),
+    shotsFired: state.shotsFired + 1,
+    waveShots: addToBreakdown(state.waveShots, "shots", state.level),
+    projectile: { position: { ...SLING_ANCHOR }, velocity: computeVelocityFromPull(pullPoint, state.config), active: true },
+    events: [...state.events, { type: "launch" }],
+  };
+};
+
+const applyInput = (state: AngrymojiState, input: AngrymojiInput): AngrymojiState => {
+  switch (input.type) {
+    case "aim":
+      return aim(state, input.point);
+    case "pull":
+      return pull(state, input.point);
+    case "release":
+      return release(state);
+    case "cancel":
+      return state.drag ? { ...state, status: "ready", drag: null, stretchBand: 0, message: "status.cancelled" } : state;
+    case "reset":
+      return { ...restart(state), message: "status.reset" };
+  }
+};
+
+const swayTargets = (targets: Target[], time: number) =>
+  targets.map((target) => {
+    if (!target.motion || target.hit) {
+      return { ...target, position: { ...target.basePosition } };
+    }
+    const { axis, amplitude, speed, phase } = target.motion;
+    const offset = Math.sin(time * speed + phase) * amplitude;
+    if (axis === "x") {
+      return { ...target, position: { x: target.basePosition.x + offset, y: target.basePosition.y } };
+    }
+    const minY = Math.max(45, GROUND_Y - TARGET_SIZE - 140);
+    const maxY = GROUND_Y - TARGET_SIZE - 6;
+    return {
+      ...target,
+      position: { x: target.basePosition.x, y: Math.min(maxY, Math.max(minY, target.basePosition.y + offset)) },
+    };
+  });
+
+type FlightEnd = "ground" | "bounds" | null;
+
+/** Moves the shot by `seconds`, bouncing it off blockers and the ground and marking the targets it reaches. */
+const fly = (state: AngrymojiState, seconds: number): { state: AngrymojiState; end: FlightEnd } => {
+  const velocity = { x: state.projectile.velocity.x, y: state.projectile.velocity.y + state.config.gravity * seconds };
+  const position = { x: state.projectile.position.x + velocity.x * seconds, y: state.projectile.position.y + velocity.y * seconds };
+  let active = true;
+  let end: FlightEnd = null;
+
+  state.obstacles.forEach((obstacle) => {
+    if (!hitsObstacle(position, obstacle)) {
+      return;
+    }
+    const dx = position.x - (obstacle.position.x + obstacle.width / 2);
+    const dy = position.y - (obstacle.position.y + obstacle.height / 2);
+    if (Math.abs(dx) > Math.abs(dy)) {
+      velocity.x *= -0.55;
+      position.x = dx > 0 ? obstacle.position.x + obstacle.width + PROJECTILE_RADIUS : obstacle.position.x - PROJECTILE_RADIUS;
+    } else {
+      velocity.y *= -0.55;
+      position.y = dy > 0 ? obstacle.position.y + obstacle.height + PROJECTILE_RADIUS : obstacle.position.y - PROJECTILE_RADIUS;
+    }
+  });
+
+  if (position.y > GROUND_Y - PROJECTILE_RADIUS) {
+    position.y = GROUND_Y - PROJECTILE_RADIUS;
+    velocity.y *= -0.25;
+    velocity.x *= 0.6;
+    if (Math.abs(velocity.y) < 40) {
+      active = false;
+      end = "ground";
+    }
+  }
+
+  if (position.x > CANVAS_WIDTH + 80 || position.x < -80 || position.y < -120) {
+    active = false;
+    end = "bounds";
+  }
+
+  let { score, message } = state;
+  const events = [...state.events];
+  const targets = state.targets.map((target) => {
+    if (target.hit) {
+      return target;
+    }
+    if (!hitsTarget(position, target)) {
+      return target;
+    }
+    score += 1;
+    message = "status.directHit";
+    events.push({ type: "hit" });
+    return { ...target, hit: true };
+  });
+
+  return { state: { ...state, score, message, targets, events, projectile: { position, velocity, active } }, end };
+};
+
+/** Decides what follows once the shot has cleared the wave or come to rest. */
+const settle = (state: AngrymojiState, end: FlightEnd): AngrymojiState => {
+  const { config } = state;
+  const remaining = state.targets.filter((target) => !target.hit).length;
+  if (remaining === 0 && state.targets.length > 0 && state.status !== "cooldown") {
+    return {
+      ...state,
+      status: "cooldown",
+      message: "status.nextWave",
+      projectile: { ...state.projectile, active: false },
+      pending: { action: "next-wave", remainingMs: config.waveDelayMs },
+      events: [...state.events, { type: "wave", slingsUsed: config.shotsPerWave - state.shotsLeft }],
+    };
+  }
+  if (state.projectile.active || !end || remaining === 0) {
+    return state;
+  }
+  if (state.shotsLeft <= 0) {
+    return {
+      ...state,
+      status: "failed",
+      message: "status.outOfSlings",
+      projectile: resetProjectile(),
+      pending: { action: "restart", remainingMs: config.restartDelayMs },
+      events: [...state.events, { type: "over" }],
+    };
+  }
+  return {
+    ...state,
+    status: "cooldown",
+    pending:
+      end === "ground"
+        ? { action: "next-shot", remainingMs: config.groundDelayMs }
+        : { action: "another-angle", remainingMs: config.boundsDelayMs },
+  };
+};
+
+const resolvePending = (state: AngrymojiState, { action }: Pending): AngrymojiState => {
+  switch (action) {
+    case "next-wave":
+      return setupLevel(state, state.level + 1);
+    case "restart":
+      return restart(state);
+    case "next-shot":
+    case "another-angle":
+      return {
+        ...state,
+        status: "ready",
+        message: action === "next-shot" ? "status.nextShot" : "status.anotherAngle",
+        projectile: resetProjectile(),
+        pending: null,
+      };
+  }
+};
+
+const advanceScene = (state: AngrymojiState, seconds: number): AngrymojiState => {
+  let next = state;
+  if (next.pending) {
+    const remainingMs = next.pending.remainingMs - seconds * 1000;
+    next = remainingMs <= 0 ? resolvePending(next, next.pending) : { ...next, pending: { ...next.pending, remainingMs } };
+  }
+
+  const time = next.time + seconds;
+  next = { ...next, time, targets: swayTargets(next.targets, time) };
+  let end: FlightEnd = null;
+  if (next.projectile.active) {
+    ({ state: next, end } = fly(next, seconds));
+  }
+  return settle(next, end);
+};
+
+const step = (state: AngrymojiState, input: AngrymojiInput | null, dt: number): AngrymojiState => {
+  let next: AngrymojiState = { ...state, events: [] };
+  if (input) {
+    next = applyInput(next, input);
+  }
+  const seconds = dt / 1000;
+  const substeps = Math.ceil(seconds / MAX_STEP_SECONDS - 1e-6);
+  for (let index = 0; index < substeps; index += 1) {
+    next = advanceScene(next, seconds / substeps);
+  }
+  return next;
+};
+
+export const angrymojiEngine: GameEngine<AngrymojiConfig, AngrymojiState, AngrymojiInput> = {
+  config: ANGRYMOJI_CONFIG,
+  init,
+  step,
+};
@@ -0,0 +1,60 @@
+import type { Catalogue } from "@/lib/i18n/types";
+
+const en = {
+  description: "Pull back the rage sling, dodge blockers, and clear every emoji squad with just two shots.",
+  "help.aim": "Drag back from the sling to aim, then let go to launch.",
+  "help.controller": "On a controller, pull back with the left stick and fire with the right trigger.",
+  "help.clear": "Clear every emoji in the wave before your two shots run out to reach the next level.",
+  "status.start": "Drag and release to launch the 😡",
+  "status.level": "Level {level} · Stack those hits",
+  "status.outOfSlings": "Out of slings! Resetting…",
+  "status.directHit": "Direct hit! 😤",
+  "status.nextWave": "Rage streak! Next wave",
+  "status.nextShot": "Line up the next shot",
+  "status.anotherAngle": "Try another angle",
+  "status.noSlings": "No slings left!",
+  "status.lineUp": "Line up the shot",
+  "status.release": "Release to fire",
+  "status.biggerPull": "Give it a bigger pull",
+  "status.fired": "Fury unleashed!",
+  "status.cancelled": "Launch cancelled",
+  "status.reset": "Back to basics · Level 1",
+  "targets.cleared": "All targets cleared",
+  "targets.left": { one: "{count} target left", other: "{count} targets left" },
+  "shots.none": "No shots remaining",
+  "shots.left": { one: "{count} shot remaining", other: "{count} shots remaining" },
+  footer: "Drag from the sling, watch the dashed arc, and unleash emoji mayhem.",
+  reset: "Reset run",
+};
+
+export type AngrymojiMessageKey = keyof typeof en;
+
+export const ANGRYMOJI_MESSAGES: Catalogue<AngrymojiMessageKey> = {
+  en,
+  tr: {
+    description: "Öfke sapanını ger, engellerden sıyrıl ve her emoji ekibini yalnızca iki atışla temizle.",
+    "help.aim": "Nişan almak için sapandan geriye sürükle, fırlatmak için bırak.",
+    "help.controller": "Kumandada sol çubukla geri çek, sağ tetikle ateşle.",
+    "help.clear": "Sonraki seviyeye geçmek için iki atışın bitmeden dalgadaki her emojiyi temizle.",
+    "status.start": "😡'yi fırlatmak için sürükle ve bırak",
+    "status.level": "Seviye {level} · İsabetleri sırala",
+    "status.outOfSlings": "Sapan kalmadı! Sıfırlanıyor…",
+    "status.directHit": "Tam isabet! 😤",
+    "status.nextWave": "Öfke serisi! Sıradaki dalga",
+    "status.nextShot": "Sıradaki atışı hazırla",
+    "status.anotherAngle": "Başka bir açı dene",
+    "status.noSlings": "Sapan kalmadı!",
+    "status.lineUp": "Atışı hazırla",
+    "status.release": "Ateşlemek için bırak",
+    "status.biggerPull": "Daha çok ger",
+    "status.fired": "Öfke salındı!",
+    "status.cancelled": "Fırlatma iptal edildi",
+    "status.reset": "Başa dönüş · Seviye 1",
+    "targets.cleared": "Tüm hedefler temizlendi",
+    "targets.left": { other: "{count} hedef kaldı" },
+    "shots.none": "Atış kalmadı",
+    "shots.left": { other: "{count} atış kaldı" },
+    footer: "Sapandan sürükle, kesikli yayı izle ve emoji kargaşasını başlat.",
+    reset: "Turu sıfırla",
+  },
+};
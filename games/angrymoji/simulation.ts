@@ -0,0 +1,87 @@
+import type { AngrymojiInput, AngrymojiState, Point } from "@/games/angrymoji/engine";
+import type { Rng } from "@/lib/random";
+import type { BotFactory } from "@/lib/simulation/types";
+import {
+  MAX_PULL,
+  SLING_ANCHOR,
+  angrymojiEngine,
+  computeVelocityFromPull,
+  hitsObstacle,
+  hitsTarget,
+  simulateTrajectory,
+} from "@/games/angrymoji/engine";
+import { FRAME_MS } from "@/lib/replay/clock";
+import { defineSimulation } from "@/lib/simulation/run";
+
+type Habits = {
+  /** Time to line up a shot once the sling is ready. */
+  reactionMs: number;
+  /** The pull lands up to this many pixels off in each direction. */
+  aimError: number;
+};
+
+const ANGLES = Array.from({ length: 28 }, (_, index) => ((-20 + index * 3.5) * Math.PI) / 180);
+const PULLS = Array.from({ length: 18 }, (_, index) => 30 + index * 5).filter((pull) => pull <= MAX_PULL);
+
+/** The pull whose predicted path reaches the most targets before a blocker or the ground. */
+const findBestPull = (state: AngrymojiState): Point => {
+  const targets = state.targets.filter((target) => !target.hit);
+  let best = { pull: { x: SLING_ANCHOR.x - MAX_PULL / 2, y: SLING_ANCHOR.y + MAX_PULL / 2 }, hits: 0 };
+  for (const angle of ANGLES) {
+    for (const distance of PULLS) {
+      const pull = { x: SLING_ANCHOR.x - Math.cos(angle) * distance, y: SLING_ANCHOR.y + Math.sin(angle) * distance };
+      const path = simulateTrajectory(SLING_ANCHOR, computeVelocityFromPull(pull, state.config), state.config);
+      const blockedAt = path.findIndex((point) => state.obstacles.some((obstacle) => hitsObstacle(point, obstacle)));
+      const open = blockedAt === -1 ? path : path.slice(0, blockedAt);
+      const hits = targets.filter((target) => open.some((point) => hitsTarget(point, target))).length;
+      if (hits > best.hits) {
+        best = { pull, hits };
+      }
+    }
+  }
+  return best.pull;
+};
+
+// a shot is three inputs: grab the sling, pull it to the planned point, let go
+const createBot =
+  (habits: Habits): BotFactory<AngrymojiState, AngrymojiInput> =>
+  (rng: Rng) => {
+    let readyAt: number | null = null;
+    let planned: Point | null = null;
+
+    return (state, time) => {
+      if (state.status === "aiming" && state.drag) {
+        const point = planned;
+        planned = null;
+        return point ? { type: "pull", point } : { type: "release" };
+      }
+      if (state.status !== "ready") {
+        readyAt = null;
+        return null;
+      }
+      readyAt ??= time;
+      if (time - readyAt < habits.reactionMs) {
+        return null;
+      }
+      readyAt = null;
+      const pull = findBestPull(state);
+      planned = {
+        x: pull.x + rng.range(-habits.aimError, habits.aimError),
+        y: pull.y + rng.range(-habits.aimError, habits.aimError),
+      };
+      return { type: "aim", point: SLING_ANCHOR };
+    };
+  };
+
+export const ANGRYMOJI_SIMULATION = defineSimulation({
+  engine: angrymojiEngine,
+  stepMs: FRAME_MS,
+  bots: {
+    sharp: createBot({ reactionMs: 400, aimError: 2 }),
+    casual: createBot({ reactionMs: 800, aimError: 6 }),
+  },
+  start: { type: "reset" },
+  isOver: (state) => state.status === "failed",
+  getLevel: (state) => state.level,
+  getScore: (state) => state.score,
+});
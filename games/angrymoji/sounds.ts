@@ -0,0 +1,15 @@
+import { playNoise, playTone } from "@/lib/audio/engine";
+
+/** `tension` is how far the sling is pulled, 0–1. */
+export const playSlingStretch = (tension: number) => {
+  playTone({ frequency: 180 + tension * 260, duration: 0.06, type: "sawtooth", gain: 0.04 });
+};
+
+export const playSlingRelease = () => {
+  playNoise({ duration: 0.25, from: 1800, to: 400, gain: 0.12 });
+};
+
+export const playImpact = () => {
+  playTone({ frequency: 140, slideTo: 55, duration: 0.25, type: "square", gain: 0.14 });
+  playNoise({ duration: 0.18, from: 900, to: 200, gain: 0.16 });
+};
@@ -0,0 +1,18 @@
+import type { GameInsight } from "@/lib/stats/types";
+import { collectBreakdown } from "@/lib/stats/breakdown";
+
+export const ANGRYMOJI_INSIGHTS: GameInsight[] = [
+  {
+    id: "shots-per-wave",
+    title: { en: "Average shots per wave", tr: "Dalga başına ortalama atış" },
+    unit: "count",
+    bars: (runs) =>
+      [...collectBreakdown(runs, "shots")]
+        .sort(([a], [b]) => Number(a) - Number(b))
+        .map(([wave, { total, runs: reached }]) => ({
+          key: wave,
+          label: { en: `Wave ${wave}`, tr: `Dalga ${wave}` },
+          value: total / reached,
+        })),
+  },
+];
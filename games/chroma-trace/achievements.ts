@@ -0,0 +1,24 @@
+import type { AchievementDefinition } from "@/lib/achievements/types";
+
+export type ChromaEvent = { type: "shape-traced"; shape: "circle" | "rectangle" | "triangle"; accuracy: number };
+
+export const CHROMA_ACHIEVEMENTS: AchievementDefinition<ChromaEvent>[] = [
+  {
+    id: "sharp-triangle",
+    title: { en: "Sharp Corners", tr: "Keskin Köşeler" },
+    description: { en: "Trace a triangle with 95% accuracy.", tr: "Bir üçgeni %95 doğrulukla çiz." },
+    icon: "🔺",
+    scope: "run",
+    goal: 1,
+    track: (progress, event) => (event.shape === "triangle" && event.accuracy >= 0.95 ? 1 : progress),
+  },
+  {
+    id: "sketchbook",
+    title: { en: "Full Sketchbook", tr: "Dolu Eskiz Defteri" },
+    description: { en: "Trace 50 shapes in total.", tr: "Toplam 50 şekil çiz." },
+    icon: "✏️",
+    scope: "lifetime",
+    goal: 50,
+    track: (progress) => progress + 1,
+  },
+];
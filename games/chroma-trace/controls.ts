@@ -0,0 +1,7 @@
+import type { GameControls } from "@/lib/input/types";
+
+export const CHROMA_CONTROLS: GameControls = {
+  tap: { label: { en: "Draw at the stick cursor", tr: "Çubuk imlecinde çiz" }, keys: [], buttons: ["a"] },
+  confirm: { label: { en: "Start or submit", tr: "Başlat veya gönder" }, keys: ["Enter"], buttons: ["x"] },
+  pause: { label: { en: "Pause", tr: "Duraklat" }, keys: ["Escape", "p"], buttons: ["start"] },
+};
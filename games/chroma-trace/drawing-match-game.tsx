@@ -0,0 +1,472 @@
+"use client";
+
+import type React from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { ChromaEvent } from "@/games/chroma-trace/achievements";
+import type { ChromaInput, Point, ShapeSpec } from "@/games/chroma-trace/engine";
+import type { ChromaMessageKey } from "@/games/chroma-trace/messages";
+import type { GameProps } from "@/games/registry";
+import type { Translate } from "@/lib/i18n/types";
+import type { ShareSketch, SketchPoint } from "@/lib/share/types";
+import GameShell from "@/components/game-shell/game-shell";
+import ChallengeButton from "@/components/game-shell/challenge-button";
+import ShareRunButton from "@/components/game-shell/share-run-button";
+import { CANVAS_SIZE, chromaEngine } from "@/games/chroma-trace/engine";
+import { CHROMA_MESSAGES } from "@/games/chroma-trace/messages";
+import { useEngine, useEngineLoop } from "@/lib/engine/use-engine";
+import { useFormatters, useTranslations } from "@/lib/i18n/locale";
+import { useGamepadStick } from "@/lib/input/use-gamepad-stick";
+import { useInputActions } from "@/lib/input/use-input-actions";
+import { useGameInput } from "@/lib/replay/session";
+import { useColorAdapter, useSettings } from "@/lib/settings/use-settings";
+import { useAchievementEvents } from "@/lib/use-achievement-events";
+import { useRunHistory } from "@/lib/use-run-history";
+
+const CANVAS_CENTER: Point = { x: CANVAS_SIZE / 2, y: CANVAS_SIZE / 2 };
+/** Canvas pixels the gamepad cursor travels per polled frame at full tilt. */
+const STICK_CURSOR_SPEED = 5;
+
+const drawShape = (ctx: CanvasRenderingContext2D, spec: ShapeSpec, adaptColor: (color: string) => string) => {
+  clearCanvas(ctx);
+  ctx.save();
+  ctx.translate(CANVAS_SIZE / 2, CANVAS_SIZE / 2);
+  ctx.rotate(spec.rotation);
+  ctx.translate(-CANVAS_SIZE / 2, -CANVAS_SIZE / 2);
+  ctx.beginPath();
+  if (spec.type === "circle") {
+    const first = spec.points[0];
+    const radius = Math.hypot(first.x - CANVAS_SIZE / 2, first.y - CANVAS_SIZE / 2);
+    ctx.arc(CANVAS_SIZE / 2, CANVAS_SIZE / 2, radius, 0, Math.PI * 2);
+  } else {
+    spec.points.forEach((point, index) => {
+      if (index === 0) {
+        ctx.moveTo(point.x, point.y);
+      } else {
+        ctx.lineTo(point.x, point.y);
+      }
+    });
+    ctx.closePath();
+  }
+  ctx.fillStyle = adaptColor(spec.color.fill);
+  ctx.shadowBlur = 28;
+  ctx.shadowColor = adaptColor(spec.color.glow);
+  ctx.fill();
+  ctx.restore();
+};
+
+const clearCanvas = (ctx: CanvasRenderingContext2D) => {
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.restore();
+};
+
+const drawStrokes = (ctx: CanvasRenderingContext2D, strokes: Point[][], pixelRatio: number) => {
+  clearCanvas(ctx);
+  ctx.save();
+  ctx.lineWidth = 5;
+  ctx.strokeStyle = "#f8fafc";
+  ctx.shadowBlur = 6 * pixelRatio;
+  ctx.shadowColor = "rgba(248,250,252,0.35)";
+  strokes.forEach((stroke) => {
+    ctx.beginPath();
+    stroke.forEach((point, index) => {
+      if (index === 0) {
+        ctx.moveTo(point.x, point.y);
+      } else {
+        ctx.lineTo(point.x, point.y);
+      }
+    });
+    ctx.stroke();
+  });
+  ctx.restore();
+};
+
+// Recorded strokes keep a tenth of a pixel, which is plenty for scoring.
+const roundPoint = (point: Point): Point => ({
+  x: Math.round(point.x * 10) / 10,
+  y: Math.round(point.y * 10) / 10,
+});
+
+const MAX_SHARED_POINTS = 600;
+
+const toSketchPoint = ({ x, y }: Point): SketchPoint => [
+  Math.round(Math.min(CANVAS_SIZE, Math.max(0, x))),
+  Math.round(Math.min(CANVAS_SIZE, Math.max(0, y))),
+];
+
+/** The last round's reference shape with the player's strokes, thinned out to keep the card small. */
+const captureSketch = (shape: ShapeSpec | null, strokes: Point[][]): ShareSketch | null => {
+  if (!shape) {
+    return null;
+  }
+  const total = strokes.reduce((count, stroke) => count + stroke.length, 0);
+  const step = Math.max(1, Math.ceil(total / MAX_SHARED_POINTS));
+  return {
+    kind: "trace",
+    size: CANVAS_SIZE,
+    color: shape.color.fill,
+    reference: shape.points.map(toSketchPoint),
+    strokes: strokes.map((stroke) =>
+      stroke.filter((_, index) => index % step === 0 || index === stroke.length - 1).map(toSketchPoint),
+    ),
+  };
+};
+
+const howToPlay = (t: Translate<ChromaMessageKey>) => (
+  <>
+    <p>{t("help.trace")}</p>
+    <p>{t("help.submit")}</p>
+    <p>{t("help.controller")}</p>
+  </>
+);
+
+export default function DrawingMatchGame({ seed }: GameProps) {
+  const { best, lastRun, startRun, finishRun } = useRunHistory("chroma-trace");
+  const emitAchievementEvent = useAchievementEvents<ChromaEvent>();
+  const t = useTranslations(CHROMA_MESSAGES);
+  const format = useFormatters();
+  const { leftHanded } = useSettings();
+  const adaptColor = useColorAdapter();
+
+  const { state, stateRef, advance } = useEngine(chromaEngine, seed, (event, current) => {
+    switch (event.type) {
+      case "start":
+        startRun();
+        break;
+      case "traced":
+        emitAchievementEvent({ type: "shape-traced", shape: event.shape, accuracy: event.accuracy });
+        break;
+      case "over":
+        finishRun({ score: current.score, stats: { roundsTraced: current.roundsTraced, ...current.shapeStats } });
+        break;
+    }
+  });
+  const { status, score, shape, strokes, elapsed, config } = state;
+  const failureReason = state.failure;
+  const hasSketch = strokes.length > 0;
+  const progress = status === "drawing" ? Math.max(0, 1 - elapsed / config.drawMs) : 1;
+  const previewCountdown = status === "preview" ? Math.max(0, config.previewMs - elapsed) / 1000 : 0;
+  const highScore = Math.max(best, score);
+
+  useEngineLoop(advance, status === "preview" || status === "drawing" || status === "result");
+
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const backgroundCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const ctxRef = useRef<CanvasRenderingContext2D | null>(null);
+  const backgroundCtxRef = useRef<CanvasRenderingContext2D | null>(null);
+  const [stickCursor, setStickCursor] = useState<Point | null>(null);
+  const stickCursorRef = useRef<Point | null>(null);
+  const stickDrawingRef = useRef(false);
+  const pixelRatioRef = useRef(1);
+
+  const getCanvasPoint = useCallback((event: PointerEvent) => {
+    const canvas = canvasRef.current;
+    if (!canvas) {
+      return { x: 0, y: 0 };
+    }
+    const rect = canvas.getBoundingClientRect();
+    const scaleX = CANVAS_SIZE / rect.width;
+    const scaleY = CANVAS_SIZE / rect.height;
+    return {
+      x: (event.clientX - rect.left) * scaleX,
+      y: (event.clientY - rect.top) * scaleY,
+    };
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const backgroundCanvas = backgroundCanvasRef.current;
+    if (!canvas || !backgroundCanvas) {
+      return;
+    }
+    const ratio = window.devicePixelRatio ?? 1;
+    pixelRatioRef.current = ratio;
+
+    const setupCanvas = (target: HTMLCanvasElement) => {
+      const context = target.getContext("2d");
+      if (!context) {
+        return null;
+      }
+      target.width = CANVAS_SIZE * ratio;
+      target.height = CANVAS_SIZE * ratio;
+      target.style.width = `${CANVAS_SIZE}px`;
+      target.style.height = `${CANVAS_SIZE}px`;
+      context.scale(ratio, ratio);
+      context.lineCap = "round";
+      context.lineJoin = "round";
+      clearCanvas(context);
+      return context;
+    };
+
+    ctxRef.current = setupCanvas(canvas);
+    backgroundCtxRef.current = setupCanvas(backgroundCanvas);
+  }, []);
+
+  // the shape shows during the preview, then the player's strokes take its place
+  useEffect(() => {
+    const ctx = ctxRef.current;
+    if (!ctx) {
+      return;
+    }
+    if (status === "preview" && shape) {
+      drawShape(ctx, shape, adaptColor);
+    } else {
+      drawStrokes(ctx, strokes, pixelRatioRef.current);
+    }
+  }, [adaptColor, shape, status, strokes]);
+
+  // once a sketch is scored, the reference fades in behind it
+  const showReference = status === "result" || (status === "over" && failureReason?.kind === "missed");
+  useEffect(() => {
+    const backgroundCtx = backgroundCtxRef.current;
+    if (!backgroundCtx) {
+      return;
+    }
+    if (!showReference || !shape) {
+      clearCanvas(backgroundCtx);
+      return;
+    }
+    backgroundCtx.save();
+    backgroundCtx.globalAlpha = 0.35;
+    drawShape(backgroundCtx, shape, adaptColor);
+    backgroundCtx.restore();
+  }, [adaptColor, shape, showReference]);
+
+  const dispatch = useGameInput<ChromaInput>((input) => advance(input));
+
+  useInputActions(({ action, pressed }) => {
+    if (action === "tap") {
+      if (pressed && status === "drawing") {
+        const point = stickCursorRef.current ?? CANVAS_CENTER;
+        stickCursorRef.current = point;
+        setStickCursor(point);
+        stickDrawingRef.current = true;
+        dispatch({ type: "stroke-start", point });
+      } else if (!pressed && stickDrawingRef.current) {
+        stickDrawingRef.current = false;
+        dispatch({ type: "stroke-end" });
+      }
+      return;
+    }
+    if (!pressed || action !== "confirm") {
+      return;
+    }
+    if (status === "intro" || status === "over") {
+      dispatch({ type: "start" });
+    } else if (status === "drawing" && hasSketch) {
+      dispatch({ type: "submit" });
+    }
+  });
+
+  useGamepadStick((stick) => {
+    if (status !== "drawing" || (stick.x === 0 && stick.y === 0)) {
+      return;
+    }
+    const current = stickCursorRef.current ?? CANVAS_CENTER;
+    const next = roundPoint({
+      x: Math.min(CANVAS_SIZE, Math.max(0, current.x + stick.x * STICK_CURSOR_SPEED)),
+      y: Math.min(CANVAS_SIZE, Math.max(0, current.y + stick.y * STICK_CURSOR_SPEED)),
+    });
+    if (next.x === current.x && next.y === current.y) {
+      return;
+    }
+    stickCursorRef.current = next;
+    setStickCursor(next);
+    if (stickDrawingRef.current) {
+      dispatch({ type: "stroke-move", point: next });
+    }
+  });
+
+  const handlePointerDown = useCallback(
+    (event: React.PointerEvent<HTMLCanvasElement>) => {
+      if (status !== "drawing") {
+        return;
+      }
+      event.preventDefault();
+      canvasRef.current?.setPointerCapture(event.pointerId);
+      dispatch({ type: "stroke-start", point: roundPoint(getCanvasPoint(event.nativeEvent)) });
+    },
+    [dispatch, getCanvasPoint, status]
+  );
+
+  const handlePointerMove = useCallback(
+    (event: React.PointerEvent<HTMLCanvasElement>) => {
+      if (!stateRef.current.stroking || status !== "drawing") {
+        return;
+      }
+      dispatch({ type: "stroke-move", point: roundPoint(getCanvasPoint(event.nativeEvent)) });
+    },
+    [dispatch, getCanvasPoint, stateRef, status]
+  );
+
+  const finishStroke = useCallback(
+    (event: React.PointerEvent<HTMLCanvasElement>) => {
+      if (!stateRef.current.stroking) {
+        return;
+      }
+      const canvas = canvasRef.current;
+      if (canvas) {
+        try {
+          canvas.releasePointerCapture(event.pointerId);
+        } catch {
+          // ignore if pointer was not captured
+        }
+      }
+      dispatch({ type: "stroke-end" });
+    },
+    [dispatch, stateRef]
+  );
+
+  const previewCountdownLabel = useMemo(
+    () => format.number(Math.max(0, previewCountdown), { minimumFractionDigits: 1, maximumFractionDigits: 1 }),
+    [format, previewCountdown]
+  );
+
+  const failureLabel =
+    failureReason?.kind === "missed"
+      ? t("failure.missed", {
+          accuracy: format.number(failureReason.coverage, { style: "percent", maximumFractionDigits: 0 }),
+        })
+      : failureReason?.kind === "timeout"
+        ? t("failure.timeout")
+        : null;
+
+  return (
+    <GameShell
+      gameId="chroma-trace"
+      description={t("description")}
+      hud={{ score: { value: score }, best: { value: highScore } }}
+      help={howToPlay(t)}
+      running={status !== "intro" && status !== "over"}
+      className="bg-slate-950 text-white"
+      backdrop={
+        <div className="pointer-events-none absolute inset-0" aria-hidden>
+          <div
+            className="absolute inset-0 opacity-30 blur-3xl"
+            style={{
+              background:
+                "radial-gradient(circle at 20% 20%, rgba(94,234,212,0.12), transparent 55%), radial-gradient(circle at 80% 30%, rgba(244,114,182,0.12), transparent 60%), radial-gradient(circle at 50% 80%, rgba(56,189,248,0.18), transparent 55%)",
+            }}
+          />
+        </div>
+      }
+    >
+      <section className="flex flex-1 flex-col items-center justify-center gap-10">
+        <div className="relative flex flex-col items-center gap-6">
+          <div className="relative flex h-[20rem] w-[20rem] items-center justify-center rounded-3xl">
+            <div className="absolute inset-0 rounded-[2.75rem] border border-white/10 bg-slate-900/40 backdrop-blur-xl" />
+            {stickCursor && status === "drawing" && (
+              <div
+                aria-hidden
+                className="pointer-events-none absolute z-20 h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full border border-white bg-white/40"
+                style={{ left: `${(stickCursor.x / CANVAS_SIZE) * 100}%`, top: `${(stickCursor.y / CANVAS_SIZE) * 100}%` }}
+              />
+            )}
+            <canvas
+              ref={backgroundCanvasRef}
+              aria-hidden
+              className="pointer-events-none absolute inset-0 z-[5] h-[20rem] w-[20rem] rounded-[2.5rem] bg-transparent"
+            />
+            <canvas
+              ref={canvasRef}
+              className="relative z-10 h-[20rem] w-[20rem] rounded-[2.5rem] border border-white/20 bg-transparent shadow-[0_40px_80px_rgba(15,23,42,0.55)] transition touch-none cursor-crosshair"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={finishStroke}
+              onPointerLeave={finishStroke}
+              onPointerCancel={finishStroke}
+              onContextMenu={(event) => event.preventDefault()}
+            />
+            {status === "preview" && (
+              <div className="pointer-events-none absolute right-5 top-5 z-20 rounded-full bg-slate-950/70 px-3 py-1 text-[0.65rem] uppercase tracking-[0.35em] text-white/80">
+                {t("preview.countdown", { seconds: previewCountdownLabel })}
+              </div>
+            )}
+            {status === "intro" && (
+              <div className="absolute inset-0 z-30 flex flex-col items-center justify-center gap-4 rounded-[2.5rem] border border-white/10 bg-slate-950/85 px-8 text-center text-sm text-white/80 backdrop-blur">
+                <p className="text-xs uppercase tracking-[0.35em] text-white/60">{t("intro.hint")}</p>
+                <button
+                  type="button"
+                  onClick={() => dispatch({ type: "start" })}
+                  className="rounded-full border border-white/20 bg-white/10 px-8 py-3 text-sm font-semibold uppercase tracking-[0.4em] text-white shadow-[0_12px_40px_rgba(56,189,248,0.25)] transition hover:border-white/40 hover:bg-white/20"
+                >
+                  {t("intro.start")}
+                </button>
+              </div>
+            )}
+            {status === "over" && failureLabel && (
+              <div className="pointer-events-none absolute left-1/2 top-5 z-30 flex -translate-x-1/2 items-center gap-2 rounded-full border border-rose-400/30 bg-rose-500/20 px-7 py-1 text-[0.65rem] uppercase tracking-[0.2em] text-rose-100 shadow-[0_0_25px_rgba(244,114,182,0.35)] whitespace-nowrap">
+                <span>{failureLabel}</span>
+              </div>
+            )}
+            {status === "result" && (
+              <div className="pointer-events-none absolute inset-0 flex items-center justify-center rounded-[2.5rem] bg-emerald-500/20 text-sm uppercase tracking-[0.3em] text-emerald-200 backdrop-blur-sm">
+                {t("result.nice")}
+              </div>
+            )}
+            {status === "over" && (
+              <div className="pointer-events-none absolute inset-0 flex items-center justify-center rounded-[2.5rem] bg-rose-500/20 text-sm uppercase tracking-[0.3em] text-rose-200 backdrop-blur-sm">
+                {t("over.title")}
+              </div>
+            )}
+          </div>
+          <div className="flex h-1 w-48 overflow-hidden rounded-full bg-white/10">
+            <div className="h-full w-full origin-left bg-white/60 transition-transform" style={{ transform: `scaleX(${progress})` }} />
+          </div>
+
+          <div
+            className={`flex items-center gap-3 text-xs uppercase tracking-[0.3em] text-white/60 ${
+              leftHanded ? "flex-row-reverse" : ""
+            }`}
+          >
+            <button
+              type="button"
+              onClick={() => dispatch({ type: "clear" })}
+              className="rounded-full border border-white/10 px-4 py-2 text-white/70 transition hover:border-white/30 hover:text-white"
+            >
+              {t("action.clear")}
+            </button>
+            <button
+              type="button"
+              onClick={() => dispatch({ type: "submit" })}
+              disabled={status !== "drawing" || !hasSketch}
+              className="rounded-full border border-white/20 bg-white/10 px-5 py-2 text-white transition hover:border-white/40 hover:bg-white/20 disabled:cursor-not-allowed disabled:border-white/5 disabled:text-white/30"
+            >
+              {t("action.submit")}
+            </button>
+          </div>
+        </div>
+
+        {status === "over" && (
+          <div className="flex flex-col items-center gap-5 text-center text-sm text-white/70 sm:text-base">
+            {!failureReason && (
+              <div className="flex flex-col items-center gap-2 text-white">
+                <p className="text-lg font-semibold text-white/90">{t("over.drifted")}</p>
+              </div>
+            )}
+            <button
+              type="button"
+              onClick={() => dispatch({ type: "start" })}
+              className="rounded-full border border-white/20 bg-white/10 px-8 py-3 text-sm font-semibold uppercase tracking-[0.4em] text-white transition hover:border-white/40 hover:bg-white/20"
+            >
+              {t("over.replay")}
+            </button>
+            <ShareRunButton
+              gameId="chroma-trace"
+              run={lastRun}
+              best={highScore}
+              sketch={() => captureSketch(shape, strokes)}
+              className="text-xs uppercase tracking-[0.35em] text-white/60 transition hover:text-white"
+            />
+            <ChallengeButton
+              gameId="chroma-trace"
+              run={lastRun}
+              className="text-xs uppercase tracking-[0.35em] text-white/60 transition hover:text-white"
+            />
+          </div>
+        )}
+      </section>
+    </GameShell>
+  );
+}
@@ -0,0 +1,444 @@
+import type { EngineState, GameEngine } from "@/lib/engine/types";
+import type { Rng } from "@/lib/random";
+import type { RunStats } from "@/lib/run-history";
+import { createRng, restoreRng } from "@/lib/random";
+import { addToBreakdown } from "@/lib/stats/breakdown";
+
+export type ChromaStatus = "intro" | "preview" | "drawing" | "result" | "over";
+
+export type ShapeType = "circle" | "rectangle" | "triangle";
+
+export type ShapeColor = {
+  id: string;
+  name: string;
+  fill: string;
+  glow: string;
+};
+
+export type Point = { x: number; y: number };
+
+/** The shape to trace. Its outline masks are rebuilt when a sketch is scored, so the state stays serializable. */
+export type ShapeSpec = {
+  id: string;
+  type: ShapeType;
+  color: ShapeColor;
+  rotation: number;
+  points: Point[];
+  outline: Point[];
+};
+
+export type FailureReason = { kind: "missed"; coverage: number } | { kind: "timeout" };
+
+export type ChromaConfig = {
+  /** How long the shape is shown before it disappears. */
+  previewMs: number;
+  /** Time to trace it from memory. */
+  drawMs: number;
+  /** Pause on the result before the next shape. */
+  resultMs: number;
+};
+
+export type ChromaInput =
+  | { type: "start" }
+  | { type: "stroke-start"; point: Point }
+  | { type: "stroke-move"; point: Point }
+  | { type: "stroke-end" }
+  | { type: "clear" }
+  | { type: "submit" };
+
+export type ChromaEngineEvent =
+  | { type: "start" }
+  | { type: "traced"; shape: ShapeType; accuracy: number }
+  | { type: "over" };
+
+export type ChromaState = EngineState<ChromaEngineEvent> & {
+  seed: string;
+  config: ChromaConfig;
+  status: ChromaStatus;
+  score: number;
+  roundsTraced: number;
+  /** Rounds and summed accuracy (in percent) per shape type, reported with the run. */
+  shapeStats: RunStats;
+  shape: ShapeSpec | null;
+  /** The current round's strokes. */
+  strokes: Point[][];
+  /** Whether the last stroke is still being drawn. */
+  stroking: boolean;
+  /** Milliseconds spent in the current status. */
+  elapsed: number;
+  failure: FailureReason | null;
+  rngState: number;
+};
+
+export const CHROMA_CONFIG: ChromaConfig = {
+  previewMs: 2400,
+  drawMs: 12000,
+  resultMs: 1400,
+};
+
+export const CANVAS_SIZE = 320;
+const TIGHT_RADIUS = 4;
+const LOOSE_RADIUS = 10;
+const OUTLINE_SAMPLES = 240;
+// half the drawn line's width plus its glow
+const STROKE_RADIUS = 5;
+
+const SHAPE_COLORS: ShapeColor[] = [
+  { id: "sunset", name: "Sunset", fill: "#fb7185", glow: "rgba(251,113,133,0.45)" },
+  { id: "ocean", name: "Ocean", fill: "#38bdf8", glow: "rgba(56,189,248,0.45)" },
+  { id: "lime", name: "Lime", fill: "#a3e635", glow: "rgba(163,230,53,0.45)" },
+  { id: "violet", name: "Violet", fill: "#c084fc", glow: "rgba(192,132,252,0.45)" },
+  { id: "ember", name: "Ember", fill: "#fb923c", glow: "rgba(251,146,60,0.45)" },
+  { id: "teal", name: "Teal", fill: "#14b8a6", glow: "rgba(20,184,166,0.45)" },
+];
+
+const rotatePoint = (point: Point, rotation: number, center: Point): Point => {
+  if (rotation === 0) {
+    return point;
+  }
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  return {
+    x: center.x + dx * cos - dy * sin,
+    y: center.y + dx * sin + dy * cos,
+  };
+};
+
+const sampleCircleOutline = (center: Point, radius: number, rotation: number) => {
+  const samples: Point[] = [];
+  for (let index = 0; index < OUTLINE_SAMPLES; index += 1) {
+    const angle = (index / OUTLINE_SAMPLES) * Math.PI * 2;
+    const point = {
+      x: center.x + Math.cos(angle) * radius,
+      y: center.y + Math.sin(angle) * radius,
+    };
+    samples.push(rotatePoint(point, rotation, center));
+  }
+  return samples;
+};
+
+const samplePolygonOutline = (points: Point[], rotation: number) => {
+  const center = { x: CANVAS_SIZE / 2, y: CANVAS_SIZE / 2 };
+  const closed = [...points, points[0]];
+  const segments = [] as Array<{ start: Point; end: Point; length: number }>;
+  let perimeter = 0;
+  for (let index = 0; index < closed.length - 1; index += 1) {
+    const start = closed[index];
+    const end = closed[index + 1];
+    const length = Math.hypot(end.x - start.x, end.y - start.y);
+    perimeter += length;
+    segments.push({ start, end, length });
+  }
+
+  const samples: Point[] = [];
+  if (perimeter === 0) {
+    return samples;
+  }
+
+  const spacing = perimeter / OUTLINE_SAMPLES;
+  let currentSegmentIndex = 0;
+  let currentCumulative = 0;
+
+  for (let sampleIndex = 0; sampleIndex < OUTLINE_SAMPLES; sampleIndex += 1) {
+    const targetDistance = spacing * sampleIndex;
+    while (
+      currentSegmentIndex < segments.length - 1 &&
+      targetDistance > currentCumulative + segments[currentSegmentIndex].length
+    ) {
+      currentCumulative += segments[currentSegmentIndex].length;
+      currentSegmentIndex += 1;
+    }
+
+    const segment = segments[currentSegmentIndex];
+    const segmentDistance = targetDistance - currentCumulative;
+    const t = segment.length === 0 ? 0 : segmentDistance / segment.length;
+    const point = {
+      x: segment.start.x + (segment.end.x - segment.start.x) * t,
+      y: segment.start.y + (segment.end.y - segment.start.y) * t,
+    };
+    samples.push(rotatePoint(point, rotation, center));
+  }
+
+  return samples;
+};
+
+const buildOutlineMask = (outline: Point[], radius: number) => {
+  const width = CANVAS_SIZE;
+  const height = CANVAS_SIZE;
+  const mask = new Uint8Array(width * height);
+  const r = Math.max(1, Math.floor(radius));
+  let count = 0;
+  outline.forEach((point) => {
+    const startX = Math.max(0, Math.floor(point.x) - r);
+    const endX = Math.min(width - 1, Math.floor(point.x) + r);
+    const startY = Math.max(0, Math.floor(point.y) - r);
+    const endY = Math.min(height - 1, Math.floor(point.y) + r);
+    for (let y = startY; y <= endY; y += 1) {
+      for (let x = startX; x <= endX; x += 1) {
+        const dx = x - point.x;
+        const dy = y - point.y;
+        if (dx * dx + dy * dy <= radius * radius) {
+          const index = y * width + x;
+          if (mask[index] === 0) {
+            mask[index] = 1;
+            count += 1;
+          }
+        }
+      }
+    }
+  });
+  return { mask, count };
+};
+
+/** Marks every logical pixel the strokes pass over, the same grid the outline masks use. */
+const rasterizeStrokes = (strokes: Point[][]) => {
+  const mask = new Uint8Array(CANVAS_SIZE * CANVAS_SIZE);
+  strokes.forEach((stroke) => {
+    for (let index = 1; index < stroke.length; index += 1) {
+      const start = stroke[index - 1];
+      const end = stroke[index];
+      const dx = end.x - start.x;
+      const dy = end.y - start.y;
+      const lengthSquared = dx * dx + dy * dy;
+      const minX = Math.max(0, Math.floor(Math.min(start.x, end.x) - STROKE_RADIUS));
+      const maxX = Math.min(CANVAS_SIZE - 1, Math.ceil(Math.max(start.x, end.x) + STROKE_RADIUS));
+      const minY = Math.max(0, Math.floor(Math.min(start.y, end.y) - STROKE_RADIUS));
+      const maxY = Math.min(CANVAS_SIZE - 1, Math.ceil(Math.max(start.y, end.y) + STROKE_RADIUS));
+      for (let y = minY; y <= maxY; y += 1) {
+        for (let x = minX; x <= maxX; x += 1) {
+          const px = x + 0.5;
+          const py = y + 0.5;
+          const t =
+            lengthSquared === 0
+              ? 0
+              : Math.max(0, Math.min(1, ((px - start.x) * dx + (py - start.y) * dy) / lengthSquared));
+          const distanceX = px - (start.x + dx * t);
+          const distanceY = py - (start.y + dy * t);
+          if (distanceX * distanceX + distanceY * distanceY <= STROKE_RADIUS * STROKE_RADIUS) {
+            mask[y * CANVAS_SIZE + x] = 1;
+          }
+        }
+      }
+    }
+  });
+  return mask;
+};
+
+/** Scores a sketch by how much of the outline it covers, minus strokes that stray from it. */
+export const scoreSketch = (shape: ShapeSpec, strokes: Point[][]) => {
+  const tight = buildOutlineMask(shape.outline, TIGHT_RADIUS);
+  const loose = buildOutlineMask(shape.outline, LOOSE_RADIUS);
+  const drawn = rasterizeStrokes(strokes);
+
+  let outlineHits = 0;
+  let strayPixels = 0;
+  let drawnPixels = 0;
+  drawn.forEach((pixel, index) => {
+    if (!pixel) {
+      return;
+    }
+    drawnPixels += 1;
+    if (tight.mask[index]) {
+      outlineHits += 1;
+    }
+    if (!loose.mask[index]) {
+      strayPixels += 1;
+    }
+  });
+
+  const coverage = tight.count === 0 ? 0 : outlineHits / tight.count;
+  const strayRatio = drawnPixels === 0 ? 0 : strayPixels / drawnPixels;
+  const accuracy = Math.max(0, coverage - strayRatio * 0.25);
+  const reward = Math.max(10, Math.round(accuracy * 140 + coverage * 40));
+  return { coverage, accuracy, reward };
+};
+
+const createShape = (rng: Rng): ShapeSpec => {
+  const typeRoll = rng.next();
+  let type: ShapeType = "circle";
+  if (typeRoll > 0.66) {
+    type = "triangle";
+  } else if (typeRoll > 0.33) {
+    type = "rectangle";
+  }
+
+  const color = rng.pick(SHAPE_COLORS);
+  const rotation = type === "circle" ? 0 : rng.range(-Math.PI / 5, Math.PI / 5);
+  const size = rng.range(140, 200);
+  const center = { x: CANVAS_SIZE / 2, y: CANVAS_SIZE / 2 };
+
+  if (type === "circle") {
+    const radius = size / 2;
+    const samples: Point[] = [];
+    const STEPS = 64;
+    for (let index = 0; index < STEPS; index += 1) {
+      const angle = (index / STEPS) * Math.PI * 2;
+      samples.push({ x: center.x + Math.cos(angle) * radius, y: center.y + Math.sin(angle) * radius });
+    }
+    const outline = sampleCircleOutline(center, radius, rotation);
+    return {
+      id: `${type}-${rng.token()}`,
+      type,
+      color,
+      rotation,
+      points: samples,
+      outline,
+    };
+  }
+
+  if (type === "rectangle") {
+    const width = rng.range(120, size);
+    const height = rng.range(120, size);
+    const halfWidth = width / 2;
+    const halfHeight = height / 2;
+    const points = [
+      { x: center.x - halfWidth, y: center.y - halfHeight },
+      { x: center.x + halfWidth, y: center.y - halfHeight },
+      { x: center.x + halfWidth, y: center.y + halfHeight },
+      { x: center.x - halfWidth, y: center.y + halfHeight },
+    ];
+    const outline = samplePolygonOutline(points, rotation);
+    return {
+      id: `${type}-${rng.token()}`,
+      type,
+      color,
+      rotation,
+      points,
+      outline,
+    };
+  }
+
+  const base = rng.range(140, size);
+  const height = rng.range(130, size);
+  const points = [
+    { x: center.x, y: center.y - height / 2 },
+    { x: center.x - base / 2, y: center.y + height / 2 },
+    { x: center.x + base / 2, y: center.y + height / 2 },
+  ];
+
+  const outline = samplePolygonOutline(points, rotation);
+  return {
+    id: `${type}-${rng.token()}`,
+    type,
+    color,
+    rotation,
+    points,
+    outline,
+  };
+};
+
+const init = (seed: string, config = CHROMA_CONFIG): ChromaState => ({
+  events: [],
+  seed,
+  config,
+  status: "intro",
+  score: 0,
+  roundsTraced: 0,
+  shapeStats: {},
+  shape: null,
+  strokes: [],
+  stroking: false,
+  elapsed: 0,
+  failure: null,
+  rngState: createRng(seed).state(),
+});
+
+const beginPreview = (state: ChromaState): ChromaState => {
+  const rng = restoreRng(state.rngState);
+  const shape = createShape(rng);
+  return { ...state, status: "preview", shape, strokes: [], stroking: false, elapsed: 0, rngState: rng.state() };
+};
+
+const fail = (state: ChromaState, failure: FailureReason): ChromaState => ({
+  ...state,
+  status: "over",
+  stroking: false,
+  failure,
+  events: [...state.events, { type: "over" }],
+});
+
+const submit = (state: ChromaState): ChromaState => {
+  const { shape } = state;
+  if (state.status !== "drawing" || state.strokes.length === 0 || !shape) {
+    return state;
+  }
+  const { coverage, accuracy, reward } = scoreSketch(shape, state.strokes);
+  const shapeStats = addToBreakdown(
+    addToBreakdown(state.shapeStats, "traced", shape.type),
+    "accuracy",
+    shape.type,
+    Math.round(accuracy * 100),
+  );
+  const scored = { ...state, shapeStats, stroking: false };
+
+  if (coverage < 0.2 || accuracy < 0.1) {
+    return fail(scored, { kind: "missed", coverage });
+  }
+  return {
+    ...scored,
+    status: "result",
+    score: state.score + reward,
+    roundsTraced: state.roundsTraced + 1,
+    elapsed: 0,
+    events: [...state.events, { type: "traced", shape: shape.type, accuracy }],
+  };
+};
+
+const applyInput = (state: ChromaState, input: ChromaInput): ChromaState => {
+  switch (input.type) {
+    case "start":
+      if (state.status !== "intro" && state.status !== "over") {
+        return state;
+      }
+      return { ...beginPreview(init(state.seed, state.config)), events: [{ type: "start" }] };
+    case "stroke-start":
+      if (state.status !== "drawing") {
+        return state;
+      }
+      return { ...state, strokes: [...state.strokes, [input.point]], stroking: true };
+    case "stroke-move": {
+      if (state.status !== "drawing" || !state.stroking) {
+        return state;
+      }
+      const last = state.strokes[state.strokes.length - 1];
+      return { ...state, strokes: [...state.strokes.slice(0, -1), [...last, input.point]] };
+    }
+    case "stroke-end":
+      return state.stroking ? { ...state, stroking: false } : state;
+    case "clear":
+      return state.status === "drawing" ? { ...state, strokes: [], stroking: false } : state;
+    case "submit":
+      return submit(state);
+  }
+};
+
+const step = (state: ChromaState, input: ChromaInput | null, dt: number): ChromaState => {
+  let next: ChromaState = { ...state, events: [] };
+  if (input) {
+    next = applyInput(next, input);
+  }
+  if (next.status === "intro" || next.status === "over") {
+    return next;
+  }
+
+  next = { ...next, elapsed: next.elapsed + dt };
+  const { previewMs, drawMs, resultMs } = next.config;
+  if (next.status === "preview" && next.elapsed >= previewMs) {
+    return { ...next, status: "drawing", elapsed: 0 };
+  }
+  if (next.status === "drawing" && next.elapsed >= drawMs) {
+    return fail(next, { kind: "timeout" });
+  }
+  if (next.status === "result" && next.elapsed >= resultMs) {
+    return beginPreview(next);
+  }
+  return next;
+};
+
+export const chromaEngine: GameEngine<ChromaConfig, ChromaState, ChromaInput> = {
+  config: CHROMA_CONFIG,
+  init,
+  step,
+};
@@ -0,0 +1,44 @@
+import type { Catalogue } from "@/lib/i18n/types";
+
+const en = {
+  description:
+    "Memorize the flash of color, redraw it from memory, and chase high accuracy before the shapes shift again.",
+  "help.trace": "A shape flashes briefly. Once it fades, trace it on the canvas from memory.",
+  "help.submit": "Submit before the draw window closes. Closer traces earn more points.",
+  "help.controller": "On a controller, steer the cursor with the left stick and hold A to draw.",
+  "failure.missed": "Outline missed {accuracy}",
+  "failure.timeout": "Time ran out",
+  "preview.countdown": "{seconds}s",
+  "intro.hint": "Trace the flash when it appears",
+  "intro.start": "Start session",
+  "result.nice": "Nice trace",
+  "over.title": "Run ended",
+  "over.drifted": "Shape drifted too far",
+  "over.replay": "Replay",
+  "action.clear": "Clear sketch",
+  "action.submit": "Submit guess",
+};
+
+export type ChromaMessageKey = keyof typeof en;
+
+export const CHROMA_MESSAGES: Catalogue<ChromaMessageKey> = {
+  en,
+  tr: {
+    description:
+      "Renk parlamasını ezberle, şekli hafızandan yeniden çiz ve şekiller yeniden değişmeden yüksek isabetin peşine düş.",
+    "help.trace": "Bir şekil kısa bir süre parlar. Kaybolunca onu hafızandan tuvale çiz.",
+    "help.submit": "Çizim süresi dolmadan gönder. Daha yakın çizimler daha çok puan kazandırır.",
+    "help.controller": "Kumandada imleci sol çubukla yönlendir, çizmek için A'yı basılı tut.",
+    "failure.missed": "Kontur kaçtı {accuracy}",
+    "failure.timeout": "Süre doldu",
+    "preview.countdown": "{seconds} sn",
+    "intro.hint": "Parlama belirince onu çiz",
+    "intro.start": "Oturumu başlat",
+    "result.nice": "Güzel çizim",
+    "over.title": "Tur bitti",
+    "over.drifted": "Şekil fazla kaydı",
+    "over.replay": "Yeniden oyna",
+    "action.clear": "Çizimi temizle",
+    "action.submit": "Tahmini gönder",
+  },
+};
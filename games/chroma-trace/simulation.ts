@@ -0,0 +1,76 @@
+import type { ChromaInput, ChromaState, Point } from "@/games/chroma-trace/engine";
+import type { Rng } from "@/lib/random";
+import type { BotFactory } from "@/lib/simulation/types";
+import { CANVAS_SIZE, chromaEngine } from "@/games/chroma-trace/engine";
+import { defineSimulation } from "@/lib/simulation/run";
+
+type Habits = {
+  /** Time before the first stroke once the shape disappears. */
+  reactionMs: number;
+  /** How far off the remembered size can be, as a share of the real one. */
+  scaleError: number;
+  /** How far off the remembered position can be, in pixels. */
+  offsetError: number;
+  /** How far the hand drifts from one point to the next, in pixels. */
+  wobble: number;
+};
+
+/** Outline points per recorded move; a hand does not record all of them. */
+const POINT_STRIDE = 4;
+
+/** The outline as the bot remembers it, drawn with a shaky hand. */
+const recallOutline = (outline: Point[], habits: Habits, rng: Rng): Point[] => {
+  const center = CANVAS_SIZE / 2;
+  const scale = 1 + rng.range(-habits.scaleError, habits.scaleError);
+  const offset = { x: rng.range(-habits.offsetError, habits.offsetError), y: rng.range(-habits.offsetError, habits.offsetError) };
+  const drift = { x: 0, y: 0 };
+  const sampled = outline.filter((_, index) => index % POINT_STRIDE === 0);
+  return [...sampled, sampled[0]].map((point) => {
+    drift.x = (drift.x + rng.range(-habits.wobble, habits.wobble)) * 0.8;
+    drift.y = (drift.y + rng.range(-habits.wobble, habits.wobble)) * 0.8;
+    return {
+      x: Math.round((center + (point.x - center) * scale + offset.x + drift.x) * 10) / 10,
+      y: Math.round((center + (point.y - center) * scale + offset.y + drift.y) * 10) / 10,
+    };
+  });
+};
+
+const createBot =
+  (habits: Habits): BotFactory<ChromaState, ChromaInput> =>
+  (rng: Rng) => {
+    let stroke: Point[] = [];
+    let drawn = 0;
+
+    return (state) => {
+      if (state.status !== "drawing" || !state.shape) {
+        stroke = [];
+        drawn = 0;
+        return null;
+      }
+      if (state.elapsed < habits.reactionMs) {
+        return null;
+      }
+      if (stroke.length === 0) {
+        stroke = recallOutline(state.shape.outline, habits, rng);
+      }
+      if (drawn < stroke.length) {
+        const point = stroke[drawn];
+        drawn += 1;
+        return drawn === 1 ? { type: "stroke-start", point } : { type: "stroke-move", point };
+      }
+      return state.stroking ? { type: "stroke-end" } : { type: "submit" };
+    };
+  };
+
+export const CHROMA_SIMULATION = defineSimulation({
+  engine: chromaEngine,
+  stepMs: 50,
+  bots: {
+    sharp: createBot({ reactionMs: 400, scaleError: 0.05, offsetError: 4, wobble: 1.5 }),
+    casual: createBot({ reactionMs: 800, scaleError: 0.14, offsetError: 12, wobble: 4 }),
+  },
+  start: { type: "start" },
+  isOver: (state) => state.status === "over",
+  getLevel: (state) => state.roundsTraced + 1,
+  getScore: (state) => state.score,
+});
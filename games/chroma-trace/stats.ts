@@ -0,0 +1,29 @@
+import type { ChromaEvent } from "@/games/chroma-trace/achievements";
+import type { LocalizedText } from "@/lib/i18n/types";
+import type { GameInsight } from "@/lib/stats/types";
+import { collectBreakdown } from "@/lib/stats/breakdown";
+
+const SHAPE_LABELS: Record<ChromaEvent["shape"], LocalizedText> = {
+  circle: { en: "Circle", tr: "Daire" },
+  rectangle: { en: "Rectangle", tr: "Dikdörtgen" },
+  triangle: { en: "Triangle", tr: "Üçgen" },
+};
+
+export const CHROMA_INSIGHTS: GameInsight[] = [
+  {
+    id: "shape-accuracy",
+    title: { en: "Average accuracy by shape", tr: "Şekle göre ortalama doğruluk" },
+    unit: "percent",
+    bars: (runs) => {
+      const traced = collectBreakdown(runs, "traced");
+      const accuracy = collectBreakdown(runs, "accuracy");
+      return (Object.keys(SHAPE_LABELS) as ChromaEvent["shape"][])
+        .filter((shape) => traced.has(shape))
+        .map((shape) => ({
+          key: shape,
+          label: SHAPE_LABELS[shape],
+          value: (accuracy.get(shape)?.total ?? 0) / 100 / (traced.get(shape)?.total ?? 1),
+        }));
+    },
+  },
+];
@@ -0,0 +1,24 @@
+import type { AchievementDefinition } from "@/lib/achievements/types";
+
+export type ColorsEvent = { type: "pulse-hit"; combo: number };
+
+export const COLORS_ACHIEVEMENTS: AchievementDefinition<ColorsEvent>[] = [
+  {
+    id: "combo-15",
+    title: { en: "In the Pulse", tr: "Ritmin İçinde" },
+    description: { en: "Reach a ×15 combo.", tr: "×15 komboya ulaş." },
+    icon: "🔥",
+    scope: "run",
+    goal: 15,
+    track: (progress, event) => Math.max(progress, event.combo),
+  },
+  {
+    id: "pulse-keeper",
+    title: { en: "Pulse Keeper", tr: "Nabız Bekçisi" },
+    description: { en: "Hit 500 pulses in total.", tr: "Toplam 500 nabız yakala." },
+    icon: "🌈",
+    scope: "lifetime",
+    goal: 500,
+    track: (progress) => progress + 1,
+  },
+];
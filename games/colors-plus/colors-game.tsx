@@ -0,0 +1,316 @@
+"use client";
+
+import { useMemo } from "react";
+import type { ColorsEvent } from "@/games/colors-plus/achievements";
+import type { ChallengeAction, ColorsInput } from "@/games/colors-plus/engine";
+import type { ColorsMessageKey } from "@/games/colors-plus/messages";
+import type { GameProps } from "@/games/registry";
+import type { Translate } from "@/lib/i18n/types";
+import GameShell from "@/components/game-shell/game-shell";
+import ChallengeButton from "@/components/game-shell/challenge-button";
+import ShareRunButton from "@/components/game-shell/share-run-button";
+import { colorsEngine } from "@/games/colors-plus/engine";
+import { COLORS_MESSAGES } from "@/games/colors-plus/messages";
+import { playColorTone, playFailStinger, playSuccessStinger } from "@/games/colors-plus/sounds";
+import { useSound } from "@/lib/audio/use-sound";
+import { useEngine, useEngineLoop } from "@/lib/engine/use-engine";
+import { useFormatters, useTranslations } from "@/lib/i18n/locale";
+import { useInputActions } from "@/lib/input/use-input-actions";
+import { useGameInput } from "@/lib/replay/session";
+import { useColorAdapter, useReducedMotion } from "@/lib/settings/use-settings";
+import { breakdownKey } from "@/lib/stats/breakdown";
+import { useAchievementEvents } from "@/lib/use-achievement-events";
+import { useRunHistory } from "@/lib/use-run-history";
+
+const formatActionLabel = (action: ChallengeAction, fake: boolean): ColorsMessageKey => {
+  if (fake) {
+    return "action.ignore";
+  }
+
+  return "action.tap";
+};
+
+const describeDifficulty = (intensity: number): ColorsMessageKey => {
+  if (intensity > 0.75) return "phase.inferno";
+  if (intensity > 0.55) return "phase.surge";
+  if (intensity > 0.35) return "phase.flow";
+  return "phase.warmup";
+};
+
+const howToPlay = (t: Translate<ColorsMessageKey>) => (
+  <>
+    <p>{t("help.tap")}</p>
+    <p>{t("help.fakes")}</p>
+  </>
+);
+
+export default function ColorsGame({ seed }: GameProps) {
+  const { best, lastRun, startRun, finishRun } = useRunHistory("colors-plus");
+  const emitAchievementEvent = useAchievementEvents<ColorsEvent>();
+  const reducedMotion = useReducedMotion();
+  const adaptColor = useColorAdapter();
+  const playSound = useSound();
+  const t = useTranslations(COLORS_MESSAGES);
+  const format = useFormatters();
+
+  const { state, stateRef, advance } = useEngine(colorsEngine, seed, (event, current) => {
+    switch (event.type) {
+      case "start":
+        startRun();
+        break;
+      case "tone":
+        playSound(() => playColorTone(event.colorId));
+        break;
+      case "hit":
+        emitAchievementEvent({ type: "pulse-hit", combo: event.combo });
+        playSound(() => playSuccessStinger(event.combo));
+        break;
+      case "miss":
+        playSound(playFailStinger);
+        break;
+      case "over": {
+        const { failure, maxCombo } = current;
+        const stats = failure ? { maxCombo, [breakdownKey("failure", failure)]: 1 } : { maxCombo };
+        finishRun({ score: current.score, level: current.level + 1, stats });
+        break;
+      }
+    }
+  });
+  const { status, score, combo, maxCombo, segments, challenge, intensity, feedback, failure: failureReason } = state;
+  const highScore = Math.max(best, score);
+
+  useEngineLoop(advance, status === "playing");
+
+  const dispatch = useGameInput<ColorsInput>((input) => advance(input));
+
+  useInputActions(({ action, pressed }) => {
+    if (!pressed) {
+      return;
+    }
+    const current = stateRef.current.status;
+    if (action === "tap") {
+      if (current === "intro" || current === "over") {
+        dispatch({ type: "start" });
+        return;
+      }
+      dispatch({ type: "tap" });
+    }
+    if (action === "quit" && current === "playing") {
+      dispatch({ type: "quit" });
+    }
+  });
+
+  const gradientStyle = useMemo(() => {
+    const focusColor = adaptColor(challenge?.targetColor.glow ?? "rgba(56,189,248,0.3)");
+    return {
+      background: `radial-gradient(circle at 50% 50%, ${focusColor} ${20 + intensity * 30}%, rgba(10,12,30,0.95) 70%)`,
+      transition: "background 280ms ease",
+    };
+  }, [adaptColor, challenge?.targetColor.glow, intensity]);
+
+  const sliceGradient = useMemo(() => {
+    if (segments.length === 0) {
+      return undefined;
+    }
+    const parts = segments
+      .map((segment) => {
+        const start = segment.startAngle.toFixed(2);
+        const end = segment.endAngle.toFixed(2);
+        return `${adaptColor(segment.color.value)} ${start}deg ${end}deg`;
+      })
+      .join(", ");
+    return `conic-gradient(${parts})`;
+  }, [adaptColor, segments]);
+
+  const progress = challenge ? 1 - Math.min(1, Math.max(0, state.challengeElapsed / challenge.duration)) : 1;
+
+  const actionLabel = formatActionLabel(challenge?.action ?? "tap", challenge?.fake ?? false);
+
+  const centerContent = (() => {
+    if (feedback !== null) {
+      return (
+        <div className="relative z-10 text-2xl font-semibold text-emerald-200 drop-shadow-[0_0_12px_rgba(16,185,129,0.6)] transition duration-300">
+          +{format.number(feedback)}
+        </div>
+      );
+    }
+
+    if (status === "intro") {
+      return (
+        <div className="relative z-10 flex flex-col items-center gap-3 text-center">
+          <span className="text-[0.7rem] uppercase tracking-[0.4em] text-white/50">{t("intro.ready")}</span>
+          <button
+            type="button"
+            onClick={() => dispatch({ type: "start" })}
+            className="rounded-full border border-white/20 bg-white/10 px-8 py-3 text-sm font-semibold uppercase tracking-[0.4em] text-white shadow-[0_10px_40px_rgba(56,189,248,0.25)] transition hover:border-white/40 hover:bg-white/20"
+          >
+            {t("intro.start")}
+          </button>
+          <span className="text-[0.6rem] uppercase tracking-[0.4em] text-white/30">{t("intro.hint")}</span>
+        </div>
+      );
+    }
+
+    if (status === "over") {
+      return (
+        <div className="relative z-10 flex flex-col items-center gap-3 text-center">
+          <span className="text-xs uppercase tracking-[0.4em] text-white/50">{t("over.title")}</span>
+          <p className="max-w-[11rem] text-sm text-white/80">{t(failureReason ? `failure.${failureReason}` : "failure.default")}</p>
+          <button
+            type="button"
+            onClick={() => dispatch({ type: "start" })}
+            className="rounded-full border border-white/20 bg-white/10 px-8 py-3 text-sm font-semibold uppercase tracking-[0.4em] text-white transition hover:border-white/40 hover:bg-white/20"
+          >
+            {t("over.replay")}
+          </button>
+          <ShareRunButton
+            gameId="colors-plus"
+            run={lastRun}
+            best={highScore}
+            className="text-[0.65rem] uppercase tracking-[0.35em] text-white/60 transition hover:text-white"
+          />
+          <ChallengeButton
+            gameId="colors-plus"
+            run={lastRun}
+            className="text-[0.65rem] uppercase tracking-[0.35em] text-white/60 transition hover:text-white"
+          />
+        </div>
+      );
+    }
+
+    return (
+      <div className="relative z-10 flex flex-col items-center gap-1 text-xs uppercase tracking-[0.35em] text-white/60">
+        <span>{t(actionLabel)}</span>
+      </div>
+    );
+  })();
+
+  const statusMessage = (() => {
+    if (status === "intro") {
+      return t("status.intro");
+    }
+
+    if (status === "over") {
+      return t("status.over");
+    }
+
+    return t(challenge?.instruction ?? "instruction.waiting");
+  })();
+
+  return (
+    <GameShell
+      gameId="colors-plus"
+      description={t("description")}
+      hud={{ score: { value: score }, best: { value: highScore }, combo: { value: combo } }}
+      help={howToPlay(t)}
+      running={status === "playing"}
+      className="bg-slate-950 text-white"
+      style={gradientStyle}
+      backdrop={
+        !reducedMotion && (
+          <div className="pointer-events-none absolute inset-0" aria-hidden>
+            <div
+              className="absolute inset-0 opacity-30 blur-3xl"
+              style={{
+                background: `radial-gradient(circle at 20% 20%, rgba(94,234,212,0.12), transparent 55%), radial-gradient(circle at 80% 30%, rgba(239,68,68,0.12), transparent 60%), radial-gradient(circle at 50% 80%, rgba(59,130,246,0.18), transparent 55%)`,
+              }}
+            />
+          </div>
+        )
+      }
+    >
+      <section className="flex flex-1 flex-col items-center justify-center gap-8">
+        <div className="relative flex flex-col items-center gap-6">
+          <div className="relative flex h-72 w-72 items-center justify-center sm:h-80 sm:w-80">
+            <div className="absolute -top-14 flex flex-col items-center text-[0.65rem] uppercase tracking-[0.35em] text-white/60 sm:-top-16">
+              <span>{t("target.label")}</span>
+              <span className="mt-1 flex items-center gap-2 rounded-full border border-white/10 bg-white/10 px-3 py-1 text-[0.7rem] tracking-[0.2em] text-white">
+                <span
+                  className="inline-flex h-3 w-3 rounded-full sm:h-3.5 sm:w-3.5"
+                  style={{
+                    background: challenge ? adaptColor(challenge.targetColor.value) : "transparent",
+                    boxShadow: `0 0 10px ${adaptColor(challenge?.targetColor.glow ?? "rgba(56,189,248,0.4)")}`,
+                  }}
+                />
+                <span>{challenge?.fake ? t("target.stayCalm") : challenge ? format.text(challenge.targetColor.name) : "—"}</span>
+              </span>
+            </div>
+            <div className="absolute inset-0 flex items-center justify-center">
+              <div className="h-[110%] w-[2px] rounded-full bg-white/30 shadow-[0_0_10px_rgba(255,255,255,0.3)]" aria-hidden />
+            </div>
+            {status === "playing" ? (
+              <button
+                type="button"
+                onPointerDown={() => dispatch({ type: "tap" })}
+                onClick={(event) => event.preventDefault()}
+                className="relative flex h-full w-full touch-none items-center justify-center rounded-full border border-white/10 bg-slate-950/60 transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-4 focus-visible:outline-white"
+              >
+                <span className="sr-only">{t("wheel.label")}</span>
+                <div
+                  className="absolute inset-4 rounded-full"
+                  style={{
+                    background: sliceGradient,
+                    transform: `rotate(${state.rotation}deg)`
+                  }}
+                />
+                <div className="absolute inset-[22%] rounded-full border border-white/10 bg-slate-950/60 shadow-inner shadow-black/60" />
+                {centerContent}
+                <div
+                  className="pointer-events-none absolute inset-4 rounded-full"
+                  style={{
+                    boxShadow: `0 0 40px ${adaptColor(challenge?.targetColor.glow ?? "rgba(56,189,248,0.4)")}`,
+                    opacity: 0.75,
+                    transition: "opacity 200ms ease, box-shadow 200ms ease",
+                  }}
+                />
+              </button>
+            ) : (
+              <div className="relative flex h-full w-full touch-none items-center justify-center rounded-full border border-white/10 bg-slate-950/60 transition">
+                <div
+                  className="absolute inset-4 rounded-full"
+                  style={{
+                    background: sliceGradient,
+                    transform: `rotate(${state.rotation}deg)`
+                  }}
+                />
+                <div className="absolute inset-[22%] rounded-full border border-white/10 bg-slate-950/60 shadow-inner shadow-black/60" />
+                {centerContent}
+                <div
+                  className="pointer-events-none absolute inset-4 rounded-full"
+                  style={{
+                    boxShadow: `0 0 40px ${adaptColor(challenge?.targetColor.glow ?? "rgba(56,189,248,0.4)")}`,
+                    opacity: 0.75,
+                    transition: "opacity 200ms ease, box-shadow 200ms ease",
+                  }}
+                />
+              </div>
+            )}
+            <div className="absolute -bottom-6 flex h-1 w-48 overflow-hidden rounded-full bg-white/10">
+              <div className="h-full w-full origin-left bg-white/60 transition-transform" style={{ transform: `scaleX(${progress})` }} />
+            </div>
+          </div>
+          <p className="max-w-sm text-center text-sm text-white/70">{statusMessage}</p>
+        </div>
+
+        {status === "over" && (
+          <div className="flex flex-col items-center gap-5 text-center">
+            <div className="flex gap-6 text-sm text-white/70">
+              <div className="flex flex-col">
+                <span className="text-xs uppercase tracking-[0.35em] text-white/40">{t("stats.score")}</span>
+                <span className="text-lg text-white">{format.number(score)}</span>
+              </div>
+              <div className="flex flex-col">
+                <span className="text-xs uppercase tracking-[0.35em] text-white/40">{t("stats.bestCombo")}</span>
+                <span className="text-lg text-white">×{format.number(maxCombo)}</span>
+              </div>
+              <div className="flex flex-col">
+                <span className="text-xs uppercase tracking-[0.35em] text-white/40">{t("stats.phase")}</span>
+                <span className="text-lg text-white">{t(describeDifficulty(intensity))}</span>
+              </div>
+            </div>
+          </div>
+        )}
+      </section>
+    </GameShell>
+  );
+}
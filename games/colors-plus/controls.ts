@@ -0,0 +1,7 @@
+import type { GameControls } from "@/lib/input/types";
+
+export const COLORS_CONTROLS: GameControls = {
+  tap: { label: { en: "Tap the wheel", tr: "Çarka dokun" }, keys: ["Space"], buttons: ["a"] },
+  quit: { label: { en: "End the run", tr: "Turu bitir" }, keys: ["q"], buttons: ["select"] },
+  pause: { label: { en: "Pause", tr: "Duraklat" }, keys: ["Escape", "p"], buttons: ["start"] },
+};
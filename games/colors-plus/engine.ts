@@ -0,0 +1,343 @@
+import type { ColorsMessageKey } from "@/games/colors-plus/messages";
+import type { ColorsFailure } from "@/games/colors-plus/stats";
+import type { EngineState, GameEngine } from "@/lib/engine/types";
+import type { LocalizedText } from "@/lib/i18n/types";
+import type { Rng } from "@/lib/random";
+import { createRng, restoreRng } from "@/lib/random";
+
+export type ColorsStatus = "intro" | "playing" | "over";
+export type ChallengeAction = "tap" | "ignore";
+
+export type ColorSlice = {
+  id: string;
+  name: LocalizedText;
+  value: string;
+  glow: string;
+};
+
+export type Segment = {
+  id: string;
+  color: ColorSlice;
+  startAngle: number;
+  endAngle: number;
+};
+
+export type ColorsChallenge = {
+  id: number;
+  action: ChallengeAction;
+  targetSegmentId: string | null;
+  targetColor: ColorSlice;
+  duration: number;
+  fake: boolean;
+  instruction: ColorsMessageKey;
+};
+
+export type ColorsConfig = {
+  baseScore: number;
+  /** Each combo step adds this much to the score multiplier. */
+  comboStep: number;
+  /** Full turns of the wheel a tap challenge waits before it counts as too slow. */
+  rotationsBeforeFail: number;
+  /** Chance of a fake cue on the first challenge, growing by `fakeChanceStep` per level up to `maxFakeChance`. */
+  fakeChance: number;
+  fakeChanceStep: number;
+  maxFakeChance: number;
+  /** Wheel speed in degrees per second on the first challenge, growing by `speedStep` per level up to `maxSpeed`. */
+  speed: number;
+  speedStep: number;
+  maxSpeed: number;
+};
+
+export type ColorsInput = { type: "start" } | { type: "tap" } | { type: "quit" };
+
+export type ColorsEngineEvent =
+  | { type: "start" }
+  | { type: "tone"; colorId: string }
+  | { type: "hit"; combo: number }
+  | { type: "miss" }
+  | { type: "over" };
+
+export type ColorsState = EngineState<ColorsEngineEvent> & {
+  seed: string;
+  config: ColorsConfig;
+  status: ColorsStatus;
+  score: number;
+  combo: number;
+  maxCombo: number;
+  /** Challenges cleared this run. */
+  level: number;
+  segments: Segment[];
+  challenge: ColorsChallenge | null;
+  /** Game time since the current challenge appeared. */
+  challengeElapsed: number;
+  /** Whether the current challenge has been answered. */
+  resolved: boolean;
+  /** Milliseconds until the next challenge after a hit. */
+  nextRoundMs: number | null;
+  rotation: number;
+  /** Degrees the wheel has turned during the current challenge. */
+  rotationProgress: number;
+  speed: number;
+  direction: 1 | -1;
+  intensity: number;
+  /** Points from the last hit, shown briefly in the center of the wheel. */
+  feedback: number | null;
+  feedbackMs: number;
+  failure: ColorsFailure | null;
+  rngState: number;
+};
+
+export const COLORS_CONFIG: ColorsConfig = {
+  baseScore: 120,
+  comboStep: 0.25,
+  rotationsBeforeFail: 2,
+  fakeChance: 0.12,
+  fakeChanceStep: 0.02,
+  maxFakeChance: 0.4,
+  speed: 120,
+  speedStep: 18,
+  maxSpeed: 420,
+};
+
+const COLOR_LIBRARY: ColorSlice[] = [
+  { id: "sky", name: { en: "Sky", tr: "Gök" }, value: "#38bdf8", glow: "rgba(56,189,248,0.45)" },
+  { id: "emerald", name: { en: "Emerald", tr: "Zümrüt" }, value: "#34d399", glow: "rgba(52,211,153,0.45)" },
+  { id: "rose", name: { en: "Rose", tr: "Gül" }, value: "#fb7185", glow: "rgba(251,113,133,0.45)" },
+  { id: "lime", name: { en: "Lime", tr: "Limon" }, value: "#a3e635", glow: "rgba(163,230,53,0.45)" },
+  { id: "fuchsia", name: { en: "Fuchsia", tr: "Fuşya" }, value: "#e879f9", glow: "rgba(232,121,249,0.45)" },
+  { id: "blue", name: { en: "Blue", tr: "Mavi" }, value: "#60a5fa", glow: "rgba(96,165,250,0.45)" },
+  { id: "orange", name: { en: "Orange", tr: "Turuncu" }, value: "#fb923c", glow: "rgba(251,146,60,0.45)" },
+  { id: "teal", name: { en: "Teal", tr: "Camgöbeği" }, value: "#14b8a6", glow: "rgba(20,184,166,0.45)" },
+  { id: "magenta", name: { en: "Magenta", tr: "Eflatun" }, value: "#f472b6", glow: "rgba(244,114,182,0.45)" },
+];
+
+const DEGREES_PER_ROTATION = 360;
+const NEXT_ROUND_MS = 420;
+const FEEDBACK_MS = 600;
+
+const normalizeAngle = (angle: number) => {
+  const mod = angle % 360;
+  return mod < 0 ? mod + 360 : mod;
+};
+
+const pickSegments = (count: number, rng: Rng): Segment[] => {
+  const pool = rng.shuffle(COLOR_LIBRARY);
+
+  const step = 360 / count;
+  const chosen = pool.slice(0, count);
+  return chosen.map((color, index) => {
+    const startAngle = step * index;
+    const endAngle = startAngle + step;
+    return {
+      id: `${color.id}-${index}`,
+      color,
+      startAngle,
+      endAngle,
+    };
+  });
+};
+
+/** Faster wheels and more fake cues as the run goes on. */
+export const getRoundPace = (level: number, config = COLORS_CONFIG) => ({
+  fakeChance: Math.min(config.fakeChance + level * config.fakeChanceStep, config.maxFakeChance),
+  speed: Math.min(config.maxSpeed, config.speed + level * config.speedStep),
+  flipChance: Math.min(0.3 + level * 0.02, 0.65),
+});
+
+/** The segment under the fixed pointer at the top of the wheel. */
+export const getPointerSegment = ({ segments, rotation }: Pick<ColorsState, "segments" | "rotation">) => {
+  const pointerAngle = normalizeAngle(-rotation);
+  return (
+    segments.find((candidate) => {
+      const start = normalizeAngle(candidate.startAngle);
+      const end = normalizeAngle(candidate.endAngle);
+      if (start < end) {
+        return pointerAngle >= start && pointerAngle < end;
+      }
+      return pointerAngle >= start || pointerAngle < end;
+    }) ?? null
+  );
+};
+
+const init = (seed: string, config = COLORS_CONFIG): ColorsState => ({
+  events: [],
+  seed,
+  config,
+  status: "intro",
+  score: 0,
+  combo: 0,
+  maxCombo: 0,
+  level: 0,
+  segments: [],
+  challenge: null,
+  challengeElapsed: 0,
+  resolved: false,
+  nextRoundMs: null,
+  rotation: 0,
+  rotationProgress: 0,
+  speed: 90,
+  direction: 1,
+  intensity: 0,
+  feedback: null,
+  feedbackMs: 0,
+  failure: null,
+  rngState: createRng(seed).state(),
+});
+
+const prepareRound = (state: ColorsState): ColorsState => {
+  const { level, config } = state;
+  const rng = restoreRng(state.rngState);
+  const segmentCount = Math.min(COLOR_LIBRARY.length - 1, Math.max(3, 3 + Math.floor(level / 2)));
+  const segments = pickSegments(segmentCount, rng);
+  const availableFakeColors = COLOR_LIBRARY.filter((color) => segments.every((segment) => segment.color.id !== color.id));
+  const pace = getRoundPace(level, config);
+  const fake = availableFakeColors.length > 0 && rng.chance(pace.fakeChance);
+  const action: ChallengeAction = fake ? "ignore" : "tap";
+
+  let targetSegmentId: string | null = null;
+  let targetColor: ColorSlice;
+  if (fake) {
+    targetColor = rng.pick(availableFakeColors);
+  } else {
+    const picked = rng.pick(segments);
+    targetSegmentId = picked.id;
+    targetColor = picked.color;
+  }
+
+  const direction: 1 | -1 = rng.chance(pace.flipChance) ? (state.direction === 1 ? -1 : 1) : state.direction;
+  const baseDuration = Math.max(1100, fake ? 1800 : 2200 - level * 70);
+  const rotationWindowMs = (config.rotationsBeforeFail * DEGREES_PER_ROTATION * 1000) / pace.speed;
+
+  return {
+    ...state,
+    segments,
+    challenge: {
+      id: (state.challenge?.id ?? 0) + 1,
+      action,
+      fake,
+      targetSegmentId,
+      targetColor,
+      duration: action === "tap" ? rotationWindowMs : baseDuration,
+      instruction: fake ? "instruction.fake" : "instruction.tap",
+    },
+    challengeElapsed: 0,
+    resolved: false,
+    nextRoundMs: null,
+    rotation: normalizeAngle(rng.range(0, 360)),
+    rotationProgress: 0,
+    speed: pace.speed,
+    direction,
+    intensity: Math.min(1, level / 12),
+    feedback: null,
+    failure: null,
+    rngState: rng.state(),
+  };
+};
+
+const endRun = (state: ColorsState, failure: ColorsFailure): ColorsState => ({
+  ...state,
+  status: "over",
+  resolved: true,
+  nextRoundMs: null,
+  failure,
+  feedback: null,
+  maxCombo: Math.max(state.maxCombo, state.combo),
+  combo: 0,
+  events: [...state.events, { type: "over" }],
+});
+
+const fail = (state: ColorsState, failure: ColorsFailure): ColorsState =>
+  endRun({ ...state, events: [...state.events, { type: "miss" }] }, failure);
+
+const succeed = (state: ColorsState): ColorsState => {
+  const base = state.config.baseScore + state.level * 12;
+  const gained = Math.round(base * (1 + state.combo * state.config.comboStep));
+  const combo = state.combo + 1;
+  return {
+    ...state,
+    resolved: true,
+    score: state.score + gained,
+    combo,
+    maxCombo: Math.max(state.maxCombo, combo),
+    level: state.level + 1,
+    feedback: gained,
+    feedbackMs: FEEDBACK_MS,
+    nextRoundMs: NEXT_ROUND_MS,
+    events: [...state.events, { type: "hit", combo }],
+  };
+};
+
+const tap = (state: ColorsState): ColorsState => {
+  const { challenge } = state;
+  if (state.status !== "playing" || !challenge || state.resolved) {
+    return state;
+  }
+  if (challenge.fake) {
+    return fail(state, "fake");
+  }
+
+  const segment = getPointerSegment(state);
+  const toned: ColorsState = segment
+    ? { ...state, events: [...state.events, { type: "tone", colorId: segment.color.id }] }
+    : state;
+  if (!segment || !challenge.targetSegmentId || segment.id !== challenge.targetSegmentId) {
+    return fail(toned, "wrongColor");
+  }
+  return succeed(toned);
+};
+
+const applyInput = (state: ColorsState, input: ColorsInput): ColorsState => {
+  switch (input.type) {
+    case "start":
+      return prepareRound({ ...init(state.seed, state.config), status: "playing", events: [{ type: "start" }] });
+    case "tap":
+      return tap(state);
+    case "quit":
+      return state.status === "playing" ? endRun(state, "exited") : state;
+  }
+};
+
+const advanceTime = (state: ColorsState, dt: number): ColorsState => {
+  let next = state;
+  if (next.feedback !== null) {
+    const feedbackMs = next.feedbackMs - dt;
+    next = feedbackMs > 0 ? { ...next, feedbackMs } : { ...next, feedback: null, feedbackMs: 0 };
+  }
+  if (next.status !== "playing") {
+    return next;
+  }
+
+  const turned = (dt / 1000) * next.speed * next.direction;
+  next = {
+    ...next,
+    rotation: normalizeAngle(next.rotation + turned),
+    rotationProgress: next.rotationProgress + Math.abs(turned),
+    challengeElapsed: next.challengeElapsed + dt,
+  };
+
+  if (next.nextRoundMs !== null) {
+    const nextRoundMs = next.nextRoundMs - dt;
+    return nextRoundMs > 0 ? { ...next, nextRoundMs } : prepareRound(next);
+  }
+
+  const { challenge } = next;
+  if (!challenge || next.resolved) {
+    return next;
+  }
+  if (challenge.action === "ignore") {
+    return next.challengeElapsed >= challenge.duration ? succeed(next) : next;
+  }
+  const threshold = next.config.rotationsBeforeFail * DEGREES_PER_ROTATION;
+  return next.rotationProgress >= threshold ? fail(next, "slow") : next;
+};
+
+const step = (state: ColorsState, input: ColorsInput | null, dt: number): ColorsState => {
+  const next = input ? applyInput({ ...state, events: [] }, input) : { ...state, events: [] };
+  return dt > 0 ? advanceTime(next, dt) : next;
+};
+
+export const colorsEngine: GameEngine<ColorsConfig, ColorsState, ColorsInput> = {
+  config: COLORS_CONFIG,
+  init,
+  step,
+};
@@ -0,0 +1,78 @@
+import type { Catalogue } from "@/lib/i18n/types";
+
+const en = {
+  description:
+    "Hold focus as the chroma wheel swings, nail taps on the matching hue, and stay calm when the signal is a fake.",
+  "help.tap": "Tap the wheel, or press Space, when the segment under the marker matches the called hue.",
+  "help.fakes": "Fake-out signals mean hold still. Consecutive hits build your combo multiplier.",
+  "instruction.tap": "Tap the matching hue",
+  "instruction.fake": "Fake signal · stay calm",
+  "instruction.waiting": "Stay sharp for the countdown",
+  "action.tap": "Tap",
+  "action.ignore": "Do nothing",
+  "phase.warmup": "Warmup",
+  "phase.flow": "Flow",
+  "phase.surge": "Surge",
+  "phase.inferno": "Inferno",
+  "failure.missed": "Missed the pulse",
+  "failure.slow": "Too slow",
+  "failure.fake": "Fake cue — stay still next time",
+  "failure.wrongColor": "Wrong color",
+  "failure.exited": "Exited early",
+  "failure.default": "Out of rhythm",
+  "intro.ready": "Ready to focus",
+  "intro.start": "Start",
+  "intro.hint": "Tap to sync with the hue",
+  "over.title": "Run ended",
+  "over.replay": "Replay",
+  "status.intro":
+    "Tap precisely as the rotating pointer hits the hue. Build streaks, survive the fakes, and keep the spin under control.",
+  "status.over": "Check your run stats, then dive back in when you are ready.",
+  "target.label": "Target",
+  "target.stayCalm": "stay calm",
+  "wheel.label": "Interact with the color wheel",
+  "stats.score": "Score",
+  "stats.bestCombo": "Best Combo",
+  "stats.phase": "Phase",
+};
+
+export type ColorsMessageKey = keyof typeof en;
+
+export const COLORS_MESSAGES: Catalogue<ColorsMessageKey> = {
+  en,
+  tr: {
+    description:
+      "Renk çarkı dönerken odağını koru, eşleşen renge tam zamanında dokun ve sinyal sahteyse sakin kal.",
+    "help.tap": "İşaretçinin altındaki dilim çağrılan renkle eşleştiğinde çarka dokun ya da Boşluk'a bas.",
+    "help.fakes": "Sahte sinyaller kıpırdama demektir. Art arda isabetler kombo çarpanını büyütür.",
+    "instruction.tap": "Eşleşen renge dokun",
+    "instruction.fake": "Sahte sinyal · sakin kal",
+    "instruction.waiting": "Geri sayım için tetikte ol",
+    "action.tap": "Dokun",
+    "action.ignore": "Hiçbir şey yapma",
+    "phase.warmup": "Isınma",
+    "phase.flow": "Akış",
+    "phase.surge": "Yükseliş",
+    "phase.inferno": "Cehennem",
+    "failure.missed": "Nabzı kaçırdın",
+    "failure.slow": "Çok yavaş",
+    "failure.fake": "Sahte işaret — bir dahaki sefere kıpırdama",
+    "failure.wrongColor": "Yanlış renk",
+    "failure.exited": "Erken çıktın",
+    "failure.default": "Ritim kaçtı",
+    "intro.ready": "Odaklanmaya hazır",
+    "intro.start": "Başlat",
+    "intro.hint": "Renkle senkron olmak için dokun",
+    "over.title": "Tur bitti",
+    "over.replay": "Tekrar",
+    "status.intro":
+      "Dönen işaretçi renge değdiği anda tam zamanında dokun. Seriler kur, sahtelerden sağ çık ve dönüşü kontrol altında tut.",
+    "status.over": "Tur istatistiklerine göz at, hazır olduğunda yeniden dal.",
+    "target.label": "Hedef",
+    "target.stayCalm": "sakin kal",
+    "wheel.label": "Renk çarkıyla etkileşime geç",
+    "stats.score": "Skor",
+    "stats.bestCombo": "En iyi kombo",
+    "stats.phase": "Evre",
+  },
+};
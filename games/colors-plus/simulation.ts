@@ -0,0 +1,72 @@
+import type { ColorsInput, ColorsState } from "@/games/colors-plus/engine";
+import type { Rng } from "@/lib/random";
+import type { BotFactory } from "@/lib/simulation/types";
+import { colorsEngine, getPointerSegment } from "@/games/colors-plus/engine";
+import { FRAME_MS } from "@/lib/replay/clock";
+import { defineSimulation } from "@/lib/simulation/run";
+
+type Habits = {
+  /** Time to read a new cue before acting on it. */
+  reactionMs: number;
+  /** Taps land up to this early or late around the middle of the target slice. */
+  jitterMs: number;
+  /** Chance of noticing that a cue's color is not on the wheel. */
+  fakeSpotChance: number;
+};
+
+const normalizeAngle = (angle: number) => ((angle % 360) + 360) % 360;
+
+const createBot =
+  (habits: Habits): BotFactory<ColorsState, ColorsInput> =>
+  (rng: Rng) => {
+    let challengeId: number | null = null;
+    let tapAt: number | null = null;
+    let spotsFake = false;
+
+    return (state) => {
+      const { challenge } = state;
+      if (state.status !== "playing" || !challenge || state.resolved) {
+        return null;
+      }
+      if (challenge.id !== challengeId) {
+        challengeId = challenge.id;
+        tapAt = null;
+        spotsFake = rng.chance(habits.fakeSpotChance);
+      }
+      const elapsed = state.challengeElapsed;
+      if (elapsed < habits.reactionMs) {
+        return null;
+      }
+
+      if (challenge.fake) {
+        // a fooled player taps at some point anyway
+        tapAt ??= spotsFake ? Number.POSITIVE_INFINITY : elapsed + rng.range(0, 600);
+      } else if (tapAt === null) {
+        const segment = getPointerSegment(state);
+        if (segment?.id !== challenge.targetSegmentId) {
+          return null;
+        }
+        // the pointer sweeps against the wheel's turn; aim for the middle of the slice
+        const pointerAngle = normalizeAngle(-state.rotation);
+        const center = (segment.startAngle + segment.endAngle) / 2;
+        const ahead =
+          state.direction === 1 ? normalizeAngle(pointerAngle - center) : normalizeAngle(center - pointerAngle);
+        const distance = ahead > 180 ? 0 : ahead;
+        tapAt = elapsed + (distance / state.speed) * 1000 + rng.range(-habits.jitterMs, habits.jitterMs);
+      }
+      return elapsed >= tapAt ? { type: "tap" } : null;
+    };
+  };
+
+export const COLORS_SIMULATION = defineSimulation({
+  engine: colorsEngine,
+  stepMs: FRAME_MS,
+  bots: {
+    sharp: createBot({ reactionMs: 250, jitterMs: 35, fakeSpotChance: 0.97 }),
+    casual: createBot({ reactionMs: 450, jitterMs: 80, fakeSpotChance: 0.85 }),
+  },
+  start: { type: "start" },
+  isOver: (state) => state.status === "over",
+  getLevel: (state) => state.level + 1,
+  getScore: (state) => state.score,
+});
@@ -0,0 +1,28 @@
+import { midiToFrequency, playChord, playTone } from "@/lib/audio/engine";
+
+// A major pentatonic spread, so any two colors sound good together.
+const COLOR_NOTES: Record<string, number> = {
+  sky: 72,
+  emerald: 74,
+  rose: 76,
+  lime: 79,
+  fuchsia: 81,
+  blue: 84,
+  orange: 86,
+  teal: 88,
+  magenta: 91,
+};
+
+export const playColorTone = (colorId: string) => {
+  const note = COLOR_NOTES[colorId] ?? 72;
+  playTone({ frequency: midiToFrequency(note), duration: 0.25, type: "sine", gain: 0.18 });
+};
+
+export const playSuccessStinger = (combo: number) => {
+  const root = 72 + Math.min(combo, 12);
+  playChord([root, root + 4, root + 7].map(midiToFrequency), { duration: 0.3, type: "triangle", gain: 0.15, delay: 0.06 });
+};
+
+export const playFailStinger = () => {
+  playTone({ frequency: midiToFrequency(55), slideTo: midiToFrequency(43), duration: 0.5, type: "sawtooth", gain: 0.1 });
+};
@@ -0,0 +1,27 @@
+import type { LocalizedText } from "@/lib/i18n/types";
+import type { GameInsight } from "@/lib/stats/types";
+import { collectBreakdown } from "@/lib/stats/breakdown";
+
+export type ColorsFailure = "missed" | "slow" | "fake" | "wrongColor" | "exited";
+
+const FAILURE_LABELS: Record<ColorsFailure, LocalizedText> = {
+  slow: { en: "Too slow", tr: "Çok yavaş" },
+  wrongColor: { en: "Wrong color", tr: "Yanlış renk" },
+  fake: { en: "Fake cue", tr: "Sahte işaret" },
+  missed: { en: "Missed the pulse", tr: "Nabzı kaçırdın" },
+  exited: { en: "Exited early", tr: "Erken çıktın" },
+};
+
+export const COLORS_INSIGHTS: GameInsight[] = [
+  {
+    id: "failures",
+    title: { en: "How runs ended", tr: "Turlar nasıl bitti" },
+    unit: "count",
+    bars: (runs) => {
+      const failures = collectBreakdown(runs, "failure");
+      return (Object.keys(FAILURE_LABELS) as ColorsFailure[])
+        .filter((failure) => failures.has(failure))
+        .map((failure) => ({ key: failure, label: FAILURE_LABELS[failure], value: failures.get(failure)?.total ?? 0 }));
+    },
+  },
+];
@@ -0,0 +1,24 @@
+import type { AchievementDefinition } from "@/lib/achievements/types";
+
+export type LowTideEvent = { type: "mote-gathered"; calmStreak: number };
+
+export const LOW_TIDE_ACHIEVEMENTS: AchievementDefinition<LowTideEvent>[] = [
+  {
+    id: "still-water",
+    title: { en: "Still Water", tr: "Durgun Su" },
+    description: { en: "Build a calm streak of 20.", tr: "20'lik bir sakinlik serisi kur." },
+    icon: "🌊",
+    scope: "run",
+    goal: 20,
+    track: (progress, event) => Math.max(progress, event.calmStreak),
+  },
+  {
+    id: "tide-pool",
+    title: { en: "Tide Pool", tr: "Gelgit Havuzu" },
+    description: { en: "Gather 250 motes in total.", tr: "Toplam 250 zerre topla." },
+    icon: "🐚",
+    scope: "lifetime",
+    goal: 250,
+    track: (progress) => progress + 1,
+  },
+];
@@ -0,0 +1,11 @@
+import type { GameControls } from "@/lib/input/types";
+
+export const LOW_TIDE_CONTROLS: GameControls = {
+  "move-up": { label: { en: "Drift up", tr: "Yukarı süzül" }, keys: ["ArrowUp", "w"], buttons: ["up"] },
+  "move-down": { label: { en: "Drift down", tr: "Aşağı süzül" }, keys: ["ArrowDown", "s"], buttons: ["down"] },
+  "move-left": { label: { en: "Drift left", tr: "Sola süzül" }, keys: ["ArrowLeft", "a"], buttons: ["left"] },
+  "move-right": { label: { en: "Drift right", tr: "Sağa süzül" }, keys: ["ArrowRight", "d"], buttons: ["right"] },
+  tap: { label: { en: "Start", tr: "Başlat" }, keys: ["Space"], buttons: ["a"] },
+  quit: { label: { en: "Rest", tr: "Dinlen" }, keys: ["Enter"], buttons: ["b"] },
+  pause: { label: { en: "Pause", tr: "Duraklat" }, keys: ["Escape", "p"], buttons: ["start"] },
+};
@@ -0,0 +1,300 @@
+import type { LowTideMessageKey } from "@/games/low-tide/messages";
+import type { EngineState, GameEngine } from "@/lib/engine/types";
+import type { Rng } from "@/lib/random";
+import { createRng, restoreRng } from "@/lib/random";
+
+export type LowTideStatus = "intro" | "playing" | "over";
+
+export type Point = { x: number; y: number };
+
+export type Direction = "up" | "down" | "left" | "right";
+
+export type Hint = { key: LowTideMessageKey; streak?: number };
+
+export type Mote = {
+  id: string;
+  position: Point;
+  radius: number;
+  hue: number;
+  phase: number;
+};
+
+export type Ripple = {
+  id: number;
+  position: Point;
+  /** Seconds. */
+  age: number;
+  calm: boolean;
+};
+
+export type LowTideConfig = {
+  size: number;
+  orbRadius: number;
+  motes: number;
+  /** Pixels per second. */
+  flowSpeed: number;
+  /** Pixels per second. */
+  guideSpeed: number;
+  /** Pixels per second squared. */
+  keyThrust: number;
+  damping: number;
+  /** Pixels per second; slower than this counts as calm. */
+  calmSpeed: number;
+  /** Every this many calm gathers in a row adds a point per gather. */
+  streakStep: number;
+};
+
+export type LowTideInput =
+  | { type: "start" }
+  | { type: "rest" }
+  | { type: "guide"; point: Point }
+  | { type: "let-go" }
+  | { type: "hold"; direction: Direction }
+  | { type: "release"; direction: Direction }
+  | { type: "release-all" };
+
+export type LowTideEngineEvent =
+  | { type: "start" }
+  | { type: "gather"; calm: boolean; streak: number }
+  | { type: "over" };
+
+export type LowTideState = EngineState<LowTideEngineEvent> & {
+  seed: string;
+  config: LowTideConfig;
+  status: LowTideStatus;
+  /** Seconds of scene time; the current drifts with it, before and after runs too. */
+  time: number;
+  /** Seconds of the run so far. */
+  playTime: number;
+  orb: { position: Point; velocity: Point };
+  guide: Point | null;
+  pointerActive: boolean;
+  held: Direction[];
+  motes: Mote[];
+  ripples: Ripple[];
+  nextRippleId: number;
+  score: number;
+  streak: number;
+  longestStreak: number;
+  gathered: number;
+  /** Seconds the orb spent under the calm speed. */
+  calmTime: number;
+  hint: Hint;
+  rngState: number;
+};
+
+export const LOW_TIDE_CONFIG: LowTideConfig = {
+  size: 360,
+  orbRadius: 14,
+  motes: 7,
+  flowSpeed: 22,
+  guideSpeed: 140,
+  keyThrust: 220,
+  damping: 1.6,
+  calmSpeed: 75,
+  streakStep: 5,
+};
+
+export const RIPPLE_LIFETIME = 1.6; // seconds
+// longer steps are split so the orb never tunnels past a mote
+const MAX_STEP_SECONDS = 1 / 60;
+
+const directionVectors: Record<Direction, Point> = {
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+};
+
+const wrap = (value: number, size: number) => {
+  const margin = 20;
+  const span = size + margin * 2;
+  return ((((value + margin) % span) + span) % span) - margin;
+};
+
+const sampleFlow = (point: Point, time: number, flowSpeed: number): Point => ({
+  x: flowSpeed * (0.6 + 0.4 * Math.sin(point.y / 70 + time * 0.25)),
+  y: flowSpeed * 0.5 * Math.cos(point.x / 90 + time * 0.18),
+});
+
+const spawnMote = (size: number, rng: Rng): Mote => ({
+  id: `mote-${rng.token()}`,
+  position: { x: rng.range(0, size), y: rng.range(24, size - 24) },
+  radius: rng.range(4, 6.5),
+  hue: rng.range(170, 210),
+  phase: rng.range(0, Math.PI * 2),
+});
+
+export const getOrbSpeed = ({ orb }: Pick<LowTideState, "orb">) => Math.hypot(orb.velocity.x, orb.velocity.y);
+
+/** Share of the run so far spent calm, from 0 to 1. */
+export const getCalmShare = ({ playTime, calmTime }: Pick<LowTideState, "playTime" | "calmTime">) =>
+  playTime > 0 ? calmTime / playTime : 1;
+
+const init = (seed: string, config = LOW_TIDE_CONFIG): LowTideState => {
+  const rng = createRng(seed);
+  const motes = Array.from({ length: config.motes }, () => spawnMote(config.size, rng));
+  return {
+    events: [],
+    seed,
+    config,
+    status: "intro",
+    time: 0,
+    playTime: 0,
+    orb: { position: { x: config.size / 2, y: config.size / 2 }, velocity: { x: 0, y: 0 } },
+    guide: null,
+    pointerActive: false,
+    held: [],
+    motes,
+    ripples: [],
+    nextRippleId: 0,
+    score: 0,
+    streak: 0,
+    longestStreak: 0,
+    gathered: 0,
+    calmTime: 0,
+    hint: { key: "hint.start" },
+    rngState: rng.state(),
+  };
+};
+
+const applyInput = (state: LowTideState, input: LowTideInput): LowTideState => {
+  const playing = state.status === "playing";
+  switch (input.type) {
+    case "start":
+      return { ...init(state.seed, state.config), status: "playing", events: [{ type: "start" }] };
+    case "rest":
+      return playing
+        ? { ...state, status: "over", pointerActive: false, guide: null, held: [], events: [{ type: "over" }] }
+        : state;
+    case "guide":
+      return playing ? { ...state, pointerActive: true, guide: input.point } : state;
+    case "let-go":
+      return { ...state, pointerActive: false };
+    case "hold":
+      return playing && !state.held.includes(input.direction)
+        ? { ...state, guide: null, held: [...state.held, input.direction] }
+        : state;
+    case "release":
+      return { ...state, held: state.held.filter((direction) => direction !== input.direction) };
+    case "release-all":
+      return { ...state, held: [] };
+  }
+};
+
+const gather = (state: LowTideState, mote: Mote, calm: boolean): LowTideState => {
+  const { streakStep } = state.config;
+  const streak = calm ? state.streak + 1 : 0;
+  let hint: Hint = { key: "hint.rushed" };
+  if (calm) {
+    hint = streak % streakStep === 0 ? { key: "hint.streak", streak } : { key: "hint.soft" };
+  }
+  return {
+    ...state,
+    ripples: [...state.ripples, { id: state.nextRippleId, position: { ...mote.position }, age: 0, calm }],
+    nextRippleId: state.nextRippleId + 1,
+    streak,
+    longestStreak: Math.max(state.longestStreak, streak),
+    gathered: state.gathered + 1,
+    score: state.score + 1 + Math.floor(streak / streakStep),
+    hint,
+    events: [...state.events, { type: "gather", calm, streak }],
+  };
+};
+
+const moveOrb = (state: LowTideState, delta: number): LowTideState => {
+  const { config, orb, time } = state;
+  const flow = sampleFlow(orb.position, time, config.flowSpeed);
+  let accelX = flow.x * 0.35 - orb.velocity.x * config.damping;
+  let accelY = flow.y * 0.35 - orb.velocity.y * config.damping;
+
+  let { guide } = state;
+  if (guide) {
+    const dx = guide.x - orb.position.x;
+    const dy = guide.y - orb.position.y;
+    const distance = Math.hypot(dx, dy);
+    if (distance > 2) {
+      const desiredSpeed = Math.min(config.guideSpeed, distance * 1.6);
+      accelX += (dx / distance) * desiredSpeed * config.damping;
+      accelY += (dy / distance) * desiredSpeed * config.damping;
+    } else if (!state.pointerActive) {
+      guide = null;
+    }
+  }
+
+  state.held.forEach((direction) => {
+    const vector = directionVectors[direction];
+    accelX += vector.x * config.keyThrust;
+    accelY += vector.y * config.keyThrust;
+  });
+
+  const velocity = { x: orb.velocity.x + accelX * delta, y: orb.velocity.y + accelY * delta };
+  const min = config.orbRadius;
+  const max = config.size - config.orbRadius;
+  const position = {
+    x: Math.min(max, Math.max(min, orb.position.x + velocity.x * delta)),
+    y: Math.min(max, Math.max(min, orb.position.y + velocity.y * delta)),
+  };
+  return { ...state, guide, orb: { position, velocity } };
+};
+
+const advanceScene = (state: LowTideState, delta: number): LowTideState => {
+  const { config } = state;
+  const time = state.time + delta;
+  let next: LowTideState = {
+    ...state,
+    time,
+    motes: state.motes.map((mote) => {
+      const flow = sampleFlow(mote.position, time, config.flowSpeed);
+      return {
+        ...mote,
+        position: {
+          x: wrap(mote.position.x + flow.x * delta, config.size),
+          y: wrap(mote.position.y + flow.y * delta, config.size),
+        },
+      };
+    }),
+    ripples: state.ripples
+      .map((ripple) => ({ ...ripple, age: ripple.age + delta }))
+      .filter((ripple) => ripple.age < RIPPLE_LIFETIME),
+  };
+  if (next.status !== "playing") {
+    return next;
+  }
+
+  next = moveOrb({ ...next, playTime: next.playTime + delta }, delta);
+  const calm = getOrbSpeed(next) < config.calmSpeed;
+  if (calm) {
+    next = { ...next, calmTime: next.calmTime + delta };
+  }
+
+  const rng = restoreRng(next.rngState);
+  const motes: Mote[] = [];
+  next.motes.forEach((mote) => {
+    const { position } = next.orb;
+    const distance = Math.hypot(mote.position.x - position.x, mote.position.y - position.y);
+    if (distance > config.orbRadius + mote.radius) {
+      motes.push(mote);
+      return;
+    }
+    next = gather(next, mote, calm);
+    motes.push(spawnMote(config.size, rng));
+  });
+  return { ...next, motes, rngState: rng.state() };
+};
+
+const step = (state: LowTideState, input: LowTideInput | null, dt: number): LowTideState => {
+  let next = input ? applyInput({ ...state, events: [] }, input) : { ...state, events: [] };
+  const seconds = dt / 1000;
+  const substeps = Math.ceil(seconds / MAX_STEP_SECONDS - 1e-6);
+  for (let index = 0; index < substeps; index += 1) {
+    next = advanceScene(next, seconds / substeps);
+  }
+  return next;
+};
+
+export const lowTideEngine: GameEngine<LowTideConfig, LowTideState, LowTideInput> = {
+  config: LOW_TIDE_CONFIG,
+  init,
+  step,
+};
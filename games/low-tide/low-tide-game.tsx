@@ -0,0 +1,458 @@
+"use client";
+
+import type React from "react";
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import type { LowTideEvent } from "@/games/low-tide/achievements";
+import type { Direction, LowTideInput, LowTideState, Point } from "@/games/low-tide/engine";
+import type { LowTideMessageKey } from "@/games/low-tide/messages";
+import type { GameProps } from "@/games/registry";
+import type { Translate } from "@/lib/i18n/types";
+import type { InputAction } from "@/lib/input/types";
+import GameShell from "@/components/game-shell/game-shell";
+import ChallengeButton from "@/components/game-shell/challenge-button";
+import ShareRunButton from "@/components/game-shell/share-run-button";
+import { LOW_TIDE_CONFIG, RIPPLE_LIFETIME, getCalmShare, getOrbSpeed, lowTideEngine } from "@/games/low-tide/engine";
+import { LOW_TIDE_MESSAGES } from "@/games/low-tide/messages";
+import { playGather, startTideMusic } from "@/games/low-tide/sounds";
+import { useSound } from "@/lib/audio/use-sound";
+import { useEngine } from "@/lib/engine/use-engine";
+import { useFormatters, useTranslations } from "@/lib/i18n/locale";
+import { useInputActions } from "@/lib/input/use-input-actions";
+import { FRAME_MS } from "@/lib/replay/clock";
+import { useGameClock, useGameInput } from "@/lib/replay/session";
+import { useReducedMotion, useSettings } from "@/lib/settings/use-settings";
+import { useAchievementEvents } from "@/lib/use-achievement-events";
+import { useGamePause } from "@/lib/use-game-pause";
+import { useRunHistory } from "@/lib/use-run-history";
+
+const { size: CANVAS_SIZE, orbRadius: ORB_RADIUS, calmSpeed: CALM_SPEED } = LOW_TIDE_CONFIG;
+const BREATH_PERIOD = 8; // seconds for one inhale + exhale
+
+const actionToDirection: Partial<Record<InputAction, Direction>> = {
+  "move-up": "up",
+  "move-down": "down",
+  "move-left": "left",
+  "move-right": "right",
+};
+
+// Recorded guide points keep a tenth of a pixel.
+const roundPoint = (point: Point): Point => ({
+  x: Math.round(point.x * 10) / 10,
+  y: Math.round(point.y * 10) / 10,
+});
+
+const describeTide = (minutes: number): LowTideMessageKey => {
+  if (minutes >= 10) return "tide.deep";
+  if (minutes >= 5) return "tide.slack";
+  if (minutes >= 2) return "tide.ebbing";
+  return "tide.ripples";
+};
+
+// whole seconds and percents only, so React skips most frames
+const hudChanged = (previous: LowTideState, next: LowTideState) =>
+  previous.status !== next.status ||
+  previous.score !== next.score ||
+  previous.hint !== next.hint ||
+  Math.floor(previous.playTime) !== Math.floor(next.playTime) ||
+  Math.round(getCalmShare(previous) * 100) !== Math.round(getCalmShare(next) * 100);
+
+const drawScene = (ctx: CanvasRenderingContext2D, state: LowTideState, reducedMotion: boolean) => {
+  const { time, guide, orb } = state;
+  // reduced motion holds the breathing guide still and skips ripples
+  const breath = reducedMotion ? 0.5 : (Math.sin((time / BREATH_PERIOD) * Math.PI * 2) + 1) / 2;
+
+  const water = ctx.createLinearGradient(0, 0, 0, CANVAS_SIZE);
+  water.addColorStop(0, "rgba(8,47,73,0.95)");
+  water.addColorStop(1, "rgba(15,23,42,0.95)");
+  ctx.fillStyle = water;
+  ctx.fillRect(0, 0, CANVAS_SIZE, CANVAS_SIZE);
+
+  // slow current lines
+  ctx.save();
+  ctx.strokeStyle = "rgba(125,211,252,0.08)";
+  ctx.lineWidth = 1.5;
+  for (let row = 0; row < 9; row += 1) {
+    const baseY = 20 + row * 40;
+    ctx.beginPath();
+    for (let x = 0; x <= CANVAS_SIZE; x += 12) {
+      const y = baseY + Math.sin(x / 48 + time * 0.4 + row) * 6;
+      if (x === 0) {
+        ctx.moveTo(x, y);
+      } else {
+        ctx.lineTo(x, y);
+      }
+    }
+    ctx.stroke();
+  }
+  ctx.restore();
+
+  // breathing guide
+  ctx.save();
+  ctx.strokeStyle = `rgba(186,230,253,${0.08 + breath * 0.12})`;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.arc(CANVAS_SIZE / 2, CANVAS_SIZE / 2, 60 + breath * 90, 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.restore();
+
+  if (!reducedMotion) {
+    state.ripples.forEach((ripple) => {
+      const progress = ripple.age / RIPPLE_LIFETIME;
+      ctx.save();
+      ctx.strokeStyle = ripple.calm
+        ? `rgba(167,243,208,${0.55 * (1 - progress)})`
+        : `rgba(253,186,116,${0.45 * (1 - progress)})`;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.arc(ripple.position.x, ripple.position.y, 8 + progress * 46, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.restore();
+    });
+  }
+
+  state.motes.forEach((mote) => {
+    const pulse = 0.65 + 0.35 * Math.sin(time * 1.4 + mote.phase);
+    ctx.save();
+    ctx.shadowColor = `hsla(${mote.hue}, 90%, 70%, 0.8)`;
+    ctx.shadowBlur = 16;
+    ctx.fillStyle = `hsla(${mote.hue}, 90%, 75%, ${pulse})`;
+    ctx.beginPath();
+    ctx.arc(mote.position.x, mote.position.y, mote.radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+  });
+
+  if (guide && state.status === "playing") {
+    ctx.save();
+    ctx.strokeStyle = "rgba(248,250,252,0.25)";
+    ctx.setLineDash([3, 6]);
+    ctx.beginPath();
+    ctx.arc(guide.x, guide.y, 10, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  const speed = getOrbSpeed(state);
+  const rushing = speed >= CALM_SPEED;
+  ctx.save();
+  ctx.shadowColor = rushing ? "rgba(253,186,116,0.7)" : "rgba(167,243,208,0.75)";
+  ctx.shadowBlur = 30;
+  const orbGradient = ctx.createRadialGradient(
+    orb.position.x - 4,
+    orb.position.y - 4,
+    2,
+    orb.position.x,
+    orb.position.y,
+    ORB_RADIUS,
+  );
+  orbGradient.addColorStop(0, "rgba(255,255,255,0.95)");
+  orbGradient.addColorStop(1, rushing ? "rgba(251,146,60,0.65)" : "rgba(52,211,153,0.6)");
+  ctx.fillStyle = orbGradient;
+  ctx.beginPath();
+  ctx.arc(orb.position.x, orb.position.y, ORB_RADIUS, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.restore();
+};
+
+const howToPlay = (t: Translate<LowTideMessageKey>) => (
+  <>
+    <p>{t("help.drag")}</p>
+    <p>{t("help.calm")}</p>
+  </>
+);
+
+export default function LowTideGame({ seed }: GameProps) {
+  const { best, lastRun, startRun, finishRun } = useRunHistory("low-tide");
+  const t = useTranslations(LOW_TIDE_MESSAGES);
+  const format = useFormatters();
+  const clock = useGameClock();
+  const emitAchievementEvent = useAchievementEvents<LowTideEvent>();
+  const { leftHanded } = useSettings();
+  const reducedMotion = useReducedMotion();
+  const playSound = useSound();
+  const { paused } = useGamePause();
+
+  const { state, stateRef, advance } = useEngine(
+    lowTideEngine,
+    seed,
+    (event, current) => {
+      switch (event.type) {
+        case "start":
+          startRun();
+          break;
+        case "gather":
+          playSound(() => playGather(event.calm));
+          emitAchievementEvent({ type: "mote-gathered", calmStreak: event.streak });
+          break;
+        case "over":
+          finishRun({
+            score: current.score,
+            stats: {
+              motesGathered: current.gathered,
+              longestCalmStreak: current.longestStreak,
+              calmPercent: Math.round(getCalmShare(current) * 100),
+            },
+          });
+          break;
+      }
+    },
+    hudChanged,
+  );
+  const { status, score, streak, longestStreak, hint } = state;
+  const elapsedMs = Math.floor(state.playTime) * 1000;
+  const calmShare = Math.round(getCalmShare(state) * 100) / 100;
+  const highScore = Math.max(best, score);
+
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const reducedMotionRef = useRef(reducedMotion);
+
+  useEffect(() => {
+    reducedMotionRef.current = reducedMotion;
+  }, [reducedMotion]);
+
+  useEffect(() => {
+    if (status !== "playing" || paused) {
+      return;
+    }
+    let stopMusic: (() => void) | null = null;
+    playSound(() => {
+      stopMusic = startTideMusic();
+    });
+    return () => stopMusic?.();
+  }, [paused, playSound, status]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) {
+      return undefined;
+    }
+    const context = canvas.getContext("2d");
+    if (!context) {
+      return undefined;
+    }
+
+    const ratio = window.devicePixelRatio ?? 1;
+    canvas.width = CANVAS_SIZE * ratio;
+    canvas.height = CANVAS_SIZE * ratio;
+    canvas.style.width = `${CANVAS_SIZE}px`;
+    canvas.style.height = `${CANVAS_SIZE}px`;
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    context.scale(ratio, ratio);
+
+    // the current drifts before and after runs too, so the scene steps on every frame
+    let frame: number | null = null;
+    const tick = () => {
+      advance(null, FRAME_MS);
+      drawScene(context, stateRef.current, reducedMotionRef.current);
+      frame = clock.requestFrame(tick);
+    };
+    drawScene(context, stateRef.current, reducedMotionRef.current);
+    frame = clock.requestFrame(tick);
+
+    return () => clock.cancelFrame(frame);
+  }, [advance, clock, stateRef]);
+
+  const dispatch = useGameInput<LowTideInput>((input) => advance(input));
+
+  useInputActions(({ action, pressed }) => {
+    const { held, status: current } = stateRef.current;
+    const direction = actionToDirection[action];
+    if (direction) {
+      if (!pressed) {
+        if (held.includes(direction)) {
+          dispatch({ type: "release", direction });
+        }
+        return;
+      }
+      if (current === "intro") {
+        dispatch({ type: "start" });
+      }
+      if (!held.includes(direction)) {
+        dispatch({ type: "hold", direction });
+      }
+      return;
+    }
+    if (!pressed) {
+      return;
+    }
+    if (action === "tap" && current !== "playing") {
+      dispatch({ type: "start" });
+    }
+    if (action === "quit" && current === "playing") {
+      dispatch({ type: "rest" });
+    }
+  });
+
+  useEffect(() => {
+    const handleBlur = () => {
+      if (stateRef.current.held.length > 0) {
+        dispatch({ type: "release-all" });
+      }
+    };
+
+    window.addEventListener("blur", handleBlur);
+    return () => window.removeEventListener("blur", handleBlur);
+  }, [dispatch, stateRef]);
+
+  const getCanvasPoint = useCallback((event: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const canvas = canvasRef.current;
+    if (!canvas) {
+      return { x: 0, y: 0 };
+    }
+    const rect = canvas.getBoundingClientRect();
+    return roundPoint({
+      x: ((event.clientX - rect.left) / rect.width) * CANVAS_SIZE,
+      y: ((event.clientY - rect.top) / rect.height) * CANVAS_SIZE,
+    });
+  }, []);
+
+  const handlePointerDown = useCallback(
+    (event: React.PointerEvent<HTMLCanvasElement>) => {
+      if (event.button && event.button !== 0) {
+        return;
+      }
+      event.preventDefault();
+      if (stateRef.current.status !== "playing") {
+        return;
+      }
+      canvasRef.current?.setPointerCapture(event.pointerId);
+      dispatch({ type: "guide", point: getCanvasPoint(event) });
+    },
+    [dispatch, getCanvasPoint, stateRef],
+  );
+
+  const handlePointerMove = useCallback(
+    (event: React.PointerEvent<HTMLCanvasElement>) => {
+      if (!stateRef.current.pointerActive) {
+        return;
+      }
+      dispatch({ type: "guide", point: getCanvasPoint(event) });
+    },
+    [dispatch, getCanvasPoint, stateRef],
+  );
+
+  const handlePointerUp = useCallback(
+    (event: React.PointerEvent<HTMLCanvasElement>) => {
+      try {
+        canvasRef.current?.releasePointerCapture(event.pointerId);
+      } catch {
+        // ignore if pointer capture was not set
+      }
+      if (stateRef.current.pointerActive) {
+        dispatch({ type: "let-go" });
+      }
+    },
+    [dispatch, stateRef],
+  );
+
+  const minutesDrifted = Math.floor(elapsedMs / 60000);
+  const elapsedLabel = useMemo(() => {
+    const totalSeconds = Math.floor(elapsedMs / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+  }, [elapsedMs]);
+
+  return (
+    <GameShell
+      gameId="low-tide"
+      description={t("description")}
+      hud={{
+        score: { label: t("hud.glow"), value: score },
+        best: { value: highScore },
+        combo: { label: t("hud.calm"), value: streak },
+      }}
+      help={howToPlay(t)}
+      running={status === "playing"}
+    >
+      <div className="relative mx-auto flex w-full max-w-lg flex-col items-center gap-4">
+        <div className="relative">
+          <canvas
+            ref={canvasRef}
+            className="h-[360px] w-full max-w-[360px] touch-none rounded-[2.5rem] border border-white/15 bg-slate-900/40 shadow-[0_30px_80px_rgba(15,23,42,0.55)]"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onContextMenu={(event) => event.preventDefault()}
+          />
+          {status === "intro" && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 rounded-[2.5rem] bg-slate-950/70 px-8 text-center backdrop-blur-sm">
+              <span className="text-xs uppercase tracking-[0.35em] text-muted/60">{t("intro.badge")}</span>
+              <p className="text-sm text-white/80">
+                {t("intro.body")}
+              </p>
+              <button
+                type="button"
+                onClick={() => dispatch({ type: "start" })}
+                className="rounded-full border border-white/20 bg-white/10 px-8 py-3 text-sm font-semibold uppercase tracking-[0.4em] text-white shadow-[0_12px_40px_rgba(52,211,153,0.2)] transition hover:border-white/40 hover:bg-white/20"
+              >
+                {t("intro.start")}
+              </button>
+              <p className="text-[0.65rem] uppercase tracking-[0.3em] text-muted/60">{t("intro.hint")}</p>
+            </div>
+          )}
+          {status === "over" && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center gap-5 rounded-[2.5rem] bg-slate-950/75 px-8 text-center backdrop-blur-sm">
+              <span className="text-xs uppercase tracking-[0.35em] text-muted/60">{t(describeTide(minutesDrifted))}</span>
+              <div className="flex gap-6 text-sm text-white/70">
+                <div className="flex flex-col">
+                  <span className="text-xs uppercase tracking-[0.3em] text-white/40">{t("over.glow")}</span>
+                  <span className="text-lg text-white">{format.number(score)}</span>
+                </div>
+                <div className="flex flex-col">
+                  <span className="text-xs uppercase tracking-[0.3em] text-white/40">{t("over.longestCalm")}</span>
+                  <span className="text-lg text-white">×{format.number(longestStreak)}</span>
+                </div>
+                <div className="flex flex-col">
+                  <span className="text-xs uppercase tracking-[0.3em] text-white/40">{t("over.drifted")}</span>
+                  <span className="text-lg text-white">{elapsedLabel}</span>
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => dispatch({ type: "start" })}
+                className="rounded-full border border-white/20 bg-white/10 px-8 py-3 text-sm font-semibold uppercase tracking-[0.4em] text-white transition hover:border-white/40 hover:bg-white/20"
+              >
+                {t("over.again")}
+              </button>
+              <ShareRunButton
+                gameId="low-tide"
+                run={lastRun}
+                best={highScore}
+                className="text-xs uppercase tracking-[0.35em] text-muted/60 transition hover:text-white"
+              />
+              <ChallengeButton
+                gameId="low-tide"
+                run={lastRun}
+                className="text-xs uppercase tracking-[0.35em] text-muted/60 transition hover:text-white"
+              />
+            </div>
+          )}
+        </div>
+        <div className="flex flex-col items-center gap-2 text-center text-xs uppercase tracking-[0.35em] text-muted/60">
+          <span>{t(hint.key, { streak: hint.streak ?? 0 })}</span>
+          <span>
+            {t("status", {
+              elapsed: elapsedLabel,
+              calm: format.number(calmShare, { style: "percent", maximumFractionDigits: 0 }),
+            })}
+          </span>
+        </div>
+      </div>
+
+      <div className={`flex flex-wrap items-center justify-between gap-4 text-xs text-muted/60 ${leftHanded ? "flex-row-reverse" : ""}`}>
+        <div>{t("footer")}</div>
+        <button
+          type="button"
+          onClick={() => dispatch({ type: "rest" })}
+          disabled={status !== "playing"}
+          className="inline-flex items-center gap-2 rounded-full border border-white/10 px-4 py-2 text-muted/70 transition hover:border-white/40 hover:text-white disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {t("rest")}
+          <span aria-hidden className="text-white/60">☾</span>
+        </button>
+      </div>
+    </GameShell>
+  );
+}
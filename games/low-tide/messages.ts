@@ -0,0 +1,63 @@
+import type { Catalogue } from "@/lib/i18n/types";
+
+const en = {
+  description:
+    "Drift with the evening current, gather floating glow at an easy pace, and breathe along with the tide. There is no clock and no way to lose.",
+  "help.drag": "Drag on the water or hold the arrow keys to guide your light toward the glow.",
+  "help.calm": "Moving gently builds your calm streak. Press Enter whenever you want to rest.",
+  "hud.glow": "Glow",
+  "hud.calm": "Calm",
+  "hint.start": "Let the current carry you. Gather the glow gently.",
+  "hint.streak": "Calm streak ×{streak}",
+  "hint.soft": "Softly does it",
+  "hint.rushed": "Ease off — let the tide do the work",
+  "tide.deep": "Deep stillness",
+  "tide.slack": "Slack water",
+  "tide.ebbing": "Ebbing",
+  "tide.ripples": "First ripples",
+  "intro.badge": "Untimed · no fail state",
+  "intro.body": "Touch and drag, or use the arrow keys, to guide your lantern. Gather glow slowly to build a calm streak.",
+  "intro.start": "Drift",
+  "intro.hint": "drag · arrows · wasd · space",
+  "over.glow": "Glow",
+  "over.longestCalm": "Longest calm",
+  "over.drifted": "Drifted",
+  "over.again": "Drift again",
+  status: "{elapsed} drifted · {calm} calm",
+  footer: "Slow, steady gathers grow your calm streak. Rushing only resets it — the tide never ends your run.",
+  rest: "Rest here",
+};
+
+export type LowTideMessageKey = keyof typeof en;
+
+export const LOW_TIDE_MESSAGES: Catalogue<LowTideMessageKey> = {
+  en,
+  tr: {
+    description:
+      "Akşam akıntısıyla sürüklen, yüzen ışıltıyı ağır ağır topla ve gelgitle birlikte nefes al. Saat yok, kaybetmek de yok.",
+    "help.drag": "Işığını parıltıya yöneltmek için suyun üzerinde sürükle ya da ok tuşlarını basılı tut.",
+    "help.calm": "Yavaş hareket etmek sakinlik serini büyütür. Dinlenmek istediğinde Enter'a bas.",
+    "hud.glow": "Işıltı",
+    "hud.calm": "Sakinlik",
+    "hint.start": "Akıntı seni taşısın. Işıltıyı nazikçe topla.",
+    "hint.streak": "Sakinlik serisi ×{streak}",
+    "hint.soft": "Usulca",
+    "hint.rushed": "Yavaşla — bırak işi gelgit yapsın",
+    "tide.deep": "Derin durgunluk",
+    "tide.slack": "Durgun su",
+    "tide.ebbing": "Çekilme",
+    "tide.ripples": "İlk dalgacıklar",
+    "intro.badge": "Süresiz · kaybetmek yok",
+    "intro.body":
+      "Fenerini yönlendirmek için dokunup sürükle ya da ok tuşlarını kullan. Sakinlik serisi için ışıltıyı yavaşça topla.",
+    "intro.start": "Sürüklen",
+    "intro.hint": "sürükle · oklar · wasd · boşluk",
+    "over.glow": "Işıltı",
+    "over.longestCalm": "En uzun sakinlik",
+    "over.drifted": "Sürüklenme",
+    "over.again": "Yeniden sürüklen",
+    status: "{elapsed} sürüklendin · {calm} sakin",
+    footer: "Yavaş ve istikrarlı toplamalar sakinlik serini büyütür. Acele etmek yalnızca sıfırlar — gelgit turunu asla bitirmez.",
+    rest: "Burada dinlen",
+  },
+};
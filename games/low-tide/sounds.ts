@@ -0,0 +1,13 @@
+import { midiToFrequency, playTone } from "@/lib/audio/engine";
+import { startMusicLoop } from "@/lib/audio/music";
+
+export const playGather = (calm: boolean) => {
+  playTone({ frequency: midiToFrequency(calm ? 84 : 72), duration: 0.4, type: "sine", gain: 0.08, attack: 0.03 });
+};
+
+/** A slow pentatonic drift under the whole session. */
+export const startTideMusic = () =>
+  startMusicLoop({
+    bpm: 54,
+    steps: [57, null, 64, null, 62, null, 69, null, 57, null, 64, null, 60, null, 67, null],
+  });
@@ -0,0 +1,175 @@
+import type { ComponentType } from "react";
+import type { LocalizedText } from "@/lib/i18n/types";
+import type { DayId } from "@/lib/schedule";
+
+export type GameId =
+  | "snakemoji"
+  | "colors-plus"
+  | "chroma-trace"
+  | "tilt-drop"
+  | "simon-colors"
+  | "angrymoji"
+  | "low-tide";
+
+export type GameProps = {
+  seed: string;
+};
+
+export type GameCapabilities = {
+  keyboard: boolean;
+  touch: boolean;
+  pointer: boolean;
+  levels: boolean;
+};
+
+export type GameMetadata = {
+  title: string;
+  description: LocalizedText;
+};
+
+export type GameDefinition = {
+  id: GameId;
+  day: DayId;
+  title: string;
+  vibe: LocalizedText;
+  metadata: GameMetadata;
+  capabilities: GameCapabilities;
+  load?: () => Promise<{ default: ComponentType<GameProps> }>;
+};
+
+export const GAMES: GameDefinition[] = [
+  {
+    id: "snakemoji",
+    day: "monday",
+    title: "Snakemoji",
+    vibe: {
+      en: "Glide through a neon grid and snack on living emojis.",
+      tr: "Neon bir ızgarada süzül, canlı emojileri atıştır.",
+    },
+    metadata: {
+      title: "Snakemoji · MM Games",
+      description: {
+        en: "A minimalist emoji-fueled snake challenge for the Monday slot.",
+        tr: "Pazartesi için emoji dolu, minimalist bir yılan oyunu.",
+      },
+    },
+    capabilities: { keyboard: true, touch: true, pointer: true, levels: false },
+    load: () => import("./snakemoji/snakemoji-game"),
+  },
+  {
+    id: "colors-plus",
+    day: "tuesday",
+    title: "Colors+",
+    vibe: {
+      en: "Hyper-fast hue locks with fake-outs and streak multipliers.",
+      tr: "Aldatmacalar ve seri çarpanlarıyla hiper hızlı renk kilitleri.",
+    },
+    metadata: {
+      title: "Colors · MM Games",
+      description: {
+        en: "Hit the hues at hyper speed in Tuesday's spinning reflex test.",
+        tr: "Salı'nın dönen refleks testinde renkleri hiper hızda yakala.",
+      },
+    },
+    capabilities: { keyboard: true, touch: true, pointer: true, levels: true },
+    load: () => import("./colors-plus/colors-game"),
+  },
+  {
+    id: "chroma-trace",
+    day: "wednesday",
+    title: "Chroma Trace",
+    vibe: {
+      en: "Shapes flash in color — trace them from memory to stay in the run.",
+      tr: "Şekiller renkli parlar — turda kalmak için onları hafızandan çiz.",
+    },
+    metadata: {
+      title: "Chroma Trace · MM Games",
+      description: {
+        en: "Memorize the flash of color, recreate it from memory, and chase precision points in the Wednesday slot.",
+        tr: "Çarşamba günü renk parlamasını ezberle, hafızandan yeniden çiz ve hassasiyet puanlarının peşine düş.",
+      },
+    },
+    capabilities: { keyboard: false, touch: true, pointer: true, levels: false },
+    load: () => import("./chroma-trace/drawing-match-game"),
+  },
+  {
+    id: "tilt-drop",
+    day: "thursday",
+    title: "Tilt Drop",
+    vibe: {
+      en: "Tap to spin falling blocks while the arena tilts mid-run.",
+      tr: "Arena tur ortasında eğilirken düşen blokları dokunarak döndür.",
+    },
+    metadata: {
+      title: "Tilt Drop · MM Games",
+      description: {
+        en: "A tilt-happy remix of falling blocks built for the Thursday slot.",
+        tr: "Perşembe için hazırlanmış, eğilmeye meraklı bir düşen bloklar yorumu.",
+      },
+    },
+    capabilities: { keyboard: true, touch: true, pointer: true, levels: true },
+    load: () => import("./tilt-drop/tilt-drop-game"),
+  },
+  {
+    id: "simon-colors",
+    day: "friday",
+    title: "Simon Colors",
+    vibe: {
+      en: "Memorize glowing sequences in a classic weekend warmup.",
+      tr: "Klasik bir hafta sonu ısınmasında parlayan dizileri ezberle.",
+    },
+    metadata: {
+      title: "Simon Colors · MM Games",
+      description: {
+        en: "Prototype Simon-style color memory challenge for the Friday slot.",
+        tr: "Cuma için Simon tarzı bir renk hafızası denemesi.",
+      },
+    },
+    capabilities: { keyboard: false, touch: true, pointer: true, levels: true },
+    load: () => import("./simon-colors/simon-colors-game"),
+  },
+  {
+    id: "angrymoji",
+    day: "saturday",
+    title: "Angrymoji",
+    vibe: {
+      en: "Embrace the weekend rage in a charged emoji arena.",
+      tr: "Gerilimli bir emoji arenasında hafta sonu öfkeni serbest bırak.",
+    },
+    metadata: {
+      title: "Angrymoji · MM Games",
+      description: {
+        en: "Prototype rage-fueled emoji arena for the Saturday slot.",
+        tr: "Cumartesi için öfke dolu bir emoji arenası denemesi.",
+      },
+    },
+    capabilities: { keyboard: false, touch: true, pointer: true, levels: true },
+    load: () => import("./angrymoji/angrymoji-game"),
+  },
+  {
+    id: "low-tide",
+    day: "sunday",
+    title: "Low Tide",
+    vibe: {
+      en: "Slow meditative flows to reset your pace.",
+      tr: "Temponu sıfırlamak için yavaş, meditatif akışlar.",
+    },
+    metadata: {
+      title: "Low Tide · MM Games",
+      description: {
+        en: "Drift with the current and gather glow in an untimed, calm Sunday flow.",
+        tr: "Akıntıyla sürüklen ve Pazar'ın zamansız, sakin akışında ışıltı topla.",
+      },
+    },
+    capabilities: { keyboard: true, touch: true, pointer: true, levels: false },
+    load: () => import("./low-tide/low-tide-game"),
+  },
+];
+
+export const getGame = (id: string) => GAMES.find((game) => game.id === id);
+
+export const getGameForDay = (dayId: string) => GAMES.find((game) => game.day === dayId);
+
+export type PlayableGame = GameDefinition & Required<Pick<GameDefinition, "load">>;
+
+export const isGamePlayable = (game: GameDefinition | undefined): game is PlayableGame => Boolean(game?.load);
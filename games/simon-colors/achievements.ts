@@ -0,0 +1,24 @@
+import type { AchievementDefinition } from "@/lib/achievements/types";
+
+export type SimonEvent = { type: "level-reached"; level: number };
+
+export const SIMON_ACHIEVEMENTS: AchievementDefinition<SimonEvent>[] = [
+  {
+    id: "level-10",
+    title: { en: "Total Recall", tr: "Tam Hafıza" },
+    description: { en: "Reach level 10.", tr: "10. seviyeye ulaş." },
+    icon: "🧠",
+    scope: "run",
+    goal: 10,
+    track: (progress, event) => Math.max(progress, event.level),
+  },
+  {
+    id: "glow-memory",
+    title: { en: "Glow Memory", tr: "Işıltılı Hafıza" },
+    description: { en: "Clear 50 rounds in total.", tr: "Toplam 50 tur geç." },
+    icon: "💡",
+    scope: "lifetime",
+    goal: 50,
+    track: (progress) => progress + 1,
+  },
+];
@@ -0,0 +1,11 @@
+import type { GameControls } from "@/lib/input/types";
+
+export const SIMON_CONTROLS: GameControls = {
+  "move-up": { label: { en: "Cursor up", tr: "İmleç yukarı" }, keys: ["ArrowUp"], buttons: ["up"] },
+  "move-down": { label: { en: "Cursor down", tr: "İmleç aşağı" }, keys: ["ArrowDown"], buttons: ["down"] },
+  "move-left": { label: { en: "Cursor left", tr: "İmleç sola" }, keys: ["ArrowLeft"], buttons: ["left"] },
+  "move-right": { label: { en: "Cursor right", tr: "İmleç sağa" }, keys: ["ArrowRight"], buttons: ["right"] },
+  tap: { label: { en: "Toggle tile", tr: "Kareyi seç" }, keys: ["Space"], buttons: ["a"] },
+  confirm: { label: { en: "Start or submit", tr: "Başlat veya gönder" }, keys: ["Enter"], buttons: ["x"] },
+  pause: { label: { en: "Pause", tr: "Duraklat" }, keys: ["Escape", "p"], buttons: ["start"] },
+};
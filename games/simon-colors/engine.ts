@@ -0,0 +1,194 @@
+import type { EngineState, GameEngine } from "@/lib/engine/types";
+import type { Rng } from "@/lib/random";
+import { createRng, restoreRng } from "@/lib/random";
+
+export type SimonStatus = "idle" | "preview" | "selecting" | "result";
+
+export type CellColor = {
+  id: string;
+  swatch: string;
+  glow: string;
+};
+
+export type SimonConfig = {
+  gridSize: number;
+  /** How long the targets stay lit before the player picks. */
+  previewMs: number;
+  /** Targets on level 1; every level adds one. */
+  baseTargets: number;
+  /** Pause on the success banner before the next level. */
+  advanceMs: number;
+};
+
+export type SimonInput =
+  | { type: "start" }
+  | { type: "toggle"; index: number }
+  | { type: "clear" }
+  | { type: "submit" }
+  | { type: "reset" };
+
+export type SimonEngineEvent =
+  | { type: "start" }
+  | { type: "tone"; colorId: string }
+  | { type: "level"; level: number }
+  | { type: "fail" };
+
+export type SimonState = EngineState<SimonEngineEvent> & {
+  seed: string;
+  config: SimonConfig;
+  status: SimonStatus;
+  result: "success" | "fail" | null;
+  score: number;
+  level: number;
+  grid: CellColor[];
+  /** Sorted cell indices. */
+  targets: number[];
+  /** Sorted cell indices. */
+  selected: number[];
+  /** Milliseconds of preview left. */
+  previewMs: number;
+  /** Milliseconds until the next level starts after a success. */
+  advanceMs: number | null;
+  rngState: number;
+};
+
+export const SIMON_CONFIG: SimonConfig = {
+  gridSize: 5,
+  previewMs: 2000,
+  baseTargets: 1,
+  advanceMs: 1300,
+};
+
+const COLOR_POOL: CellColor[] = [
+  { id: "ember", swatch: "#fb7185", glow: "rgba(251,113,133,0.45)" },
+  { id: "ocean", swatch: "#38bdf8", glow: "rgba(56,189,248,0.45)" },
+  { id: "forest", swatch: "#34d399", glow: "rgba(52,211,153,0.45)" },
+  { id: "violet", swatch: "#c084fc", glow: "rgba(192,132,252,0.45)" },
+  { id: "amber", swatch: "#fbbf24", glow: "rgba(251,191,36,0.45)" },
+  { id: "rose", swatch: "#f472b6", glow: "rgba(244,114,182,0.45)" },
+  { id: "indigo", swatch: "#818cf8", glow: "rgba(129,140,248,0.45)" },
+  { id: "teal", swatch: "#2dd4bf", glow: "rgba(45,212,191,0.45)" },
+];
+
+const buildGrid = (cells: number, rng: Rng) => Array.from({ length: cells }, () => rng.pick(COLOR_POOL));
+
+const buildTargets = (count: number, cells: number, rng: Rng) => {
+  const indices = new Set<number>();
+  while (indices.size < count) {
+    indices.add(rng.int(cells));
+  }
+  return Array.from(indices).sort((a, b) => a - b);
+};
+
+/** How many cells light up on a level. */
+export const getTargetCount = (level: number, config = SIMON_CONFIG) =>
+  Math.min(config.gridSize * config.gridSize, config.baseTargets + level - 1);
+
+// the idle board is only a preview; the run draws its boards from a fresh generator
+const init = (seed: string, config = SIMON_CONFIG): SimonState => ({
+  events: [],
+  seed,
+  config,
+  status: "idle",
+  result: null,
+  score: 0,
+  level: 1,
+  grid: buildGrid(config.gridSize * config.gridSize, createRng(seed)),
+  targets: [],
+  selected: [],
+  previewMs: 0,
+  advanceMs: null,
+  rngState: createRng(seed).state(),
+});
+
+const startRound = (state: SimonState, level: number): SimonState => {
+  const { config } = state;
+  const cells = config.gridSize * config.gridSize;
+  const rng = restoreRng(state.rngState);
+  const grid = buildGrid(cells, rng);
+  const targets = buildTargets(getTargetCount(level, config), cells, rng);
+  return {
+    ...state,
+    status: "preview",
+    result: null,
+    level,
+    grid,
+    targets,
+    selected: [],
+    previewMs: config.previewMs,
+    advanceMs: null,
+    rngState: rng.state(),
+  };
+};
+
+const toggle = (state: SimonState, index: number): SimonState => {
+  if (state.status !== "selecting") {
+    return state;
+  }
+  const color = state.grid[index];
+  const toned: SimonState = color ? { ...state, events: [...state.events, { type: "tone", colorId: color.id }] } : state;
+  if (state.selected.includes(index)) {
+    return { ...toned, selected: state.selected.filter((item) => item !== index) };
+  }
+  if (state.selected.length >= state.targets.length) {
+    return toned;
+  }
+  return { ...toned, selected: [...state.selected, index].sort((a, b) => a - b) };
+};
+
+const submit = (state: SimonState): SimonState => {
+  const { selected, targets } = state;
+  if (state.status !== "selecting" || targets.length === 0) {
+    return state;
+  }
+  const isExactMatch = selected.length === targets.length && selected.every((index) => targets.includes(index));
+  if (!isExactMatch) {
+    return { ...state, status: "result", result: "fail", events: [...state.events, { type: "fail" }] };
+  }
+  return {
+    ...state,
+    status: "result",
+    result: "success",
+    score: state.score + targets.length,
+    advanceMs: state.config.advanceMs,
+    events: [...state.events, { type: "level", level: state.level + 1 }],
+  };
+};
+
+const applyInput = (state: SimonState, input: SimonInput): SimonState => {
+  switch (input.type) {
+    case "start":
+      return startRound({ ...init(state.seed, state.config), events: [{ type: "start" }] }, 1);
+    case "toggle":
+      return toggle(state, input.index);
+    case "clear":
+      return state.status === "selecting" ? { ...state, selected: [] } : state;
+    case "submit":
+      return submit(state);
+    case "reset":
+      return init(state.seed, state.config);
+  }
+};
+
+const advanceTime = (state: SimonState, dt: number): SimonState => {
+  if (state.status === "preview") {
+    const previewMs = state.previewMs - dt;
+    return previewMs > 0 ? { ...state, previewMs } : { ...state, status: "selecting", previewMs: 0 };
+  }
+  if (state.advanceMs !== null) {
+    const advanceMs = state.advanceMs - dt;
+    return advanceMs > 0 ? { ...state, advanceMs } : startRound(state, state.level + 1);
+  }
+  return state;
+};
+
+const step = (state: SimonState, input: SimonInput | null, dt: number): SimonState => {
+  const next = input ? applyInput({ ...state, events: [] }, input) : { ...state, events: [] };
+  return dt > 0 ? advanceTime(next, dt) : next;
+};
+
+export const simonEngine: GameEngine<SimonConfig, SimonState, SimonInput> = {
+  config: SIMON_CONFIG,
+  init,
+  step,
+};
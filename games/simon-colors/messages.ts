@@ -0,0 +1,51 @@
+import type { Catalogue } from "@/lib/i18n/types";
+
+const en = {
+  description:
+    "Watch the pulse, remember the glow, and tap the same tiles before the tempo climbs into the weekend.",
+  "help.watch": "Watch which tiles light up, then tap the same tiles once the pulse ends.",
+  "help.submit": "Submit when your pick is complete. Each level adds tiles and speeds up the flash.",
+  "help.keyboard":
+    "With a keyboard or controller, move the cursor with the arrows or d-pad and toggle tiles with Space or A.",
+  "preview.countdown": "{seconds}s",
+  "intro.hint": "Memorize the pulse when it flashes",
+  "intro.start": "Start game",
+  "result.success": "Sequence locked in",
+  "result.fail": "Mismatch detected",
+  "result.retry": "Try again",
+  "status.selecting": {
+    one: "Tap {count} tile · {remaining} remaining",
+    other: "Tap {count} tiles · {remaining} remaining",
+  },
+  "status.watching": "Watch for the glowing tiles",
+  "action.clear": "Clear",
+  "action.submit": "Submit",
+  "action.reset": "Reset run",
+  footer: "Every round adds another glow. Keep the streak alive for higher level gains.",
+};
+
+export type SimonMessageKey = keyof typeof en;
+
+export const SIMON_MESSAGES: Catalogue<SimonMessageKey> = {
+  en,
+  tr: {
+    description:
+      "Işıltıyı izle, parıltıyı hatırla ve tempo hafta sonuna doğru tırmanmadan aynı karelere dokun.",
+    "help.watch": "Hangi karelerin yandığını izle, ışıltı bitince aynı karelere dokun.",
+    "help.submit": "Seçimin tamamlanınca gönder. Her seviye kare ekler ve parlamayı hızlandırır.",
+    "help.keyboard":
+      "Klavye ya da kumandayla imleci oklar veya yön tuşlarıyla taşı, kareleri Boşluk ya da A ile seç.",
+    "preview.countdown": "{seconds} sn",
+    "intro.hint": "Işıltı yanınca onu ezberle",
+    "intro.start": "Oyunu başlat",
+    "result.success": "Dizi tamam",
+    "result.fail": "Eşleşmedi",
+    "result.retry": "Tekrar dene",
+    "status.selecting": { other: "{count} kareye dokun · {remaining} kaldı" },
+    "status.watching": "Parlayan kareleri izle",
+    "action.clear": "Temizle",
+    "action.submit": "Gönder",
+    "action.reset": "Turu sıfırla",
+    footer: "Her tur bir parıltı daha ekler. Daha yüksek seviyeler için seriyi sürdür.",
+  },
+};
@@ -0,0 +1,274 @@
+"use client";
+
+import type { CSSProperties } from "react";
+import { useMemo, useState } from "react";
+import type { SimonEvent } from "@/games/simon-colors/achievements";
+import type { SimonInput } from "@/games/simon-colors/engine";
+import type { SimonMessageKey } from "@/games/simon-colors/messages";
+import type { GameProps } from "@/games/registry";
+import type { Translate } from "@/lib/i18n/types";
+import type { InputAction } from "@/lib/input/types";
+import GameShell from "@/components/game-shell/game-shell";
+import ChallengeButton from "@/components/game-shell/challenge-button";
+import ShareRunButton from "@/components/game-shell/share-run-button";
+import { SIMON_CONFIG, simonEngine } from "@/games/simon-colors/engine";
+import { SIMON_MESSAGES } from "@/games/simon-colors/messages";
+import { playTileTone } from "@/games/simon-colors/sounds";
+import { useSound } from "@/lib/audio/use-sound";
+import { useEngine, useEngineLoop } from "@/lib/engine/use-engine";
+import { useFormatters, useTranslations } from "@/lib/i18n/locale";
+import { useInputActions } from "@/lib/input/use-input-actions";
+import { useGameInput } from "@/lib/replay/session";
+import { useColorAdapter, useSettings } from "@/lib/settings/use-settings";
+import { useAchievementEvents } from "@/lib/use-achievement-events";
+import { useRunHistory } from "@/lib/use-run-history";
+
+const GRID_SIZE = SIMON_CONFIG.gridSize;
+const TOTAL_CELLS = GRID_SIZE * GRID_SIZE;
+
+const CURSOR_STEPS: Partial<Record<InputAction, { dx: number; dy: number }>> = {
+  "move-up": { dx: 0, dy: -1 },
+  "move-down": { dx: 0, dy: 1 },
+  "move-left": { dx: -1, dy: 0 },
+  "move-right": { dx: 1, dy: 0 },
+};
+
+const moveCursor = (cursor: number | null, { dx, dy }: { dx: number; dy: number }) => {
+  if (cursor === null) {
+    return Math.floor(TOTAL_CELLS / 2);
+  }
+  const x = Math.min(GRID_SIZE - 1, Math.max(0, (cursor % GRID_SIZE) + dx));
+  const y = Math.min(GRID_SIZE - 1, Math.max(0, Math.floor(cursor / GRID_SIZE) + dy));
+  return y * GRID_SIZE + x;
+};
+
+const COUNTDOWN_FORMAT: Intl.NumberFormatOptions = { minimumFractionDigits: 1, maximumFractionDigits: 1 };
+
+const howToPlay = (t: Translate<SimonMessageKey>) => (
+  <>
+    <p>{t("help.watch")}</p>
+    <p>{t("help.submit")}</p>
+    <p>{t("help.keyboard")}</p>
+  </>
+);
+
+export default function SimonColorsGame({ seed }: GameProps) {
+  /** Keyboard and gamepad focus on the grid; null until the player first moves it. */
+  const [cursor, setCursor] = useState<number | null>(null);
+  const { best, lastRun, startRun, finishRun } = useRunHistory("simon-colors");
+  const emitAchievementEvent = useAchievementEvents<SimonEvent>();
+  const { leftHanded } = useSettings();
+  const adaptColor = useColorAdapter();
+  const playSound = useSound();
+  const t = useTranslations(SIMON_MESSAGES);
+  const format = useFormatters();
+
+  const { state, advance } = useEngine(simonEngine, seed, (event, current) => {
+    switch (event.type) {
+      case "start":
+        startRun();
+        break;
+      case "tone":
+        playSound(() => playTileTone(event.colorId));
+        break;
+      case "level":
+        emitAchievementEvent({ type: "level-reached", level: event.level });
+        break;
+      case "fail":
+        finishRun({ score: current.score, level: current.level, stats: { roundsCleared: current.level - 1 } });
+        break;
+    }
+  });
+  const { status, result, score, level, grid: gridColors, targets, selected } = state;
+  const highScore = Math.max(best, score);
+
+  useEngineLoop(advance, status === "preview" || state.advanceMs !== null);
+
+  const targetSet = useMemo(() => new Set(targets), [targets]);
+  const selectedSet = useMemo(() => new Set(selected), [selected]);
+  const targetCount = targets.length;
+  const remainingSelections = Math.max(0, targetCount - selected.length);
+  const previewCountdownLabel = format.number(state.previewMs / 1000, COUNTDOWN_FORMAT);
+
+  const dispatch = useGameInput<SimonInput>((input) => advance(input));
+
+  const shouldRevealTargets = status === "preview" || (status === "result" && result === "fail");
+  const canSubmit = status === "selecting" && selected.length === targetCount && targetCount > 0;
+
+  useInputActions(({ action, pressed }) => {
+    if (!pressed) {
+      return;
+    }
+    const step = CURSOR_STEPS[action];
+    if (step) {
+      setCursor((current) => moveCursor(current, step));
+      return;
+    }
+    if (action === "tap" && cursor !== null && status === "selecting") {
+      dispatch({ type: "toggle", index: cursor });
+    }
+    if (action === "confirm") {
+      if (status === "idle" || (status === "result" && result === "fail")) {
+        dispatch({ type: "start" });
+      } else if (canSubmit) {
+        dispatch({ type: "submit" });
+      }
+    }
+  });
+
+  return (
+    <GameShell
+      gameId="simon-colors"
+      description={t("description")}
+      hud={{ score: { value: score }, best: { value: highScore }, level: { value: level } }}
+      help={howToPlay(t)}
+      running={status !== "idle"}
+    >
+      <div className="relative mx-auto w-full max-w-lg" data-swipe-ignore="true">
+        <div className="relative overflow-hidden rounded-3xl border border-white/10 bg-white/5 p-6 shadow-[0_25px_60px_rgba(15,23,42,0.35)]">
+          <div className="grid grid-cols-5 gap-3">
+            {gridColors.map((color, index) => {
+              const isTarget = targetSet.has(index);
+              const isSelected = selectedSet.has(index);
+              const revealHighlight = shouldRevealTargets && isTarget;
+              const isLocked = status === "result" && result === "success" && isTarget;
+
+              const glow = adaptColor(color.glow);
+              const highlightShadow = `0 0 0 3px rgba(255,255,255,0.85), 0 0 10px ${glow}`;
+              const lockedShadow = `0 0 0 2px rgba(255,255,255,0.55), 0 0 20px ${glow}`;
+              const baseShadow = "0 0 0 1px rgba(15,23,42,0.45)";
+
+              const style: CSSProperties = {
+                backgroundColor: adaptColor(color.swatch),
+                borderColor: revealHighlight ? "rgba(255,255,255,0.9)" : "rgba(255,255,255,0.18)",
+                boxShadow: revealHighlight ? highlightShadow : isLocked ? lockedShadow : baseShadow,
+                filter: revealHighlight ? "brightness(1.75) saturate(1.25)" : "brightness(0.9)",
+                transform: revealHighlight ? "scale(1.03)" : undefined,
+                outline: isSelected ? "2px solid rgba(255,255,255,0.95)" : undefined,
+                outlineOffset: isSelected ? "-3px" : undefined,
+              };
+
+              const highlightOverlayStyle: CSSProperties = {
+                background: `radial-gradient(circle at 50% 50%, rgba(255,255,255,0.6), ${glow})`,
+              };
+              const highlightOverlayClass = revealHighlight ? "opacity-95 scale-100" : "opacity-0 scale-90";
+
+              return (
+                <button
+                  key={`${color.id}-${index}`}
+                  type="button"
+                  onClick={() => dispatch({ type: "toggle", index })}
+                  className={`group relative aspect-square w-full overflow-hidden rounded-2xl border border-white/10 transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-white/80 disabled:cursor-not-allowed ${
+                    cursor === index ? "ring-2 ring-white/80" : ""
+                  }`}
+                  style={style}
+                  disabled={status !== "selecting"}
+                  aria-pressed={isSelected}
+                >
+                  <span
+                    className={`pointer-events-none absolute inset-0 rounded-2xl transition duration-200 ease-out ${highlightOverlayClass}`}
+                    style={highlightOverlayStyle}
+                  />
+                  <span
+                    className="pointer-events-none absolute inset-0 rounded-2xl opacity-0 transition group-hover:opacity-20 group-disabled:opacity-0"
+                    style={{ background: "radial-gradient(circle at 30% 30%, rgba(255,255,255,0.35), transparent 60%)" }}
+                  />
+                </button>
+              );
+            })}
+          </div>
+
+          {status === "preview" && (
+            <div className="pointer-events-none absolute right-5 top-5 rounded-full bg-black/70 px-3 py-1 text-[0.65rem] uppercase tracking-[0.35em] text-white/80">
+              {t("preview.countdown", { seconds: previewCountdownLabel })}
+            </div>
+          )}
+
+          {status === "idle" && (
+            <div className="absolute inset-0 z-20 flex flex-col items-center justify-center gap-4 rounded-3xl border border-white/10 bg-black/80 px-8 text-center text-sm text-white/80 backdrop-blur">
+              <p className="text-xs uppercase tracking-[0.35em] text-white/60">{t("intro.hint")}</p>
+              <button
+                type="button"
+                onClick={() => dispatch({ type: "start" })}
+                className="rounded-full border border-white/25 bg-white/10 px-8 py-3 text-sm font-semibold uppercase tracking-[0.35em] text-white shadow-[0_12px_32px_rgba(56,189,248,0.25)] transition hover:border-white/40 hover:bg-white/20"
+              >
+                {t("intro.start")}
+              </button>
+            </div>
+          )}
+
+          {status === "result" && result === "success" && (
+            <div className="pointer-events-none absolute inset-0 z-30 flex items-center justify-center rounded-3xl bg-emerald-500/20 text-sm uppercase tracking-[0.3em] text-emerald-200 backdrop-blur-sm">
+              {t("result.success")}
+            </div>
+          )}
+
+          {status === "result" && result === "fail" && (
+            <div className="absolute inset-0 z-30 flex flex-col items-center justify-center gap-4 rounded-3xl border border-rose-400/20 bg-rose-500/20 px-8 text-center text-sm text-rose-100 backdrop-blur">
+              <p className="text-xs uppercase tracking-[0.35em] text-rose-100">{t("result.fail")}</p>
+              <button
+                type="button"
+                onClick={() => dispatch({ type: "start" })}
+                className="rounded-full border border-rose-200/60 bg-rose-500/20 px-7 py-2 text-xs font-semibold uppercase tracking-[0.3em] text-rose-50 transition hover:border-rose-100 hover:bg-rose-500/30"
+              >
+                {t("result.retry")}
+              </button>
+              <ShareRunButton
+                gameId="simon-colors"
+                run={lastRun}
+                best={highScore}
+                className="text-[0.65rem] uppercase tracking-[0.3em] text-rose-100/80 transition hover:text-rose-50"
+              />
+              <ChallengeButton
+                gameId="simon-colors"
+                run={lastRun}
+                className="text-[0.65rem] uppercase tracking-[0.3em] text-rose-100/80 transition hover:text-rose-50"
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="mx-auto flex w-full max-w-md flex-col items-center gap-4 text-center text-xs text-muted/70" data-swipe-ignore="true">
+        {status === "selecting" ? (
+          <p className="uppercase tracking-[0.35em] text-muted/60">
+            {t("status.selecting", { count: targetCount, remaining: remainingSelections })}
+          </p>
+        ) : (
+          <p className="uppercase tracking-[0.35em] text-muted/60">{t("status.watching")}</p>
+        )}
+        <div className={`flex items-center gap-3 ${leftHanded ? "flex-row-reverse" : ""}`}>
+          <button
+            type="button"
+            onClick={() => dispatch({ type: "clear" })}
+            disabled={status !== "selecting" || selected.length === 0}
+            className="inline-flex items-center gap-2 rounded-full border border-white/10 px-4 py-2 text-muted/70 transition hover:border-white/40 hover:text-white disabled:cursor-not-allowed disabled:border-white/5 disabled:text-muted/40"
+          >
+            {t("action.clear")}
+          </button>
+          <button
+            type="button"
+            onClick={() => dispatch({ type: "submit" })}
+            disabled={!canSubmit}
+            className="inline-flex items-center gap-2 rounded-full border border-emerald-300/60 bg-emerald-500/10 px-5 py-2 text-emerald-100 transition hover:border-emerald-200 hover:bg-emerald-500/20 hover:text-white disabled:cursor-not-allowed disabled:border-white/5 disabled:bg-transparent disabled:text-muted/40"
+          >
+            {t("action.submit")}
+            <span aria-hidden>→</span>
+          </button>
+        </div>
+      </div>
+
+      <div className={`flex flex-wrap items-center justify-between gap-4 text-xs text-muted/60 ${leftHanded ? "flex-row-reverse" : ""}`}>
+        <div>{t("footer")}</div>
+        <button
+          type="button"
+          onClick={() => dispatch({ type: "reset" })}
+          className="inline-flex items-center gap-2 rounded-full border border-white/10 px-4 py-2 text-muted/70 transition hover:border-white/40 hover:text-white"
+        >
+          {t("action.reset")}
+          <span aria-hidden className="text-white/60">↻</span>
+        </button>
+      </div>
+    </GameShell>
+  );
+}
@@ -0,0 +1,57 @@
+import type { SimonInput, SimonState } from "@/games/simon-colors/engine";
+import type { Rng } from "@/lib/random";
+import type { BotFactory } from "@/lib/simulation/types";
+import { simonEngine } from "@/games/simon-colors/engine";
+import { defineSimulation } from "@/lib/simulation/run";
+
+type Habits = {
+  /** Targets remembered without fail. */
+  span: number;
+  /** Chance of remembering each target once there are more than `span`. */
+  recallChance: number;
+  /** Time between picks. */
+  inputMs: number;
+};
+
+const createBot =
+  (habits: Habits): BotFactory<SimonState, SimonInput> =>
+  (rng: Rng) => {
+    let roundKey = "";
+    let picks: number[] = [];
+    let nextInputAt = 0;
+
+    return (state, time) => {
+      if (state.status !== "selecting") {
+        return null;
+      }
+      const key = `${state.level}:${state.targets.join(",")}`;
+      if (key !== roundKey) {
+        roundKey = key;
+        const { targets, grid } = state;
+        const remembered = targets.filter(() => targets.length <= habits.span || rng.chance(habits.recallChance));
+        // forgotten targets become guesses among the cells that were not lit
+        const others = rng.shuffle(grid.map((_, index) => index).filter((index) => !targets.includes(index)));
+        picks = [...remembered, ...others.slice(0, targets.length - remembered.length)];
+        nextInputAt = time;
+      }
+      if (time < nextInputAt) {
+        return null;
+      }
+      nextInputAt = time + habits.inputMs;
+      const pick = picks.find((index) => !state.selected.includes(index));
+      return pick === undefined ? { type: "submit" } : { type: "toggle", index: pick };
+    };
+  };
+
+export const SIMON_SIMULATION = defineSimulation({
+  engine: simonEngine,
+  stepMs: 100,
+  bots: {
+    sharp: createBot({ span: 8, recallChance: 0.8, inputMs: 300 }),
+    casual: createBot({ span: 4, recallChance: 0.6, inputMs: 500 }),
+  },
+  start: { type: "start" },
+  isOver: (state) => state.result === "fail",
+  getLevel: (state) => state.level,
+  getScore: (state) => state.score,
+});
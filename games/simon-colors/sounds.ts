@@ -0,0 +1,17 @@
+import { midiToFrequency, playTone } from "@/lib/audio/engine";
+
+// Every tile color gets its own step of a C major scale.
+const TILE_NOTES: Record<string, number> = {
+  ember: 60,
+  ocean: 62,
+  forest: 64,
+  violet: 65,
+  amber: 67,
+  rose: 69,
+  indigo: 71,
+  teal: 72,
+};
+
+export const playTileTone = (colorId: string) => {
+  playTone({ frequency: midiToFrequency(TILE_NOTES[colorId] ?? 60), duration: 0.28, type: "sine", gain: 0.18 });
+};
@@ -0,0 +1,24 @@
+import type { AchievementDefinition } from "@/lib/achievements/types";
+
+export type SnakemojiEvent = { type: "face-check"; correct: boolean };
+
+export const SNAKEMOJI_ACHIEVEMENTS: AchievementDefinition<SnakemojiEvent>[] = [
+  {
+    id: "face-reader",
+    title: { en: "Face Reader", tr: "Yüz Okuyucu" },
+    description: { en: "Pass 10 Face checks in one run.", tr: "Bir turda 10 Yüz testini geç." },
+    icon: "🧐",
+    scope: "run",
+    goal: 10,
+    track: (progress, event) => (event.correct ? progress + 1 : progress),
+  },
+  {
+    id: "expression-expert",
+    title: { en: "Expression Expert", tr: "İfade Uzmanı" },
+    description: { en: "Pass 100 Face checks in total.", tr: "Toplam 100 Yüz testini geç." },
+    icon: "🎭",
+    scope: "lifetime",
+    goal: 100,
+    track: (progress, event) => (event.correct ? progress + 1 : progress),
+  },
+];
@@ -0,0 +1,10 @@
+import type { GameControls } from "@/lib/input/types";
+
+export const SNAKEMOJI_CONTROLS: GameControls = {
+  "move-up": { label: { en: "Turn up", tr: "Yukarı dön" }, keys: ["ArrowUp", "w"], buttons: ["up"] },
+  "move-down": { label: { en: "Turn down", tr: "Aşağı dön" }, keys: ["ArrowDown", "s"], buttons: ["down"] },
+  "move-left": { label: { en: "Turn left", tr: "Sola dön" }, keys: ["ArrowLeft", "a"], buttons: ["left"] },
+  "move-right": { label: { en: "Turn right", tr: "Sağa dön" }, keys: ["ArrowRight", "d"], buttons: ["right"] },
+  confirm: { label: { en: "Start or resume", tr: "Başlat veya devam et" }, keys: ["Space"], buttons: ["a"] },
+  pause: { label: { en: "Pause", tr: "Duraklat" }, keys: ["Escape", "p"], buttons: ["start"] },
+};
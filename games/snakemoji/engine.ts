@@ -0,0 +1,270 @@
+import type { Expression } from "@/games/snakemoji/expressions";
+import type { EngineState, GameEngine } from "@/lib/engine/types";
+import type { LocalizedText } from "@/lib/i18n/types";
+import type { Rng } from "@/lib/random";
+import type { RunStats } from "@/lib/run-history";
+import { EXPRESSIONS } from "@/games/snakemoji/expressions";
+import { createRng, restoreRng } from "@/lib/random";
+import { addToBreakdown } from "@/lib/stats/breakdown";
+
+export type Point = { x: number; y: number };
+export type Direction = "up" | "down" | "left" | "right";
+export type SnakemojiStatus = "idle" | "playing" | "over" | "quiz";
+
+export type SnakemojiConfig = {
+  boardSize: number;
+  /** Milliseconds between moves. */
+  stepMs: number;
+};
+
+export type QuizOption = {
+  id: string;
+  label: LocalizedText;
+  correct: boolean;
+};
+
+export type QuizState = {
+  expression: Expression;
+  options: QuizOption[];
+};
+
+export type SnakemojiInput =
+  | { type: "turn"; direction: Direction }
+  | { type: "answer"; optionId: string }
+  | { type: "resume" }
+  | { type: "restart" };
+
+export type SnakemojiEngineEvent =
+  | { type: "start" }
+  | { type: "eat" }
+  | { type: "quiz" }
+  | { type: "answer"; correct: boolean }
+  | { type: "over" };
+
+export type SnakemojiState = EngineState<SnakemojiEngineEvent> & {
+  seed: string;
+  config: SnakemojiConfig;
+  snake: Point[];
+  direction: Direction;
+  food: Point;
+  emoji: Expression;
+  score: number;
+  status: SnakemojiStatus;
+  quiz: QuizState | null;
+  quizzesPassed: number;
+  /** Face checks asked and passed per expression, reported with the run. */
+  faceChecks: RunStats;
+  /** Game time since the last move. */
+  elapsed: number;
+  rngState: number;
+};
+
+export const SNAKEMOJI_CONFIG: SnakemojiConfig = {
+  boardSize: 14,
+  stepMs: 250,
+};
+
+const directionVectors: Record<Direction, Point> = {
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+};
+
+const isOpposite = (current: Direction, next: Direction) => {
+  return (
+    (current === "up" && next === "down") ||
+    (current === "down" && next === "up") ||
+    (current === "left" && next === "right") ||
+    (current === "right" && next === "left")
+  );
+};
+
+const pickExpression = (rng: Rng) => rng.pick(EXPRESSIONS);
+
+const buildQuizOptions = (expression: Expression, rng: Rng): QuizOption[] => {
+  const incorrectPool = EXPRESSIONS.filter((item) => item.symbol !== expression.symbol);
+  const fallback = incorrectPool.length > 0 ? rng.pick(incorrectPool) : expression;
+  const decoy = incorrectPool.length > 0 ? fallback : expression;
+  const options: QuizOption[] = [
+    { id: `${expression.symbol}-correct`, label: expression.label, correct: true },
+    { id: `${expression.symbol}-decoy`, label: decoy.label, correct: false },
+  ];
+  return rng.shuffle(options);
+};
+
+const spawnFood = (snake: Point[], boardSize: number, rng: Rng): Point => {
+  const occupied = new Set(snake.map((segment) => `${segment.x}-${segment.y}`));
+  const available: Point[] = [];
+
+  for (let y = 0; y < boardSize; y += 1) {
+    for (let x = 0; x < boardSize; x += 1) {
+      const key = `${x}-${y}`;
+      if (!occupied.has(key)) {
+        available.push({ x, y });
+      }
+    }
+  }
+
+  if (available.length === 0) {
+    return snake[0] ?? { x: 0, y: 0 };
+  }
+
+  return rng.pick(available);
+};
+
+const init = (seed: string, config = SNAKEMOJI_CONFIG): SnakemojiState => {
+  const rng = createRng(seed);
+  const center = Math.floor(config.boardSize / 2);
+  const snake: Point[] = [
+    { x: center, y: center },
+    { x: center - 1, y: center },
+    { x: center - 2, y: center },
+  ];
+
+  return {
+    events: [],
+    seed,
+    config,
+    snake,
+    direction: "right",
+    food: spawnFood(snake, config.boardSize, rng),
+    emoji: pickExpression(rng),
+    score: 0,
+    status: "idle",
+    quiz: null,
+    quizzesPassed: 0,
+    faceChecks: {},
+    elapsed: 0,
+    rngState: rng.state(),
+  };
+};
+
+const startRun = (state: SnakemojiState): SnakemojiState => ({
+  ...init(state.seed, state.config),
+  status: "playing",
+  events: [{ type: "start" }],
+});
+
+const turn = (state: SnakemojiState, direction: Direction): SnakemojiState => {
+  if (state.status === "idle") {
+    const started: SnakemojiState = { ...state, status: "playing", events: [{ type: "start" }] };
+    return isOpposite(state.direction, direction) ? started : { ...started, direction };
+  }
+  if (state.status !== "playing" || isOpposite(state.direction, direction)) {
+    return state;
+  }
+  return { ...state, direction };
+};
+
+const answer = (state: SnakemojiState, optionId: string): SnakemojiState => {
+  if (state.status !== "quiz" || !state.quiz) {
+    return state;
+  }
+
+  const option = state.quiz.options.find((candidate) => candidate.id === optionId);
+  const { symbol } = state.quiz.expression;
+  const faceChecks = addToBreakdown(state.faceChecks, "faceAsked", symbol);
+  const answered: SnakemojiEngineEvent[] = option ? [{ type: "answer", correct: option.correct }] : [];
+
+  if (option?.correct) {
+    return {
+      ...state,
+      status: "playing",
+      quiz: null,
+      quizzesPassed: state.quizzesPassed + 1,
+      faceChecks: addToBreakdown(faceChecks, "facePassed", symbol),
+      elapsed: 0,
+      events: [...state.events, ...answered],
+    };
+  }
+
+  return { ...state, status: "over", quiz: null, faceChecks, events: [...state.events, ...answered, { type: "over" }] };
+};
+
+const applyInput = (state: SnakemojiState, input: SnakemojiInput): SnakemojiState => {
+  switch (input.type) {
+    case "turn":
+      return turn(state, input.direction);
+    case "answer":
+      return answer(state, input.optionId);
+    case "resume":
+      if (state.status === "idle") {
+        return { ...state, status: "playing", events: [{ type: "start" }] };
+      }
+      return state.status === "over" ? startRun(state) : state;
+    case "restart":
+      return startRun(state);
+  }
+};
+
+const move = (state: SnakemojiState): SnakemojiState => {
+  const { boardSize } = state.config;
+  const movement = directionVectors[state.direction];
+  const nextHead = {
+    x: state.snake[0].x + movement.x,
+    y: state.snake[0].y + movement.y,
+  };
+
+  const hitsWall = nextHead.x < 0 || nextHead.x >= boardSize || nextHead.y < 0 || nextHead.y >= boardSize;
+  const willEat = nextHead.x === state.food.x && nextHead.y === state.food.y;
+  const bodyToCheck = willEat ? state.snake : state.snake.slice(0, -1);
+  const hitsSelf = bodyToCheck.some((segment) => segment.x === nextHead.x && segment.y === nextHead.y);
+
+  if (hitsWall || hitsSelf) {
+    return { ...state, status: "over", events: [...state.events, { type: "over" }] };
+  }
+
+  const grownSnake = [nextHead, ...state.snake];
+  const nextSnake = willEat ? grownSnake : grownSnake.slice(0, -1);
+  if (!willEat) {
+    return { ...state, snake: nextSnake };
+  }
+
+  const rng = restoreRng(state.rngState);
+  const consumedExpression = state.emoji;
+  const consumedAtEdge =
+    state.food.x === 0 || state.food.x === boardSize - 1 || state.food.y === 0 || state.food.y === boardSize - 1;
+  const eaten: SnakemojiState = {
+    ...state,
+    snake: nextSnake,
+    food: spawnFood(nextSnake, boardSize, rng),
+    emoji: pickExpression(rng),
+    score: state.score + 1,
+    events: [...state.events, { type: "eat" }],
+  };
+
+  // food on the edge is a free bite; anywhere else it asks for the face it showed
+  if (consumedAtEdge) {
+    return { ...eaten, quiz: null, rngState: rng.state() };
+  }
+  return {
+    ...eaten,
+    status: "quiz",
+    quiz: { expression: consumedExpression, options: buildQuizOptions(consumedExpression, rng) },
+    rngState: rng.state(),
+    events: [...eaten.events, { type: "quiz" }],
+  };
+};
+
+const step = (state: SnakemojiState, input: SnakemojiInput | null, dt: number): SnakemojiState => {
+  let next: SnakemojiState = { ...state, events: [] };
+  if (input) {
+    next = applyInput(next, input);
+  }
+  if (next.status !== "playing") {
+    return next;
+  }
+
+  next = { ...next, elapsed: next.elapsed + dt };
+  while (next.status === "playing" && next.elapsed >= next.config.stepMs) {
+    next = move({ ...next, elapsed: next.elapsed - next.config.stepMs });
+  }
+  return next;
+};
+
+export const snakemojiEngine: GameEngine<SnakemojiConfig, SnakemojiState, SnakemojiInput> = {
+  config: SNAKEMOJI_CONFIG,
+  init,
+  step,
+};
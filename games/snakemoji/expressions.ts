@@ -0,0 +1,25 @@
+// Labels are written out per locale so the quiz asks in the reader's language; option ids stay locale-free.
+export const EXPRESSIONS = [
+  { symbol: "😀", label: { en: "Grinning face", tr: "Sırıtan yüz" } },
+  { symbol: "😎", label: { en: "Cool face", tr: "Havalı yüz" } },
+  { symbol: "😢", label: { en: "Crying face", tr: "Ağlayan yüz" } },
+  { symbol: "😡", label: { en: "Angry face", tr: "Kızgın yüz" } },
+  { symbol: "😱", label: { en: "Screaming face", tr: "Çığlık atan yüz" } },
+  { symbol: "🤢", label: { en: "Nauseated face", tr: "Midesi bulanan yüz" } },
+  { symbol: "😍", label: { en: "Heart eyes", tr: "Kalp gözler" } },
+  { symbol: "🤔", label: { en: "Thinking face", tr: "Düşünen yüz" } },
+  { symbol: "😴", label: { en: "Sleepy face", tr: "Uykulu yüz" } },
+  { symbol: "😅", label: { en: "Nervous grin", tr: "Gergin sırıtış" } },
+  { symbol: "😇", label: { en: "Innocent face", tr: "Masum yüz" } },
+  { symbol: "😈", label: { en: "Mischievous grin", tr: "Haylaz sırıtış" } },
+  { symbol: "🥳", label: { en: "Party face", tr: "Parti yüzü" } },
+  { symbol: "😤", label: { en: "Triumphant face", tr: "Zafer kazanmış yüz" } },
+  { symbol: "🤯", label: { en: "Mind blown", tr: "Aklı uçmuş" } },
+  { symbol: "😭", label: { en: "Loudly crying", tr: "Hüngür hüngür ağlayan" } },
+  { symbol: "🤠", label: { en: "Cowboy grin", tr: "Kovboy sırıtışı" } },
+  { symbol: "🥺", label: { en: "Pleading face", tr: "Yalvaran yüz" } },
+  { symbol: "🤤", label: { en: "Drooling face", tr: "Salyası akan yüz" } },
+  { symbol: "🤪", label: { en: "Zany face", tr: "Çılgın yüz" } },
+] as const;
+
+export type Expression = (typeof EXPRESSIONS)[number];
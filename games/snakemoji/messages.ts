@@ -0,0 +1,58 @@
+import type { Catalogue } from "@/lib/i18n/types";
+
+const en = {
+  description:
+    "Guide the neon snake, snack on vibrant emojis, and keep momentum without clashing into walls or yourself.",
+  "help.steer": "Steer with the arrow keys or WASD, swipe on the board, or use the on-screen pad.",
+  "help.quiz":
+    "Every few snacks the snake pauses for a quick emoji quiz. Pick the matching face to keep your run alive.",
+  "help.resume": "Press Space to resume after a quiz or start a new run.",
+  "overlay.ready": "Ready",
+  "overlay.readyBody": "Press an arrow key or tap start to glide. Match the faces to keep moving.",
+  "overlay.over": "Game over",
+  "overlay.overBody": { one: "You reached {count} point.", other: "You reached {count} points." },
+  "overlay.start": "Start",
+  "overlay.playAgain": "Play again",
+  "overlay.hint": "arrows · wasd · space · swipe · quiz",
+  "quiz.title": "Face check",
+  "quiz.question": "Which feeling fits this emoji?",
+  "quiz.hint": "Pick right to keep gliding",
+  "pad.title": "Tap to steer",
+  "pad.up": "Move up",
+  "pad.down": "Move down",
+  "pad.left": "Move left",
+  "pad.right": "Move right",
+  footer: "Collect emojis to extend your trail. Match each mood to keep the run alive.",
+  restart: "Restart fresh",
+};
+
+export type SnakemojiMessageKey = keyof typeof en;
+
+export const SNAKEMOJI_MESSAGES: Catalogue<SnakemojiMessageKey> = {
+  en,
+  tr: {
+    description:
+      "Neon yılanı yönlendir, canlı emojileri atıştır ve duvarlara ya da kendine çarpmadan hızını koru.",
+    "help.steer": "Ok tuşları ya da WASD ile yön ver, tahtada kaydır veya ekrandaki yön tuşlarını kullan.",
+    "help.quiz":
+      "Yılan birkaç lokmada bir kısa bir emoji testi için durur. Turunu sürdürmek için doğru yüzü seç.",
+    "help.resume": "Testten sonra devam etmek ya da yeni bir tur başlatmak için Boşluk'a bas.",
+    "overlay.ready": "Hazır",
+    "overlay.readyBody": "Süzülmek için bir ok tuşuna bas ya da Başlat'a dokun. İlerlemek için yüzleri eşleştir.",
+    "overlay.over": "Oyun bitti",
+    "overlay.overBody": { other: "{count} puana ulaştın." },
+    "overlay.start": "Başlat",
+    "overlay.playAgain": "Tekrar oyna",
+    "overlay.hint": "oklar · wasd · boşluk · kaydır · test",
+    "quiz.title": "Yüz testi",
+    "quiz.question": "Bu emojiye hangi duygu uyuyor?",
+    "quiz.hint": "Süzülmeye devam etmek için doğruyu seç",
+    "pad.title": "Yön vermek için dokun",
+    "pad.up": "Yukarı git",
+    "pad.down": "Aşağı git",
+    "pad.left": "Sola git",
+    "pad.right": "Sağa git",
+    footer: "İzini uzatmak için emojileri topla. Turu sürdürmek için her ruh halini eşleştir.",
+    restart: "Baştan başla",
+  },
+};
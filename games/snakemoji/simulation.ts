@@ -0,0 +1,128 @@
+import type { Direction, Point, SnakemojiInput, SnakemojiState } from "@/games/snakemoji/engine";
+import type { Rng } from "@/lib/random";
+import type { BotFactory } from "@/lib/simulation/types";
+import { snakemojiEngine } from "@/games/snakemoji/engine";
+import { defineSimulation } from "@/lib/simulation/run";
+
+type Habits = {
+  /** Chance of naming the face correctly on a face check. */
+  faceAccuracy: number;
+  /** Time to read a face check before answering. */
+  reactionMs: number;
+};
+
+const DIRECTIONS: Array<[Direction, Point]> = [
+  ["up", { x: 0, y: -1 }],
+  ["down", { x: 0, y: 1 }],
+  ["left", { x: -1, y: 0 }],
+  ["right", { x: 1, y: 0 }],
+];
+
+const toKey = ({ x, y }: Point) => `${x}-${y}`;
+
+/** Cells the snake can move into next; the tail moves away as the head advances. */
+const getBlocked = ({ snake }: SnakemojiState) => new Set(snake.slice(0, -1).map(toKey));
+
+const isFree = (point: Point, blocked: Set<string>, boardSize: number) =>
+  point.x >= 0 && point.x < boardSize && point.y >= 0 && point.y < boardSize && !blocked.has(toKey(point));
+
+const neighbours = (point: Point) =>
+  DIRECTIONS.map(([direction, vector]) => ({ direction, point: { x: point.x + vector.x, y: point.y + vector.y } }));
+
+/** The first move of a shortest path to the food, if there is one. */
+const findPath = (state: SnakemojiState, blocked: Set<string>): Direction | null => {
+  const { boardSize } = state.config;
+  const start = state.snake[0];
+  const target = toKey(state.food);
+  const firstMove = new Map<string, Direction>();
+  const queue: Point[] = [start];
+  const seen = new Set([toKey(start)]);
+  while (queue.length > 0) {
+    const current = queue.shift() as Point;
+    for (const { direction, point } of neighbours(current)) {
+      const key = toKey(point);
+      if (seen.has(key) || !isFree(point, blocked, boardSize)) {
+        continue;
+      }
+      seen.add(key);
+      const move = firstMove.get(toKey(current)) ?? direction;
+      if (key === target) {
+        return move;
+      }
+      firstMove.set(key, move);
+      queue.push(point);
+    }
+  }
+  return null;
+};
+
+const countReachable = (from: Point, blocked: Set<string>, boardSize: number) => {
+  const seen = new Set([toKey(from)]);
+  const stack = [from];
+  while (stack.length > 0) {
+    const current = stack.pop() as Point;
+    neighbours(current).forEach(({ point }) => {
+      if (!seen.has(toKey(point)) && isFree(point, blocked, boardSize)) {
+        seen.add(toKey(point));
+        stack.push(point);
+      }
+    });
+  }
+  return seen.size;
+};
+
+/** Without a path to the food, head for the most open space. */
+const findRoomiest = (state: SnakemojiState, blocked: Set<string>): Direction | null => {
+  const { boardSize } = state.config;
+  const withHead = new Set([...blocked, toKey(state.snake[0])]);
+  let best: Direction | null = null;
+  let bestRoom = 0;
+  for (const { direction, point } of neighbours(state.snake[0])) {
+    const room = isFree(point, blocked, boardSize) ? countReachable(point, withHead, boardSize) : 0;
+    if (room > bestRoom) {
+      best = direction;
+      bestRoom = room;
+    }
+  }
+  return best;
+};
+
+const createBot =
+  (habits: Habits): BotFactory<SnakemojiState, SnakemojiInput> =>
+  (rng: Rng) => {
+    let quizSeenAt: number | null = null;
+
+    return (state, time) => {
+      if (state.status === "quiz" && state.quiz) {
+        quizSeenAt ??= time;
+        if (time - quizSeenAt < habits.reactionMs) {
+          return null;
+        }
+        quizSeenAt = null;
+        const correct = rng.chance(habits.faceAccuracy);
+        const option = state.quiz.options.find((candidate) => candidate.correct === correct) ?? state.quiz.options[0];
+        return { type: "answer", optionId: option.id };
+      }
+      if (state.status !== "playing") {
+        return null;
+      }
+      const blocked = getBlocked(state);
+      const direction = findPath(state, blocked) ?? findRoomiest(state, blocked);
+      return direction && direction !== state.direction ? { type: "turn", direction } : null;
+    };
+  };
+
+export const SNAKEMOJI_SIMULATION = defineSimulation({
+  engine: snakemojiEngine,
+  // one move per step, so the bot can turn before every move
+  stepMs: snakemojiEngine.config.stepMs,
+  bots: {
+    greedy: createBot({ faceAccuracy: 0.97, reactionMs: 600 }),
+    casual: createBot({ faceAccuracy: 0.85, reactionMs: 1200 }),
+  },
+  start: { type: "resume" },
+  isOver: (state) => state.status === "over",
+  // a run has no levels, so each food eaten counts as one
+  getLevel: (state) => state.score + 1,
+  getScore: (state) => state.score,
+});
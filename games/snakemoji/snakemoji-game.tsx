@@ -0,0 +1,308 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { useEffect, useMemo } from "react";
+import type { SnakemojiEvent } from "@/games/snakemoji/achievements";
+import type { Direction, SnakemojiInput } from "@/games/snakemoji/engine";
+import type { SnakemojiMessageKey } from "@/games/snakemoji/messages";
+import type { GameProps } from "@/games/registry";
+import type { Translate } from "@/lib/i18n/types";
+import type { InputAction } from "@/lib/input/types";
+import GameShell from "@/components/game-shell/game-shell";
+import ChallengeButton from "@/components/game-shell/challenge-button";
+import ShareRunButton from "@/components/game-shell/share-run-button";
+import { SNAKEMOJI_CONFIG, snakemojiEngine } from "@/games/snakemoji/engine";
+import { SNAKEMOJI_MESSAGES } from "@/games/snakemoji/messages";
+import { playEatBlip, playQuizAnswer, playQuizBlip } from "@/games/snakemoji/sounds";
+import { useSound } from "@/lib/audio/use-sound";
+import { useEngine } from "@/lib/engine/use-engine";
+import { useFormatters, useTranslations } from "@/lib/i18n/locale";
+import { useInputActions } from "@/lib/input/use-input-actions";
+import { useSwipe } from "@/lib/input/use-swipe";
+import { useGameClock, useGameInput } from "@/lib/replay/session";
+import { useSettings } from "@/lib/settings/use-settings";
+import { useAchievementEvents } from "@/lib/use-achievement-events";
+import { useRunHistory } from "@/lib/use-run-history";
+
+const BOARD_SIZE = SNAKEMOJI_CONFIG.boardSize;
+
+const actionToDirection: Partial<Record<InputAction, Direction>> = {
+  "move-up": "up",
+  "move-down": "down",
+  "move-left": "left",
+  "move-right": "right",
+};
+
+const howToPlay = (t: Translate<SnakemojiMessageKey>) => (
+  <>
+    <p>{t("help.steer")}</p>
+    <p>{t("help.quiz")}</p>
+    <p>{t("help.resume")}</p>
+  </>
+);
+
+export default function SnakemojiGame({ seed }: GameProps) {
+  const { best, lastRun, startRun, finishRun } = useRunHistory("snakemoji");
+  const clock = useGameClock();
+  const emitAchievementEvent = useAchievementEvents<SnakemojiEvent>();
+  const { leftHanded } = useSettings();
+  const playSound = useSound();
+  const t = useTranslations(SNAKEMOJI_MESSAGES);
+  const format = useFormatters();
+
+  const { state, advance } = useEngine(snakemojiEngine, seed, (event, current) => {
+    switch (event.type) {
+      case "start":
+        startRun();
+        break;
+      case "eat":
+        playSound(playEatBlip);
+        break;
+      case "quiz":
+        playSound(playQuizBlip);
+        break;
+      case "answer":
+        emitAchievementEvent({ type: "face-check", correct: event.correct });
+        playSound(() => playQuizAnswer(event.correct));
+        break;
+      case "over":
+        finishRun({
+          score: current.score,
+          stats: { quizzesPassed: current.quizzesPassed, length: current.snake.length, ...current.faceChecks },
+        });
+        break;
+    }
+  });
+
+  const dispatch = useGameInput<SnakemojiInput>((input) => advance(input));
+  const highScore = Math.max(best, state.score);
+
+  useInputActions(({ action, pressed }) => {
+    if (!pressed) {
+      return;
+    }
+    if (action === "confirm") {
+      dispatch({ type: "resume" });
+      return;
+    }
+    const nextDirection = actionToDirection[action];
+    if (nextDirection) {
+      dispatch({ type: "turn", direction: nextDirection });
+    }
+  });
+
+  const swipeHandlers = useSwipe((direction) => dispatch({ type: "turn", direction }));
+
+  useEffect(() => {
+    if (state.status !== "playing") {
+      return;
+    }
+    const { stepMs } = state.config;
+    const interval = clock.setInterval(() => advance(null, stepMs), stepMs);
+    return () => clock.clearInterval(interval);
+  }, [advance, clock, state.config, state.status]);
+
+  const snakeSet = useMemo(() => new Set(state.snake.map((segment) => `${segment.x}-${segment.y}`)), [state.snake]);
+  const headKey = `${state.snake[0].x}-${state.snake[0].y}`;
+
+  const showStatusOverlay = state.status === "idle" || state.status === "over";
+  const overlayTitle = state.status === "over" ? t("overlay.over") : t("overlay.ready");
+  const overlaySubtitle =
+    state.status === "over" ? t("overlay.overBody", { count: state.score }) : t("overlay.readyBody");
+  const overlayCta = state.status === "over" ? t("overlay.playAgain") : t("overlay.start");
+  const controlButtonClass =
+    "rounded-2xl border border-white/15 bg-white/10 px-4 py-3 text-lg text-white transition active:translate-y-[1px] active:border-white/40 active:bg-white/20 disabled:cursor-not-allowed disabled:opacity-60";
+
+  return (
+    <GameShell
+      gameId="snakemoji"
+      description={t("description")}
+      hud={{ score: { value: state.score }, best: { value: highScore } }}
+      help={howToPlay(t)}
+      running={state.status === "playing"}
+    >
+      <div className="relative mx-auto w-full max-w-lg">
+        <div
+          className="relative overflow-hidden rounded-3xl border border-white/10 bg-white/5 p-6 touch-none"
+          {...swipeHandlers}
+        >
+          <div
+            className="grid gap-2"
+            style={{ gridTemplateColumns: `repeat(${BOARD_SIZE}, minmax(0, 1fr))` }}
+          >
+            {Array.from({ length: BOARD_SIZE }).map((_, y) =>
+              Array.from({ length: BOARD_SIZE }).map((__, x) => {
+                const key = `${x}-${y}`;
+                const isHead = key === headKey;
+                const isSnake = snakeSet.has(key);
+                const isFood = state.food.x === x && state.food.y === y;
+
+                let cellClass = "relative aspect-square overflow-hidden rounded-2xl border border-white/5 bg-black/20";
+                let content: ReactNode = null;
+
+                if (isSnake) {
+                  cellClass = "relative aspect-square overflow-hidden rounded-2xl border border-white/10 bg-white/80";
+                  content = (
+                    <span
+                      className={`flex h-full w-full items-center justify-center text-sm font-semibold ${
+                        isHead ? "text-slate-900" : "text-slate-700"
+                      }`}
+                    >
+                      {isHead ? "●" : ""}
+                    </span>
+                  );
+                } else if (isFood) {
+                  cellClass = "relative aspect-square overflow-hidden rounded-2xl border border-white/10 bg-accent/20";
+                  content = (
+                    <span className="flex h-full w-full items-center justify-center text-xl">{state.emoji.symbol}</span>
+                  );
+                }
+
+                return (
+                  <div key={key} className={cellClass}>
+                    {content}
+                  </div>
+                );
+              }),
+            )}
+          </div>
+
+          {showStatusOverlay && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 bg-black/70 text-center backdrop-blur-sm">
+              <div className="flex flex-col gap-1">
+                <span className="text-xs uppercase tracking-[0.3em] text-muted/60">{overlayTitle}</span>
+                <span className="text-lg font-medium text-white">{overlaySubtitle}</span>
+              </div>
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => dispatch({ type: "resume" })}
+                  className="inline-flex items-center gap-2 rounded-full border border-white/20 px-5 py-2 text-sm font-medium text-white transition hover:border-white/60"
+                  data-swipe-ignore="true"
+                >
+                  {overlayCta}
+                  <span aria-hidden className="text-white/60">
+                    →
+                  </span>
+                </button>
+                {state.status === "over" && (
+                  <>
+                    <ShareRunButton
+                      gameId="snakemoji"
+                      run={lastRun}
+                      best={highScore}
+                      sketch={() => ({
+                        kind: "snake",
+                        size: BOARD_SIZE,
+                        snake: state.snake.map(({ x, y }) => [x, y]),
+                        food: [state.food.x, state.food.y],
+                      })}
+                      className="rounded-full border border-white/20 px-5 py-2 text-sm font-medium text-white transition hover:border-white/60"
+                    />
+                    <ChallengeButton
+                      gameId="snakemoji"
+                      run={lastRun}
+                      className="rounded-full border border-white/20 px-5 py-2 text-sm font-medium text-white transition hover:border-white/60"
+                    />
+                  </>
+                )}
+              </div>
+              <p className="text-[0.7rem] uppercase tracking-[0.3em] text-muted/60">
+                {t("overlay.hint")}
+              </p>
+            </div>
+          )}
+          {state.status === "quiz" && state.quiz && (
+            <div
+              className="absolute inset-0 flex items-center justify-center bg-black/80 text-center backdrop-blur-sm"
+              data-swipe-ignore="true"
+            >
+              <div className="flex w-full max-w-sm flex-col items-center gap-4 rounded-3xl border border-white/10 bg-slate-950/90 p-6">
+                <span className="text-5xl" aria-label={format.text(state.quiz.expression.label)} role="img">
+                  {state.quiz.expression.symbol}
+                </span>
+                <div className="flex flex-col gap-1">
+                  <span className="text-xs uppercase tracking-[0.3em] text-muted/60">{t("quiz.title")}</span>
+                  <span className="text-base font-medium text-white">{t("quiz.question")}</span>
+                </div>
+                <div className="flex w-full flex-col gap-3">
+                  {state.quiz.options.map((option) => (
+                    <button
+                      key={option.id}
+                      type="button"
+                      onClick={() => dispatch({ type: "answer", optionId: option.id })}
+                      className="rounded-full border border-white/15 bg-white/10 px-4 py-2 text-sm font-medium text-white transition hover:border-white/40 hover:bg-white/20"
+                    >
+                      {format.text(option.label)}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-[0.65rem] uppercase tracking-[0.3em] text-muted/60">
+                  {t("quiz.hint")}
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div
+        className={`flex w-full max-w-xs flex-col items-center gap-3 sm:hidden ${leftHanded ? "mr-auto" : "mx-auto"}`}
+        data-swipe-ignore="true"
+      >
+        <span className="text-[0.65rem] uppercase tracking-[0.3em] text-muted/60">{t("pad.title")}</span>
+        <div className="grid w-full grid-cols-3 gap-3">
+          <div />
+          <button
+            type="button"
+            onClick={() => dispatch({ type: "turn", direction: "up" })}
+            className={controlButtonClass}
+            aria-label={t("pad.up")}
+            disabled={state.status !== "playing"}
+          >
+            ↑
+          </button>
+          <div />
+          <button
+            type="button"
+            onClick={() => dispatch({ type: "turn", direction: "left" })}
+            className={controlButtonClass}
+            aria-label={t("pad.left")}
+            disabled={state.status !== "playing"}
+          >
+            ←
+          </button>
+          <button
+            type="button"
+            onClick={() => dispatch({ type: "turn", direction: "down" })}
+            className={controlButtonClass}
+            aria-label={t("pad.down")}
+            disabled={state.status !== "playing"}
+          >
+            ↓
+          </button>
+          <button
+            type="button"
+            onClick={() => dispatch({ type: "turn", direction: "right" })}
+            className={controlButtonClass}
+            aria-label={t("pad.right")}
+            disabled={state.status !== "playing"}
+          >
+            →
+          </button>
+        </div>
+      </div>
+
+      <div className={`flex flex-wrap items-center justify-between gap-4 text-xs text-muted/60 ${leftHanded ? "flex-row-reverse" : ""}`}>
+        <div>{t("footer")}</div>
+        <button
+          onClick={() => dispatch({ type: "restart" })}
+          className="inline-flex items-center gap-2 rounded-full border border-white/10 px-4 py-2 text-muted/70 transition hover:border-white/40 hover:text-white"
+          data-swipe-ignore="true"
+        >
+          {t("restart")}
+          <span aria-hidden className="text-white/60">↻</span>
+        </button>
+      </div>
+    </GameShell>
+  );
+}
@@ -0,0 +1,18 @@
+import { playTone } from "@/lib/audio/engine";
+
+export const playEatBlip = () => {
+  playTone({ frequency: 660, slideTo: 990, duration: 0.09, type: "square", gain: 0.08 });
+};
+
+export const playQuizBlip = () => {
+  playTone({ frequency: 520, duration: 0.12, type: "triangle", gain: 0.15 });
+  playTone({ frequency: 780, duration: 0.16, type: "triangle", gain: 0.15, delay: 0.1 });
+};
+
+export const playQuizAnswer = (correct: boolean) => {
+  if (correct) {
+    playTone({ frequency: 880, slideTo: 1320, duration: 0.18, type: "triangle", gain: 0.15 });
+    return;
+  }
+  playTone({ frequency: 220, slideTo: 110, duration: 0.35, type: "sawtooth", gain: 0.1 });
+};
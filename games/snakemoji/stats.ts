@@ -0,0 +1,20 @@
+import type { GameInsight } from "@/lib/stats/types";
+import { EXPRESSIONS } from "@/games/snakemoji/expressions";
+import { collectBreakdown } from "@/lib/stats/breakdown";
+
+export const SNAKEMOJI_INSIGHTS: GameInsight[] = [
+  {
+    id: "face-accuracy",
+    title: { en: "Face check accuracy", tr: "Yüz testi doğruluğu" },
+    unit: "percent",
+    bars: (runs) => {
+      const asked = collectBreakdown(runs, "faceAsked");
+      const passed = collectBreakdown(runs, "facePassed");
+      return EXPRESSIONS.filter(({ symbol }) => asked.has(symbol)).map(({ symbol, label }) => ({
+        key: symbol,
+        label: { en: `${symbol} ${label.en}`, tr: `${symbol} ${label.tr}` },
+        value: (passed.get(symbol)?.total ?? 0) / (asked.get(symbol)?.total ?? 1),
+      }));
+    },
+  },
+];
@@ -0,0 +1,24 @@
+import type { AchievementDefinition } from "@/lib/achievements/types";
+
+export type TiltDropEvent = { type: "lines-cleared"; count: number; tilted: boolean };
+
+export const TILT_DROP_ACHIEVEMENTS: AchievementDefinition<TiltDropEvent>[] = [
+  {
+    id: "tilted-tetris",
+    title: { en: "Against the Swing", tr: "Salınıma Karşı" },
+    description: { en: "Clear four lines at once during an active tilt.", tr: "Eğim sürerken aynı anda dört satır temizle." },
+    icon: "🌀",
+    scope: "run",
+    goal: 1,
+    track: (progress, event) => (event.tilted && event.count >= 4 ? 1 : progress),
+  },
+  {
+    id: "line-worker",
+    title: { en: "Line Worker", tr: "Satır İşçisi" },
+    description: { en: "Clear 100 lines in total.", tr: "Toplam 100 satır temizle." },
+    icon: "🧱",
+    scope: "lifetime",
+    goal: 100,
+    track: (progress, event) => progress + event.count,
+  },
+];
@@ -0,0 +1,11 @@
+import type { GameControls } from "@/lib/input/types";
+
+export const TILT_DROP_CONTROLS: GameControls = {
+  "move-left": { label: { en: "Shift left", tr: "Sola kaydır" }, keys: ["ArrowLeft"], buttons: ["left"] },
+  "move-right": { label: { en: "Shift right", tr: "Sağa kaydır" }, keys: ["ArrowRight"], buttons: ["right"] },
+  "move-down": { label: { en: "Soft drop", tr: "Yavaş indir" }, keys: ["ArrowDown"], buttons: ["down"] },
+  rotate: { label: { en: "Rotate", tr: "Döndür" }, keys: ["ArrowUp", "Space"], buttons: ["a", "up"] },
+  drop: { label: { en: "Hard drop", tr: "Hızlı bırak" }, keys: ["Enter"], buttons: ["b"] },
+  confirm: { label: { en: "Start", tr: "Başlat" }, keys: [], buttons: ["x"] },
+  pause: { label: { en: "Pause", tr: "Duraklat" }, keys: ["Escape", "p"], buttons: ["start"] },
+};
@@ -0,0 +1,605 @@
+import type { TiltDropMessageKey } from "@/games/tilt-drop/messages";
+import type { EngineState, GameEngine } from "@/lib/engine/types";
+import type { LocalizedText } from "@/lib/i18n/types";
+import type { RunStats } from "@/lib/run-history";
+import { createRng, restoreRng } from "@/lib/random";
+import { addToBreakdown } from "@/lib/stats/breakdown";
+
+export type TiltDropStatus = "intro" | "playing" | "over";
+
+export type Point = {
+  x: number;
+  y: number;
+};
+
+export type Message = { key: TiltDropMessageKey; count?: number };
+
+export type Cell = {
+  color: string;
+  glow: string;
+} | null;
+
+export type PieceShape = {
+  id: string;
+  name: LocalizedText;
+  color: string;
+  glow: string;
+  rotations: Point[][];
+};
+
+export type ActivePiece = {
+  shape: PieceShape;
+  rotation: number;
+  position: Point;
+};
+
+export type TiltDropConfig = {
+  width: number;
+  height: number;
+  initialDropDelay: number;
+  /** Each level multiplies the drop delay by this. */
+  dropDecay: number;
+  minDropDelay: number;
+  linesPerLevel: number;
+  holdDelayMs: number;
+  holdIntervalMs: number;
+};
+
+export type TiltDropInput =
+  | { type: "start" }
+  | { type: "move"; dx: -1 | 1 }
+  | { type: "soft-drop" }
+  | { type: "rotate" }
+  | { type: "hard-drop" }
+  | { type: "hold-drop" }
+  | { type: "release-drop" }
+  | { type: "drag-start" }
+  | { type: "drag"; shiftX: number; shiftY: number }
+  | { type: "drag-end" };
+
+export type TiltDropEngineEvent =
+  | { type: "start" }
+  | { type: "lines"; count: number; tilted: boolean }
+  | { type: "swing" }
+  | { type: "over" };
+
+/** A pointer drag moves the piece by whole cells from where it was picked up. */
+type Drag = {
+  baseX: number;
+  baseY: number;
+  shiftX: number;
+  shiftY: number;
+};
+
+/** Holding the drop button waits `holdDelayMs`, then soft-drops every `holdIntervalMs`. */
+type DropHold = {
+  repeating: boolean;
+  elapsed: number;
+};
+
+/**
+ * Every few seconds the board swings to a random angle, rebounds past
+ * upright and settles; `phase` is where it is in that swing.
+ */
+type Tilt = {
+  angle: number;
+  phase: "still" | "swing" | "rebound";
+  elapsed: number;
+  nextSwingIn: number;
+};
+
+export type TiltDropState = EngineState<TiltDropEngineEvent> & {
+  seed: string;
+  config: TiltDropConfig;
+  status: TiltDropStatus;
+  board: Cell[][];
+  active: ActivePiece | null;
+  next: PieceShape;
+  score: number;
+  lines: number;
+  /** Zero-based; runs report it plus one. */
+  level: number;
+  /** Lines cleared at each level reached (1-based), reported with the run. */
+  levelLines: RunStats;
+  message: Message | null;
+  /** Milliseconds until a line-clear message goes away; null keeps it up. */
+  messageMs: number | null;
+  /** Game time since the active piece last moved. */
+  dropElapsed: number;
+  hold: DropHold | null;
+  drag: Drag | null;
+  tilt: Tilt;
+  pieceRngState: number;
+  tiltRngState: number;
+};
+
+export const TILT_DROP_CONFIG: TiltDropConfig = {
+  width: 10,
+  height: 20,
+  initialDropDelay: 820,
+  dropDecay: 0.78,
+  minDropDelay: 120,
+  linesPerLevel: 6,
+  holdDelayMs: 200,
+  holdIntervalMs: 90,
+};
+
+const LINE_SCORES = [0, 120, 300, 700, 1200];
+const LINE_MESSAGE_MS = 800;
+const SWING_MS = 1100;
+const REBOUND_MS = 900;
+const STILL_TILT: Tilt = { angle: 0, phase: "still", elapsed: 0, nextSwingIn: 0 };
+
+const normalizePoints = (points: Point[]): Point[] => {
+  const minX = Math.min(...points.map((point) => point.x));
+  const minY = Math.min(...points.map((point) => point.y));
+  return points.map((point) => ({ x: point.x - minX, y: point.y - minY }));
+};
+
+const rotationsEqual = (a: Point[], b: Point[]) => {
+  if (a.length !== b.length) {
+    return false;
+  }
+  const sortPoints = (collection: Point[]) =>
+    [...collection].sort((left, right) => (left.y - right.y === 0 ? left.x - right.x : left.y - right.y));
+  const sortedA = sortPoints(a);
+  const sortedB = sortPoints(b);
+  return sortedA.every((point, index) => {
+    const candidate = sortedB[index];
+    return point.x === candidate.x && point.y === candidate.y;
+  });
+};
+
+const patternToPoints = (pattern: string[]): Point[] => {
+  const points: Point[] = [];
+  pattern.forEach((row, y) => {
+    row.split("").forEach((cell, x) => {
+      if (cell === "#") {
+        points.push({ x, y });
+      }
+    });
+  });
+  return points;
+};
+
+const rotatePoints = (points: Point[], size: number): Point[] =>
+  points.map((point) => ({ x: size - 1 - point.y, y: point.x }));
+
+const buildRotations = (pattern: string[]): Point[][] => {
+  const size = pattern.length;
+  let current = normalizePoints(patternToPoints(pattern));
+  const rotations: Point[][] = [];
+  for (let index = 0; index < 4; index += 1) {
+    if (!rotations.some((existing) => rotationsEqual(existing, current))) {
+      rotations.push(current);
+    }
+    current = normalizePoints(rotatePoints(current, size));
+  }
+  return rotations;
+};
+
+const RAW_SHAPES: Array<{ id: string; name: LocalizedText; color: string; glow: string; pattern: string[] }> = [
+  {
+    id: "i",
+    name: { en: "Ion Beam", tr: "İyon Işını" },
+    color: "#38bdf8",
+    glow: "rgba(56,189,248,0.45)",
+    pattern: [
+      "....",
+      "####",
+      "....",
+      "....",
+    ],
+  },
+  {
+    id: "o",
+    name: { en: "Core", tr: "Çekirdek" },
+    color: "#facc15",
+    glow: "rgba(250,204,21,0.45)",
+    pattern: [
+      "....",
+      ".##.",
+      ".##.",
+      "....",
+    ],
+  },
+  {
+    id: "t",
+    name: { en: "Flux", tr: "Akı" },
+    color: "#c084fc",
+    glow: "rgba(192,132,252,0.45)",
+    pattern: [
+      "....",
+      ".###",
+      "..#.",
+      "....",
+    ],
+  },
+  {
+    id: "l",
+    name: { en: "Drift", tr: "Sürüklenme" },
+    color: "#fb923c",
+    glow: "rgba(251,146,60,0.45)",
+    pattern: [
+      "..#.",
+      "..#.",
+      "..##",
+      "....",
+    ],
+  },
+  {
+    id: "j",
+    name: { en: "Hook", tr: "Kanca" },
+    color: "#60a5fa",
+    glow: "rgba(96,165,250,0.45)",
+    pattern: [
+      ".#..",
+      ".#..",
+      "##..",
+      "....",
+    ],
+  },
+  {
+    id: "s",
+    name: { en: "Wave", tr: "Dalga" },
+    color: "#34d399",
+    glow: "rgba(52,211,153,0.45)",
+    pattern: [
+      "..##",
+      ".##.",
+      "....",
+      "....",
+    ],
+  },
+  {
+    id: "z",
+    name: { en: "Zing", tr: "Vızıltı" },
+    color: "#fb7185",
+    glow: "rgba(251,113,133,0.45)",
+    pattern: [
+      ".##.",
+      "..##",
+      "....",
+      "....",
+    ],
+  },
+];
+
+const SHAPES: PieceShape[] = RAW_SHAPES.map((shape) => ({
+  id: shape.id,
+  name: shape.name,
+  color: shape.color,
+  glow: shape.glow,
+  rotations: buildRotations(shape.pattern),
+}));
+
+const createEmptyBoard = ({ width, height }: TiltDropConfig): Cell[][] =>
+  Array.from({ length: height }, () => Array.from({ length: width }, () => null));
+
+const getSpawnPosition = (shape: PieceShape, { width }: TiltDropConfig): Point => {
+  const rotation = shape.rotations[0];
+  const shapeWidth = rotation.reduce((max, point) => Math.max(max, point.x), 0) + 1;
+  const centered = Math.floor((width - shapeWidth) / 2);
+  return { x: centered, y: -2 };
+};
+
+export const canPlace = (board: Cell[][], shape: PieceShape, position: Point, rotationIndex: number) => {
+  const rotation = shape.rotations[rotationIndex];
+  return rotation.every((offset) => {
+    const x = offset.x + position.x;
+    const y = offset.y + position.y;
+    if (x < 0 || x >= board[0].length) {
+      return false;
+    }
+    if (y >= board.length) {
+      return false;
+    }
+    if (y < 0) {
+      return true;
+    }
+    return board[y][x] === null;
+  });
+};
+
+/** The board with `piece` drawn into it, for merging and for display. */
+export const placePiece = (board: Cell[][], piece: ActivePiece) => {
+  const nextBoard = board.map((row) => row.slice());
+  piece.shape.rotations[piece.rotation].forEach((offset) => {
+    const x = offset.x + piece.position.x;
+    const y = offset.y + piece.position.y;
+    if (y >= 0 && y < board.length && x >= 0 && x < board[0].length) {
+      nextBoard[y][x] = { color: piece.shape.color, glow: piece.shape.glow };
+    }
+  });
+  return nextBoard;
+};
+
+const clearLines = (board: Cell[][]) => {
+  const remaining: Cell[][] = [];
+  let cleared = 0;
+  board.forEach((row) => {
+    if (row.every((cell) => cell !== null)) {
+      cleared += 1;
+    } else {
+      remaining.push(row);
+    }
+  });
+  while (remaining.length < board.length) {
+    remaining.unshift(Array.from({ length: board[0].length }, () => null));
+  }
+  return { board: remaining, cleared };
+};
+
+export const getDropDelay = (level: number, config = TILT_DROP_CONFIG) =>
+  Math.max(config.minDropDelay, config.initialDropDelay * Math.pow(config.dropDecay, level));
+
+const init = (seed: string, config = TILT_DROP_CONFIG): TiltDropState => ({
+  events: [],
+  seed,
+  config,
+  status: "intro",
+  board: createEmptyBoard(config),
+  active: null,
+  next: SHAPES[0],
+  score: 0,
+  lines: 0,
+  level: 0,
+  levelLines: {},
+  message: null,
+  messageMs: null,
+  dropElapsed: 0,
+  hold: null,
+  drag: null,
+  tilt: STILL_TILT,
+  pieceRngState: 0,
+  tiltRngState: 0,
+});
+
+const beginRun = (state: TiltDropState): TiltDropState => {
+  const { seed, config } = state;
+  const pieceRng = createRng(`${seed}:pieces`);
+  const tiltRng = createRng(`${seed}:tilt`);
+  const first = pieceRng.pick(SHAPES);
+  const second = pieceRng.pick(SHAPES);
+  const nextSwingIn = tiltRng.range(5000, 10000);
+  return {
+    ...init(seed, config),
+    events: [{ type: "start" }],
+    status: "playing",
+    active: { shape: first, rotation: 0, position: getSpawnPosition(first, config) },
+    next: second,
+    levelLines: addToBreakdown({}, "lines", 1, 0),
+    tilt: { ...STILL_TILT, nextSwingIn },
+    pieceRngState: pieceRng.state(),
+    tiltRngState: tiltRng.state(),
+  };
+};
+
+const endRun = (state: TiltDropState, reason: Message): TiltDropState => ({
+  ...state,
+  status: "over",
+  active: null,
+  message: reason,
+  messageMs: null,
+  hold: null,
+  drag: null,
+  tilt: STILL_TILT,
+  events: [...state.events, { type: "over" }],
+});
+
+// the drop timer starts over whenever the piece moves
+const withPiece = (state: TiltDropState, active: ActivePiece): TiltDropState => ({ ...state, active, dropElapsed: 0 });
+
+const lockPiece = (state: TiltDropState, piece: ActivePiece): TiltDropState => {
+  const { config } = state;
+  const { board, cleared } = clearLines(placePiece(state.board, piece));
+  const lines = state.lines + cleared;
+  let next: TiltDropState = { ...state, board, lines };
+
+  if (cleared > 0) {
+    const level = Math.floor(lines / config.linesPerLevel);
+    next = {
+      ...next,
+      level,
+      levelLines: addToBreakdown(addToBreakdown(state.levelLines, "lines", state.level + 1, cleared), "lines", level + 1, 0),
+      score: state.score + (LINE_SCORES[cleared] ?? 0) * (level + 1),
+      events: [...next.events, { type: "lines", count: cleared, tilted: state.tilt.phase !== "still" }],
+    };
+    if (cleared >= 2) {
+      next = { ...next, message: { key: "message.lines", count: cleared }, messageMs: LINE_MESSAGE_MS };
+    }
+  }
+
+  const pieceRng = restoreRng(state.pieceRngState);
+  const incoming = state.next;
+  const upcoming = pieceRng.pick(SHAPES);
+  const spawn = getSpawnPosition(incoming, config);
+  next = { ...next, pieceRngState: pieceRng.state() };
+  if (!canPlace(board, incoming, spawn, 0)) {
+    return endRun(next, { key: "message.overflow" });
+  }
+  return withPiece({ ...next, next: upcoming }, { shape: incoming, rotation: 0, position: spawn });
+};
+
+/** Sideways moves stop at walls; a blocked move down locks the piece. */
+const attemptMove = (state: TiltDropState, dx: number, dy: number): TiltDropState => {
+  const { active } = state;
+  if (state.status !== "playing" || !active) {
+    return state;
+  }
+  const position = { x: active.position.x + dx, y: active.position.y + dy };
+  if (canPlace(state.board, active.shape, position, active.rotation)) {
+    return withPiece(state, { ...active, position });
+  }
+  return dy !== 0 ? lockPiece(state, active) : state;
+};
+
+const KICKS = [-1, 1, -2, 2];
+
+const rotatePiece = (state: TiltDropState): TiltDropState => {
+  const { active } = state;
+  if (state.status !== "playing" || !active) {
+    return state;
+  }
+  const rotation = (active.rotation + 1) % active.shape.rotations.length;
+  for (const offset of [0, ...KICKS]) {
+    const position = { x: active.position.x + offset, y: active.position.y };
+    if (canPlace(state.board, active.shape, position, rotation)) {
+      return withPiece(state, { ...active, rotation, position });
+    }
+  }
+  return state;
+};
+
+const hardDrop = (state: TiltDropState): TiltDropState => {
+  const { active } = state;
+  if (state.status !== "playing" || !active) {
+    return state;
+  }
+  let distance = 0;
+  while (
+    canPlace(state.board, active.shape, { x: active.position.x, y: active.position.y + distance + 1 }, active.rotation)
+  ) {
+    distance += 1;
+  }
+  return lockPiece(state, { ...active, position: { x: active.position.x, y: active.position.y + distance } });
+};
+
+const startDrag = (state: TiltDropState): TiltDropState => {
+  const { active } = state;
+  if (state.status !== "playing" || !active) {
+    return state;
+  }
+  return { ...state, drag: { baseX: active.position.x, baseY: active.position.y, shiftX: 0, shiftY: 0 } };
+};
+
+/** Walks the piece cell by cell toward the wanted shift, stopping at the first blocked cell. */
+const dragPiece = (state: TiltDropState, desiredShiftX: number, desiredShiftY: number): TiltDropState => {
+  const { active } = state;
+  if (!state.drag || state.status !== "playing" || !active) {
+    return state;
+  }
+  let drag = state.drag;
+  // gravity may have moved the piece since the drag began
+  if (active.position.x !== drag.baseX + drag.shiftX || active.position.y !== drag.baseY + drag.shiftY) {
+    drag = { ...drag, baseX: active.position.x - drag.shiftX, baseY: active.position.y - drag.shiftY };
+  }
+
+  let { shiftX, shiftY } = drag;
+  const canOccupy = (x: number, y: number) =>
+    canPlace(state.board, active.shape, { x: drag.baseX + x, y: drag.baseY + y }, active.rotation);
+
+  while (shiftX < desiredShiftX && canOccupy(shiftX + 1, shiftY)) {
+    shiftX += 1;
+  }
+  while (shiftX > desiredShiftX && canOccupy(shiftX - 1, shiftY)) {
+    shiftX -= 1;
+  }
+  while (shiftY < desiredShiftY && canOccupy(shiftX, shiftY + 1)) {
+    shiftY += 1;
+  }
+
+  if (shiftX === drag.shiftX && shiftY === drag.shiftY) {
+    return { ...state, drag };
+  }
+  return withPiece(
+    { ...state, drag: { ...drag, shiftX, shiftY } },
+    { ...active, position: { x: drag.baseX + shiftX, y: drag.baseY + shiftY } },
+  );
+};
+
+const applyInput = (state: TiltDropState, input: TiltDropInput): TiltDropState => {
+  switch (input.type) {
+    case "start":
+      return beginRun(state);
+    case "move":
+      return attemptMove(state, input.dx, 0);
+    case "soft-drop":
+      return attemptMove(state, 0, 1);
+    case "rotate":
+      return rotatePiece(state);
+    case "hard-drop":
+      return hardDrop(state);
+    case "hold-drop":
+      return state.status === "playing" ? { ...state, hold: { repeating: false, elapsed: 0 } } : state;
+    case "release-drop":
+      return { ...state, hold: null };
+    case "drag-start":
+      return startDrag(state);
+    case "drag":
+      return dragPiece(state, input.shiftX, input.shiftY);
+    case "drag-end":
+      return { ...state, drag: null };
+  }
+};
+
+const advanceHold = (state: TiltDropState, dt: number): TiltDropState => {
+  let next = state;
+  let elapsed = (state.hold?.elapsed ?? 0) + dt;
+  while (next.status === "playing" && next.hold) {
+    const { holdDelayMs, holdIntervalMs } = next.config;
+    const due = next.hold.repeating ? holdIntervalMs : holdDelayMs;
+    if (elapsed < due) {
+      return { ...next, hold: { ...next.hold, elapsed } };
+    }
+    elapsed -= due;
+    next = attemptMove({ ...next, hold: { repeating: true, elapsed: 0 } }, 0, 1);
+  }
+  return next;
+};
+
+const advanceTilt = (state: TiltDropState, dt: number): TiltDropState => {
+  let { tilt } = state;
+  let elapsed = tilt.elapsed + dt;
+  if (tilt.phase === "swing" && elapsed >= SWING_MS) {
+    elapsed -= SWING_MS;
+    tilt = { ...tilt, angle: tilt.angle * -0.35, phase: "rebound" };
+  }
+  if (tilt.phase === "rebound" && elapsed >= REBOUND_MS) {
+    tilt = { ...tilt, angle: 0, phase: "still" };
+  }
+
+  const nextSwingIn = tilt.nextSwingIn - dt;
+  if (nextSwingIn > 0) {
+    return { ...state, tilt: { ...tilt, elapsed, nextSwingIn } };
+  }
+  const tiltRng = restoreRng(state.tiltRngState);
+  const angle = tiltRng.range(-180, 180);
+  return {
+    ...state,
+    tilt: { angle, phase: "swing", elapsed: 0, nextSwingIn: nextSwingIn + tiltRng.range(5000, 10000) },
+    tiltRngState: tiltRng.state(),
+    events: [...state.events, { type: "swing" }],
+  };
+};
+
+const advanceTime = (state: TiltDropState, dt: number): TiltDropState => {
+  let next = state;
+  if (next.messageMs !== null) {
+    const messageMs = next.messageMs - dt;
+    next = messageMs > 0 ? { ...next, messageMs } : { ...next, message: null, messageMs: null };
+  }
+  if (next.status !== "playing") {
+    return next;
+  }
+
+  next = advanceHold(advanceTilt(next, dt), dt);
+
+  let elapsed = next.dropElapsed + dt;
+  while (next.status === "playing" && next.active && elapsed >= getDropDelay(next.level, next.config)) {
+    elapsed -= getDropDelay(next.level, next.config);
+    next = attemptMove(next, 0, 1);
+  }
+  return next.status === "playing" ? { ...next, dropElapsed: elapsed } : next;
+};
+
+const step = (state: TiltDropState, input: TiltDropInput | null, dt: number): TiltDropState => {
+  const next = input ? applyInput({ ...state, events: [] }, input) : { ...state, events: [] };
+  return dt > 0 ? advanceTime(next, dt) : next;
+};
+
+export const tiltDropEngine: GameEngine<TiltDropConfig, TiltDropState, TiltDropInput> = {
+  config: TILT_DROP_CONFIG,
+  init,
+  step,
+};
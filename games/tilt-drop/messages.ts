@@ -0,0 +1,47 @@
+import type { Catalogue } from "@/lib/i18n/types";
+
+const en = {
+  description:
+    "Rotate falling blocks with taps, swipe to steer, then brace as the whole grid swings off-axis. Keep your cool through the tilt storms.",
+  "help.controls": "Tap to rotate and swipe to steer, or use the arrow keys. Up or Space rotates and Enter hard-drops.",
+  "help.hold": "Press and hold the board to hard-drop.",
+  "help.tilt": "Clear full rows to score. Every so often the arena tilts, so plan for the swing.",
+  "hud.tilt": "Tilt",
+  "intro.rotate": "Tap to rotate",
+  "intro.strafe": "Swipe to strafe",
+  "intro.tilts": "Tilts are coming",
+  "message.lines": { one: "{count} line", other: "{count} lines" },
+  "message.overflow": "Grid overflow",
+  "over.title": "Run ended",
+  "over.hint": "Tap replay",
+  "action.rotate": "Rotate",
+  "action.start": "Start run",
+  "action.drop": "Drop",
+  "action.replay": "Replay",
+};
+
+export type TiltDropMessageKey = keyof typeof en;
+
+export const TILT_DROP_MESSAGES: Catalogue<TiltDropMessageKey> = {
+  en,
+  tr: {
+    description:
+      "Düşen blokları dokunarak döndür, kaydırarak yönlendir ve tüm ızgara eksenden savrulurken hazır ol. Eğim fırtınalarında soğukkanlı kal.",
+    "help.controls":
+      "Döndürmek için dokun, yönlendirmek için kaydır ya da ok tuşlarını kullan. Yukarı veya Boşluk döndürür, Enter hızlı düşürür.",
+    "help.hold": "Hızlı düşürmek için oyun alanını basılı tut.",
+    "help.tilt": "Puan için dolu satırları temizle. Arada bir arena eğilir, salınıma göre plan yap.",
+    "hud.tilt": "Eğim",
+    "intro.rotate": "Döndürmek için dokun",
+    "intro.strafe": "Kaymak için kaydır",
+    "intro.tilts": "Eğimler geliyor",
+    "message.lines": { other: "{count} satır" },
+    "message.overflow": "Izgara taştı",
+    "over.title": "Tur bitti",
+    "over.hint": "Yeniden oynamak için dokun",
+    "action.rotate": "Döndür",
+    "action.start": "Turu başlat",
+    "action.drop": "Düşür",
+    "action.replay": "Yeniden oyna",
+  },
+};
@@ -0,0 +1,120 @@
+import type { ActivePiece, Cell, TiltDropInput, TiltDropState } from "@/games/tilt-drop/engine";
+import type { Rng } from "@/lib/random";
+import type { BotFactory } from "@/lib/simulation/types";
+import { canPlace, placePiece, tiltDropEngine } from "@/games/tilt-drop/engine";
+import { defineSimulation } from "@/lib/simulation/run";
+
+type Placement = { rotation: number; x: number; score: number };
+
+type Habits = {
+  /** Time to size up a new piece before the first input. */
+  reactionMs: number;
+  /** Time between inputs. */
+  inputMs: number;
+  /** Steady players slam pieces down; casual ones hold soft drop. */
+  hardDrop: boolean;
+  /** Chance of settling for a random placement instead of the best one. */
+  mistakeChance: number;
+};
+
+// weights for aggregate height, cleared lines, holes and bumpiness
+const HEIGHT_WEIGHT = -0.51;
+const LINES_WEIGHT = 0.76;
+const HOLES_WEIGHT = -0.36;
+const BUMPINESS_WEIGHT = -0.18;
+
+const rateBoard = (board: Cell[][]) => {
+  const full = board.filter((row) => row.every((cell) => cell !== null)).length;
+  const rows = board.filter((row) => !row.every((cell) => cell !== null));
+  const width = board[0].length;
+  const heights: number[] = [];
+  let holes = 0;
+  for (let x = 0; x < width; x += 1) {
+    const top = rows.findIndex((row) => row[x] !== null);
+    heights.push(top === -1 ? 0 : rows.length - top);
+    if (top !== -1) {
+      holes += rows.slice(top).filter((row) => row[x] === null).length;
+    }
+  }
+  const bumpiness = heights.slice(1).reduce((sum, height, index) => sum + Math.abs(height - heights[index]), 0);
+  const aggregate = heights.reduce((sum, height) => sum + height, 0);
+  return HEIGHT_WEIGHT * aggregate + LINES_WEIGHT * full + HOLES_WEIGHT * holes + BUMPINESS_WEIGHT * bumpiness;
+};
+
+/** Every rotation and column the piece can fall into, rated by the board it leaves. */
+const listPlacements = (board: Cell[][], piece: ActivePiece): Placement[] => {
+  const placements: Placement[] = [];
+  piece.shape.rotations.forEach((_, rotation) => {
+    for (let x = -3; x < board[0].length; x += 1) {
+      let y = piece.position.y;
+      if (!canPlace(board, piece.shape, { x, y }, rotation)) {
+        continue;
+      }
+      while (canPlace(board, piece.shape, { x, y: y + 1 }, rotation)) {
+        y += 1;
+      }
+      const landed = placePiece(board, { shape: piece.shape, rotation, position: { x, y } });
+      placements.push({ rotation, x, score: rateBoard(landed) });
+    }
+  });
+  return placements;
+};
+
+const createBot =
+  (habits: Habits): BotFactory<TiltDropState, TiltDropInput> =>
+  (rng: Rng) => {
+    let pieceKey = "";
+    let plan: Placement | null = null;
+    let nextInputAt = 0;
+    let lastX: number | null = null;
+
+    return (state, time) => {
+      const { active } = state;
+      if (state.status !== "playing" || !active) {
+        return null;
+      }
+      // a locked piece changes the filled cells or the line count
+      const key = `${state.lines}:${state.board.flat().filter(Boolean).length}:${active.shape.id}`;
+      if (key !== pieceKey) {
+        pieceKey = key;
+        const placements = listPlacements(state.board, active);
+        if (placements.length === 0) {
+          plan = null;
+        } else if (rng.chance(habits.mistakeChance)) {
+          plan = rng.pick(placements);
+        } else {
+          plan = placements.reduce((best, placement) => (placement.score > best.score ? placement : best));
+        }
+        nextInputAt = time + habits.reactionMs;
+        lastX = null;
+      }
+      if (!plan || time < nextInputAt) {
+        return null;
+      }
+      nextInputAt = time + habits.inputMs;
+
+      if (active.rotation !== plan.rotation) {
+        return { type: "rotate" };
+      }
+      // a wall or the stack can block the way; then the piece drops where it is
+      const blocked = lastX === active.position.x;
+      if (active.position.x !== plan.x && !blocked) {
+        lastX = active.position.x;
+        return { type: "move", dx: active.position.x < plan.x ? 1 : -1 };
+      }
+      return habits.hardDrop ? { type: "hard-drop" } : { type: "soft-drop" };
+    };
+  };
+
+export const TILT_DROP_SIMULATION = defineSimulation({
+  engine: tiltDropEngine,
+  stepMs: 50,
+  bots: {
+    steady: createBot({ reactionMs: 150, inputMs: 80, hardDrop: true, mistakeChance: 0.02 }),
+    casual: createBot({ reactionMs: 400, inputMs: 150, hardDrop: false, mistakeChance: 0.1 }),
+  },
+  start: { type: "start" },
+  isOver: (state) => state.status === "over",
+  getLevel: (state) => state.level + 1,
+  getScore: (state) => state.score,
+});
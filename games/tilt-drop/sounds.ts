@@ -0,0 +1,21 @@
+import { midiToFrequency, playChord, playNoise } from "@/lib/audio/engine";
+
+const CLEAR_CHORDS: number[][] = [
+  [60, 64, 67],
+  [60, 64, 67, 72],
+  [60, 64, 67, 72, 76],
+  [60, 64, 67, 71, 74, 79],
+];
+
+/** Bigger clears get fuller, longer chords. */
+export const playLineClear = (lines: number) => {
+  const chord = CLEAR_CHORDS[Math.min(lines, CLEAR_CHORDS.length) - 1];
+  if (!chord) {
+    return;
+  }
+  playChord(chord.map(midiToFrequency), { duration: 0.3 + lines * 0.12, type: "triangle", gain: 0.12 + lines * 0.04 });
+};
+
+export const playTiltWhoosh = () => {
+  playNoise({ duration: 0.7, from: 300, to: 2400, gain: 0.18 });
+};
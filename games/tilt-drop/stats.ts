@@ -0,0 +1,18 @@
+import type { GameInsight } from "@/lib/stats/types";
+import { collectBreakdown } from "@/lib/stats/breakdown";
+
+export const TILT_DROP_INSIGHTS: GameInsight[] = [
+  {
+    id: "lines-per-level",
+    title: { en: "Average lines per level", tr: "Seviye başına ortalama satır" },
+    unit: "count",
+    bars: (runs) =>
+      [...collectBreakdown(runs, "lines")]
+        .sort(([a], [b]) => Number(a) - Number(b))
+        .map(([level, { total, runs: reached }]) => ({
+          key: level,
+          label: { en: `Level ${level}`, tr: `Seviye ${level}` },
+          value: total / reached,
+        })),
+  },
+];
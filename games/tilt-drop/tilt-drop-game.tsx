@@ -0,0 +1,367 @@
+"use client";
+
+import type React from "react";
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import type { TiltDropEvent } from "@/games/tilt-drop/achievements";
+import type { TiltDropInput } from "@/games/tilt-drop/engine";
+import type { TiltDropMessageKey } from "@/games/tilt-drop/messages";
+import type { GameProps } from "@/games/registry";
+import type { Translate } from "@/lib/i18n/types";
+import GameShell from "@/components/game-shell/game-shell";
+import ChallengeButton from "@/components/game-shell/challenge-button";
+import ShareRunButton from "@/components/game-shell/share-run-button";
+import { TILT_DROP_CONFIG, placePiece, tiltDropEngine } from "@/games/tilt-drop/engine";
+import { TILT_DROP_MESSAGES } from "@/games/tilt-drop/messages";
+import { playLineClear, playTiltWhoosh } from "@/games/tilt-drop/sounds";
+import { useSound } from "@/lib/audio/use-sound";
+import { useEngine, useEngineLoop } from "@/lib/engine/use-engine";
+import { useTranslations } from "@/lib/i18n/locale";
+import { useInputActions } from "@/lib/input/use-input-actions";
+import { useLongPress } from "@/lib/input/use-long-press";
+import { useGameClock, useGameInput } from "@/lib/replay/session";
+import { useColorAdapter, useReducedMotion, useSettings } from "@/lib/settings/use-settings";
+import { useAchievementEvents } from "@/lib/use-achievement-events";
+import { useRunHistory } from "@/lib/use-run-history";
+
+const { width: BOARD_WIDTH, height: BOARD_HEIGHT } = TILT_DROP_CONFIG;
+
+const howToPlay = (t: Translate<TiltDropMessageKey>) => (
+  <>
+    <p>{t("help.controls")}</p>
+    <p>{t("help.hold")}</p>
+    <p>{t("help.tilt")}</p>
+  </>
+);
+
+export default function TiltDropGame({ seed }: GameProps) {
+  const { best, lastRun, startRun, finishRun } = useRunHistory("tilt-drop");
+  const clock = useGameClock();
+  const emitAchievementEvent = useAchievementEvents<TiltDropEvent>();
+  const t = useTranslations(TILT_DROP_MESSAGES);
+  const { leftHanded } = useSettings();
+  const reducedMotion = useReducedMotion();
+  const adaptColor = useColorAdapter();
+  const playSound = useSound();
+
+  const { state, stateRef, advance } = useEngine(tiltDropEngine, seed, (event, current) => {
+    switch (event.type) {
+      case "start":
+        startRun();
+        break;
+      case "lines":
+        emitAchievementEvent({ type: "lines-cleared", count: event.count, tilted: event.tilted });
+        playSound(() => playLineClear(event.count));
+        break;
+      case "swing":
+        playSound(playTiltWhoosh);
+        break;
+      case "over":
+        finishRun({
+          score: current.score,
+          level: current.level + 1,
+          stats: { linesCleared: current.lines, ...current.levelLines },
+        });
+        break;
+    }
+  });
+  const { status, board, active: activePiece, score, message } = state;
+  const tiltActive = state.tilt.phase !== "still";
+  const highScore = Math.max(best, score);
+
+  const pointerStartRef = useRef<{ x: number; y: number; time: number } | null>(null);
+  // a held drop button that already dropped should not also hard-drop on release
+  const dropPreventClickRef = useRef(false);
+
+  useEngineLoop(advance, status === "playing");
+
+  useEffect(() => {
+    if (status !== "playing") {
+      dropPreventClickRef.current = false;
+    }
+  }, [status]);
+
+  const dispatch = useGameInput<TiltDropInput>((input) => {
+    if (input.type === "hold-drop") {
+      dropPreventClickRef.current = false;
+    } else if (input.type === "release-drop" && stateRef.current.hold?.repeating) {
+      dropPreventClickRef.current = true;
+    }
+    advance(input);
+  });
+
+  useInputActions(({ action, pressed }) => {
+    if (!pressed) {
+      return;
+    }
+    if (stateRef.current.status !== "playing") {
+      if (action === "confirm") {
+        dispatch({ type: "start" });
+      }
+      return;
+    }
+    if (action === "move-left") {
+      dispatch({ type: "move", dx: -1 });
+    } else if (action === "move-right") {
+      dispatch({ type: "move", dx: 1 });
+    } else if (action === "move-down") {
+      dispatch({ type: "soft-drop" });
+    } else if (action === "rotate") {
+      dispatch({ type: "rotate" });
+    } else if (action === "drop") {
+      dispatch({ type: "hard-drop" });
+    }
+  });
+
+  const longPress = useLongPress(() => {
+    if (stateRef.current.status !== "playing") {
+      return;
+    }
+    pointerStartRef.current = null;
+    if (stateRef.current.drag) {
+      dispatch({ type: "drag-end" });
+    }
+    dispatch({ type: "hard-drop" });
+  });
+
+  const handlePointerDown = useCallback(
+    (event: React.PointerEvent<HTMLDivElement>) => {
+      event.preventDefault();
+      if (event.button && event.button !== 0) {
+        return;
+      }
+      if (stateRef.current.status !== "playing") {
+        pointerStartRef.current = null;
+        dispatch({ type: "start" });
+        return;
+      }
+      if (!stateRef.current.active) {
+        return;
+      }
+      pointerStartRef.current = { x: event.clientX, y: event.clientY, time: clock.now() };
+      dispatch({ type: "drag-start" });
+      longPress.onPointerDown(event);
+      event.currentTarget.setPointerCapture(event.pointerId);
+    },
+    [clock, dispatch, longPress, stateRef]
+  );
+
+  const handlePointerMove = useCallback(
+    (event: React.PointerEvent<HTMLDivElement>) => {
+      longPress.onPointerMove(event);
+      const start = pointerStartRef.current;
+      const drag = stateRef.current.drag;
+      if (!start || !drag) {
+        return;
+      }
+      event.preventDefault();
+      const rect = event.currentTarget.getBoundingClientRect();
+      if (rect.width === 0 || rect.height === 0) {
+        return;
+      }
+      const cellWidth = rect.width / BOARD_WIDTH;
+      const cellHeight = rect.height / BOARD_HEIGHT;
+      const rawShiftX = (event.clientX - start.x) / cellWidth;
+      const rawShiftY = (event.clientY - start.y) / cellHeight;
+      const shiftX = Math.max(-BOARD_WIDTH, Math.min(BOARD_WIDTH, Math.round(rawShiftX)));
+      const shiftY = Math.max(0, Math.floor(rawShiftY + 0.25));
+      if (shiftX === drag.shiftX && shiftY === drag.shiftY) {
+        return;
+      }
+      dispatch({ type: "drag", shiftX, shiftY });
+    },
+    [dispatch, longPress, stateRef]
+  );
+
+  const handlePointerUp = useCallback(
+    (event: React.PointerEvent<HTMLDivElement>) => {
+      longPress.onPointerUp();
+      if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+        event.currentTarget.releasePointerCapture(event.pointerId);
+      }
+      const drag = stateRef.current.drag;
+      if (drag) {
+        dispatch({ type: "drag-end" });
+      }
+      const start = pointerStartRef.current;
+      pointerStartRef.current = null;
+      if (!start || stateRef.current.status !== "playing") {
+        return;
+      }
+      const deltaX = event.clientX - start.x;
+      const deltaY = event.clientY - start.y;
+      const duration = clock.now() - start.time;
+      const movedViaDrag = drag && (drag.shiftX !== 0 || drag.shiftY !== 0);
+      const isTap = Math.abs(deltaX) < 12 && Math.abs(deltaY) < 12 && duration < 260 && !movedViaDrag;
+      if (isTap && !longPress.hasFired()) {
+        dispatch({ type: "rotate" });
+      }
+    },
+    [clock, dispatch, longPress, stateRef]
+  );
+
+  const handlePointerCancel = useCallback(
+    (event?: React.PointerEvent<HTMLDivElement>) => {
+      if (event && event.currentTarget.hasPointerCapture(event.pointerId)) {
+        event.currentTarget.releasePointerCapture(event.pointerId);
+      }
+      longPress.onPointerCancel();
+      pointerStartRef.current = null;
+      if (stateRef.current.drag) {
+        dispatch({ type: "drag-end" });
+      }
+    },
+    [dispatch, longPress, stateRef]
+  );
+
+  const releaseDropHold = () => {
+    if (stateRef.current.hold) {
+      dispatch({ type: "release-drop" });
+    }
+  };
+
+  const displayBoard = useMemo(() => (activePiece ? placePiece(board, activePiece) : board), [activePiece, board]);
+
+  return (
+    <GameShell
+      gameId="tilt-drop"
+      description={t("description")}
+      hud={{ score: { value: score }, best: { value: highScore }, alert: tiltActive ? t("hud.tilt") : null }}
+      help={howToPlay(t)}
+      running={status === "playing"}
+      className="bg-slate-950/90 text-white"
+      wide
+    >
+      <section
+        className={`flex flex-1 touch-none flex-col items-center justify-center gap-10 lg:items-start ${
+          leftHanded ? "lg:flex-row-reverse" : "lg:flex-row"
+        }`}
+      >
+        <div className="flex flex-col items-center gap-4">
+          <div
+            className="relative flex h-[26rem] w-[16rem] items-center justify-center rounded-[2.5rem] border border-white/10 bg-slate-900/60 p-3 shadow-[0_40px_80px_rgba(15,23,42,0.55)] backdrop-blur"
+          >
+            <div
+              className="relative h-full w-full overflow-hidden rounded-[2rem] border border-white/10 bg-slate-950/70"
+              style={{
+                // reduced motion keeps the board upright; the tilt badge still shows when it swings
+                transform: reducedMotion ? undefined : `rotate(${state.tilt.angle}deg)`,
+                transition: "transform 0.65s cubic-bezier(0.22, 1, 0.36, 1)",
+                willChange: "transform",
+              }}
+            >
+              <div
+                className="absolute inset-0 touch-none"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerCancel}
+                role="presentation"
+              >
+                <div className="grid h-full w-full grid-cols-10 grid-rows-20 gap-[1px] bg-slate-900/70 p-3">
+                  {displayBoard.map((row, rowIndex) =>
+                    row.map((cell, cellIndex) => (
+                      <div
+                        key={`${rowIndex}-${cellIndex}`}
+                        className="relative flex items-center justify-center rounded-sm bg-slate-900/80"
+                      >
+                        {cell && (
+                          <span
+                            className="absolute inset-0 rounded-sm"
+                            style={{
+                              background: `linear-gradient(135deg, ${adaptColor(cell.color)}, ${adaptColor(cell.color)}CC)`,
+                              boxShadow: `0 0 12px ${adaptColor(cell.glow)}`,
+                            }}
+                          />
+                        )}
+                      </div>
+                    ))
+                  )}
+                </div>
+              </div>
+              {status === "intro" && (
+                <div className="pointer-events-none absolute inset-0 flex flex-col items-center justify-center gap-3 rounded-[2rem] bg-slate-950/80 text-center text-xs uppercase tracking-[0.35em] text-white/80 backdrop-blur-sm">
+                  <span>{t("intro.rotate")}</span>
+                  <span>{t("intro.strafe")}</span>
+                  <span>{t("intro.tilts")}</span>
+                </div>
+              )}
+              {status === "over" && (
+                <div className="pointer-events-none absolute inset-0 flex flex-col items-center justify-center gap-2 rounded-[2rem] bg-rose-500/20 text-center text-xs uppercase tracking-[0.4em] text-rose-100 backdrop-blur">
+                  <span>{message ? t(message.key, { count: message.count ?? 0 }) : t("over.title")}</span>
+                  <span className="text-[0.55rem] uppercase tracking-[0.3em] text-rose-50/80">{t("over.hint")}</span>
+                </div>
+              )}
+            </div>
+          </div>
+          <div
+            className={`flex w-full items-center justify-center gap-3 text-xs uppercase tracking-[0.3em] text-white/60 ${
+              leftHanded ? "flex-row-reverse" : ""
+            }`}
+          >
+            <button
+              type="button"
+              onClick={() => {
+                dispatch({ type: status === "playing" ? "rotate" : "start" });
+              }}
+              className="rounded-full border border-white/15 bg-white/5 px-5 py-2 text-white transition hover:border-white/30 hover:bg-white/15 select-none"
+            >
+              {status === "playing" ? t("action.rotate") : t("action.start")}
+            </button>
+            <button
+              type="button"
+              onPointerDown={(event) => {
+                event.preventDefault();
+                if (event.button && event.button !== 0) {
+                  return;
+                }
+                dispatch({ type: "hold-drop" });
+              }}
+              onPointerUp={releaseDropHold}
+              onPointerLeave={releaseDropHold}
+              onPointerCancel={releaseDropHold}
+              onClick={() => {
+                if (status === "playing") {
+                  if (dropPreventClickRef.current) {
+                    dropPreventClickRef.current = false;
+                    return;
+                  }
+                  dropPreventClickRef.current = false;
+                  dispatch({ type: "hard-drop" });
+                } else {
+                  dispatch({ type: "start" });
+                }
+              }}
+              onContextMenu={(event) => {
+                event.preventDefault();
+              }}
+              className="rounded-full border border-white/15 bg-white/5 px-5 py-2 text-white transition hover:border-white/30 hover:bg-white/15 select-none"
+            >
+              {status === "playing" ? t("action.drop") : t("action.replay")}
+            </button>
+            {status === "over" && (
+              <>
+                <ShareRunButton
+                  gameId="tilt-drop"
+                  run={lastRun}
+                  best={highScore}
+                  sketch={() => ({
+                    kind: "stack",
+                    cols: BOARD_WIDTH,
+                    rows: BOARD_HEIGHT,
+                    cells: board.flat().map((cell) => cell?.color ?? null),
+                  })}
+                  className="rounded-full border border-white/15 bg-white/5 px-5 py-2 text-white transition hover:border-white/30 hover:bg-white/15 select-none"
+                />
+                <ChallengeButton
+                  gameId="tilt-drop"
+                  run={lastRun}
+                  className="rounded-full border border-white/15 bg-white/5 px-5 py-2 text-white transition hover:border-white/30 hover:bg-white/15 select-none"
+                />
+              </>
+            )}
+          </div>
+        </div>
+      </section>
+    </GameShell>
+  );
+}
@@ -0,0 +1,32 @@
+import type { DeviceSession } from "@/lib/accounts/types";
+import { hashSecret } from "@/lib/accounts/login";
+import { getAccountStore } from "@/lib/accounts/store";
+
+const readCredential = (request: Request, scheme: "Bearer" | "Guest") => {
+  const header = request.headers.get("authorization") ?? "";
+  return header.startsWith(`${scheme} `) ? header.slice(scheme.length + 1).trim() : "";
+};
+
+/** The device session behind the request's `Authorization: Bearer <token>` header, if any. */
+export const getRequestSession = async (request: Request): Promise<DeviceSession | null> => {
+  const token = readCredential(request, "Bearer");
+  return token ? getAccountStore().findSession(token) : null;
+};
+
+/**
+ * The player id the caller has proven it owns: the signed-in account's, or a
+ * registered guest's from `Authorization: Guest <guest-id>:<secret>`.
+ */
+export const getRequestPlayerId = async (request: Request): Promise<string | null> => {
+  const session = await getRequestSession(request);
+  if (session) {
+    return session.accountId;
+  }
+  const credential = readCredential(request, "Guest");
+  const separator = credential.lastIndexOf(":");
+  if (separator <= 0) {
+    return null;
+  }
+  const guestId = credential.slice(0, separator);
+  return (await getAccountStore().verifyGuest(guestId, hashSecret(credential.slice(separator + 1)))) ? guestId : null;
+};
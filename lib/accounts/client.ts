@@ -0,0 +1,177 @@
+import type { GameId } from "@/games/registry";
+import type { Account, AccountData, AccountSnapshot } from "@/lib/accounts/types";
+import type { GuestCredential } from "@/lib/player";
+import type { GameRun } from "@/lib/run-history";
+import { mergeAchievements, mergeRunHistory } from "@/lib/accounts/merge";
+import { achievementStore } from "@/lib/achievements/store";
+import { accountSessionStore, getGuestProfile, getPlayerAuthorization, guestCredentialStore, renewGuestId } from "@/lib/player";
+import { runHistoryStore } from "@/lib/run-history";
+import { settingsStore } from "@/lib/settings/store";
+
+const ENDPOINT = "/api/account";
+
+const send = (path: string, method: "GET" | "POST" | "PATCH" | "DELETE", body?: unknown) => {
+  const session = accountSessionStore.read();
+  return fetch(`${ENDPOINT}${path}`, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      ...(session ? { Authorization: `Bearer ${session.token}` } : {}),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+};
+
+const readJson = async <T>(response: Response): Promise<T> => {
+  if (response.status === 401) {
+    // The session was signed out elsewhere; fall back to the guest profile.
+    accountSessionStore.write(null);
+  }
+  if (!response.ok) {
+    throw new Error(`Account request failed (${response.status})`);
+  }
+  return (await response.json()) as T;
+};
+
+const saveAccount = (account: Account) =>
+  accountSessionStore.update((session) => session && { ...session, account });
+
+/**
+ * Brings the account's data into the local stores. Local runs and progress
+ * are kept alongside it; the account's settings replace the device's.
+ */
+const applyAccountData = (data: AccountData) => {
+  runHistoryStore.update((history) => mergeRunHistory(history, data.history, "max"));
+  achievementStore.update((achievements) => mergeAchievements(achievements, data.achievements));
+  if (data.settings) {
+    settingsStore.write(data.settings);
+  }
+};
+
+const claimGuestId = async (): Promise<GuestCredential> => {
+  const guest = getGuestProfile();
+  const saved = guestCredentialStore.read();
+  if (saved?.guestId === guest.id) {
+    return saved;
+  }
+  const response = await send("/guest", "POST", { guestId: guest.id });
+  if (response.status === 409) {
+    renewGuestId();
+    return claimGuestId();
+  }
+  const { secret } = await readJson<{ secret: string }>(response);
+  const credential = { guestId: guest.id, secret };
+  guestCredentialStore.write(credential);
+  return credential;
+};
+
+let registering: Promise<GuestCredential> | null = null;
+
+/**
+ * Registers this device's guest id with the server, once, and keeps the
+ * secret it issues. An id someone else registered first is given up for a
+ * fresh one. Callers share one registration in flight, so the device never
+ * races itself for its own id.
+ */
+export const registerGuest = () => {
+  registering ??= claimGuestId().finally(() => {
+    registering = null;
+  });
+  return registering;
+};
+
+/** The current profile's `Authorization` header, registering the guest first when it has no credential yet. */
+export const ensurePlayerAuthorization = async () => {
+  const authorization = getPlayerAuthorization();
+  if (authorization) {
+    return authorization;
+  }
+  try {
+    await registerGuest();
+  } catch {
+    return null;
+  }
+  return getPlayerAuthorization();
+};
+
+export type CodeRequestOutcome = "sent" | "throttled" | "failed";
+
+export const requestLoginCode = async (email: string): Promise<CodeRequestOutcome> => {
+  try {
+    const response = await send("/code", "POST", { email });
+    return response.ok ? "sent" : response.status === 429 ? "throttled" : "failed";
+  } catch {
+    return "failed";
+  }
+};
+
+/** Uploads this device's history into the account and keeps the merged result. */
+export const mergeDeviceHistory = async () => {
+  const { data } = await readJson<{ data: AccountData }>(
+    await send("/merge", "POST", {
+      history: runHistoryStore.read(),
+      achievements: achievementStore.read(),
+      settings: settingsStore.read(),
+    }),
+  );
+  applyAccountData(data);
+};
+
+/** Redeems a login code for this device, then merges its history; returns false for a wrong or expired code. */
+export const signIn = async (email: string, code: string) => {
+  const { guestId, secret } = await registerGuest();
+  const guest = getGuestProfile();
+  const response = await send("/session", "POST", {
+    email,
+    code,
+    deviceId: guestId,
+    deviceSecret: secret,
+    displayName: guest.name,
+    avatar: guest.avatar,
+  });
+  if (response.status === 401) {
+    return false;
+  }
+  accountSessionStore.write(await readJson<{ token: string; account: Account }>(response));
+  await mergeDeviceHistory();
+  return true;
+};
+
+export const signOut = async () => {
+  try {
+    await send("/session", "DELETE");
+  } catch {
+    // the local session goes either way
+  }
+  accountSessionStore.write(null);
+};
+
+/** Refreshes the profile and applies data synced from the account's other devices. */
+export const pullAccount = async () => {
+  const snapshot = await readJson<AccountSnapshot>(await send("", "GET"));
+  saveAccount(snapshot.account);
+  applyAccountData(snapshot.data);
+  return snapshot;
+};
+
+export const updateAccountProfile = async (patch: Partial<Pick<Account, "displayName" | "avatar">>) => {
+  const { account } = await readJson<{ account: Account }>(await send("", "PATCH", patch));
+  saveAccount(account);
+};
+
+/** Sends this device's settings and achievement progress to the account. */
+export const pushAccountData = async () => {
+  await readJson(await send("", "PATCH", { settings: settingsStore.read(), achievements: achievementStore.read() }));
+};
+
+/** Adds a finished run to the account; a missed run is picked up by the next merge. */
+export const syncAccountRun = async (gameId: GameId, run: GameRun) => {
+  if (!accountSessionStore.read()) {
+    return;
+  }
+  try {
+    await send("/runs", "POST", { gameId, run });
+  } catch {
+    // offline; the profile page's sync merges it later
+  }
+};
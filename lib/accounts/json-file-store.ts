@@ -0,0 +1,90 @@
+import type { AccountStore } from "@/lib/accounts/store";
+import type { Account, AccountData, DeviceSession, GuestClaim, LoginCode } from "@/lib/accounts/types";
+import { MAX_CODE_ATTEMPTS } from "@/lib/accounts/login";
+import { EMPTY_ACCOUNT_DATA } from "@/lib/accounts/types";
+import { createJsonFile } from "@/lib/server/json-file";
+
+type AccountDocument = {
+  accounts: Account[];
+  sessions: DeviceSession[];
+  guests: GuestClaim[];
+  codes: LoginCode[];
+  data: Record<string, AccountData>;
+};
+
+export const createJsonFileAccountStore = (filePath: string): AccountStore => {
+  const file = createJsonFile<AccountDocument>(filePath, () => ({ accounts: [], sessions: [], guests: [], codes: [], data: {} }));
+
+  return {
+    claimGuest: (claim) =>
+      file.update((current) => {
+        if (current.guests.some(({ guestId }) => guestId === claim.guestId)) {
+          return { data: current, result: false };
+        }
+        return { data: { ...current, guests: [...current.guests, claim] }, result: true };
+      }),
+    verifyGuest: async (guestId, secretHash) =>
+      (await file.read()).guests.some((claim) => claim.guestId === guestId && claim.secretHash === secretHash),
+    saveLoginCode: (code) =>
+      file.update((current) => {
+        const previous = current.codes.find(({ email }) => email === code.email);
+        const attempts = previous && Date.parse(previous.expiresAt) > Date.now() ? previous.attempts : 0;
+        return {
+          data: { ...current, codes: [...current.codes.filter(({ email }) => email !== code.email), { ...code, attempts }] },
+          result: undefined,
+        };
+      }),
+    redeemLoginCode: (email, codeHash) =>
+      file.update((current) => {
+        const code = current.codes.find((candidate) => candidate.email === email);
+        const others = current.codes.filter((candidate) => candidate.email !== email);
+        if (!code || Date.parse(code.expiresAt) <= Date.now()) {
+          return { data: { ...current, codes: others }, result: false };
+        }
+        if (code.attempts >= MAX_CODE_ATTEMPTS) {
+          return { data: current, result: false };
+        }
+        if (code.codeHash === codeHash) {
+          return { data: { ...current, codes: others }, result: true };
+        }
+        return { data: { ...current, codes: [...others, { ...code, attempts: code.attempts + 1 }] }, result: false };
+      }),
+    findAccount: async (accountId) => (await file.read()).accounts.find(({ id }) => id === accountId) ?? null,
+    findAccountByEmail: async (email) => (await file.read()).accounts.find((account) => account.email === email) ?? null,
+    createAccount: (account) =>
+      file.update((current) => {
+        const existing = current.accounts.find(({ email }) => email === account.email);
+        if (existing) {
+          return { data: current, result: existing };
+        }
+        return { data: { ...current, accounts: [...current.accounts, account] }, result: account };
+      }),
+    updateAccount: (accountId, patch) =>
+      file.update((current) => {
+        const account = current.accounts.find(({ id }) => id === accountId);
+        if (!account) {
+          return { data: current, result: null };
+        }
+        const updated = { ...account, ...patch };
+        return {
+          data: { ...current, accounts: current.accounts.map((candidate) => (candidate === account ? updated : candidate)) },
+          result: updated,
+        };
+      }),
+    addSession: (session) =>
+      file.update((current) => ({ data: { ...current, sessions: [...current.sessions, session] }, result: undefined })),
+    findSession: async (token) => (await file.read()).sessions.find((session) => session.token === token) ?? null,
+    removeSession: (token) =>
+      file.update((current) => ({
+        data: { ...current, sessions: current.sessions.filter((session) => session.token !== token) },
+        result: undefined,
+      })),
+    listSessions: async (accountId) => (await file.read()).sessions.filter((session) => session.accountId === accountId),
+    readData: async (accountId) => (await file.read()).data[accountId] ?? EMPTY_ACCOUNT_DATA,
+    updateData: (accountId, mutate) =>
+      file.update((current) => {
+        const updated = mutate(current.data[accountId] ?? EMPTY_ACCOUNT_DATA);
+        return { data: { ...current, data: { ...current.data, [accountId]: updated } }, result: updated };
+      }),
+  };
+};
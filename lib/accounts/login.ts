@@ -0,0 +1,27 @@
+import { createHash, randomBytes, randomInt } from "node:crypto";
+
+export const CODE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Wrong guesses an email gets before it is locked out. Reissuing a code keeps
+ * the count until the earlier code expires, so asking for new codes does not
+ * buy more guesses.
+ */
+export const MAX_CODE_ATTEMPTS = 5;
+
+export const CODE_REQUEST_WINDOW_MS = 15 * 60 * 1000;
+
+/** Codes that can be requested per email, and per address, in each window. */
+export const MAX_CODES_PER_EMAIL = 3;
+export const MAX_CODES_PER_ADDRESS = 10;
+
+export const createLoginCode = () => randomInt(0, 1_000_000).toString().padStart(6, "0");
+
+/** Codes are stored hashed, salted with the email they were sent to. */
+export const hashLoginCode = (email: string, code: string) =>
+  createHash("sha256").update(`${email}:${code}`).digest("hex");
+
+/** Session tokens, and the secrets that prove a device owns its guest id. */
+export const createSecret = () => randomBytes(32).toString("base64url");
+
+export const hashSecret = (secret: string) => createHash("sha256").update(secret).digest("hex");
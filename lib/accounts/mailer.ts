@@ -0,0 +1,4 @@
+/** Stands in for an email provider until there is one: the code goes to the server log. */
+export const sendLoginCode = async (email: string, code: string) => {
+  console.info(`[mail] MM Games login code for ${email}: ${code}`);
+};
@@ -0,0 +1,69 @@
+import type { GameId } from "@/games/registry";
+import type { AchievementProgress, AchievementState } from "@/lib/achievements/store";
+import type { GameRecord, GameRun, RunHistory } from "@/lib/run-history";
+import { MAX_RUNS_PER_GAME } from "@/lib/run-history";
+
+/**
+ * How lifetime totals combine: "add" when the incoming history has never been
+ * counted, "max" when it is a copy that already includes the other side.
+ */
+export type TotalsMerge = "add" | "max";
+
+const mergeRecord = (base: GameRecord | undefined, incoming: GameRecord, totals: TotalsMerge): GameRecord => {
+  if (!base) {
+    return incoming;
+  }
+  const known = new Set(base.runs.map(({ id }) => id));
+  const combine = totals === "add" ? (a: number, b: number) => a + b : Math.max;
+  return {
+    best: Math.max(base.best, incoming.best),
+    runs: [...base.runs, ...incoming.runs.filter(({ id }) => !known.has(id))]
+      .sort((a, b) => b.playedAt.localeCompare(a.playedAt))
+      .slice(0, MAX_RUNS_PER_GAME),
+    played: {
+      runs: combine(base.played.runs, incoming.played.runs),
+      durationMs: combine(base.played.durationMs, incoming.played.durationMs),
+    },
+  };
+};
+
+/** Folds `incoming` into `base`, matching runs by id and keeping the newest of them. */
+export const mergeRunHistory = (base: RunHistory, incoming: RunHistory, totals: TotalsMerge): RunHistory =>
+  Object.entries(incoming).reduce<RunHistory>((merged, [gameId, record]) => {
+    const id = gameId as GameId;
+    return record ? { ...merged, [id]: mergeRecord(merged[id], record, totals) } : merged;
+  }, base);
+
+/** Adds a single finished run; a run the history already holds is not counted twice. */
+export const addRunToHistory = (history: RunHistory, gameId: GameId, run: GameRun): RunHistory => {
+  if (history[gameId]?.runs.some(({ id }) => id === run.id)) {
+    return history;
+  }
+  const record: GameRecord = { best: run.score, runs: [run], played: { runs: 1, durationMs: run.durationMs } };
+  return mergeRunHistory(history, { [gameId]: record }, "add");
+};
+
+const mergeProgress = (base: AchievementProgress | undefined, incoming: AchievementProgress): AchievementProgress => {
+  if (!base) {
+    return incoming;
+  }
+  const unlocks = [base.unlockedAt, incoming.unlockedAt].filter((unlockedAt): unlockedAt is string => unlockedAt !== null);
+  return {
+    progress: Math.max(base.progress, incoming.progress),
+    unlockedAt: unlocks.length > 0 ? unlocks.sort()[0] : null,
+  };
+};
+
+/** Keeps the furthest progress and the earliest unlock of every achievement. */
+export const mergeAchievements = (base: AchievementState, incoming: AchievementState): AchievementState =>
+  Object.entries(incoming).reduce<AchievementState>((merged, [gameId, achievements]) => {
+    const id = gameId as GameId;
+    if (!achievements) {
+      return merged;
+    }
+    const saved = { ...merged[id] };
+    Object.entries(achievements).forEach(([achievementId, progress]) => {
+      saved[achievementId] = mergeProgress(saved[achievementId], progress);
+    });
+    return { ...merged, [id]: saved };
+  }, base);
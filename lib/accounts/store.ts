@@ -0,0 +1,37 @@
+import type { Account, AccountData, DeviceSession, GuestClaim, LoginCode } from "@/lib/accounts/types";
+import { createJsonFileAccountStore } from "@/lib/accounts/json-file-store";
+import { getDataPath } from "@/lib/server/json-file";
+
+/**
+ * Storage adapter behind the account routes. Accounts are passwordless: a
+ * login code proves the email, and each device then holds its own session.
+ */
+export type AccountStore = {
+  /** Returns false when the guest id has already been claimed. */
+  claimGuest: (claim: GuestClaim) => Promise<boolean>;
+  verifyGuest: (guestId: string, secretHash: string) => Promise<boolean>;
+  /** Replaces any code the email was sent before, keeping its failed attempts while it is unexpired. */
+  saveLoginCode: (code: LoginCode) => Promise<void>;
+  /** Consumes the email's code when the hash matches; misses count toward its attempt limit, which locks it. */
+  redeemLoginCode: (email: string, codeHash: string) => Promise<boolean>;
+  findAccount: (accountId: string) => Promise<Account | null>;
+  findAccountByEmail: (email: string) => Promise<Account | null>;
+  /** Returns the existing account instead when the email is already registered. */
+  createAccount: (account: Account) => Promise<Account>;
+  updateAccount: (accountId: string, patch: Partial<Pick<Account, "displayName" | "avatar">>) => Promise<Account | null>;
+  addSession: (session: DeviceSession) => Promise<void>;
+  findSession: (token: string) => Promise<DeviceSession | null>;
+  removeSession: (token: string) => Promise<void>;
+  listSessions: (accountId: string) => Promise<DeviceSession[]>;
+  readData: (accountId: string) => Promise<AccountData>;
+  updateData: (accountId: string, mutate: (data: AccountData) => AccountData) => Promise<AccountData>;
+};
+
+let store: AccountStore | null = null;
+
+export const getAccountStore = () => {
+  if (!store) {
+    store = createJsonFileAccountStore(getDataPath("accounts.json"));
+  }
+  return store;
+};
@@ -0,0 +1,55 @@
+import type { AchievementState } from "@/lib/achievements/store";
+import type { RunHistory } from "@/lib/run-history";
+import type { Settings } from "@/lib/settings/store";
+
+export type Account = {
+  /** The guest id of the device that created the account, so its boards carry over. */
+  id: string;
+  email: string;
+  displayName: string;
+  avatar: string;
+  createdAt: string;
+};
+
+/** A device signed in to an account; the token is its bearer credential. */
+export type DeviceSession = {
+  token: string;
+  accountId: string;
+  /** The device's guest id. */
+  deviceId: string;
+  linkedAt: string;
+};
+
+/** A guest id the server issued a secret for; only the device holding the secret may sign in as it. */
+export type GuestClaim = {
+  guestId: string;
+  secretHash: string;
+  claimedAt: string;
+};
+
+export type LoginCode = {
+  email: string;
+  codeHash: string;
+  expiresAt: string;
+  attempts: number;
+};
+
+/** Everything an account carries between devices. */
+export type AccountData = {
+  history: RunHistory;
+  achievements: AchievementState;
+  /** Null until a device uploads its settings. */
+  settings: Settings | null;
+  /** Guest ids whose history has been merged in, so their lifetime totals count once. */
+  mergedGuests: string[];
+};
+
+export type LinkedDevice = Pick<DeviceSession, "deviceId" | "linkedAt">;
+
+export type AccountSnapshot = {
+  account: Account;
+  devices: LinkedDevice[];
+  data: AccountData;
+};
+
+export const EMPTY_ACCOUNT_DATA: AccountData = { history: {}, achievements: {}, settings: null, mergedGuests: [] };
@@ -0,0 +1,192 @@
+import type { GameId } from "@/games/registry";
+import type { AchievementState } from "@/lib/achievements/store";
+import type { ValidationResult } from "@/lib/leaderboards/validation";
+import type { GameRecord, GameRun, RunHistory } from "@/lib/run-history";
+import type { Settings } from "@/lib/settings/store";
+import { getGame } from "@/games/registry";
+import { isPastTimestamp, isRecord, isWholeNumber, MAX_SCORE } from "@/lib/leaderboards/validation";
+import { AVATARS, MAX_PLAYER_NAME_LENGTH } from "@/lib/player";
+import { DEFAULT_SETTINGS } from "@/lib/settings/store";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const CODE_PATTERN = /^\d{6}$/;
+const MAX_TOTAL = Number.MAX_SAFE_INTEGER;
+
+export type SignInRequest = {
+  email: string;
+  code: string;
+  deviceId: string;
+  deviceSecret: string;
+  displayName: string;
+  avatar: string;
+};
+
+export type AccountPatch = {
+  displayName?: string;
+  avatar?: string;
+  settings?: Settings;
+  achievements?: AchievementState;
+};
+
+export type MergeRequest = {
+  history: RunHistory;
+  achievements: AchievementState;
+  settings: Settings;
+};
+
+const fail = (error: string) => ({ ok: false, error }) as const;
+
+const isGuestId = (value: unknown): value is string => typeof value === "string" && value.length > 0 && value.length <= 64;
+
+const parseEmail = (value: unknown) => {
+  const email = typeof value === "string" ? value.trim().toLowerCase() : "";
+  return email.length <= 254 && EMAIL_PATTERN.test(email) ? email : null;
+};
+
+const parseDisplayName = (value: unknown) =>
+  typeof value === "string" && value.trim().length > 0 ? value.trim().slice(0, MAX_PLAYER_NAME_LENGTH) : null;
+
+const parseAvatar = (value: unknown) => AVATARS.find((avatar) => avatar === value) ?? null;
+
+const isGameRun = (value: unknown): value is GameRun =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  value.id.length > 0 &&
+  isWholeNumber(value.score, MAX_SCORE) &&
+  (value.level === null || isWholeNumber(value.level, 10_000)) &&
+  isWholeNumber(value.durationMs, MAX_TOTAL) &&
+  isPastTimestamp(value.playedAt) &&
+  isRecord(value.stats);
+
+const isGameRecord = (value: unknown): value is GameRecord =>
+  isRecord(value) &&
+  isWholeNumber(value.best, MAX_SCORE) &&
+  Array.isArray(value.runs) &&
+  value.runs.every(isGameRun) &&
+  isRecord(value.played) &&
+  isWholeNumber(value.played.runs, MAX_TOTAL) &&
+  isWholeNumber(value.played.durationMs, MAX_TOTAL);
+
+const isAchievementProgress = (value: unknown) =>
+  isRecord(value) &&
+  typeof value.progress === "number" &&
+  value.progress >= 0 &&
+  (value.unlockedAt === null || typeof value.unlockedAt === "string");
+
+const isGameKeyed = (value: unknown, isEntry: (entry: unknown) => boolean) =>
+  isRecord(value) && Object.entries(value).every(([gameId, entry]) => getGame(gameId) && isEntry(entry));
+
+const isAchievementState = (value: unknown): value is AchievementState =>
+  isGameKeyed(value, (achievements) => isRecord(achievements) && Object.values(achievements).every(isAchievementProgress));
+
+/** Keeps the known settings whose values have the default's type, filling the rest from the defaults. */
+const parseSettings = (value: unknown): Settings | null => {
+  if (!isRecord(value)) {
+    return null;
+  }
+  const known = Object.entries(DEFAULT_SETTINGS).filter(
+    ([key, fallback]) => key in value && typeof value[key] === typeof fallback,
+  );
+  return { ...DEFAULT_SETTINGS, ...Object.fromEntries(known.map(([key]) => [key, value[key]])) };
+};
+
+export const parseGuestRegistration = (body: unknown): ValidationResult<{ guestId: string }> => {
+  const guestId = isRecord(body) ? body.guestId : undefined;
+  return isGuestId(guestId) ? { ok: true, value: { guestId } } : fail("guestId is required");
+};
+
+export const parseCodeRequest = (body: unknown): ValidationResult<{ email: string }> => {
+  const email = isRecord(body) ? parseEmail(body.email) : null;
+  return email ? { ok: true, value: { email } } : fail("email must be a valid address");
+};
+
+export const parseSignIn = (body: unknown): ValidationResult<SignInRequest> => {
+  if (!isRecord(body)) {
+    return fail("Expected a JSON object");
+  }
+  const email = parseEmail(body.email);
+  if (!email) {
+    return fail("email must be a valid address");
+  }
+  if (typeof body.code !== "string" || !CODE_PATTERN.test(body.code)) {
+    return fail("code must be six digits");
+  }
+  if (!isGuestId(body.deviceId) || typeof body.deviceSecret !== "string" || body.deviceSecret.length === 0) {
+    return fail("deviceId and deviceSecret are required");
+  }
+  const displayName = parseDisplayName(body.displayName);
+  const avatar = parseAvatar(body.avatar);
+  if (!displayName || !avatar) {
+    return fail("displayName and a listed avatar are required");
+  }
+  return {
+    ok: true,
+    value: { email, code: body.code, deviceId: body.deviceId, deviceSecret: body.deviceSecret, displayName, avatar },
+  };
+};
+
+export const parseAccountPatch = (body: unknown): ValidationResult<AccountPatch> => {
+  if (!isRecord(body)) {
+    return fail("Expected a JSON object");
+  }
+  const patch: AccountPatch = {};
+  if (body.displayName !== undefined) {
+    const displayName = parseDisplayName(body.displayName);
+    if (!displayName) {
+      return fail("displayName must not be empty");
+    }
+    patch.displayName = displayName;
+  }
+  if (body.avatar !== undefined) {
+    const avatar = parseAvatar(body.avatar);
+    if (!avatar) {
+      return fail("avatar must be one of the listed avatars");
+    }
+    patch.avatar = avatar;
+  }
+  if (body.settings !== undefined) {
+    const settings = parseSettings(body.settings);
+    if (!settings) {
+      return fail("settings must be an object");
+    }
+    patch.settings = settings;
+  }
+  if (body.achievements !== undefined) {
+    if (!isAchievementState(body.achievements)) {
+      return fail("achievements must map game ids to achievement progress");
+    }
+    patch.achievements = body.achievements;
+  }
+  return { ok: true, value: patch };
+};
+
+export const parseMergeRequest = (body: unknown): ValidationResult<MergeRequest> => {
+  if (!isRecord(body)) {
+    return fail("Expected a JSON object");
+  }
+  if (!isGameKeyed(body.history, isGameRecord)) {
+    return fail("history must map game ids to run records");
+  }
+  if (!isAchievementState(body.achievements)) {
+    return fail("achievements must map game ids to achievement progress");
+  }
+  const settings = parseSettings(body.settings);
+  if (!settings) {
+    return fail("settings must be an object");
+  }
+  return { ok: true, value: { history: body.history as RunHistory, achievements: body.achievements, settings } };
+};
+
+export const parseAccountRun = (body: unknown): ValidationResult<{ gameId: GameId; run: GameRun }> => {
+  if (!isRecord(body)) {
+    return fail("Expected a JSON object");
+  }
+  const game = typeof body.gameId === "string" ? getGame(body.gameId) : undefined;
+  if (!game) {
+    return fail("gameId must be a known game");
+  }
+  if (!isGameRun(body.run)) {
+    return fail("run must be a finished run");
+  }
+  return { ok: true, value: { gameId: game.id, run: body.run } };
+};
@@ -0,0 +1,38 @@
+import type { AngrymojiEvent } from "@/games/angrymoji/achievements";
+import type { ChromaEvent } from "@/games/chroma-trace/achievements";
+import type { ColorsEvent } from "@/games/colors-plus/achievements";
+import type { LowTideEvent } from "@/games/low-tide/achievements";
+import type { GameId } from "@/games/registry";
+import type { SimonEvent } from "@/games/simon-colors/achievements";
+import type { SnakemojiEvent } from "@/games/snakemoji/achievements";
+import type { TiltDropEvent } from "@/games/tilt-drop/achievements";
+import type { AchievementDefinition } from "@/lib/achievements/types";
+import { ANGRYMOJI_ACHIEVEMENTS } from "@/games/angrymoji/achievements";
+import { CHROMA_ACHIEVEMENTS } from "@/games/chroma-trace/achievements";
+import { COLORS_ACHIEVEMENTS } from "@/games/colors-plus/achievements";
+import { LOW_TIDE_ACHIEVEMENTS } from "@/games/low-tide/achievements";
+import { SIMON_ACHIEVEMENTS } from "@/games/simon-colors/achievements";
+import { SNAKEMOJI_ACHIEVEMENTS } from "@/games/snakemoji/achievements";
+import { TILT_DROP_ACHIEVEMENTS } from "@/games/tilt-drop/achievements";
+
+export type GameEvents = {
+  snakemoji: SnakemojiEvent;
+  "colors-plus": ColorsEvent;
+  "chroma-trace": ChromaEvent;
+  "tilt-drop": TiltDropEvent;
+  "simon-colors": SimonEvent;
+  angrymoji: AngrymojiEvent;
+  "low-tide": LowTideEvent;
+};
+
+export const ACHIEVEMENTS: { [K in GameId]: AchievementDefinition<GameEvents[K]>[] } = {
+  snakemoji: SNAKEMOJI_ACHIEVEMENTS,
+  "colors-plus": COLORS_ACHIEVEMENTS,
+  "chroma-trace": CHROMA_ACHIEVEMENTS,
+  "tilt-drop": TILT_DROP_ACHIEVEMENTS,
+  "simon-colors": SIMON_ACHIEVEMENTS,
+  angrymoji: ANGRYMOJI_ACHIEVEMENTS,
+  "low-tide": LOW_TIDE_ACHIEVEMENTS,
+};
+
+export const getAchievements = (gameId: GameId): AchievementDefinition[] => ACHIEVEMENTS[gameId];
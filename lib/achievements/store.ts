@@ -0,0 +1,21 @@
+import type { GameId } from "@/games/registry";
+import { createPersistedStore } from "@/lib/storage";
+
+export type AchievementProgress = {
+  /** Lifetime progress, or the best single run for run-scoped achievements. */
+  progress: number;
+  unlockedAt: string | null;
+};
+
+export type AchievementState = Partial<Record<GameId, Record<string, AchievementProgress>>>;
+
+const EMPTY_PROGRESS: AchievementProgress = { progress: 0, unlockedAt: null };
+
+export const achievementStore = createPersistedStore<AchievementState>({
+  key: "mmgames:achievements",
+  version: 1,
+  initial: () => ({}),
+});
+
+export const getAchievementProgress = (state: AchievementState, gameId: GameId, achievementId: string) =>
+  state[gameId]?.[achievementId] ?? EMPTY_PROGRESS;
@@ -0,0 +1,66 @@
+import type { GameId } from "@/games/registry";
+import type { AchievementDefinition, GameEvent } from "@/lib/achievements/types";
+import { getAchievements } from "@/lib/achievements/catalogue";
+import { achievementStore, getAchievementProgress } from "@/lib/achievements/store";
+
+export type AchievementTracker = {
+  /** Resets run-scoped progress. */
+  beginRun: () => void;
+  track: (event: GameEvent) => void;
+  /** Notifies about achievements unlocked by tracked events. */
+  subscribe: (listener: (achievement: AchievementDefinition) => void) => () => void;
+};
+
+export const createAchievementTracker = (gameId: GameId): AchievementTracker => {
+  const achievements = getAchievements(gameId);
+  const listeners = new Set<(achievement: AchievementDefinition) => void>();
+  let runProgress = new Map<string, number>();
+
+  const track = (event: GameEvent) => {
+    const state = achievementStore.read();
+    const saved = { ...state[gameId] };
+    const unlocked: AchievementDefinition[] = [];
+    let changed = false;
+
+    achievements.forEach((achievement) => {
+      const current = getAchievementProgress(state, gameId, achievement.id);
+      const before = achievement.scope === "run" ? (runProgress.get(achievement.id) ?? 0) : current.progress;
+      const after = Math.min(achievement.goal, achievement.track(before, event));
+      if (achievement.scope === "run") {
+        runProgress.set(achievement.id, after);
+      }
+
+      const unlocks = current.unlockedAt === null && after >= achievement.goal;
+      if (after <= current.progress && !unlocks) {
+        return;
+      }
+      saved[achievement.id] = {
+        progress: Math.max(current.progress, after),
+        unlockedAt: unlocks ? new Date().toISOString() : current.unlockedAt,
+      };
+      changed = true;
+      if (unlocks) {
+        unlocked.push(achievement);
+      }
+    });
+
+    if (!changed) {
+      return;
+    }
+    achievementStore.write({ ...state, [gameId]: saved });
+    unlocked.forEach((achievement) => listeners.forEach((listener) => listener(achievement)));
+  };
+
+  return {
+    beginRun: () => {
+      runProgress = new Map();
+    },
+    track,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
@@ -0,0 +1,19 @@
+import type { LocalizedText } from "@/lib/i18n/types";
+
+/** Something notable that happened in a game. Each game declares its own union. */
+export type GameEvent = { type: string };
+
+/** "run" progress starts over with every run; "lifetime" progress carries across runs. */
+export type AchievementScope = "run" | "lifetime";
+
+export type AchievementDefinition<E extends GameEvent = GameEvent> = {
+  id: string;
+  title: LocalizedText;
+  description: LocalizedText;
+  icon: string;
+  scope: AchievementScope;
+  /** Progress needed to unlock. One-off feats use a goal of 1. */
+  goal: number;
+  /** Folds an event into the current progress. */
+  track(progress: number, event: E): number;
+};
@@ -0,0 +1,146 @@
+import { settingsStore } from "@/lib/settings/store";
+
+export type ToneOptions = {
+  frequency: number;
+  /** Seconds from attack to the end of the release. */
+  duration: number;
+  type?: OscillatorType;
+  /** Peak gain before the master volume, 0–1. */
+  gain?: number;
+  /** Seconds to wait before starting. */
+  delay?: number;
+  attack?: number;
+  /** Glides to this frequency over the tone's duration. */
+  slideTo?: number;
+};
+
+export type NoiseOptions = {
+  duration: number;
+  gain?: number;
+  delay?: number;
+  /** Band-pass sweep, in Hz. */
+  from: number;
+  to: number;
+};
+
+let context: AudioContext | null = null;
+let master: GainNode | null = null;
+
+const masterLevel = () => {
+  const { volume, muted } = settingsStore.read();
+  return muted ? 0 : volume;
+};
+
+const syncMasterLevel = () => {
+  if (context && master) {
+    master.gain.setTargetAtTime(masterLevel(), context.currentTime, 0.02);
+  }
+};
+
+/**
+ * Creates or resumes the shared `AudioContext`. Browsers only allow this from
+ * a user gesture, so it is called from the first pointer or key press.
+ */
+export const unlockAudio = () => {
+  if (typeof window === "undefined" || typeof window.AudioContext === "undefined") {
+    return;
+  }
+  if (!context) {
+    context = new window.AudioContext();
+    master = context.createGain();
+    master.gain.value = masterLevel();
+    master.connect(context.destination);
+    settingsStore.subscribe(syncMasterLevel);
+  }
+  if (context.state === "suspended") {
+    void context.resume();
+  }
+};
+
+/** Returns the context and master bus once audio is unlocked and audible, otherwise null. */
+const output = () => {
+  if (!context || !master || context.state !== "running" || masterLevel() === 0) {
+    return null;
+  }
+  return { context, master };
+};
+
+export const playTone = ({
+  frequency,
+  duration,
+  type = "sine",
+  gain = 0.2,
+  delay = 0,
+  attack = 0.01,
+  slideTo,
+}: ToneOptions) => {
+  const audio = output();
+  if (!audio) {
+    return;
+  }
+  const { context: ctx, master: bus } = audio;
+  const start = ctx.currentTime + delay;
+  const end = start + duration;
+
+  const oscillator = ctx.createOscillator();
+  oscillator.type = type;
+  oscillator.frequency.setValueAtTime(frequency, start);
+  if (slideTo !== undefined) {
+    oscillator.frequency.exponentialRampToValueAtTime(slideTo, end);
+  }
+
+  const envelope = ctx.createGain();
+  envelope.gain.setValueAtTime(0.0001, start);
+  envelope.gain.exponentialRampToValueAtTime(gain, start + attack);
+  envelope.gain.exponentialRampToValueAtTime(0.0001, end);
+
+  oscillator.connect(envelope).connect(bus);
+  oscillator.start(start);
+  oscillator.stop(end + 0.02);
+};
+
+export const playChord = (frequencies: number[], options: Omit<ToneOptions, "frequency">) => {
+  const gain = (options.gain ?? 0.2) / Math.max(1, Math.sqrt(frequencies.length));
+  frequencies.forEach((frequency) => playTone({ ...options, frequency, gain }));
+};
+
+let noiseBuffer: AudioBuffer | null = null;
+
+export const playNoise = ({ duration, gain = 0.2, delay = 0, from, to }: NoiseOptions) => {
+  const audio = output();
+  if (!audio) {
+    return;
+  }
+  const { context: ctx, master: bus } = audio;
+  if (!noiseBuffer) {
+    noiseBuffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+    const data = noiseBuffer.getChannelData(0);
+    for (let index = 0; index < data.length; index += 1) {
+      data[index] = Math.random() * 2 - 1;
+    }
+  }
+  const start = ctx.currentTime + delay;
+  const end = start + duration;
+
+  const source = ctx.createBufferSource();
+  source.buffer = noiseBuffer;
+  source.loop = true;
+
+  const filter = ctx.createBiquadFilter();
+  filter.type = "bandpass";
+  filter.Q.value = 1.2;
+  filter.frequency.setValueAtTime(from, start);
+  filter.frequency.exponentialRampToValueAtTime(to, end);
+
+  const envelope = ctx.createGain();
+  envelope.gain.setValueAtTime(0.0001, start);
+  envelope.gain.exponentialRampToValueAtTime(gain, start + duration * 0.4);
+  envelope.gain.exponentialRampToValueAtTime(0.0001, end);
+
+  source.connect(filter).connect(envelope).connect(bus);
+  source.start(start);
+  source.stop(end + 0.02);
+};
+
+/** Converts a MIDI note number to Hz. */
+export const midiToFrequency = (note: number) => 440 * 2 ** ((note - 69) / 12);
@@ -0,0 +1,50 @@
+import { midiToFrequency, playTone } from "@/lib/audio/engine";
+
+export type MusicLoop = {
+  bpm: number;
+  /** One MIDI note (or a rest) per eighth note. */
+  steps: (number | null)[];
+  type?: OscillatorType;
+  gain?: number;
+};
+
+const SCHEDULE_AHEAD_MS = 120;
+
+/**
+ * Plays a looping melody until the returned function is called. Notes are
+ * scheduled slightly ahead on a wall-clock timer; music never feeds back into
+ * game state.
+ */
+export const startMusicLoop = ({ bpm, steps, type = "triangle", gain = 0.06 }: MusicLoop) => {
+  const stepMs = 60000 / bpm / 2;
+  let index = 0;
+  let nextAt = performance.now();
+  let timer: number | null = null;
+
+  const schedule = () => {
+    const horizon = performance.now() + SCHEDULE_AHEAD_MS;
+    while (nextAt < horizon) {
+      const note = steps[index % steps.length];
+      if (note !== null) {
+        playTone({
+          frequency: midiToFrequency(note),
+          duration: (stepMs / 1000) * 1.8,
+          type,
+          gain,
+          attack: 0.04,
+          delay: Math.max(0, (nextAt - performance.now()) / 1000),
+        });
+      }
+      index += 1;
+      nextAt += stepMs;
+    }
+    timer = window.setTimeout(schedule, SCHEDULE_AHEAD_MS / 2);
+  };
+
+  schedule();
+  return () => {
+    if (timer !== null) {
+      window.clearTimeout(timer);
+    }
+  };
+};
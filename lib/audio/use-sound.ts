@@ -0,0 +1,18 @@
+import { useCallback } from "react";
+import { useGameSession } from "@/lib/replay/session";
+
+/**
+ * Returns a player for a game's sound effects. Replays stay silent, since
+ * seeking steps through many frames at once.
+ */
+export const useSound = () => {
+  const session = useGameSession();
+  return useCallback(
+    (sound: () => void) => {
+      if (session.mode === "live") {
+        sound();
+      }
+    },
+    [session],
+  );
+};
@@ -0,0 +1,81 @@
+import type { GameId } from "@/games/registry";
+import type { SwipeSensitivity } from "@/lib/settings/store";
+import { MAX_SCORE } from "@/lib/leaderboards/validation";
+import { getDailySeed } from "@/lib/random";
+import { isRunId } from "@/lib/share/validation";
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_NAME_LENGTH = 24;
+const SWIPE_SENSITIVITIES: SwipeSensitivity[] = ["low", "medium", "high"];
+
+/**
+ * The challenger's settings that change how a run plays, applied for the
+ * length of the challenge. Comfort settings such as motion stay the player's own.
+ */
+export type ChallengeSettings = {
+  swipeSensitivity: SwipeSensitivity;
+};
+
+export type Challenge = {
+  /** The id of the run that set the target. */
+  id: string;
+  gameId: GameId;
+  seed: string;
+  target: number;
+  from: string;
+  settings: ChallengeSettings;
+};
+
+export type ChallengeOutcome = "won" | "lost";
+
+/** The target is the score to beat, so matching it is not enough. */
+export const getChallengeOutcome = (score: number, target: number): ChallengeOutcome =>
+  score > target ? "won" : "lost";
+
+export const challengePath = ({ id, gameId, seed, target, from, settings }: Challenge) => {
+  const params = new URLSearchParams({
+    id,
+    seed,
+    target: String(target),
+    from,
+    swipe: settings.swipeSensitivity,
+  });
+  return `/challenges/${gameId}?${params}`;
+};
+
+/** Challenges replay the game's daily seed from a day that has already opened, never a later one. */
+const isOpenedSeed = (seed: string, gameId: GameId, todayKey: string) => {
+  const dateKey = seed.slice(0, seed.indexOf(":"));
+  return DATE_KEY.test(dateKey) && dateKey <= todayKey && seed === getDailySeed(gameId, dateKey);
+};
+
+type ChallengeSearchParams = Record<string, string | string[] | undefined>;
+
+const readParam = (searchParams: ChallengeSearchParams, name: string) => {
+  const value = searchParams[name];
+  return typeof value === "string" ? value : null;
+};
+
+/**
+ * Reads a challenge link's query; returns null if any part of it is missing or
+ * malformed, or its seed belongs to a day after `todayKey`.
+ */
+export const parseChallenge = (
+  gameId: GameId,
+  searchParams: ChallengeSearchParams,
+  todayKey: string,
+): Challenge | null => {
+  const id = readParam(searchParams, "id");
+  const seed = readParam(searchParams, "seed");
+  const target = Number(readParam(searchParams, "target") ?? Number.NaN);
+  const from = readParam(searchParams, "from")?.trim().slice(0, MAX_NAME_LENGTH);
+  const swipe = SWIPE_SENSITIVITIES.find((sensitivity) => sensitivity === readParam(searchParams, "swipe"));
+
+  if (!isRunId(id) || !seed || !isOpenedSeed(seed, gameId, todayKey) || !Number.isInteger(target) || target < 0 || target > MAX_SCORE) {
+    return null;
+  }
+  if (!from || !swipe) {
+    return null;
+  }
+  return { id, gameId, seed, target, from, settings: { swipeSensitivity: swipe } };
+};
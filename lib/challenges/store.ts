@@ -0,0 +1,64 @@
+import type { Challenge } from "@/lib/challenges/challenge";
+import { createPersistedStore } from "@/lib/storage";
+
+export const MAX_CHALLENGES = 50;
+const MAX_ATTEMPTS = 20;
+
+export type ChallengeAttempt = {
+  runId: string;
+  score: number;
+  playedAt: string;
+};
+
+export type SentChallenge = Challenge & { sentAt: string };
+
+/** Newest attempt first. */
+export type ReceivedChallenge = Challenge & { receivedAt: string; attempts: ChallengeAttempt[] };
+
+type ChallengeLog = {
+  sent: SentChallenge[];
+  received: ReceivedChallenge[];
+};
+
+export const challengeStore = createPersistedStore<ChallengeLog>({
+  key: "mmgames:challenges",
+  version: 1,
+  initial: () => ({ sent: [], received: [] }),
+});
+
+export const saveSentChallenge = (challenge: Challenge) => {
+  challengeStore.update((log) => ({
+    ...log,
+    sent: [
+      { ...challenge, sentAt: new Date().toISOString() },
+      ...log.sent.filter(({ id }) => id !== challenge.id),
+    ].slice(0, MAX_CHALLENGES),
+  }));
+};
+
+/** Adds an opened challenge link to the log; opening the same link again keeps its attempts. */
+export const receiveChallenge = (challenge: Challenge) => {
+  challengeStore.update((log) =>
+    log.received.some(({ id }) => id === challenge.id)
+      ? log
+      : {
+          ...log,
+          received: [{ ...challenge, receivedAt: new Date().toISOString(), attempts: [] }, ...log.received].slice(
+            0,
+            MAX_CHALLENGES,
+          ),
+        },
+  );
+};
+
+export const recordChallengeAttempt = (challengeId: string, attempt: ChallengeAttempt) => {
+  challengeStore.update((log) => ({
+    ...log,
+    received: log.received.map((challenge) =>
+      challenge.id === challengeId ? { ...challenge, attempts: [attempt, ...challenge.attempts].slice(0, MAX_ATTEMPTS) } : challenge,
+    ),
+  }));
+};
+
+export const getBestAttempt = ({ attempts }: ReceivedChallenge) =>
+  attempts.reduce<ChallengeAttempt | null>((best, attempt) => (!best || attempt.score > best.score ? attempt : best), null);
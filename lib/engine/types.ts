@@ -0,0 +1,16 @@
+/**
+ * A game's rules as plain functions over serializable state. Engines import
+ * nothing from React or the DOM, so the same code runs in the browser, in a
+ * replay and under Node.
+ */
+export type GameEngine<Config, State, Input> = {
+  config: Config;
+  init: (seed: string, config?: Config) => State;
+  /** Applies `input`, if any, then advances the state by `dt` milliseconds of game time. */
+  step: (state: State, input: Input | null, dt: number) => State;
+};
+
+/** Every engine state lists what happened during the step that produced it. */
+export type EngineState<Event> = {
+  events: Event[];
+};
@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from "react";
+import type { EngineState, GameEngine } from "@/lib/engine/types";
+import { FRAME_MS } from "@/lib/replay/clock";
+import { useGameClock } from "@/lib/replay/session";
+
+/**
+ * Keeps a game engine's state for a component. `advance` steps the engine,
+ * renders the result and hands each event of the step to `onEvent`, which is
+ * where sounds, achievements and finished runs hook in. Canvas games that draw
+ * from `stateRef` every frame pass `shouldRender`, so React only re-renders
+ * when something it shows has changed.
+ */
+export const useEngine = <Config, State extends EngineState<unknown>, Input>(
+  engine: GameEngine<Config, State, Input>,
+  seed: string,
+  onEvent: (event: State["events"][number], state: State) => void,
+  shouldRender?: (previous: State, next: State) => boolean,
+) => {
+  const [state, setState] = useState(() => engine.init(seed));
+  const stateRef = useRef(state);
+  const onEventRef = useRef(onEvent);
+  const shouldRenderRef = useRef(shouldRender);
+
+  useLayoutEffect(() => {
+    onEventRef.current = onEvent;
+    shouldRenderRef.current = shouldRender;
+  });
+
+  const advance = useCallback(
+    (input: Input | null, dt = 0) => {
+      const previous = stateRef.current;
+      const next = engine.step(previous, input, dt);
+      stateRef.current = next;
+      if (!shouldRenderRef.current || shouldRenderRef.current(previous, next)) {
+        setState(next);
+      }
+      next.events.forEach((event) => onEventRef.current(event, next));
+    },
+    [engine],
+  );
+
+  return { state, stateRef, advance };
+};
+
+/** Steps the engine one frame of game time on every frame of the session clock while `running`. */
+export const useEngineLoop = (advance: (input: null, dt: number) => void, running: boolean) => {
+  const clock = useGameClock();
+
+  useEffect(() => {
+    if (!running) {
+      return;
+    }
+    let frame: number | null = null;
+    const tick = () => {
+      advance(null, FRAME_MS);
+      frame = clock.requestFrame(tick);
+    };
+    frame = clock.requestFrame(tick);
+    return () => clock.cancelFrame(frame);
+  }, [advance, clock, running]);
+};
@@ -0,0 +1,36 @@
+import type { Catalogue, Locale, LocalizedText, Translate } from "@/lib/i18n/types";
+import { DEFAULT_LOCALE } from "@/lib/i18n/locales";
+
+const PARAM = /\{(\w+)\}/g;
+// 1 January 2024 was a Monday, matching the arcade's week.
+const FIRST_MONDAY = Date.UTC(2024, 0, 1);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const createTranslator = <K extends string>(catalogue: Catalogue<K>, locale: Locale): Translate<K> => {
+  const plurals = new Intl.PluralRules(locale);
+  const numbers = new Intl.NumberFormat(locale);
+  return (key, params = {}) => {
+    const message = catalogue[locale][key] ?? catalogue[DEFAULT_LOCALE][key];
+    const template =
+      typeof message === "string" ? message : (message[plurals.select(Number(params.count ?? 0))] ?? message.other);
+    return template.replace(PARAM, (match, name: string) => {
+      const value = params[name];
+      if (value === undefined) {
+        return match;
+      }
+      return typeof value === "number" ? numbers.format(value) : value;
+    });
+  };
+};
+
+export const localize = (text: LocalizedText, locale: Locale) => text[locale] ?? text[DEFAULT_LOCALE];
+
+export const formatNumber = (locale: Locale, value: number, options?: Intl.NumberFormatOptions) =>
+  new Intl.NumberFormat(locale, options).format(value);
+
+export const formatDate = (locale: Locale, value: Date | string, options?: Intl.DateTimeFormatOptions) =>
+  new Intl.DateTimeFormat(locale, options).format(typeof value === "string" ? new Date(value) : value);
+
+/** The arcade's day names, Monday first. */
+export const formatWeekday = (locale: Locale, dayIndex: number, width: "long" | "short" = "long") =>
+  formatDate(locale, new Date(FIRST_MONDAY + dayIndex * DAY_MS), { weekday: width, timeZone: "UTC" });
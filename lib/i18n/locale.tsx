@@ -0,0 +1,61 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { createContext, useCallback, useContext, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import type { Catalogue, Locale, LocalizedText } from "@/lib/i18n/types";
+import { createTranslator, formatDate, formatNumber, formatWeekday, localize } from "@/lib/i18n/format";
+import { DEFAULT_LOCALE, LOCALE_COOKIE } from "@/lib/i18n/locales";
+
+const COOKIE_MAX_AGE_S = 60 * 60 * 24 * 365;
+
+type LocaleContextValue = {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+};
+
+const LocaleContext = createContext<LocaleContextValue>({ locale: DEFAULT_LOCALE, setLocale: () => undefined });
+
+/**
+ * Seeded with the locale the server rendered in. Switching updates client
+ * copy at once, remembers the choice in a cookie and refreshes the server
+ * components so they follow.
+ */
+export function LocaleProvider({ initialLocale, children }: { initialLocale: Locale; children: ReactNode }) {
+  const router = useRouter();
+  const [locale, setLocaleState] = useState(initialLocale);
+
+  const setLocale = useCallback(
+    (next: Locale) => {
+      document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${COOKIE_MAX_AGE_S}; samesite=lax`;
+      document.documentElement.lang = next;
+      setLocaleState(next);
+      router.refresh();
+    },
+    [router],
+  );
+
+  const value = useMemo(() => ({ locale, setLocale }), [locale, setLocale]);
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+}
+
+export const useLocale = () => useContext(LocaleContext);
+
+export const useTranslations = <K extends string>(catalogue: Catalogue<K>) => {
+  const { locale } = useLocale();
+  return useMemo(() => createTranslator(catalogue, locale), [catalogue, locale]);
+};
+
+/** `Intl` formatting bound to the current locale. */
+export const useFormatters = () => {
+  const { locale } = useLocale();
+  return useMemo(
+    () => ({
+      number: (value: number, options?: Intl.NumberFormatOptions) => formatNumber(locale, value, options),
+      date: (value: Date | string, options?: Intl.DateTimeFormatOptions) => formatDate(locale, value, options),
+      weekday: (dayIndex: number, width?: "long" | "short") => formatWeekday(locale, dayIndex, width),
+      text: (text: LocalizedText) => localize(text, locale),
+    }),
+    [locale],
+  );
+};
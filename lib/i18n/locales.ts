@@ -0,0 +1,30 @@
+import type { Locale } from "@/lib/i18n/types";
+
+export const LOCALES: Locale[] = ["en", "tr"];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+/** Holds an explicit choice from the switcher; without it the browser's languages decide. */
+export const LOCALE_COOKIE = "mmgames-locale";
+
+/** Each language named in itself, as the switcher shows it. */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  tr: "Türkçe",
+};
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some((locale) => locale === value);
+
+/** Picks the first supported language from an `Accept-Language` header. */
+export const matchLocale = (acceptLanguage: string | null): Locale => {
+  const preferred = (acceptLanguage ?? "")
+    .split(",")
+    .map((part) => {
+      const [tag, ...options] = part.trim().split(";");
+      const quality = options.find((option) => option.trim().startsWith("q="));
+      return { language: tag.split("-")[0].toLowerCase(), quality: quality ? Number(quality.trim().slice(2)) : 1 };
+    })
+    .filter(({ quality }) => quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+  return preferred.map(({ language }) => language).find(isLocale) ?? DEFAULT_LOCALE;
+};
@@ -0,0 +1,504 @@
+import type { Catalogue } from "@/lib/i18n/types";
+
+const en = {
+  "app.title": "MM Games · Weekly Arcade",
+  "app.description": "Seven minimalist game experiences crafted for each day of the week.",
+  "nav.arcade": "Arcade",
+  "nav.back": "Back",
+  "nav.achievements": "Achievements",
+  "nav.replays": "Replays",
+  "nav.challenges": "Challenges",
+  "nav.stats": "Stats",
+  "nav.tournament": "Tournament",
+  "nav.leagues": "Leagues",
+  "nav.profile": "Profile",
+  "home.weeklyArcade": "Weekly Arcade",
+  "home.headline": "One day. One game.",
+  "home.tagline": "Stay in the flow with a clean, focused arcade built for your weekday rhythm.",
+  "home.nextUnlock": "Next unlock · {title}",
+  "home.cycleResets": "Cycle resets · {day}",
+  "home.action.launch": "Launch",
+  "home.action.replay": "Replay",
+  "home.action.comingSoon": "Coming soon",
+  "home.action.locked": "Locked",
+  "home.status.liveToday": "Live today",
+  "home.status.waiting": "Waiting to unlock",
+  "home.status.revisit": "Available to revisit",
+  "home.status.comingSoon": "Coming soon",
+  "home.status.unlocksSoon": "Unlocks soon",
+  "streak.current": { one: "{count}-day streak", other: "{count}-day streak" },
+  "streak.longest": { one: "Longest {count} day", other: "Longest {count} days" },
+  "streak.freezes": { one: "{count} freeze", other: "{count} freezes" },
+  "streak.freezesHint": "Every achievement earns a freeze. Freezes cover missed days so the streak survives.",
+  "streak.weekComplete": "Week complete",
+  "streak.week": "This week",
+  "streak.status.played": "Played",
+  "streak.status.frozen": "Covered by a freeze",
+  "streak.status.missed": "Missed",
+  "streak.status.today": "Today, not played yet",
+  "streak.status.upcoming": "Upcoming",
+  "shell.pause": "Pause",
+  "shell.howToPlay": "How to play",
+  "shell.controls": "Controls",
+  "shell.paused": "Paused",
+  "shell.pausedBody": "The game clock is stopped. Every timer picks up where it left off.",
+  "shell.resume": "Resume",
+  "shell.shareText": "I scored {score} in {title} on MM Games.",
+  "share.label": "Share score",
+  "share.copied": "Copied",
+  "share.run": "Share",
+  "share.linkCopied": "Link copied",
+  "share.uploading": "Preparing…",
+  "share.failed": "Could not share",
+  "share.pageTitle": "{score} in {title}",
+  "share.score": "Score",
+  "share.best": "Best",
+  "share.play": "Play {title}",
+  "share.notFound": "Score card not found",
+  "share.notFoundBody": "This run was never shared from its device, or the card has expired.",
+  "hud.score": "Score",
+  "hud.best": "Best",
+  "hud.level": "Level",
+  "hud.lives": "Lives",
+  "hud.combo": "Combo",
+  "hud.target": "Target",
+  "challenge.send": "Challenge",
+  "challenge.shareText": "Beat my {score} in {title} on MM Games.",
+  "challenge.target": "Beat {name}",
+  "challenge.won": "You beat {name}'s {target} with {score}.",
+  "challenge.lost": "{name}'s {target} still stands. You scored {score}.",
+  "challenge.pageTitle": "{name} challenges you to beat {target} in {title}",
+  "challenge.invalid": "Challenge link not valid",
+  "challenge.invalidBody": "This link is missing part of the challenge. Ask for a fresh one from the game-over screen.",
+  "dialog.close": "Close {title}",
+  "controls.none": "This game has no keyboard controls.",
+  "controls.controller": "Controller: {buttons}",
+  "controls.pressKey": "Press a key",
+  "controls.unbound": "Unbound",
+  "controls.reset": "Reset to defaults",
+  "settings.title": "Settings",
+  "settings.language": "Language",
+  "settings.volume": "Master volume",
+  "settings.mute": "Mute",
+  "settings.muted": "Muted",
+  "settings.motion": "Motion",
+  "settings.motionHint": "Reduced motion stills the Tilt Drop swing and softens background effects.",
+  "settings.motion.system": "System",
+  "settings.motion.reduced": "Reduced",
+  "settings.motion.full": "Full",
+  "settings.colorVision": "Color vision",
+  "settings.colorVisionHint": "Shifts game palettes so their colors stay distinct.",
+  "settings.colorVision.standard": "Standard",
+  "settings.colorVision.protanopia": "Protanopia",
+  "settings.colorVision.deuteranopia": "Deuteranopia",
+  "settings.colorVision.tritanopia": "Tritanopia",
+  "settings.swipe": "Swipe sensitivity",
+  "settings.swipeHint": "How far a swipe has to travel before it steers.",
+  "settings.swipe.low": "Low",
+  "settings.swipe.medium": "Medium",
+  "settings.swipe.high": "High",
+  "settings.layout": "Layout",
+  "settings.layout.right": "Right-handed",
+  "settings.layout.left": "Left-handed",
+  "settings.reset": "Reset to defaults",
+  "achievements.title": "Achievements",
+  "achievements.description": "Feats to chase across every game in the weekly arcade.",
+  "achievements.intro": "Every game hides a couple of feats. Progress is saved in this browser.",
+  "achievements.unlocked": "Unlocked",
+  "achievements.unlockedOn": "Unlocked {date}",
+  "achievements.toast": "Achievement unlocked",
+  "replays.title": "Replays",
+  "replays.description": "Watch your recent runs played back from their recorded inputs.",
+  "replays.intro": "Every finished run is recorded in this browser. Each game keeps its ten most recent.",
+  "replays.empty": "No recordings yet. Finish a run in any game and it will show up here.",
+  "replays.pageTitle": "Replay",
+  "replays.notFound": "Replay not found",
+  "replays.notFoundBody": "Recordings live in this browser only, and each game keeps its most recent runs.",
+  "replays.heading": "Replay · {title}",
+  "replays.recorded": "Recorded",
+  "replays.replayed": "Replayed",
+  "replays.play": "Play",
+  "replays.pause": "Pause",
+  "replays.position": "Replay position",
+  "challenges.title": "Challenges",
+  "challenges.description": "Challenges you have sent to friends and the ones they sent you.",
+  "challenges.intro": "Challenge links play the same game with the same seed and settings. Results are saved in this browser.",
+  "challenges.empty": "No challenges yet. Send one from any game-over screen, or open a link from a friend.",
+  "challenges.received": "Received",
+  "challenges.sent": "Sent",
+  "challenges.from": "From {name} · {date}",
+  "challenges.sentOn": "Sent {date}",
+  "challenges.won": "Won",
+  "challenges.lost": "Lost",
+  "challenges.unplayed": "Not played",
+  "tournament.title": "Weekly tournament",
+  "tournament.description": "Join on Monday, play each day's game once and climb the weekly standings.",
+  "tournament.intro": "Join on Monday, then play each day's game once on the shared daily seed. A run earns its percentile among that day's tournament runs, from 0 to 100 points, and the week's points add up to the standings. Entrants play in brackets of 16, filled in the order they joined, and are ranked inside their bracket and across the whole field.",
+  "tournament.loading": "Loading the standings…",
+  "tournament.loadFailed": "The standings could not be loaded.",
+  "tournament.join": "Join this week",
+  "tournament.joinFailed": "Could not join. Try again.",
+  "tournament.entriesClosed": "Entries for this week closed on Monday. The next tournament opens next Monday.",
+  "tournament.playToday": "Play today's run",
+  "tournament.todayPlayed": "Today's run is in.",
+  "tournament.todayUnavailable": "Today's game is coming soon, so there is no run today.",
+  "tournament.closes": "Today's window closes {time}",
+  "tournament.standings": "Standings",
+  "tournament.empty": "No entrants yet this week.",
+  "tournament.player": "Player",
+  "tournament.total": "Total",
+  "tournament.bracket": "Bracket {number}",
+  "tournament.overall": "Overall",
+  "tournament.you": "You",
+  "tournament.points": { one: "{count} point", other: "{count} points" },
+  "tournament.field": { one: "{count} run", other: "{count} runs" },
+  "tournament.unfinished": "Not finished",
+  "tournament.notEntered": "You are not in this week's tournament.",
+  "tournament.alreadyPlayed": "You have already played today's tournament run.",
+  "tournament.startTitle": "Tournament run",
+  "tournament.startBody": "You get one attempt at {title}. It counts as soon as you start, so leaving early scores no points.",
+  "tournament.start": "Start run",
+  "tournament.startFailed": "The run could not be started. Check the connection and try again.",
+  "tournament.status.playing": "Tournament run · one attempt",
+  "tournament.status.sending": "Sending your tournament run…",
+  "tournament.status.recorded": "Tournament run recorded with {score}. Later runs count for the leaderboards only.",
+  "tournament.status.closed": "The tournament day closed before this run ended, so it scores no points.",
+  "tournament.status.failed": "Your tournament run could not be sent.",
+  "leagues.title": "Leagues",
+  "leagues.description": "Private leagues with their own daily and weekly boards for every game.",
+  "leagues.intro": "A league ranks only its members, on the same runs that go to the public leaderboards. Create one for your team and share its join code.",
+  "leagues.loading": "Loading leagues…",
+  "leagues.loadFailed": "Leagues could not be loaded.",
+  "leagues.mine": "Your leagues",
+  "leagues.empty": "You are not in any league yet.",
+  "leagues.members": { one: "{count} member", other: "{count} members" },
+  "leagues.create": "Create a league",
+  "leagues.namePlaceholder": "League name",
+  "leagues.createAction": "Create",
+  "leagues.createFailed": "The league could not be created. Try again.",
+  "leagues.join": "Join with a code",
+  "leagues.codePlaceholder": "ABC123",
+  "leagues.joinAction": "Join",
+  "leagues.joinFailed.unknown-code": "No league uses this code.",
+  "leagues.joinFailed.full": "This league is full.",
+  "leagues.joinFailed.throttled": "Too many tries. Wait a few minutes and try again.",
+  "leagues.joinFailed.failed": "Could not join. Try again.",
+  "leagues.notFound": "League not available",
+  "leagues.notFoundBody": "This league does not exist, or you are not one of its members. Ask for its join code.",
+  "leagues.code": "Join code",
+  "leagues.invite": "Invite",
+  "leagues.inviteText": "Join my league {name} on MM Games with the code {code}.",
+  "leagues.leave": "Leave league",
+  "leagues.today": "Today · {title}",
+  "leagues.todayNone": "Today's game is coming soon.",
+  "leagues.played": "Played",
+  "leagues.waiting": "Not played yet",
+  "leagues.boards": "Boards",
+  "leagues.window.daily": "Today",
+  "leagues.window.weekly": "This week",
+  "leagues.boardEmpty": "No member has a run on this board yet.",
+  "profile.title": "Profile",
+  "profile.description": "Your display name and avatar, and an optional account that carries your runs between devices.",
+  "profile.intro": "Runs go to the leaderboards under this profile. Sign in with your email to keep scores, achievements and settings on every device you play on.",
+  "profile.you": "You",
+  "profile.name": "Display name",
+  "profile.avatar": "Avatar",
+  "profile.save": "Save",
+  "profile.saved": "Saved.",
+  "profile.saveFailed": "The profile could not be saved. Try again.",
+  "profile.guest": "Playing as a guest on this device.",
+  "profile.account": "Account",
+  "profile.email": "Email",
+  "profile.emailPlaceholder": "you@example.com",
+  "profile.sendCode": "Send code",
+  "profile.codeSent": "We sent a six-digit code to {email}. It is valid for ten minutes.",
+  "profile.sendFailed": "The code could not be sent. Try again.",
+  "profile.sendThrottled": "Too many codes were requested for this email. Wait a few minutes and try again.",
+  "profile.code": "Login code",
+  "profile.signIn": "Sign in",
+  "profile.signInFailed": "The code is wrong or has expired, or too many wrong codes were tried.",
+  "profile.otherEmail": "Use another email",
+  "profile.signedIn": "Signed in as {email}.",
+  "profile.mergeNote": "Signing in uploads this device's history into the account; your guest runs on the leaderboards move with it.",
+  "profile.devices": { one: "{count} linked device", other: "{count} linked devices" },
+  "profile.thisDevice": "This device",
+  "profile.linkedAt": "Linked {date}",
+  "profile.sync": "Sync now",
+  "profile.syncing": "Syncing…",
+  "profile.synced": "Up to date.",
+  "profile.syncFailed": "Sync failed. Try again when you are online.",
+  "profile.signOut": "Sign out",
+  "stats.title": "Stats",
+  "stats.description": "How you play across the weekly arcade: runs, scores, time and per-game breakdowns.",
+  "stats.intro": "Totals count every run on this browser. Averages, histograms and breakdowns cover each game's most recent runs.",
+  "stats.empty": "No runs yet. Finish a run in any game and its numbers will show up here.",
+  "stats.runs": "Runs",
+  "stats.average": "Average",
+  "stats.best": "Best",
+  "stats.timePlayed": "Time played",
+  "stats.gamesPlayed": "Games played",
+  "stats.runsPerGame": "Runs per game",
+  "stats.timePerGame": "Time per game",
+  "stats.distribution": { one: "Score of the last run", other: "Scores of the last {count} runs" },
+  "gamepad.connected": "Controller connected",
+  "gamepad.disconnected": "Controller disconnected",
+  "gamepad.unnamed": "Controller",
+  "update.available": "Update available",
+  "update.body": "A new build of the arcade is ready.",
+  "update.reload": "Reload",
+  "update.dismiss": "Dismiss update",
+};
+
+export type AppMessageKey = keyof typeof en;
+
+export const APP_MESSAGES: Catalogue<AppMessageKey> = {
+  en,
+  tr: {
+    "app.title": "MM Games · Haftalık Oyun Salonu",
+    "app.description": "Haftanın her günü için hazırlanmış yedi sade oyun deneyimi.",
+    "nav.arcade": "Oyun salonu",
+    "nav.back": "Geri",
+    "nav.achievements": "Başarımlar",
+    "nav.replays": "Tekrarlar",
+    "nav.challenges": "Meydan okumalar",
+    "nav.stats": "İstatistikler",
+    "nav.tournament": "Turnuva",
+    "nav.leagues": "Ligler",
+    "nav.profile": "Profil",
+    "home.weeklyArcade": "Haftalık Oyun Salonu",
+    "home.headline": "Bir gün. Bir oyun.",
+    "home.tagline": "Hafta içi ritmine göre tasarlanmış sade ve odaklı bir oyun salonuyla akışta kal.",
+    "home.nextUnlock": "Sıradaki · {title}",
+    "home.cycleResets": "Döngü yenilenir · {day}",
+    "home.action.launch": "Başlat",
+    "home.action.replay": "Yeniden oyna",
+    "home.action.comingSoon": "Yakında",
+    "home.action.locked": "Kilitli",
+    "home.status.liveToday": "Bugün yayında",
+    "home.status.waiting": "Açılmayı bekliyor",
+    "home.status.revisit": "Tekrar oynanabilir",
+    "home.status.comingSoon": "Yakında",
+    "home.status.unlocksSoon": "Yakında açılacak",
+    "streak.current": { one: "{count} günlük seri", other: "{count} günlük seri" },
+    "streak.longest": { one: "En uzun {count} gün", other: "En uzun {count} gün" },
+    "streak.freezes": { one: "{count} dondurma", other: "{count} dondurma" },
+    "streak.freezesHint": "Her başarım bir dondurma kazandırır. Dondurmalar kaçırılan günleri kapatır, böylece seri bozulmaz.",
+    "streak.weekComplete": "Hafta tamamlandı",
+    "streak.week": "Bu hafta",
+    "streak.status.played": "Oynandı",
+    "streak.status.frozen": "Dondurmayla korundu",
+    "streak.status.missed": "Kaçırıldı",
+    "streak.status.today": "Bugün, henüz oynanmadı",
+    "streak.status.upcoming": "Yaklaşan",
+    "shell.pause": "Duraklat",
+    "shell.howToPlay": "Nasıl oynanır",
+    "shell.controls": "Kontroller",
+    "shell.paused": "Duraklatıldı",
+    "shell.pausedBody": "Oyun saati durdu. Her sayaç kaldığı yerden devam eder.",
+    "shell.resume": "Devam et",
+    "shell.shareText": "MM Games'te {title} oyununda {score} puan yaptım.",
+    "share.label": "Skoru paylaş",
+    "share.copied": "Kopyalandı",
+    "share.run": "Paylaş",
+    "share.linkCopied": "Bağlantı kopyalandı",
+    "share.uploading": "Hazırlanıyor…",
+    "share.failed": "Paylaşılamadı",
+    "share.pageTitle": "{title} oyununda {score} puan",
+    "share.score": "Skor",
+    "share.best": "En iyi",
+    "share.play": "{title} oyna",
+    "share.notFound": "Skor kartı bulunamadı",
+    "share.notFoundBody": "Bu tur kendi cihazından hiç paylaşılmadı ya da kartın süresi doldu.",
+    "hud.score": "Skor",
+    "hud.best": "En iyi",
+    "hud.level": "Seviye",
+    "hud.lives": "Can",
+    "hud.combo": "Kombo",
+    "hud.target": "Hedef",
+    "challenge.send": "Meydan oku",
+    "challenge.shareText": "MM Games'te {title} oyunundaki {score} skorumu geç.",
+    "challenge.target": "{name} skorunu geç",
+    "challenge.won": "{name} adlı oyuncunun {target} skorunu {score} ile geçtin.",
+    "challenge.lost": "{name} adlı oyuncunun {target} skoru hâlâ önde. Skorun: {score}.",
+    "challenge.pageTitle": "{name} sana {title} oyununda {target} skorunu geçmen için meydan okuyor",
+    "challenge.invalid": "Meydan okuma bağlantısı geçersiz",
+    "challenge.invalidBody": "Bu bağlantıda meydan okumanın bir kısmı eksik. Oyun sonu ekranından yeni bir bağlantı iste.",
+    "dialog.close": "{title} penceresini kapat",
+    "controls.none": "Bu oyunun klavye kontrolü yok.",
+    "controls.controller": "Oyun kumandası: {buttons}",
+    "controls.pressKey": "Bir tuşa bas",
+    "controls.unbound": "Atanmadı",
+    "controls.reset": "Varsayılanlara dön",
+    "settings.title": "Ayarlar",
+    "settings.language": "Dil",
+    "settings.volume": "Ana ses",
+    "settings.mute": "Sessize al",
+    "settings.muted": "Sessiz",
+    "settings.motion": "Hareket",
+    "settings.motionHint": "Azaltılmış hareket, Tilt Drop salınımını durdurur ve arka plan efektlerini yumuşatır.",
+    "settings.motion.system": "Sistem",
+    "settings.motion.reduced": "Azaltılmış",
+    "settings.motion.full": "Tam",
+    "settings.colorVision": "Renk görüşü",
+    "settings.colorVisionHint": "Oyun paletlerini renkler ayırt edilebilir kalacak şekilde kaydırır.",
+    "settings.colorVision.standard": "Standart",
+    "settings.colorVision.protanopia": "Protanopi",
+    "settings.colorVision.deuteranopia": "Döteranopi",
+    "settings.colorVision.tritanopia": "Tritanopi",
+    "settings.swipe": "Kaydırma hassasiyeti",
+    "settings.swipeHint": "Bir kaydırmanın yön vermeden önce ne kadar ilerlemesi gerektiği.",
+    "settings.swipe.low": "Düşük",
+    "settings.swipe.medium": "Orta",
+    "settings.swipe.high": "Yüksek",
+    "settings.layout": "Yerleşim",
+    "settings.layout.right": "Sağ elini kullanan",
+    "settings.layout.left": "Sol elini kullanan",
+    "settings.reset": "Varsayılanlara dön",
+    "achievements.title": "Başarımlar",
+    "achievements.description": "Haftalık oyun salonundaki her oyunda peşine düşülecek başarılar.",
+    "achievements.intro": "Her oyun birkaç başarı saklıyor. İlerleme bu tarayıcıda kaydedilir.",
+    "achievements.unlocked": "Açılan",
+    "achievements.unlockedOn": "{date} tarihinde açıldı",
+    "achievements.toast": "Başarım açıldı",
+    "replays.title": "Tekrarlar",
+    "replays.description": "Son oyunlarını kaydedilmiş girdilerinden yeniden izle.",
+    "replays.intro": "Biten her oyun bu tarayıcıya kaydedilir. Her oyun en son on tanesini saklar.",
+    "replays.empty": "Henüz kayıt yok. Herhangi bir oyunda bir turu bitirdiğinde burada görünür.",
+    "replays.pageTitle": "Tekrar",
+    "replays.notFound": "Tekrar bulunamadı",
+    "replays.notFoundBody": "Kayıtlar yalnızca bu tarayıcıda tutulur ve her oyun en son turlarını saklar.",
+    "replays.heading": "Tekrar · {title}",
+    "replays.recorded": "Kaydedilen",
+    "replays.replayed": "Tekrarlanan",
+    "replays.play": "Oynat",
+    "replays.pause": "Duraklat",
+    "replays.position": "Tekrar konumu",
+    "challenges.title": "Meydan okumalar",
+    "challenges.description": "Arkadaşlarına gönderdiğin ve onlardan aldığın meydan okumalar.",
+    "challenges.intro": "Meydan okuma bağlantıları aynı oyunu aynı tohum ve ayarlarla açar. Sonuçlar bu tarayıcıya kaydedilir.",
+    "challenges.empty": "Henüz meydan okuma yok. Herhangi bir oyun sonu ekranından gönder ya da bir arkadaşının bağlantısını aç.",
+    "challenges.received": "Gelen",
+    "challenges.sent": "Gönderilen",
+    "challenges.from": "{name} · {date}",
+    "challenges.sentOn": "Gönderildi: {date}",
+    "challenges.won": "Kazandın",
+    "challenges.lost": "Kaybettin",
+    "challenges.unplayed": "Oynanmadı",
+    "tournament.title": "Haftalık turnuva",
+    "tournament.description": "Pazartesi katıl, her günün oyununu bir kez oyna ve haftalık sıralamada yüksel.",
+    "tournament.intro": "Pazartesi katıl, sonra her günün oyununu ortak günlük tohumla bir kez oyna. Her tur, o günün turnuva turları arasındaki yüzdelik dilimi kadar, 0 ile 100 arasında puan kazanır; haftanın puanları toplanarak sıralamayı oluşturur. Katılımcılar katılma sırasına göre 16 kişilik gruplarda oynar ve hem kendi gruplarında hem de tüm alanda sıralanır.",
+    "tournament.loading": "Sıralama yükleniyor…",
+    "tournament.loadFailed": "Sıralama yüklenemedi.",
+    "tournament.join": "Bu haftaya katıl",
+    "tournament.joinFailed": "Katılınamadı. Tekrar dene.",
+    "tournament.entriesClosed": "Bu haftanın kayıtları pazartesi kapandı. Sıradaki turnuva gelecek pazartesi açılır.",
+    "tournament.playToday": "Bugünün turunu oyna",
+    "tournament.todayPlayed": "Bugünün turu tamam.",
+    "tournament.todayUnavailable": "Bugünün oyunu yakında geliyor, bu yüzden bugün tur yok.",
+    "tournament.closes": "Bugünün penceresi {time} kapanır",
+    "tournament.standings": "Sıralama",
+    "tournament.empty": "Bu hafta henüz katılan yok.",
+    "tournament.player": "Oyuncu",
+    "tournament.total": "Toplam",
+    "tournament.bracket": "{number}. grup",
+    "tournament.overall": "Genel",
+    "tournament.you": "Sen",
+    "tournament.points": { one: "{count} puan", other: "{count} puan" },
+    "tournament.field": { one: "{count} tur", other: "{count} tur" },
+    "tournament.unfinished": "Bitmedi",
+    "tournament.notEntered": "Bu haftanın turnuvasında değilsin.",
+    "tournament.alreadyPlayed": "Bugünün turnuva turunu zaten oynadın.",
+    "tournament.startTitle": "Turnuva turu",
+    "tournament.startBody": "{title} için tek bir hakkın var. Başladığın anda sayılır, erken ayrılırsan puan alamazsın.",
+    "tournament.start": "Turu başlat",
+    "tournament.startFailed": "Tur başlatılamadı. Bağlantını kontrol edip tekrar dene.",
+    "tournament.status.playing": "Turnuva turu · tek hak",
+    "tournament.status.sending": "Turnuva turun gönderiliyor…",
+    "tournament.status.recorded": "Turnuva turun {score} ile kaydedildi. Sonraki turlar yalnızca skor tablolarına sayılır.",
+    "tournament.status.closed": "Turnuva günü bu tur bitmeden kapandı, bu yüzden puan almaz.",
+    "tournament.status.failed": "Turnuva turun gönderilemedi.",
+    "leagues.title": "Ligler",
+    "leagues.description": "Her oyun için kendi günlük ve haftalık tabloları olan özel ligler.",
+    "leagues.intro": "Bir lig, herkese açık skor tablolarına giden aynı turlarla yalnızca kendi üyelerini sıralar. Ekibin için bir lig kur ve katılım kodunu paylaş.",
+    "leagues.loading": "Ligler yükleniyor…",
+    "leagues.loadFailed": "Ligler yüklenemedi.",
+    "leagues.mine": "Liglerin",
+    "leagues.empty": "Henüz hiçbir ligde değilsin.",
+    "leagues.members": { one: "{count} üye", other: "{count} üye" },
+    "leagues.create": "Lig kur",
+    "leagues.namePlaceholder": "Lig adı",
+    "leagues.createAction": "Kur",
+    "leagues.createFailed": "Lig kurulamadı. Tekrar dene.",
+    "leagues.join": "Kodla katıl",
+    "leagues.codePlaceholder": "ABC123",
+    "leagues.joinAction": "Katıl",
+    "leagues.joinFailed.unknown-code": "Bu kodu kullanan bir lig yok.",
+    "leagues.joinFailed.full": "Bu lig dolu.",
+    "leagues.joinFailed.throttled": "Çok fazla deneme yapıldı. Birkaç dakika bekleyip tekrar dene.",
+    "leagues.joinFailed.failed": "Katılınamadı. Tekrar dene.",
+    "leagues.notFound": "Lig bulunamadı",
+    "leagues.notFoundBody": "Bu lig yok ya da üyelerinden biri değilsin. Katılım kodunu iste.",
+    "leagues.code": "Katılım kodu",
+    "leagues.invite": "Davet et",
+    "leagues.inviteText": "MM Games'te {name} ligime {code} koduyla katıl.",
+    "leagues.leave": "Ligden ayrıl",
+    "leagues.today": "Bugün · {title}",
+    "leagues.todayNone": "Bugünün oyunu yakında geliyor.",
+    "leagues.played": "Oynadı",
+    "leagues.waiting": "Henüz oynamadı",
+    "leagues.boards": "Tablolar",
+    "leagues.window.daily": "Bugün",
+    "leagues.window.weekly": "Bu hafta",
+    "leagues.boardEmpty": "Bu tabloda henüz hiçbir üyenin turu yok.",
+    "profile.title": "Profil",
+    "profile.description": "Görünen adın ve avatarın, ayrıca turlarını cihazlar arasında taşıyan isteğe bağlı bir hesap.",
+    "profile.intro": "Turlar skor tablolarına bu profille gider. Skorlarını, başarımlarını ve ayarlarını oynadığın her cihazda tutmak için e-postanla giriş yap.",
+    "profile.you": "Sen",
+    "profile.name": "Görünen ad",
+    "profile.avatar": "Avatar",
+    "profile.save": "Kaydet",
+    "profile.saved": "Kaydedildi.",
+    "profile.saveFailed": "Profil kaydedilemedi. Tekrar dene.",
+    "profile.guest": "Bu cihazda misafir olarak oynuyorsun.",
+    "profile.account": "Hesap",
+    "profile.email": "E-posta",
+    "profile.emailPlaceholder": "sen@ornek.com",
+    "profile.sendCode": "Kod gönder",
+    "profile.codeSent": "{email} adresine altı haneli bir kod gönderdik. Kod on dakika geçerli.",
+    "profile.sendFailed": "Kod gönderilemedi. Tekrar dene.",
+    "profile.sendThrottled": "Bu e-posta için çok fazla kod istendi. Birkaç dakika bekleyip tekrar dene.",
+    "profile.code": "Giriş kodu",
+    "profile.signIn": "Giriş yap",
+    "profile.signInFailed": "Kod yanlış ya da süresi dolmuş, veya çok fazla yanlış kod denendi.",
+    "profile.otherEmail": "Başka bir e-posta kullan",
+    "profile.signedIn": "{email} olarak giriş yapıldı.",
+    "profile.mergeNote": "Giriş yapmak bu cihazın geçmişini hesaba yükler; skor tablolarındaki misafir turların da onunla taşınır.",
+    "profile.devices": { one: "{count} bağlı cihaz", other: "{count} bağlı cihaz" },
+    "profile.thisDevice": "Bu cihaz",
+    "profile.linkedAt": "{date} tarihinde bağlandı",
+    "profile.sync": "Şimdi eşitle",
+    "profile.syncing": "Eşitleniyor…",
+    "profile.synced": "Güncel.",
+    "profile.syncFailed": "Eşitleme başarısız. Çevrimiçi olunca tekrar dene.",
+    "profile.signOut": "Çıkış yap",
+    "stats.title": "İstatistikler",
+    "stats.description": "Haftalık oyun salonundaki oyunun: turlar, skorlar, süre ve oyunlara göre dökümler.",
+    "stats.intro": "Toplamlar bu tarayıcıdaki her turu sayar. Ortalamalar, histogramlar ve dökümler her oyunun en son turlarını kapsar.",
+    "stats.empty": "Henüz tur yok. Herhangi bir oyunda bir turu bitirdiğinde sayıları burada görünür.",
+    "stats.runs": "Turlar",
+    "stats.average": "Ortalama",
+    "stats.best": "En iyi",
+    "stats.timePlayed": "Oynama süresi",
+    "stats.gamesPlayed": "Oynanan oyunlar",
+    "stats.runsPerGame": "Oyun başına tur",
+    "stats.timePerGame": "Oyun başına süre",
+    "stats.distribution": { one: "Son turun skoru", other: "Son {count} turun skorları" },
+    "gamepad.connected": "Kumanda bağlandı",
+    "gamepad.disconnected": "Kumanda ayrıldı",
+    "gamepad.unnamed": "Kumanda",
+    "update.available": "Güncelleme hazır",
+    "update.body": "Oyun salonunun yeni bir sürümü hazır.",
+    "update.reload": "Yenile",
+    "update.dismiss": "Güncellemeyi kapat",
+  },
+};
@@ -0,0 +1,16 @@
+import { cookies, headers } from "next/headers";
+import type { Catalogue, Locale } from "@/lib/i18n/types";
+import { createTranslator } from "@/lib/i18n/format";
+import { LOCALE_COOKIE, isLocale, matchLocale } from "@/lib/i18n/locales";
+
+/** The switcher's choice if there is one, otherwise the browser's preferred language. */
+export const getLocale = async (): Promise<Locale> => {
+  const chosen = (await cookies()).get(LOCALE_COOKIE)?.value;
+  if (isLocale(chosen)) {
+    return chosen;
+  }
+  return matchLocale((await headers()).get("accept-language"));
+};
+
+export const getTranslations = async <K extends string>(catalogue: Catalogue<K>) =>
+  createTranslator(catalogue, await getLocale());
@@ -0,0 +1,14 @@
+export type Locale = "en" | "tr";
+
+/** Data-defined copy (achievements, emoji labels, piece names) written out for every locale. */
+export type LocalizedText = Record<Locale, string>;
+
+/** A plain string, or plural forms picked with `Intl.PluralRules` from the `count` param. */
+export type Message = string | ({ other: string } & Partial<Record<Intl.LDMLPluralRule, string>>);
+
+export type MessageParams = Record<string, string | number>;
+
+/** One module's UI copy, keyed the same way in every locale. `{name}` marks a param. */
+export type Catalogue<K extends string = string> = Record<Locale, Record<K, Message>>;
+
+export type Translate<K extends string> = (key: K, params?: MessageParams) => string;
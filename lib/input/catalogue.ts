@@ -0,0 +1,41 @@
+import type { GameId } from "@/games/registry";
+import type { GamepadButton } from "@/lib/input/gamepad";
+import type { KeyBindingState } from "@/lib/input/store";
+import type { GameControls, InputAction } from "@/lib/input/types";
+import { ANGRYMOJI_CONTROLS } from "@/games/angrymoji/controls";
+import { CHROMA_CONTROLS } from "@/games/chroma-trace/controls";
+import { COLORS_CONTROLS } from "@/games/colors-plus/controls";
+import { LOW_TIDE_CONTROLS } from "@/games/low-tide/controls";
+import { SIMON_CONTROLS } from "@/games/simon-colors/controls";
+import { SNAKEMOJI_CONTROLS } from "@/games/snakemoji/controls";
+import { TILT_DROP_CONTROLS } from "@/games/tilt-drop/controls";
+
+export const CONTROLS: Record<GameId, GameControls> = {
+  snakemoji: SNAKEMOJI_CONTROLS,
+  "colors-plus": COLORS_CONTROLS,
+  "chroma-trace": CHROMA_CONTROLS,
+  "tilt-drop": TILT_DROP_CONTROLS,
+  "simon-colors": SIMON_CONTROLS,
+  angrymoji: ANGRYMOJI_CONTROLS,
+  "low-tide": LOW_TIDE_CONTROLS,
+};
+
+/** The keys currently bound to each of the game's actions, remaps applied. */
+export const getKeyBindings = (state: KeyBindingState, gameId: GameId) => {
+  const overrides = state[gameId] ?? {};
+  const bindings: Partial<Record<InputAction, string[]>> = {};
+  (Object.entries(CONTROLS[gameId]) as [InputAction, GameControls[InputAction]][]).forEach(([action, control]) => {
+    bindings[action] = overrides[action] ?? control?.keys ?? [];
+  });
+  return bindings;
+};
+
+export const findBoundAction = (state: KeyBindingState, gameId: GameId, key: string) =>
+  (Object.entries(getKeyBindings(state, gameId)) as [InputAction, string[]][]).find(([, keys]) =>
+    keys.includes(key),
+  )?.[0] ?? null;
+
+export const findButtonAction = (gameId: GameId, button: GamepadButton) =>
+  (Object.entries(CONTROLS[gameId]) as [InputAction, GameControls[InputAction]][]).find(([, control]) =>
+    control?.buttons?.includes(button),
+  )?.[0] ?? null;
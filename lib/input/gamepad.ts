@@ -0,0 +1,139 @@
+export type GamepadButton =
+  | "a"
+  | "b"
+  | "x"
+  | "y"
+  | "lb"
+  | "rb"
+  | "lt"
+  | "rt"
+  | "select"
+  | "start"
+  | "up"
+  | "down"
+  | "left"
+  | "right";
+
+export type StickVector = { x: number; y: number };
+
+export type GamepadFrame = {
+  /** Buttons held this frame. The left stick also presses the d-pad directions. */
+  pressed: Set<GamepadButton>;
+  /** Left stick with the dead zone removed, each axis in -1..1. */
+  stick: StickVector;
+};
+
+type GamepadListener = (frame: GamepadFrame, previous: GamepadFrame) => void;
+
+// Indexes in the browser's "standard" gamepad mapping.
+const BUTTON_INDEXES: Record<GamepadButton, number> = {
+  a: 0,
+  b: 1,
+  x: 2,
+  y: 3,
+  lb: 4,
+  rb: 5,
+  lt: 6,
+  rt: 7,
+  select: 8,
+  start: 9,
+  up: 12,
+  down: 13,
+  left: 14,
+  right: 15,
+};
+
+const STICK_DEAD_ZONE = 0.2;
+/** How far the stick must lean before it counts as a d-pad press. */
+const STICK_PRESS = 0.6;
+
+const EMPTY_FRAME: GamepadFrame = { pressed: new Set(), stick: { x: 0, y: 0 } };
+
+const frameListeners = new Set<GamepadListener>();
+let pollId: number | null = null;
+let previousFrame = EMPTY_FRAME;
+
+const canUseGamepads = () => typeof navigator !== "undefined" && typeof navigator.getGamepads === "function";
+
+const readGamepad = () => (canUseGamepads() ? (navigator.getGamepads().find((pad) => pad?.connected) ?? null) : null);
+
+const applyDeadZone = (value: number) =>
+  Math.abs(value) < STICK_DEAD_ZONE ? 0 : Math.sign(value) * ((Math.abs(value) - STICK_DEAD_ZONE) / (1 - STICK_DEAD_ZONE));
+
+const sample = (): GamepadFrame => {
+  const pad = readGamepad();
+  if (!pad) {
+    return EMPTY_FRAME;
+  }
+  const pressed = new Set<GamepadButton>();
+  (Object.entries(BUTTON_INDEXES) as [GamepadButton, number][]).forEach(([button, index]) => {
+    if (pad.buttons[index]?.pressed) {
+      pressed.add(button);
+    }
+  });
+  const stick = { x: applyDeadZone(pad.axes[0] ?? 0), y: applyDeadZone(pad.axes[1] ?? 0) };
+  if (Math.abs(stick.x) >= STICK_PRESS && Math.abs(stick.x) >= Math.abs(stick.y)) {
+    pressed.add(stick.x > 0 ? "right" : "left");
+  } else if (Math.abs(stick.y) >= STICK_PRESS) {
+    pressed.add(stick.y > 0 ? "down" : "up");
+  }
+  return { pressed, stick };
+};
+
+const poll = () => {
+  const frame = sample();
+  frameListeners.forEach((listener) => listener(frame, previousFrame));
+  previousFrame = frame;
+  pollId = window.requestAnimationFrame(poll);
+};
+
+/** Samples the first connected gamepad once per animation frame while anyone listens. */
+export const subscribeGamepad = (listener: GamepadListener) => {
+  frameListeners.add(listener);
+  if (pollId === null && canUseGamepads()) {
+    pollId = window.requestAnimationFrame(poll);
+  }
+  return () => {
+    frameListeners.delete(listener);
+    if (frameListeners.size === 0 && pollId !== null) {
+      window.cancelAnimationFrame(pollId);
+      pollId = null;
+      previousFrame = EMPTY_FRAME;
+    }
+  };
+};
+
+/** Buttons that went down (or up, with `released`) between two frames. */
+export const changedButtons = (frame: GamepadFrame, previous: GamepadFrame, released = false) =>
+  released
+    ? [...previous.pressed].filter((button) => !frame.pressed.has(button))
+    : [...frame.pressed].filter((button) => !previous.pressed.has(button));
+
+const connectionListeners = new Set<() => void>();
+let connectedName: string | null = null;
+
+const handleConnectionChange = () => {
+  connectedName = readGamepad()?.id ?? null;
+  connectionListeners.forEach((listener) => listener());
+};
+
+/** For `useSyncExternalStore`: the connected controller's name, or null. */
+export const subscribeGamepadConnection = (listener: () => void) => {
+  if (connectionListeners.size === 0) {
+    window.addEventListener("gamepadconnected", handleConnectionChange);
+    window.addEventListener("gamepaddisconnected", handleConnectionChange);
+    connectedName = readGamepad()?.id ?? null;
+  }
+  connectionListeners.add(listener);
+  return () => {
+    connectionListeners.delete(listener);
+    if (connectionListeners.size === 0) {
+      window.removeEventListener("gamepadconnected", handleConnectionChange);
+      window.removeEventListener("gamepaddisconnected", handleConnectionChange);
+    }
+  };
+};
+
+export const getGamepadName = () => connectedName;
+
+export const getServerGamepadName = () => null;
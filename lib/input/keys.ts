@@ -0,0 +1,39 @@
+import type { GamepadButton } from "@/lib/input/gamepad";
+
+const KEY_LABELS: Record<string, string> = {
+  Space: "Space",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  Escape: "Esc",
+};
+
+/** Maps `KeyboardEvent.key` onto the names stored in bindings: letters are lowercased and " " becomes "Space". */
+export const normalizeKey = (key: string) => {
+  if (key === " ") {
+    return "Space";
+  }
+  return key.length === 1 ? key.toLowerCase() : key;
+};
+
+export const formatKey = (key: string) => KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+
+const BUTTON_LABELS: Record<GamepadButton, string> = {
+  a: "A",
+  b: "B",
+  x: "X",
+  y: "Y",
+  lb: "LB",
+  rb: "RB",
+  lt: "LT",
+  rt: "RT",
+  select: "Select",
+  start: "Start",
+  up: "D-pad ↑",
+  down: "D-pad ↓",
+  left: "D-pad ←",
+  right: "D-pad →",
+};
+
+export const formatButton = (button: GamepadButton) => BUTTON_LABELS[button];
@@ -0,0 +1,33 @@
+import type { GameId } from "@/games/registry";
+import type { InputAction } from "@/lib/input/types";
+import { getKeyBindings } from "@/lib/input/catalogue";
+import { createPersistedStore } from "@/lib/storage";
+
+/** Player remaps, keyed by game. Actions without an entry use the game's defaults. */
+export type KeyBindingState = Partial<Record<GameId, Partial<Record<InputAction, string[]>>>>;
+
+export const keyBindingStore = createPersistedStore<KeyBindingState>({
+  key: "mmgames:key-bindings",
+  version: 1,
+  initial: () => ({}),
+});
+
+/** Binds `key` to `action` alone, unbinding it from the game's other actions. */
+export const rebindKey = (gameId: GameId, action: InputAction, key: string) =>
+  keyBindingStore.update((state) => {
+    const next = { ...state[gameId] };
+    Object.entries(getKeyBindings(state, gameId)).forEach(([other, keys]) => {
+      if (other !== action && keys.includes(key)) {
+        next[other as InputAction] = keys.filter((bound) => bound !== key);
+      }
+    });
+    next[action] = [key];
+    return { ...state, [gameId]: next };
+  });
+
+export const resetKeyBindings = (gameId: GameId) =>
+  keyBindingStore.update((state) => {
+    const next = { ...state };
+    delete next[gameId];
+    return next;
+  });
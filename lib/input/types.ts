@@ -0,0 +1,26 @@
+import type { LocalizedText } from "@/lib/i18n/types";
+import type { GamepadButton } from "@/lib/input/gamepad";
+
+/** Semantic actions raw keyboard, touch and pointer events are mapped onto. */
+export type InputAction =
+  | "move-up"
+  | "move-down"
+  | "move-left"
+  | "move-right"
+  | "rotate"
+  | "drop"
+  | "tap"
+  | "confirm"
+  | "pause"
+  | "quit";
+
+export type ControlBinding = {
+  /** What the action does in this game, e.g. "Soft drop", in every locale. */
+  label: LocalizedText;
+  /** Normalized key names, see `normalizeKey`. */
+  keys: string[];
+  /** Controller buttons, which are not remappable. */
+  buttons?: GamepadButton[];
+};
+
+export type GameControls = Partial<Record<InputAction, ControlBinding>>;
@@ -0,0 +1,29 @@
+import { useEffect, useRef } from "react";
+import type { StickVector } from "@/lib/input/gamepad";
+import { subscribeGamepad } from "@/lib/input/gamepad";
+import { useGameSession } from "@/lib/replay/session";
+
+/**
+ * Calls back with the left stick every polled frame for analog controls
+ * (aiming, cursors). Games turn the vector into their own inputs, so replays
+ * never see the stick itself.
+ */
+export const useGamepadStick = (onStick: (stick: StickVector) => void) => {
+  const session = useGameSession();
+  const onStickRef = useRef(onStick);
+
+  useEffect(() => {
+    onStickRef.current = onStick;
+  }, [onStick]);
+
+  useEffect(() => {
+    if (session.mode !== "live") {
+      return;
+    }
+    return subscribeGamepad((frame) => {
+      if (!session.pause.isPaused()) {
+        onStickRef.current(frame.stick);
+      }
+    });
+  }, [session]);
+};
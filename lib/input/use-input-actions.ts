@@ -0,0 +1,74 @@
+import { useEffect, useRef } from "react";
+import type { GamepadButton } from "@/lib/input/gamepad";
+import type { InputAction } from "@/lib/input/types";
+import { findBoundAction, findButtonAction } from "@/lib/input/catalogue";
+import { changedButtons, subscribeGamepad } from "@/lib/input/gamepad";
+import { normalizeKey } from "@/lib/input/keys";
+import { keyBindingStore } from "@/lib/input/store";
+import { useGameSession } from "@/lib/replay/session";
+
+export type InputActionEvent = {
+  action: InputAction;
+  /** False for the matching key or button release. */
+  pressed: boolean;
+  repeat: boolean;
+};
+
+const isTextEntry = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+/**
+ * Maps window key events and gamepad buttons onto the game's semantic
+ * actions using its current bindings, remaps included. Bound keys never reach
+ * the page (no scrolling on Space or the arrows). Replays ignore both.
+ */
+export const useInputActions = (onAction: (event: InputActionEvent) => void) => {
+  const session = useGameSession();
+  const onActionRef = useRef(onAction);
+
+  useEffect(() => {
+    onActionRef.current = onAction;
+  }, [onAction]);
+
+  useEffect(() => {
+    if (session.mode !== "live") {
+      return;
+    }
+    // while paused only releases (so nothing stays held) and the pause action itself get through
+    const deliver = (event: InputActionEvent) => {
+      if (!event.pressed || event.action === "pause" || !session.pause.isPaused()) {
+        onActionRef.current(event);
+      }
+    };
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey || isTextEntry(event.target)) {
+        return;
+      }
+      const action = findBoundAction(keyBindingStore.read(), session.gameId, normalizeKey(event.key));
+      if (!action) {
+        return;
+      }
+      event.preventDefault();
+      deliver({ action, pressed: event.type === "keydown", repeat: event.repeat });
+    };
+
+    const unsubscribeGamepad = subscribeGamepad((frame, previous) => {
+      const emit = (pressed: boolean) => (button: GamepadButton) => {
+        const action = findButtonAction(session.gameId, button);
+        if (action) {
+          deliver({ action, pressed, repeat: false });
+        }
+      };
+      changedButtons(frame, previous).forEach(emit(true));
+      changedButtons(frame, previous, true).forEach(emit(false));
+    });
+
+    window.addEventListener("keydown", handleKey);
+    window.addEventListener("keyup", handleKey);
+    return () => {
+      unsubscribeGamepad();
+      window.removeEventListener("keydown", handleKey);
+      window.removeEventListener("keyup", handleKey);
+    };
+  }, [session]);
+};
@@ -0,0 +1,64 @@
+import type React from "react";
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import { useGameClock } from "@/lib/replay/session";
+
+const DEFAULT_DELAY_MS = 450;
+/** Movement (px) that turns a press into a drag. */
+const MOVE_TOLERANCE = 10;
+
+/**
+ * Recognizes a press held in place. Returns pointer handlers to call from the
+ * element's own handlers, plus whether the current stroke already fired, so
+ * callers can skip their tap handling. Runs on the game clock, so it stops
+ * with the game.
+ */
+export const useLongPress = (onLongPress: () => void, delayMs = DEFAULT_DELAY_MS) => {
+  const clock = useGameClock();
+  const timerRef = useRef<number | null>(null);
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+  const firedRef = useRef(false);
+  const onLongPressRef = useRef(onLongPress);
+
+  useEffect(() => {
+    onLongPressRef.current = onLongPress;
+  }, [onLongPress]);
+
+  const cancel = useCallback(() => {
+    clock.clearTimeout(timerRef.current);
+    timerRef.current = null;
+    startRef.current = null;
+  }, [clock]);
+
+  useEffect(() => cancel, [cancel]);
+
+  const onPointerDown = useCallback(
+    (event: React.PointerEvent<HTMLElement>) => {
+      cancel();
+      firedRef.current = false;
+      startRef.current = { x: event.clientX, y: event.clientY };
+      timerRef.current = clock.setTimeout(() => {
+        timerRef.current = null;
+        firedRef.current = true;
+        onLongPressRef.current();
+      }, delayMs);
+    },
+    [cancel, clock, delayMs],
+  );
+
+  const onPointerMove = useCallback(
+    (event: React.PointerEvent<HTMLElement>) => {
+      const start = startRef.current;
+      if (start && Math.hypot(event.clientX - start.x, event.clientY - start.y) > MOVE_TOLERANCE) {
+        cancel();
+      }
+    },
+    [cancel],
+  );
+
+  const hasFired = useCallback(() => firedRef.current, []);
+
+  return useMemo(
+    () => ({ onPointerDown, onPointerMove, onPointerUp: cancel, onPointerCancel: cancel, hasFired }),
+    [cancel, hasFired, onPointerDown, onPointerMove],
+  );
+};
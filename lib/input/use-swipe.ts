@@ -0,0 +1,52 @@
+import type React from "react";
+import { useCallback, useRef } from "react";
+import { SWIPE_THRESHOLDS } from "@/lib/settings/store";
+import { useSettings } from "@/lib/settings/use-settings";
+
+export type SwipeDirection = "up" | "down" | "left" | "right";
+
+/** Elements marked `data-swipe-ignore="true"` (buttons, chrome) never start a swipe. */
+export const isSwipeIgnored = (target: EventTarget | null) =>
+  target instanceof Element && Boolean(target.closest("[data-swipe-ignore='true']"));
+
+/**
+ * Recognizes a single swipe per pointer stroke. The distance needed follows
+ * the swipe sensitivity setting; the dominant axis picks the direction.
+ */
+export const useSwipe = (onSwipe: (direction: SwipeDirection) => void) => {
+  const { swipeSensitivity } = useSettings();
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+
+  const onPointerDown = useCallback((event: React.PointerEvent<HTMLElement>) => {
+    if (isSwipeIgnored(event.target)) {
+      startRef.current = null;
+      return;
+    }
+    event.preventDefault();
+    startRef.current = { x: event.clientX, y: event.clientY };
+  }, []);
+
+  const onPointerUp = useCallback(
+    (event: React.PointerEvent<HTMLElement>) => {
+      const start = startRef.current;
+      startRef.current = null;
+      if (!start) {
+        return;
+      }
+      const deltaX = event.clientX - start.x;
+      const deltaY = event.clientY - start.y;
+      const threshold = SWIPE_THRESHOLDS[swipeSensitivity];
+      if (Math.abs(deltaX) < threshold && Math.abs(deltaY) < threshold) {
+        return;
+      }
+      onSwipe(Math.abs(deltaX) > Math.abs(deltaY) ? (deltaX > 0 ? "right" : "left") : deltaY > 0 ? "down" : "up");
+    },
+    [onSwipe, swipeSensitivity],
+  );
+
+  const onPointerCancel = useCallback(() => {
+    startRef.current = null;
+  }, []);
+
+  return { onPointerDown, onPointerUp, onPointerCancel };
+};
@@ -0,0 +1,120 @@
+import type { GameId } from "@/games/registry";
+import type { PendingSubmission } from "@/lib/leaderboards/outbox";
+import type { LeaderboardPage, LeaderboardSubmission, LeaderboardWindow, RankedEntry } from "@/lib/leaderboards/types";
+import type { GameRun } from "@/lib/run-history";
+import { ensurePlayerAuthorization } from "@/lib/accounts/client";
+import { dropSubmission, pendingSubmissionStore, queueSubmission } from "@/lib/leaderboards/outbox";
+import { getCurrentProfile, getGuestProfile } from "@/lib/player";
+
+export type LeaderboardResponse = LeaderboardPage & {
+  game: GameId;
+  window: LeaderboardWindow;
+  dateKey: string;
+  weekKey: string;
+  me: RankedEntry | null;
+};
+
+export type SubmissionResponse = {
+  entry: RankedEntry;
+  ranks: Record<LeaderboardWindow, number | null>;
+};
+
+type PostResult = { ok: true; response: SubmissionResponse } | { ok: false; retry: boolean };
+
+const endpoint = (gameId: GameId) => `/api/leaderboards/${gameId}`;
+
+/**
+ * Network errors, server faults and a guest credential that is not issued yet
+ * are worth retrying; a rejected submission is not.
+ */
+const postSubmission = async (gameId: GameId, submission: LeaderboardSubmission): Promise<PostResult> => {
+  try {
+    const authorization = await ensurePlayerAuthorization();
+    const response = await fetch(endpoint(gameId), {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...(authorization ? { Authorization: authorization } : {}) },
+      body: JSON.stringify(submission),
+    });
+    if (!response.ok) {
+      return { ok: false, retry: response.status >= 500 || response.status === 401 };
+    }
+    return { ok: true, response: (await response.json()) as SubmissionResponse };
+  } catch {
+    return { ok: false, retry: true };
+  }
+};
+
+/**
+ * Runs queued as this device's guest are sent under the account it has signed
+ * in to since, as the merge moved that guest's earlier entries there too.
+ */
+const claimSubmission = (submission: LeaderboardSubmission): LeaderboardSubmission => {
+  const player = getCurrentProfile();
+  return submission.playerId === getGuestProfile().id
+    ? { ...submission, playerId: player.id, playerName: player.name }
+    : submission;
+};
+
+let flushing: Promise<void> | null = null;
+
+/** Sends queued runs in order, stopping at the first one that still cannot get through. */
+export const flushPendingSubmissions = () => {
+  flushing ??= (async () => {
+    for (const pending of pendingSubmissionStore.read()) {
+      const result = await postSubmission(pending.gameId, claimSubmission(pending.submission));
+      if (!result.ok && result.retry) {
+        return;
+      }
+      dropSubmission(pending.runId);
+    }
+  })().finally(() => {
+    flushing = null;
+  });
+  return flushing;
+};
+
+/** Submits a finished run, or queues it until the device is back online. */
+export const submitRun = async (gameId: GameId, run: GameRun): Promise<SubmissionResponse | null> => {
+  const player = getCurrentProfile();
+  const submission: LeaderboardSubmission = {
+    playerId: player.id,
+    playerName: player.name,
+    score: run.score,
+    level: run.level,
+    durationMs: Math.round(run.durationMs),
+    playedAt: run.playedAt,
+  };
+  const pending: PendingSubmission = { runId: run.id, gameId, submission };
+  if (!navigator.onLine) {
+    queueSubmission(pending);
+    return null;
+  }
+  const result = await postSubmission(gameId, submission);
+  if (!result.ok) {
+    if (result.retry) {
+      queueSubmission(pending);
+    }
+    return null;
+  }
+  if (pendingSubmissionStore.read().length > 0) {
+    void flushPendingSubmissions();
+  }
+  return result.response;
+};
+
+export const fetchLeaderboard = async (
+  gameId: GameId,
+  { window, page = 1, pageSize = 20 }: { window: LeaderboardWindow; page?: number; pageSize?: number },
+): Promise<LeaderboardResponse> => {
+  const params = new URLSearchParams({
+    window,
+    page: `${page}`,
+    pageSize: `${pageSize}`,
+    player: getCurrentProfile().id,
+  });
+  const response = await fetch(`${endpoint(gameId)}?${params.toString()}`);
+  if (!response.ok) {
+    throw new Error(`Leaderboard request failed (${response.status})`);
+  }
+  return (await response.json()) as LeaderboardResponse;
+};
@@ -0,0 +1,43 @@
+import type { LeaderboardStore } from "@/lib/leaderboards/store";
+import { rankEntries } from "@/lib/leaderboards/ranking";
+import type { LeaderboardEntry } from "@/lib/leaderboards/types";
+import { createJsonFile } from "@/lib/server/json-file";
+
+type LeaderboardDocument = {
+  entries: LeaderboardEntry[];
+};
+
+export const createJsonFileLeaderboardStore = (filePath: string): LeaderboardStore => {
+  const file = createJsonFile<LeaderboardDocument>(filePath, () => ({ entries: [] }));
+
+  return {
+    addEntry: (entry) =>
+      file.update((current) => ({
+        data: { entries: [...current.entries, entry] },
+        result: undefined,
+      })),
+    listEntries: async (query, page, pageSize) => {
+      const ranked = rankEntries((await file.read()).entries, query);
+      const start = (page - 1) * pageSize;
+      return {
+        entries: ranked.slice(start, start + pageSize),
+        total: ranked.length,
+        page,
+        pageSize,
+      };
+    },
+    findRank: async (query, playerId) => {
+      const ranked = rankEntries((await file.read()).entries, query);
+      return ranked.find((entry) => entry.playerId === playerId) ?? null;
+    },
+    reassignPlayer: (fromPlayerId, playerId, playerName) =>
+      file.update((current) => ({
+        data: {
+          entries: current.entries.map((entry) =>
+            entry.playerId === fromPlayerId ? { ...entry, playerId, playerName } : entry,
+          ),
+        },
+        result: undefined,
+      })),
+  };
+};
@@ -0,0 +1,22 @@
+import type { GameId } from "@/games/registry";
+import type { LeaderboardSubmission } from "@/lib/leaderboards/types";
+import { createPersistedStore } from "@/lib/storage";
+
+export type PendingSubmission = {
+  runId: string;
+  gameId: GameId;
+  submission: LeaderboardSubmission;
+};
+
+/** Runs that could not reach the leaderboards yet, oldest first. */
+export const pendingSubmissionStore = createPersistedStore<PendingSubmission[]>({
+  key: "mmgames:pending-submissions",
+  version: 1,
+  initial: () => [],
+});
+
+export const queueSubmission = (pending: PendingSubmission) =>
+  pendingSubmissionStore.update((queue) => [...queue.filter((entry) => entry.runId !== pending.runId), pending]);
+
+export const dropSubmission = (runId: string) =>
+  pendingSubmissionStore.update((queue) => queue.filter((entry) => entry.runId !== runId));
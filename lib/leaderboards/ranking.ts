@@ -0,0 +1,32 @@
+import type { LeaderboardEntry, LeaderboardQuery, RankedEntry } from "@/lib/leaderboards/types";
+
+export const matchesWindow = (entry: LeaderboardEntry, query: LeaderboardQuery) => {
+  if (entry.gameId !== query.gameId || (query.playerIds && !query.playerIds.includes(entry.playerId))) {
+    return false;
+  }
+  if (query.window === "daily") {
+    return entry.dateKey === query.dateKey && !entry.offDaily;
+  }
+  if (query.window === "weekly") {
+    return entry.weekKey === query.weekKey;
+  }
+  return true;
+};
+
+/** Keeps each player's best entry, ordered by score with earlier submissions winning ties. */
+export const rankEntries = (entries: LeaderboardEntry[], query: LeaderboardQuery): RankedEntry[] => {
+  const bestByPlayer = new Map<string, LeaderboardEntry>();
+  entries.forEach((entry) => {
+    if (!matchesWindow(entry, query)) {
+      return;
+    }
+    const current = bestByPlayer.get(entry.playerId);
+    if (!current || entry.score > current.score) {
+      bestByPlayer.set(entry.playerId, entry);
+    }
+  });
+
+  return Array.from(bestByPlayer.values())
+    .sort((left, right) => right.score - left.score || left.submittedAt.localeCompare(right.submittedAt))
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+};
@@ -0,0 +1,25 @@
+import { createJsonFileLeaderboardStore } from "@/lib/leaderboards/json-file-store";
+import type { LeaderboardEntry, LeaderboardPage, LeaderboardQuery, RankedEntry } from "@/lib/leaderboards/types";
+import { getDataPath } from "@/lib/server/json-file";
+
+/**
+ * Storage adapter behind the leaderboard routes. Implementations only need to
+ * persist raw entries; ranking rules live in `ranking.ts` so every adapter
+ * orders boards the same way.
+ */
+export type LeaderboardStore = {
+  addEntry: (entry: LeaderboardEntry) => Promise<void>;
+  listEntries: (query: LeaderboardQuery, page: number, pageSize: number) => Promise<LeaderboardPage>;
+  findRank: (query: LeaderboardQuery, playerId: string) => Promise<RankedEntry | null>;
+  /** Moves a guest's entries to the account it was merged into. */
+  reassignPlayer: (fromPlayerId: string, playerId: string, playerName: string) => Promise<void>;
+};
+
+let store: LeaderboardStore | null = null;
+
+export const getLeaderboardStore = () => {
+  if (!store) {
+    store = createJsonFileLeaderboardStore(getDataPath("leaderboards.json"));
+  }
+  return store;
+};
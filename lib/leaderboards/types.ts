@@ -0,0 +1,50 @@
+import type { GameId } from "@/games/registry";
+
+export type LeaderboardWindow = "daily" | "weekly" | "all-time";
+
+export type LeaderboardEntry = {
+  id: string;
+  gameId: GameId;
+  playerId: string;
+  playerName: string;
+  score: number;
+  level: number | null;
+  durationMs: number;
+  submittedAt: string;
+  dateKey: string;
+  weekKey: string;
+  /** Set when the run arrived after its day's daily board closed; it still counts toward the weekly and all-time boards. */
+  offDaily?: boolean;
+};
+
+export type RankedEntry = LeaderboardEntry & {
+  rank: number;
+};
+
+export type LeaderboardQuery = {
+  gameId: GameId;
+  window: LeaderboardWindow;
+  dateKey: string;
+  weekKey: string;
+  /** Limits the board to these players, as a league's board does. */
+  playerIds?: string[];
+};
+
+export type LeaderboardPage = {
+  entries: RankedEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+export type LeaderboardSubmission = {
+  playerId: string;
+  playerName: string;
+  score: number;
+  level: number | null;
+  durationMs: number;
+  /** When the run finished; runs queued offline count toward the day they were played. */
+  playedAt?: string;
+};
+
+export const LEADERBOARD_WINDOWS: LeaderboardWindow[] = ["daily", "weekly", "all-time"];
@@ -0,0 +1,106 @@
+import type { LeaderboardSubmission, LeaderboardWindow } from "@/lib/leaderboards/types";
+import { LEADERBOARD_WINDOWS } from "@/lib/leaderboards/types";
+import { getArcadeDate, getScheduleConfig } from "@/lib/schedule";
+
+export const MAX_SCORE = 10_000_000;
+const MAX_DURATION_MS = 24 * 60 * 60 * 1000;
+const MAX_NAME_LENGTH = 24;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+/** How long after a day closes a run played offline on it can still be posted to its daily board. */
+const LATE_SUBMISSION_MS = 60 * 60 * 1000;
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+export const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null;
+
+export const isWholeNumber = (value: unknown, max: number): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= max;
+
+export const isPastTimestamp = (value: unknown): value is string =>
+  typeof value === "string" && Date.parse(value) <= Date.now() + MAX_CLOCK_SKEW_MS;
+
+/**
+ * Whether a run still counts toward the daily board of the day it was played:
+ * the current arcade day, or the one before it for a short while after it closes.
+ */
+export const isDailyBoardOpen = (playedAt: string) => {
+  const config = getScheduleConfig();
+  const playedOn = getArcadeDate(new Date(playedAt), config).dateKey;
+  return (
+    playedOn === getArcadeDate(new Date(), config).dateKey ||
+    playedOn === getArcadeDate(new Date(Date.now() - LATE_SUBMISSION_MS), config).dateKey
+  );
+};
+
+export type PlayerFields = Pick<LeaderboardSubmission, "playerId" | "playerName">;
+
+/** Reads the player every write route is called for; the name is trimmed to fit the boards. */
+export const parsePlayer = (body: unknown): ValidationResult<PlayerFields> => {
+  if (!isRecord(body)) {
+    return { ok: false, error: "Expected a JSON object" };
+  }
+  const { playerId, playerName } = body;
+  if (typeof playerId !== "string" || playerId.length === 0 || playerId.length > 64) {
+    return { ok: false, error: "playerId is required" };
+  }
+  if (typeof playerName !== "string" || playerName.trim().length === 0) {
+    return { ok: false, error: "playerName is required" };
+  }
+  return { ok: true, value: { playerId, playerName: playerName.trim().slice(0, MAX_NAME_LENGTH) } };
+};
+
+export const parseSubmission = (body: unknown): ValidationResult<LeaderboardSubmission> => {
+  const player = parsePlayer(body);
+  if (!player.ok) {
+    return player;
+  }
+  const { score, level = null, durationMs, playedAt } = body as Record<string, unknown>;
+  if (!isWholeNumber(score, MAX_SCORE)) {
+    return { ok: false, error: "score must be a whole number" };
+  }
+  if (level !== null && !isWholeNumber(level, 10_000)) {
+    return { ok: false, error: "level must be a whole number or null" };
+  }
+  if (!isWholeNumber(durationMs, MAX_DURATION_MS)) {
+    return { ok: false, error: "durationMs must be a whole number" };
+  }
+  if (playedAt !== undefined && !isPastTimestamp(playedAt)) {
+    return { ok: false, error: "playedAt must be a timestamp that is not in the future" };
+  }
+  return {
+    ok: true,
+    value: {
+      ...player.value,
+      score,
+      level,
+      durationMs,
+      playedAt,
+    },
+  };
+};
+
+export type BoardParams = {
+  window: LeaderboardWindow;
+  page: number;
+  pageSize: number;
+  playerId: string | null;
+};
+
+export const parseBoardParams = (searchParams: URLSearchParams): ValidationResult<BoardParams> => {
+  const windowParam = searchParams.get("window") ?? "daily";
+  const window = LEADERBOARD_WINDOWS.find((candidate) => candidate === windowParam);
+  if (!window) {
+    return { ok: false, error: `window must be one of ${LEADERBOARD_WINDOWS.join(", ")}` };
+  }
+  const page = Math.max(1, Number.parseInt(searchParams.get("page") ?? "1", 10) || 1);
+  const pageSize = Math.min(
+    MAX_PAGE_SIZE,
+    Math.max(1, Number.parseInt(searchParams.get("pageSize") ?? `${DEFAULT_PAGE_SIZE}`, 10) || DEFAULT_PAGE_SIZE),
+  );
+  return {
+    ok: true,
+    value: { window, page, pageSize, playerId: searchParams.get("player") },
+  };
+};
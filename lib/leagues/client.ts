@@ -0,0 +1,80 @@
+import type { GameId } from "@/games/registry";
+import type { League, LeagueBoard, LeagueDetails, LeagueSummary, LeagueWindow } from "@/lib/leagues/types";
+import { ensurePlayerAuthorization } from "@/lib/accounts/client";
+import { getCurrentProfile } from "@/lib/player";
+
+const ENDPOINT = "/api/leagues";
+
+export type LeagueJoinOutcome = { ok: true; league: League } | { ok: false; reason: "unknown-code" | "full" | "throttled" | "failed" };
+
+const readJson = async <T>(response: Response): Promise<T> => {
+  if (!response.ok) {
+    throw new Error(`League request failed (${response.status})`);
+  }
+  return (await response.json()) as T;
+};
+
+/** Sends a league request with the current profile's credential, which every league route requires. */
+const send = async (url: string, init: RequestInit = {}) => {
+  const authorization = await ensurePlayerAuthorization();
+  return fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...(authorization ? { Authorization: authorization } : {}) },
+  });
+};
+
+const post = (url: string, body: Record<string, unknown>) => {
+  const { id, name } = getCurrentProfile();
+  return send(url, { method: "POST", body: JSON.stringify({ ...body, playerId: id, playerName: name }) });
+};
+
+export const fetchMyLeagues = async () => {
+  const { leagues } = await readJson<{ leagues: LeagueSummary[] }>(await send(ENDPOINT));
+  return leagues;
+};
+
+export const createLeague = async (name: string) => {
+  const { league } = await readJson<{ league: League }>(await post(ENDPOINT, { name }));
+  return league;
+};
+
+export const joinLeague = async (code: string): Promise<LeagueJoinOutcome> => {
+  try {
+    const response = await post(`${ENDPOINT}/join`, { code });
+    if (response.status === 404) {
+      return { ok: false, reason: "unknown-code" };
+    }
+    if (response.status === 409) {
+      return { ok: false, reason: "full" };
+    }
+    if (response.status === 429) {
+      return { ok: false, reason: "throttled" };
+    }
+    const { league } = await readJson<{ league: League }>(response);
+    return { ok: true, league };
+  } catch {
+    return { ok: false, reason: "failed" };
+  }
+};
+
+export const leaveLeague = async (leagueId: string) => {
+  const params = new URLSearchParams({ player: getCurrentProfile().id });
+  const response = await send(`${ENDPOINT}/${leagueId}/members?${params}`, { method: "DELETE" });
+  if (!response.ok) {
+    throw new Error(`League request failed (${response.status})`);
+  }
+};
+
+/** Returns null when the league does not exist or this player is not in it. */
+export const fetchLeague = async (leagueId: string) => {
+  const response = await send(`${ENDPOINT}/${leagueId}`);
+  if (response.status === 403 || response.status === 404) {
+    return null;
+  }
+  return readJson<LeagueDetails>(response);
+};
+
+export const fetchLeagueBoard = async (leagueId: string, gameId: GameId, window: LeagueWindow) => {
+  const params = new URLSearchParams({ window });
+  return readJson<LeagueBoard>(await send(`${ENDPOINT}/${leagueId}/boards/${gameId}?${params}`));
+};
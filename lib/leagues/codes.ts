@@ -0,0 +1,19 @@
+// No 0/O or 1/I, so a code read aloud or copied by hand still matches.
+const ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 6;
+const CODE = new RegExp(`^[${ALPHABET}]{${CODE_LENGTH}}$`);
+
+export const JOIN_ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+
+/** Join attempts allowed per player, and per address, in each window, so codes cannot be guessed. */
+export const MAX_JOINS_PER_PLAYER = 10;
+export const MAX_JOINS_PER_ADDRESS = 20;
+
+export const createJoinCode = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(CODE_LENGTH)), (byte) => ALPHABET[byte % ALPHABET.length]).join("");
+
+/** Accepts codes typed in lower case or with spaces and dashes; returns null for anything else. */
+export const normalizeJoinCode = (value: string) => {
+  const code = value.toUpperCase().replace(/[\s-]/g, "");
+  return CODE.test(code) ? code : null;
+};
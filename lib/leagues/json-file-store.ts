@@ -0,0 +1,69 @@
+import type { LeagueStore } from "@/lib/leagues/store";
+import type { League, LeagueMember } from "@/lib/leagues/types";
+import { MAX_LEAGUE_MEMBERS } from "@/lib/leagues/types";
+import { createJsonFile } from "@/lib/server/json-file";
+
+type LeagueDocument = {
+  leagues: League[];
+  members: LeagueMember[];
+};
+
+export const createJsonFileLeagueStore = (filePath: string): LeagueStore => {
+  const file = createJsonFile<LeagueDocument>(filePath, () => ({ leagues: [], members: [] }));
+
+  return {
+    createLeague: (league, owner) =>
+      file.update((current) => {
+        if (current.leagues.some(({ code }) => code === league.code)) {
+          return { data: current, result: false };
+        }
+        return { data: { leagues: [...current.leagues, league], members: [...current.members, owner] }, result: true };
+      }),
+    findLeague: async (leagueId) => (await file.read()).leagues.find(({ id }) => id === leagueId) ?? null,
+    findLeagueByCode: async (code) => (await file.read()).leagues.find((league) => league.code === code) ?? null,
+    addMember: (member) =>
+      file.update((current) => {
+        const members = current.members.filter(({ leagueId }) => leagueId === member.leagueId);
+        if (members.some(({ playerId }) => playerId === member.playerId)) {
+          return { data: current, result: true };
+        }
+        if (members.length >= MAX_LEAGUE_MEMBERS) {
+          return { data: current, result: false };
+        }
+        return { data: { ...current, members: [...current.members, member] }, result: true };
+      }),
+    removeMember: (leagueId, playerId) =>
+      file.update((current) => {
+        const members = current.members.filter((member) => member.leagueId !== leagueId || member.playerId !== playerId);
+        const [successor] = members
+          .filter((member) => member.leagueId === leagueId)
+          .sort((left, right) => left.joinedAt.localeCompare(right.joinedAt));
+        const leagues = successor
+          ? current.leagues.map((league) =>
+              league.id === leagueId && league.createdBy === playerId ? { ...league, createdBy: successor.playerId } : league,
+            )
+          : current.leagues.filter(({ id }) => id !== leagueId);
+        return { data: { leagues, members }, result: undefined };
+      }),
+    listMembers: async (leagueId) => (await file.read()).members.filter((member) => member.leagueId === leagueId),
+    listLeagues: async (playerId) => {
+      const { leagues, members } = await file.read();
+      const joined = new Set(members.filter((member) => member.playerId === playerId).map(({ leagueId }) => leagueId));
+      return leagues
+        .filter(({ id }) => joined.has(id))
+        .map((league) => ({ ...league, members: members.filter(({ leagueId }) => leagueId === league.id).length }));
+    },
+    reassignPlayer: (fromPlayerId, playerId, playerName) =>
+      file.update((current) => {
+        const joined = new Set(current.members.filter((member) => member.playerId === playerId).map(({ leagueId }) => leagueId));
+        // A league the account is already in keeps the account's own membership.
+        const members = current.members
+          .filter((member) => member.playerId !== fromPlayerId || !joined.has(member.leagueId))
+          .map((member) => (member.playerId === fromPlayerId ? { ...member, playerId, playerName } : member));
+        const leagues = current.leagues.map((league) =>
+          league.createdBy === fromPlayerId ? { ...league, createdBy: playerId } : league,
+        );
+        return { data: { leagues, members }, result: undefined };
+      }),
+  };
+};
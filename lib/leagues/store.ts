@@ -0,0 +1,34 @@
+import type { League, LeagueMember, LeagueSummary } from "@/lib/leagues/types";
+import { createJsonFileLeagueStore } from "@/lib/leagues/json-file-store";
+import { getDataPath } from "@/lib/server/json-file";
+
+/**
+ * Storage adapter behind the league routes. Leagues only hold membership;
+ * their boards are the leaderboard entries of their members.
+ */
+export type LeagueStore = {
+  /** Adds the league with its creator as the first member; returns false when the code is taken. */
+  createLeague: (league: League, owner: LeagueMember) => Promise<boolean>;
+  findLeague: (leagueId: string) => Promise<League | null>;
+  findLeagueByCode: (code: string) => Promise<League | null>;
+  /** Keeps the first membership when a player joins twice; returns false once the league is full. */
+  addMember: (member: LeagueMember) => Promise<boolean>;
+  /**
+   * Removes the league along with its last member. When the owner leaves, the
+   * longest-standing remaining member takes the league over.
+   */
+  removeMember: (leagueId: string, playerId: string) => Promise<void>;
+  listMembers: (leagueId: string) => Promise<LeagueMember[]>;
+  listLeagues: (playerId: string) => Promise<LeagueSummary[]>;
+  /** Moves a guest's memberships and leagues to the account it was merged into. */
+  reassignPlayer: (fromPlayerId: string, playerId: string, playerName: string) => Promise<void>;
+};
+
+let store: LeagueStore | null = null;
+
+export const getLeagueStore = () => {
+  if (!store) {
+    store = createJsonFileLeagueStore(getDataPath("leagues.json"));
+  }
+  return store;
+};
@@ -0,0 +1,53 @@
+import type { GameId } from "@/games/registry";
+import type { LeaderboardWindow, RankedEntry } from "@/lib/leaderboards/types";
+
+export type League = {
+  id: string;
+  name: string;
+  /** What members share to invite others; six characters that are hard to misread. */
+  code: string;
+  createdBy: string;
+  createdAt: string;
+};
+
+export type LeagueMember = {
+  leagueId: string;
+  playerId: string;
+  playerName: string;
+  joinedAt: string;
+};
+
+export type LeagueSummary = League & { members: number };
+
+/** A member's standing on today's game, or null scores for members who have not played it yet. */
+export type LeagueTodayRow = {
+  playerId: string;
+  playerName: string;
+  best: number | null;
+};
+
+export type LeagueDetails = {
+  league: League;
+  members: LeagueMember[];
+  today: {
+    dayIndex: number;
+    dateKey: string;
+    gameId: GameId | null;
+    rows: LeagueTodayRow[];
+  };
+};
+
+export type LeagueWindow = Extract<LeaderboardWindow, "daily" | "weekly">;
+
+export type LeagueBoard = {
+  leagueId: string;
+  game: GameId;
+  window: LeagueWindow;
+  dateKey: string;
+  weekKey: string;
+  entries: RankedEntry[];
+};
+
+export const LEAGUE_WINDOWS: LeagueWindow[] = ["daily", "weekly"];
+
+export const MAX_LEAGUE_MEMBERS = 50;
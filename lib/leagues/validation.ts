@@ -0,0 +1,38 @@
+import type { PlayerFields, ValidationResult } from "@/lib/leaderboards/validation";
+import type { LeagueWindow } from "@/lib/leagues/types";
+import { parsePlayer } from "@/lib/leaderboards/validation";
+import { normalizeJoinCode } from "@/lib/leagues/codes";
+import { LEAGUE_WINDOWS } from "@/lib/leagues/types";
+
+const MAX_LEAGUE_NAME_LENGTH = 32;
+
+export const parseNewLeague = (body: unknown): ValidationResult<PlayerFields & { name: string }> => {
+  const player = parsePlayer(body);
+  if (!player.ok) {
+    return player;
+  }
+  const { name } = body as Record<string, unknown>;
+  if (typeof name !== "string" || name.trim().length === 0) {
+    return { ok: false, error: "name is required" };
+  }
+  return { ok: true, value: { ...player.value, name: name.trim().slice(0, MAX_LEAGUE_NAME_LENGTH) } };
+};
+
+export const parseJoinRequest = (body: unknown): ValidationResult<PlayerFields & { code: string }> => {
+  const player = parsePlayer(body);
+  if (!player.ok) {
+    return player;
+  }
+  const { code } = body as Record<string, unknown>;
+  const normalized = typeof code === "string" ? normalizeJoinCode(code) : null;
+  if (!normalized) {
+    return { ok: false, error: "code must be a six-character join code" };
+  }
+  return { ok: true, value: { ...player.value, code: normalized } };
+};
+
+export const parseLeagueWindow = (searchParams: URLSearchParams): ValidationResult<LeagueWindow> => {
+  const windowParam = searchParams.get("window") ?? "daily";
+  const window = LEAGUE_WINDOWS.find((candidate) => candidate === windowParam);
+  return window ? { ok: true, value: window } : { ok: false, error: `window must be one of ${LEAGUE_WINDOWS.join(", ")}` };
+};
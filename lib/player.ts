@@ -0,0 +1,91 @@
+import type { Account } from "@/lib/accounts/types";
+import { createId } from "@/lib/ids";
+import { createPersistedStore } from "@/lib/storage";
+
+export type PlayerProfile = {
+  id: string;
+  name: string;
+  avatar: string;
+};
+
+/** The account this device is signed in to, and the token its account requests carry. */
+export type AccountSession = {
+  token: string;
+  account: Account;
+};
+
+/** The secret the server issued for this device's guest id, which proves the id is this device's. */
+export type GuestCredential = {
+  guestId: string;
+  secret: string;
+};
+
+export const AVATARS = ["🙂", "😎", "🤖", "👾", "🦊", "🐙", "🐸", "🦄", "🐼", "🐯", "🌵", "🍄", "🔥", "⭐", "🌙", "🎲"];
+
+export const MAX_PLAYER_NAME_LENGTH = 24;
+
+const pickAvatar = (id: string) => AVATARS[[...id].reduce((total, char) => total + char.charCodeAt(0), 0) % AVATARS.length];
+
+const createGuest = (): PlayerProfile => {
+  const id = createId();
+  return { id, name: `Guest ${id.replace(/-/g, "").slice(0, 4).toUpperCase()}`, avatar: pickAvatar(id) };
+};
+
+export const playerStore = createPersistedStore<PlayerProfile | null>({
+  key: "mmgames:player",
+  version: 2,
+  initial: () => null,
+  migrations: {
+    2: (data) => {
+      const guest = data as Omit<PlayerProfile, "avatar"> | null;
+      return guest && { ...guest, avatar: pickAvatar(guest.id) };
+    },
+  },
+});
+
+export const accountSessionStore = createPersistedStore<AccountSession | null>({
+  key: "mmgames:account",
+  version: 1,
+  initial: () => null,
+});
+
+export const guestCredentialStore = createPersistedStore<GuestCredential | null>({
+  key: "mmgames:guest-credential",
+  version: 1,
+  initial: () => null,
+});
+
+/** Returns this device's guest profile, creating it on first use. It outlives signing in, for signing out again. */
+export const getGuestProfile = (): PlayerProfile => {
+  const existing = playerStore.read();
+  if (existing) {
+    return existing;
+  }
+  const guest = createGuest();
+  playerStore.write(guest);
+  return guest;
+};
+
+export const toProfile = ({ id, displayName, avatar }: Account): PlayerProfile => ({ id, name: displayName, avatar });
+
+/** The profile runs are submitted under: the signed-in account, or else this device's guest. */
+export const getCurrentProfile = (): PlayerProfile => {
+  const session = accountSessionStore.read();
+  return session ? toProfile(session.account) : getGuestProfile();
+};
+
+export const updateGuestProfile = (patch: Partial<Pick<PlayerProfile, "name" | "avatar">>) =>
+  playerStore.write({ ...getGuestProfile(), ...patch });
+
+/** The `Authorization` header that proves the current profile is this device's, once it has a credential. */
+export const getPlayerAuthorization = (): string | null => {
+  const session = accountSessionStore.read();
+  if (session) {
+    return `Bearer ${session.token}`;
+  }
+  const credential = guestCredentialStore.read();
+  return credential?.guestId === getGuestProfile().id ? `Guest ${credential.guestId}:${credential.secret}` : null;
+};
+
+/** Moves the guest to a fresh id, keeping its name and avatar. */
+export const renewGuestId = () => playerStore.write({ ...getGuestProfile(), id: createId() });
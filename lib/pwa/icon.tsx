@@ -0,0 +1,25 @@
+import { ImageResponse } from "next/og";
+
+/** The app icon: the wordmark centred well inside the maskable safe zone. */
+export const renderAppIcon = (size: number) =>
+  new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          background: "radial-gradient(120% 140% at 50% -20%, #0e7490, #0f172a 55%, #030712 100%)",
+          color: "#f8fafc",
+          fontSize: size * 0.34,
+          fontWeight: 700,
+          letterSpacing: -size * 0.02,
+        }}
+      >
+        MM
+      </div>
+    ),
+    { width: size, height: size },
+  );
@@ -0,0 +1,140 @@
+import { getGameForDay, isGamePlayable } from "@/games/registry";
+import { DAYS } from "@/lib/schedule";
+
+/** Pages the worker stores on install, so every unlocked day plays offline. */
+export const PRECACHE_ROUTES = [
+  "/",
+  ...DAYS.filter((day) => isGamePlayable(getGameForDay(day.id))).map((day) => `/games/${day.id}`),
+];
+
+const PRECACHE_FILES = ["/manifest.webmanifest", "/icon/192", "/icon/512", "/apple-icon", "/favicon.ico"];
+
+/**
+ * Source of `/sw.js`. The build id changes on every deploy, which is what
+ * makes the browser install the new worker and the app offer to update.
+ */
+export const renderServiceWorker = (buildId: string) => `
+const CACHE = ${JSON.stringify(`mmgames-${buildId}`)};
+const PRECACHE_ROUTES = ${JSON.stringify(PRECACHE_ROUTES)};
+const PRECACHE_FILES = ${JSON.stringify(PRECACHE_FILES)};
+// Build assets referenced by a page, including the chunks named in its RSC payload.
+const STATIC_ASSET = /\\/_next\\/static\\/[^"'\\\\\\s)]+/g;
+
+// Locked days redirect home; they are skipped here and picked up once unlocked.
+const cacheRoutes = async (routes) => {
+  const cache = await caches.open(CACHE);
+  const assets = new Set();
+  await Promise.all(
+    routes.map(async (route) => {
+      const response = await fetch(route, { cache: "no-store" });
+      if (!response.ok || response.redirected) {
+        return;
+      }
+      await cache.put(route, response.clone());
+      (await response.text()).match(STATIC_ASSET)?.forEach((asset) => assets.add(asset));
+    }),
+  );
+  await Promise.allSettled([...assets].map((asset) => cache.add(asset)));
+};
+
+const cacheMissingRoutes = async () => {
+  const cache = await caches.open(CACHE);
+  const cached = await Promise.all(PRECACHE_ROUTES.map((route) => cache.match(route)));
+  const missing = PRECACHE_ROUTES.filter((_, index) => !cached[index]);
+  if (missing.length > 0) {
+    await cacheRoutes(missing);
+  }
+};
+
+const precache = async () => {
+  const cache = await caches.open(CACHE);
+  await Promise.allSettled(PRECACHE_FILES.map((file) => cache.add(file)));
+  await cacheRoutes(PRECACHE_ROUTES);
+};
+
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) {
+    return cached;
+  }
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+// Pages are rendered per day, so prefer a fresh copy and fall back to the last one seen.
+const networkFirst = async (request, key) => {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(key, response.clone());
+    }
+    return response;
+  } catch {
+    return (await cache.match(key)) ?? (await cache.match("/")) ?? Response.error();
+  }
+};
+
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  const refresh = fetch(request)
+    .then(async (response) => {
+      if (response.ok) {
+        await cache.put(request, response.clone());
+      }
+      return response;
+    })
+    .catch(() => cached ?? Response.error());
+  return cached ?? refresh;
+};
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precache());
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const keys = await caches.keys();
+      await Promise.all(keys.filter((key) => key.startsWith("mmgames-") && key !== CACHE).map((key) => caches.delete(key)));
+      await self.clients.claim();
+    })(),
+  );
+});
+
+// The page asks a waiting worker to take over once the player accepts the update.
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "SKIP_WAITING") {
+    self.skipWaiting();
+  }
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin || url.pathname.startsWith("/api/")) {
+    return;
+  }
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request, url.pathname));
+    if (url.pathname === "/") {
+      event.waitUntil(cacheMissingRoutes().catch(() => undefined));
+    }
+    return;
+  }
+  // Offline client-side navigations fail over to full page loads, which the cache serves.
+  if (request.headers.has("RSC")) {
+    return;
+  }
+  event.respondWith(staleWhileRevalidate(request));
+});
+`;
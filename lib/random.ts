@@ -0,0 +1,73 @@
+export type Rng = {
+  /** Uniform float in [0, 1). */
+  next: () => number;
+  /** Uniform integer in [0, max). */
+  int: (max: number) => number;
+  /** Uniform float in [min, max). */
+  range: (min: number, max: number) => number;
+  chance: (probability: number) => boolean;
+  pick: <T>(items: readonly T[]) => T;
+  shuffle: <T>(items: readonly T[]) => T[];
+  /** Short base-36 token for element ids. */
+  token: (length?: number) => string;
+  /** Current generator state; pass it to `restoreRng` to continue the sequence. */
+  state: () => number;
+};
+
+/** Hashes any string into a 32-bit seed (cyrb53, truncated). */
+export const hashSeed = (input: string) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let index = 0; index < input.length; index += 1) {
+    const code = input.charCodeAt(index);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (h1 ^ h2) >>> 0;
+};
+
+/** Mulberry32: tiny, fast and good enough for gameplay randomness. */
+export const restoreRng = (initialState: number): Rng => {
+  let current = initialState >>> 0;
+
+  const next = () => {
+    current = (current + 0x6d2b79f5) >>> 0;
+    let t = current;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const int = (max: number) => Math.floor(next() * max);
+
+  return {
+    next,
+    int,
+    range: (min, max) => next() * (max - min) + min,
+    chance: (probability) => next() < probability,
+    pick: (items) => items[int(items.length)],
+    shuffle: (items) => {
+      const copy = [...items];
+      for (let index = copy.length - 1; index > 0; index -= 1) {
+        const swapIndex = int(index + 1);
+        [copy[index], copy[swapIndex]] = [copy[swapIndex], copy[index]];
+      }
+      return copy;
+    },
+    token: (length = 5) => {
+      let value = "";
+      while (value.length < length) {
+        value += int(36).toString(36);
+      }
+      return value;
+    },
+    state: () => current,
+  };
+};
+
+export const createRng = (seed: string | number) => restoreRng(typeof seed === "number" ? seed : hashSeed(seed));
+
+/** Everyone playing a game on the same arcade day shares this seed. */
+export const getDailySeed = (gameId: string, dateKey: string) => `${dateKey}:${gameId}`;
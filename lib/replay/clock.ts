@@ -0,0 +1,117 @@
+/** Length of one simulation frame. Every game advances in these fixed steps. */
+export const FRAME_MS = 1000 / 60;
+
+export type GameClock = {
+  /** Milliseconds of game time since the clock was created. */
+  now: () => number;
+  /** Number of frames stepped so far. */
+  frame: () => number;
+  setTimeout: (callback: () => void, delay: number) => number;
+  clearTimeout: (id: number | null | undefined) => void;
+  setInterval: (callback: () => void, delay: number) => number;
+  clearInterval: (id: number | null | undefined) => void;
+  requestFrame: (callback: (time: number) => void) => number;
+  cancelFrame: (id: number | null | undefined) => void;
+  /** Advances one frame: due timers fire first, then frame callbacks. */
+  step: () => void;
+};
+
+export type GameClockOptions = {
+  /** Wraps every callback, e.g. to commit React updates before the next one runs. */
+  batch?: (work: () => void) => void;
+};
+
+type Timer = {
+  dueFrame: number;
+  everyFrames: number | null;
+  callback: () => void;
+};
+
+const toFrames = (delay: number) => Math.max(1, Math.ceil(delay / FRAME_MS - 1e-6));
+
+/**
+ * A virtual clock that games use instead of `window` timers and
+ * `requestAnimationFrame`. Time only moves when `step` is called, so a live
+ * session (stepped from animation frames) and a replay (stepped as fast as it
+ * likes) see exactly the same sequence of callbacks.
+ */
+export const createGameClock = ({ batch = (work) => work() }: GameClockOptions = {}): GameClock => {
+  let frame = 0;
+  let nextId = 1;
+  const timers = new Map<number, Timer>();
+  const frameCallbacks = new Map<number, (time: number) => void>();
+
+  const now = () => frame * FRAME_MS;
+
+  const addTimer = (callback: () => void, delay: number, repeat: boolean) => {
+    const id = nextId;
+    nextId += 1;
+    const frames = toFrames(delay);
+    timers.set(id, { dueFrame: frame + frames, everyFrames: repeat ? frames : null, callback });
+    return id;
+  };
+
+  const removeTimer = (id: number | null | undefined) => {
+    if (id !== null && id !== undefined) {
+      timers.delete(id);
+    }
+  };
+
+  const nextDueTimer = () => {
+    let found: [number, Timer] | null = null;
+    timers.forEach((timer, id) => {
+      if (timer.dueFrame > frame) {
+        return;
+      }
+      if (!found || timer.dueFrame < found[1].dueFrame || (timer.dueFrame === found[1].dueFrame && id < found[0])) {
+        found = [id, timer];
+      }
+    });
+    return found as [number, Timer] | null;
+  };
+
+  const step = () => {
+    frame += 1;
+
+    for (let due = nextDueTimer(); due; due = nextDueTimer()) {
+      const [id, timer] = due;
+      if (timer.everyFrames === null) {
+        timers.delete(id);
+      } else {
+        timer.dueFrame += timer.everyFrames;
+      }
+      batch(timer.callback);
+    }
+
+    // callbacks requested during this frame wait for the next one
+    Array.from(frameCallbacks.keys()).forEach((id) => {
+      const callback = frameCallbacks.get(id);
+      if (!callback) {
+        return;
+      }
+      frameCallbacks.delete(id);
+      batch(() => callback(now()));
+    });
+  };
+
+  return {
+    now,
+    frame: () => frame,
+    setTimeout: (callback, delay) => addTimer(callback, delay, false),
+    clearTimeout: removeTimer,
+    setInterval: (callback, delay) => addTimer(callback, delay, true),
+    clearInterval: removeTimer,
+    requestFrame: (callback) => {
+      const id = nextId;
+      nextId += 1;
+      frameCallbacks.set(id, callback);
+      return id;
+    },
+    cancelFrame: (id) => {
+      if (id !== null && id !== undefined) {
+        frameCallbacks.delete(id);
+      }
+    },
+    step,
+  };
+};
@@ -0,0 +1,33 @@
+export type PauseState = {
+  isPaused: () => boolean;
+  setPaused: (paused: boolean) => void;
+  subscribe: (listener: () => void) => () => void;
+};
+
+/**
+ * Whether a live session's clock is held. While paused the session stops
+ * stepping frames, so every timer and deadline resumes with exactly the time
+ * it had left and recordings never see the pause. The pause overlay and the
+ * input layer keep new presses away from the game meanwhile.
+ */
+export const createPauseState = (): PauseState => {
+  const listeners = new Set<() => void>();
+  let paused = false;
+
+  return {
+    isPaused: () => paused,
+    setPaused: (next) => {
+      if (next === paused) {
+        return;
+      }
+      paused = next;
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
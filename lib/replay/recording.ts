@@ -0,0 +1,91 @@
+import type { GameId } from "@/games/registry";
+import type { GameClock } from "@/lib/replay/clock";
+import { FRAME_MS } from "@/lib/replay/clock";
+import { createPersistedStore } from "@/lib/storage";
+
+/** A game input stamped with the frame it was applied after, relative to the run start. */
+export type RecordedInput<T = unknown> = [frame: number, input: T];
+
+export type RunRecording<T = unknown> = {
+  runId: string;
+  gameId: GameId;
+  seed: string;
+  recordedAt: string;
+  score: number;
+  frames: number;
+  inputs: RecordedInput<T>[];
+};
+
+export type RecordingLog = Pick<RunRecording, "frames" | "inputs">;
+
+export type InputRecorder = {
+  /** Starts a new log. Inputs applied earlier in the same frame (the one that started the run) are kept. */
+  begin: () => void;
+  record: (input: unknown) => void;
+  /** Closes the log; returns null if no run was being recorded. */
+  finish: () => RecordingLog | null;
+};
+
+export const MAX_RECORDINGS_PER_GAME = 10;
+
+export const createInputRecorder = (clock: GameClock): InputRecorder => {
+  let startFrame: number | null = null;
+  let inputs: RecordedInput[] = [];
+  let pendingFrame = -1;
+  let pending: unknown[] = [];
+
+  return {
+    begin: () => {
+      startFrame = clock.frame();
+      inputs = pendingFrame === startFrame ? pending.map((input): RecordedInput => [0, input]) : [];
+    },
+    record: (input) => {
+      const frame = clock.frame();
+      if (pendingFrame !== frame) {
+        pendingFrame = frame;
+        pending = [];
+      }
+      pending.push(input);
+      if (startFrame !== null) {
+        inputs.push([frame - startFrame, input]);
+      }
+    },
+    finish: () => {
+      if (startFrame === null) {
+        return null;
+      }
+      const log = { frames: clock.frame() - startFrame, inputs };
+      startFrame = null;
+      inputs = [];
+      return log;
+    },
+  };
+};
+
+type RecordingArchive = Partial<Record<GameId, RunRecording[]>>;
+
+export const recordingStore = createPersistedStore<RecordingArchive>({
+  key: "mmgames:recordings",
+  version: 1,
+  initial: () => ({}),
+});
+
+export const saveRecording = (recording: RunRecording) => {
+  recordingStore.update((archive) => ({
+    ...archive,
+    [recording.gameId]: [recording, ...(archive[recording.gameId] ?? [])].slice(0, MAX_RECORDINGS_PER_GAME),
+  }));
+};
+
+export const findRecording = (archive: RecordingArchive, runId: string) =>
+  Object.values(archive)
+    .flat()
+    .find((recording) => recording?.runId === runId) ?? null;
+
+/** Formats a frame count as m:ss of game time. */
+export const formatFrames = (frames: number) => {
+  const totalSeconds = Math.floor((frames * FRAME_MS) / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
@@ -0,0 +1,229 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { createContext, useCallback, useContext, useEffect, useLayoutEffect, useRef, useState } from "react";
+import { flushSync } from "react-dom";
+import type { GameId } from "@/games/registry";
+import type { AchievementTracker } from "@/lib/achievements/tracker";
+import type { Challenge } from "@/lib/challenges/challenge";
+import type { GameClock } from "@/lib/replay/clock";
+import type { PauseState } from "@/lib/replay/pause";
+import type { InputRecorder, RunRecording } from "@/lib/replay/recording";
+import type { ScheduleConfig } from "@/lib/schedule";
+import type { TournamentRun } from "@/lib/tournament/types";
+import { createAchievementTracker } from "@/lib/achievements/tracker";
+import { FRAME_MS, createGameClock } from "@/lib/replay/clock";
+import { createPauseState } from "@/lib/replay/pause";
+import { createInputRecorder } from "@/lib/replay/recording";
+
+export type GameSessionMode = "live" | "replay";
+
+export type GameSession = {
+  mode: GameSessionMode;
+  gameId: GameId;
+  seed: string;
+  clock: GameClock;
+  /** Replays never pause; the viewer simply stops stepping them. */
+  pause: PauseState;
+  /** Only live sessions record. */
+  recorder: InputRecorder | null;
+  /** Only live sessions award achievements. */
+  achievements: AchievementTracker | null;
+  /** Set by the mounted game; replays feed recorded inputs through it. */
+  inputHandler: ((input: unknown) => void) | null;
+  /** Called instead of saving the run when a replayed run finishes. */
+  onReplayFinish: ((score: number) => void) | null;
+  /** Set when the session plays a friend's challenge link instead of the daily seed. */
+  challenge: Challenge | null;
+  /** Set for the daily game, so finished runs count toward the streak of the arcade day they end on. */
+  schedule: ScheduleConfig | null;
+  /** The claimed tournament attempt that the session's first finished run is sent to. */
+  tournament: TournamentRun | null;
+};
+
+type GameSessionOptions = {
+  mode: GameSessionMode;
+  gameId: GameId;
+  seed: string;
+  onReplayFinish?: (score: number) => void;
+  challenge?: Challenge | null;
+  schedule?: ScheduleConfig | null;
+  tournament?: TournamentRun | null;
+};
+
+// Never step more than this much wall time in one animation frame (e.g. after a background tab).
+const MAX_CATCH_UP_MS = 250;
+
+const commit = (work: () => void) => flushSync(work);
+
+export const createGameSession = ({
+  mode,
+  gameId,
+  seed,
+  onReplayFinish,
+  challenge = null,
+  schedule = null,
+  tournament = null,
+}: GameSessionOptions): GameSession => {
+  const clock = createGameClock({ batch: commit });
+  return {
+    mode,
+    gameId,
+    seed,
+    clock,
+    pause: createPauseState(),
+    recorder: mode === "live" ? createInputRecorder(clock) : null,
+    achievements: mode === "live" ? createAchievementTracker(gameId) : null,
+    inputHandler: null,
+    onReplayFinish: onReplayFinish ?? null,
+    challenge,
+    schedule,
+    tournament,
+  };
+};
+
+const GameSessionContext = createContext<GameSession | null>(null);
+
+export const GameSessionProvider = ({ session, children }: { session: GameSession; children: ReactNode }) => (
+  <GameSessionContext.Provider value={session}>{children}</GameSessionContext.Provider>
+);
+
+export const useGameSession = () => {
+  const session = useContext(GameSessionContext);
+  if (!session) {
+    throw new Error("Games must be rendered inside a GameSessionProvider");
+  }
+  return session;
+};
+
+export const useGameClock = () => useGameSession().clock;
+
+/**
+ * Routes a game's inputs through the session: live sessions record them
+ * before applying, replays ignore the player and feed the recorded log to
+ * `apply` instead. Every input that can change the outcome of a run must go
+ * through the returned dispatcher.
+ */
+export const useGameInput = <T,>(apply: (input: T) => void) => {
+  const session = useGameSession();
+  const applyRef = useRef(apply);
+
+  useLayoutEffect(() => {
+    applyRef.current = apply;
+  });
+
+  useEffect(() => {
+    session.inputHandler = (input) => applyRef.current(input as T);
+    return () => {
+      session.inputHandler = null;
+    };
+  }, [session]);
+
+  return useCallback(
+    (input: T) => {
+      if (session.mode === "replay") {
+        return;
+      }
+      session.recorder?.record(input);
+      applyRef.current(input);
+    },
+    [session],
+  );
+};
+
+/** Steps a live session's clock from animation frames, except while paused. */
+export function LiveGameSession({
+  gameId,
+  seed,
+  challenge = null,
+  schedule = null,
+  tournament = null,
+  children,
+}: {
+  gameId: GameId;
+  seed: string;
+  challenge?: Challenge | null;
+  schedule?: ScheduleConfig | null;
+  tournament?: TournamentRun | null;
+  children: ReactNode;
+}) {
+  const [session] = useState(() =>
+    createGameSession({ mode: "live", gameId, seed, challenge, schedule, tournament }),
+  );
+
+  useEffect(() => {
+    let handle = 0;
+    let last: number | null = null;
+    let carry = 0;
+
+    const pump = (time: number) => {
+      if (session.pause.isPaused()) {
+        last = null;
+        carry = 0;
+        handle = window.requestAnimationFrame(pump);
+        return;
+      }
+      if (last !== null) {
+        carry = Math.min(carry + time - last, MAX_CATCH_UP_MS);
+      }
+      last = time;
+      while (carry >= FRAME_MS) {
+        session.clock.step();
+        carry -= FRAME_MS;
+      }
+      handle = window.requestAnimationFrame(pump);
+    };
+
+    handle = window.requestAnimationFrame(pump);
+    return () => window.cancelAnimationFrame(handle);
+  }, [session]);
+
+  return <GameSessionProvider session={session}>{children}</GameSessionProvider>;
+}
+
+export type ReplayDriver = {
+  session: GameSession;
+  frame: () => number;
+  /** True once the game has mounted and registered its input handler. */
+  ready: () => boolean;
+  /** Steps toward `frame`, at most `maxSteps` frames at a time; returns true once it is reached. */
+  advanceTo: (frame: number, maxSteps?: number) => boolean;
+};
+
+export const createReplayDriver = (recording: RunRecording, onReplayFinish?: (score: number) => void): ReplayDriver => {
+  const session = createGameSession({
+    mode: "replay",
+    gameId: recording.gameId,
+    seed: recording.seed,
+    onReplayFinish,
+  });
+  let cursor = 0;
+
+  const deliverInputs = () => {
+    const frame = session.clock.frame();
+    while (cursor < recording.inputs.length && recording.inputs[cursor][0] <= frame) {
+      const [, input] = recording.inputs[cursor];
+      cursor += 1;
+      const handler = session.inputHandler;
+      if (handler) {
+        commit(() => handler(input));
+      }
+    }
+  };
+
+  return {
+    session,
+    frame: session.clock.frame,
+    ready: () => session.inputHandler !== null,
+    advanceTo: (frame, maxSteps = Number.POSITIVE_INFINITY) => {
+      let steps = 0;
+      deliverInputs();
+      while (session.clock.frame() < frame && steps < maxSteps) {
+        session.clock.step();
+        steps += 1;
+        deliverInputs();
+      }
+      return session.clock.frame() >= frame;
+    },
+  };
+};
@@ -0,0 +1,64 @@
+import type { GameId } from "@/games/registry";
+import { createPersistedStore } from "@/lib/storage";
+
+export type RunStats = Record<string, number>;
+
+export type GameRun = {
+  id: string;
+  score: number;
+  level: number | null;
+  durationMs: number;
+  playedAt: string;
+  stats: RunStats;
+};
+
+export type GameRecord = {
+  best: number;
+  /** The most recent runs, newest first. */
+  runs: GameRun[];
+  /** Lifetime totals, which outlive the trimmed run list. */
+  played: { runs: number; durationMs: number };
+};
+
+export type RunHistory = Partial<Record<GameId, GameRecord>>;
+
+export const MAX_RUNS_PER_GAME = 25;
+
+const EMPTY_RECORD: GameRecord = { best: 0, runs: [], played: { runs: 0, durationMs: 0 } };
+
+export const runHistoryStore = createPersistedStore<RunHistory>({
+  key: "mmgames:run-history",
+  version: 2,
+  initial: () => ({}),
+  migrations: {
+    2: (data) =>
+      Object.fromEntries(
+        Object.entries(data as Record<string, Omit<GameRecord, "played">>).map(([gameId, record]) => [
+          gameId,
+          {
+            ...record,
+            played: {
+              runs: record.runs.length,
+              durationMs: record.runs.reduce((total, run) => total + run.durationMs, 0),
+            },
+          },
+        ]),
+      ),
+  },
+});
+
+export const getGameRecord = (history: RunHistory, gameId: GameId): GameRecord => history[gameId] ?? EMPTY_RECORD;
+
+export const appendRun = (gameId: GameId, run: GameRun) => {
+  runHistoryStore.update((history) => {
+    const record = getGameRecord(history, gameId);
+    return {
+      ...history,
+      [gameId]: {
+        best: Math.max(record.best, run.score),
+        runs: [run, ...record.runs].slice(0, MAX_RUNS_PER_GAME),
+        played: { runs: record.played.runs + 1, durationMs: record.played.durationMs + run.durationMs },
+      },
+    };
+  });
+};
@@ -0,0 +1,172 @@
+export type DayId = "monday" | "tuesday" | "wednesday" | "thursday" | "friday" | "saturday" | "sunday";
+
+/** Day names come from `formatWeekday`, in the reader's language. */
+export type ArcadeDay = {
+  id: DayId;
+};
+
+export type ArcadeSchedule = {
+  todayIndex: number;
+  dateKey: string;
+  weekKey: string;
+  timeZone: string;
+  rolloverHour: number;
+  nextRolloverAt: string;
+};
+
+export type ScheduleConfig = Pick<ArcadeSchedule, "timeZone" | "rolloverHour">;
+
+export type ArcadeDate = {
+  dayIndex: number;
+  /** `YYYY-MM-DD` of the arcade day. */
+  dateKey: string;
+  /** The date key of the week's Monday. */
+  weekKey: string;
+};
+
+export type DayState = {
+  isToday: boolean;
+  isUnlocked: boolean;
+  isBeforeToday: boolean;
+  isTomorrow: boolean;
+};
+
+export const DAYS: ArcadeDay[] = [
+  { id: "monday" },
+  { id: "tuesday" },
+  { id: "wednesday" },
+  { id: "thursday" },
+  { id: "friday" },
+  { id: "saturday" },
+  { id: "sunday" },
+];
+
+const DEFAULT_TIME_ZONE = "Europe/Istanbul";
+const DEFAULT_ROLLOVER_HOUR = 0;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEKDAY_OFFSETS: Record<string, number> = {
+  Mon: 0,
+  Tue: 1,
+  Wed: 2,
+  Thu: 3,
+  Fri: 4,
+  Sat: 5,
+  Sun: 6,
+};
+
+const resolveTimeZone = (value: string | undefined) => {
+  const candidate = value?.trim() || DEFAULT_TIME_ZONE;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: candidate });
+    return candidate;
+  } catch {
+    return DEFAULT_TIME_ZONE;
+  }
+};
+
+const resolveRolloverHour = (value: string | undefined) => {
+  const parsed = Number.parseInt(value ?? "", 10);
+  if (Number.isNaN(parsed) || parsed < 0 || parsed > 23) {
+    return DEFAULT_ROLLOVER_HOUR;
+  }
+  return parsed;
+};
+
+const readZonedParts = (date: Date, timeZone: string) => {
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  });
+  const parts = Object.fromEntries(formatter.formatToParts(date).map((part) => [part.type, part.value]));
+  return {
+    weekday: WEEKDAY_OFFSETS[parts.weekday] ?? 0,
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+  };
+};
+
+const toDateKey = (year: number, month: number, day: number) => {
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+export const shiftDateKey = (dateKey: string, days: number) => {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const shifted = new Date(Date.UTC(year, month - 1, day) + days * DAY_MS);
+  return toDateKey(shifted.getUTCFullYear(), shifted.getUTCMonth() + 1, shifted.getUTCDate());
+};
+
+/** Reads the rollover settings from the environment; only the server has them. */
+export const getScheduleConfig = (): ScheduleConfig => ({
+  timeZone: resolveTimeZone(process.env.ARCADE_TIMEZONE),
+  rolloverHour: resolveRolloverHour(process.env.ARCADE_ROLLOVER_HOUR),
+});
+
+/**
+ * The arcade day a moment falls on. The day only rolls over once the
+ * configured hour passes in the arcade time zone, so this can place past
+ * runs on the browser with the config the server sent.
+ */
+export const getArcadeDate = (date: Date, { timeZone, rolloverHour }: ScheduleConfig): ArcadeDate => {
+  const parts = readZonedParts(new Date(date.getTime() - rolloverHour * HOUR_MS), timeZone);
+  const dateKey = toDateKey(parts.year, parts.month, parts.day);
+  return { dayIndex: parts.weekday, dateKey, weekKey: shiftDateKey(dateKey, -parts.weekday) };
+};
+
+/**
+ * Resolves the arcade day on the server, so every visitor sees the same
+ * unlocks regardless of their own clock.
+ */
+export const getArcadeSchedule = (now: Date = new Date(), config: ScheduleConfig = getScheduleConfig()): ArcadeSchedule => {
+  const { timeZone, rolloverHour } = config;
+  const { dayIndex, dateKey, weekKey } = getArcadeDate(now, config);
+
+  const localParts = readZonedParts(now, timeZone);
+  const hoursUntilRollover = (24 + rolloverHour - localParts.hour) % 24 || 24;
+  const msUntilRollover = hoursUntilRollover * HOUR_MS - localParts.minute * 60 * 1000 - localParts.second * 1000;
+
+  return {
+    todayIndex: dayIndex,
+    dateKey,
+    weekKey,
+    timeZone,
+    rolloverHour,
+    nextRolloverAt: new Date(now.getTime() + msUntilRollover).toISOString(),
+  };
+};
+
+export const getDayIndex = (dayId: string) => DAYS.findIndex((day) => day.id === dayId);
+
+export const getDayState = (index: number, todayIndex: number): DayState => ({
+  isToday: index === todayIndex,
+  isUnlocked: index <= todayIndex,
+  isBeforeToday: index < todayIndex,
+  isTomorrow: index === (todayIndex + 1) % DAYS.length,
+});
+
+export const isDayUnlocked = (dayId: string, schedule: ArcadeSchedule) => {
+  const index = getDayIndex(dayId);
+  return index !== -1 && getDayState(index, schedule.todayIndex).isUnlocked;
+};
+
+export const getNextUnlock = (schedule: ArcadeSchedule) => {
+  const upcoming = DAYS.find((_, index) => index > schedule.todayIndex);
+  const day = upcoming ?? DAYS[0];
+  return {
+    day,
+    /** True when the next unlock starts a new week. */
+    wrapsAround: !upcoming,
+  };
+};
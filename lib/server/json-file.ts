@@ -0,0 +1,60 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+export type JsonFile<T> = {
+  read: () => Promise<T>;
+  update: <R>(mutate: (current: T) => { data: T; result: R }) => Promise<R>;
+};
+
+/**
+ * A small JSON document on disk with serialized access, so concurrent
+ * requests never interleave a read-modify-write. Writes go through a temp
+ * file and a rename to avoid leaving half-written documents behind.
+ */
+export const createJsonFile = <T>(filePath: string, initial: () => T): JsonFile<T> => {
+  let cache: T | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const load = async (): Promise<T> => {
+    if (cache !== null) {
+      return cache;
+    }
+    try {
+      const raw = await fs.readFile(filePath, "utf8");
+      cache = { ...initial(), ...(JSON.parse(raw) as Partial<T>) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+      cache = initial();
+    }
+    return cache;
+  };
+
+  const save = async (data: T) => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data), "utf8");
+    await fs.rename(tempPath, filePath);
+  };
+
+  const enqueue = <R>(task: () => Promise<R>) => {
+    const result = queue.then(task);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  return {
+    read: () => enqueue(load),
+    update: (mutate) =>
+      enqueue(async () => {
+        const { data, result } = mutate(await load());
+        await save(data);
+        cache = data;
+        return result;
+      }),
+  };
+};
+
+export const getDataPath = (fileName: string) =>
+  path.join(process.env.ARCADE_DATA_DIR ?? path.join(process.cwd(), ".data"), fileName);
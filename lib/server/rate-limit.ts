@@ -0,0 +1,60 @@
+type RateLimitOptions = {
+  limit: number;
+  windowMs: number;
+};
+
+/**
+ * Counts hits per key over a sliding window, in memory. That is enough for
+ * the single server process the JSON-file stores assume.
+ */
+export const createRateLimiter = ({ limit, windowMs }: RateLimitOptions) => {
+  const hits = new Map<string, number[]>();
+  let lastSweep = Date.now();
+
+  // Drops keys whose hits have all left the window, at most once per window.
+  const sweep = (now: number) => {
+    if (now - lastSweep < windowMs) {
+      return;
+    }
+    lastSweep = now;
+    hits.forEach((times, key) => {
+      if (times.every((at) => at <= now - windowMs)) {
+        hits.delete(key);
+      }
+    });
+  };
+
+  /** Records a hit for the key; returns false, without recording it, once the key is over the limit. */
+  return (key: string) => {
+    const now = Date.now();
+    sweep(now);
+    const recent = (hits.get(key) ?? []).filter((at) => at > now - windowMs);
+    if (recent.length >= limit) {
+      hits.set(key, recent);
+      return false;
+    }
+    hits.set(key, [...recent, now]);
+    return true;
+  };
+};
+
+const resolveTrustedHops = (value: string | undefined) => {
+  const hops = Number.parseInt(value ?? "", 10);
+  return Number.isInteger(hops) && hops >= 1 ? hops : 1;
+};
+
+/** How many proxies in front of the app append to `X-Forwarded-For`; set with `ARCADE_TRUSTED_PROXY_HOPS`. */
+const TRUSTED_PROXY_HOPS = resolveTrustedHops(process.env.ARCADE_TRUSTED_PROXY_HOPS);
+
+/**
+ * The caller's address as the proxy in front of the app reports it. Clients
+ * can send their own `X-Forwarded-For`, so only the entries the trusted
+ * proxies appended, counted from the right, are read.
+ */
+export const getClientAddress = (request: Request) => {
+  const forwarded = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return forwarded[Math.max(0, forwarded.length - TRUSTED_PROXY_HOPS)] || request.headers.get("x-real-ip") || "unknown";
+};
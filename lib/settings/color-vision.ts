@@ -0,0 +1,88 @@
+import type { ColorVisionMode } from "@/lib/settings/store";
+
+type Rgb = [number, number, number];
+type Matrix = [Rgb, Rgb, Rgb];
+
+const RGB_TO_LMS: Matrix = [
+  [17.8824, 43.5161, 4.11935],
+  [3.45565, 27.1554, 3.86714],
+  [0.0299566, 0.184309, 1.46709],
+];
+
+const LMS_TO_RGB: Matrix = [
+  [0.0809444479, -0.130504409, 0.116721066],
+  [-0.0102485335, 0.0540193266, -0.113614708],
+  [-0.000365296938, -0.00412161469, 0.693511405],
+];
+
+// How each kind of dichromat sees LMS responses.
+const SIMULATIONS: Record<Exclude<ColorVisionMode, "standard">, Matrix> = {
+  protanopia: [
+    [0, 2.02344, -2.52581],
+    [0, 1, 0],
+    [0, 0, 1],
+  ],
+  deuteranopia: [
+    [1, 0, 0],
+    [0.494207, 0, 1.24827],
+    [0, 0, 1],
+  ],
+  tritanopia: [
+    [1, 0, 0],
+    [0, 1, 0],
+    [-0.395913, 0.801109, 0],
+  ],
+};
+
+const multiply = (matrix: Matrix, [a, b, c]: Rgb): Rgb => [
+  matrix[0][0] * a + matrix[0][1] * b + matrix[0][2] * c,
+  matrix[1][0] * a + matrix[1][1] * b + matrix[1][2] * c,
+  matrix[2][0] * a + matrix[2][1] * b + matrix[2][2] * c,
+];
+
+const clampChannel = (value: number) => Math.round(Math.min(255, Math.max(0, value)));
+
+/** Daltonizes a color: the detail a dichromat loses is shifted into channels they can still tell apart. */
+const daltonize = (rgb: Rgb, mode: Exclude<ColorVisionMode, "standard">): Rgb => {
+  const simulated = multiply(LMS_TO_RGB, multiply(SIMULATIONS[mode], multiply(RGB_TO_LMS, rgb)));
+  const error = rgb.map((channel, index) => channel - simulated[index]);
+  return [
+    clampChannel(rgb[0]),
+    clampChannel(rgb[1] + 0.7 * error[0] + error[1]),
+    clampChannel(rgb[2] + 0.7 * error[0] + error[2]),
+  ];
+};
+
+const HEX_PATTERN = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i;
+const RGBA_PATTERN = /^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*([\d.]+)\s*)?\)$/i;
+
+const toHex = ([r, g, b]: Rgb) => `#${[r, g, b].map((channel) => channel.toString(16).padStart(2, "0")).join("")}`;
+
+const cache = new Map<string, string>();
+
+/**
+ * Adapts a `#rrggbb` or `rgb()/rgba()` color for the given color-vision mode.
+ * Other color formats are returned unchanged.
+ */
+export const adaptColor = (color: string, mode: ColorVisionMode) => {
+  if (mode === "standard") {
+    return color;
+  }
+  const key = `${mode}:${color}`;
+  const cached = cache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  let adapted = color;
+  const hex = HEX_PATTERN.exec(color);
+  const rgba = RGBA_PATTERN.exec(color);
+  if (hex) {
+    adapted = toHex(daltonize([hex[1], hex[2], hex[3]].map((part) => parseInt(part, 16)) as Rgb, mode));
+  } else if (rgba) {
+    const [r, g, b] = daltonize([Number(rgba[1]), Number(rgba[2]), Number(rgba[3])], mode);
+    adapted = rgba[4] === undefined ? `rgb(${r},${g},${b})` : `rgba(${r},${g},${b},${rgba[4]})`;
+  }
+  cache.set(key, adapted);
+  return adapted;
+};
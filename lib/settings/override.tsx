@@ -0,0 +1,16 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { createContext, useContext } from "react";
+import type { Settings } from "@/lib/settings/store";
+
+export type SettingsOverride = Partial<Pick<Settings, "swipeSensitivity">>;
+
+const SettingsOverrideContext = createContext<SettingsOverride | null>(null);
+
+/** Replaces some settings for the subtree without touching the player's saved ones, e.g. for a challenge. */
+export const SettingsOverrideProvider = ({ settings, children }: { settings: SettingsOverride; children: ReactNode }) => (
+  <SettingsOverrideContext.Provider value={settings}>{children}</SettingsOverrideContext.Provider>
+);
+
+export const useSettingsOverride = () => useContext(SettingsOverrideContext);
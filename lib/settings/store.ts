@@ -0,0 +1,48 @@
+import { createPersistedStore } from "@/lib/storage";
+
+export type MotionPreference = "system" | "reduced" | "full";
+
+export type ColorVisionMode = "standard" | "protanopia" | "deuteranopia" | "tritanopia";
+
+export type SwipeSensitivity = "low" | "medium" | "high";
+
+export type Settings = {
+  /** Master volume, 0–1. */
+  volume: number;
+  muted: boolean;
+  motion: MotionPreference;
+  colorVision: ColorVisionMode;
+  swipeSensitivity: SwipeSensitivity;
+  /** Moves on-screen controls to the left side. */
+  leftHanded: boolean;
+};
+
+export const DEFAULT_SETTINGS: Settings = {
+  volume: 0.8,
+  muted: false,
+  motion: "system",
+  colorVision: "standard",
+  swipeSensitivity: "medium",
+  leftHanded: false,
+};
+
+/** Minimum travel, in CSS pixels, before a touch counts as a swipe. */
+export const SWIPE_THRESHOLDS: Record<SwipeSensitivity, number> = {
+  low: 40,
+  medium: 24,
+  high: 12,
+};
+
+export const settingsStore = createPersistedStore<Settings>({
+  key: "mmgames:settings",
+  version: 2,
+  initial: () => DEFAULT_SETTINGS,
+  migrations: {
+    2: (data) => ({ ...(data as Omit<Settings, "muted">), muted: false }),
+  },
+});
+
+export const updateSettings = (patch: Partial<Settings>) =>
+  settingsStore.update((current) => ({ ...current, ...patch }));
+
+export const resetSettings = () => settingsStore.write(DEFAULT_SETTINGS);
@@ -0,0 +1,39 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import type { Settings } from "@/lib/settings/store";
+import { adaptColor } from "@/lib/settings/color-vision";
+import { useSettingsOverride } from "@/lib/settings/override";
+import { settingsStore } from "@/lib/settings/store";
+
+const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
+
+const subscribeToMotionQuery = (listener: () => void) => {
+  const query = window.matchMedia(REDUCED_MOTION_QUERY);
+  query.addEventListener("change", listener);
+  return () => query.removeEventListener("change", listener);
+};
+
+const prefersReducedMotion = () => window.matchMedia(REDUCED_MOTION_QUERY).matches;
+
+/** The player's saved settings, for editing them. */
+export const useSavedSettings = (): Settings =>
+  useSyncExternalStore(settingsStore.subscribe, settingsStore.read, settingsStore.getServerSnapshot);
+
+/** The settings in effect: the saved ones with any override from a `SettingsOverrideProvider` applied. */
+export const useSettings = (): Settings => {
+  const saved = useSavedSettings();
+  const override = useSettingsOverride();
+  return useMemo(() => (override ? { ...saved, ...override } : saved), [saved, override]);
+};
+
+/** Resolves the motion setting, following the OS preference when it is left on "system". */
+export const useReducedMotion = () => {
+  const { motion } = useSettings();
+  const systemReduced = useSyncExternalStore(subscribeToMotionQuery, prefersReducedMotion, () => false);
+  return motion === "reduced" || (motion === "system" && systemReduced);
+};
+
+/** Returns a function that adapts palette colors to the chosen color-vision mode. */
+export const useColorAdapter = () => {
+  const { colorVision } = useSettings();
+  return useCallback((color: string) => adaptColor(color, colorVision), [colorVision]);
+};
@@ -0,0 +1,142 @@
+import { ImageResponse } from "next/og";
+import type { GameDefinition } from "@/games/registry";
+import type { ShareCard, ShareSketch, SketchPoint } from "@/lib/share/types";
+import { createTranslator, formatNumber, formatWeekday } from "@/lib/i18n/format";
+import { APP_MESSAGES } from "@/lib/i18n/messages";
+import { getDayIndex } from "@/lib/schedule";
+
+export const CARD_SIZE = { width: 1200, height: 630 };
+
+const SKETCH_SIZE = 420;
+
+const toPoints = (points: SketchPoint[]) => points.map(([x, y]) => `${x},${y}`).join(" ");
+
+const renderSketch = (sketch: ShareSketch) => {
+  switch (sketch.kind) {
+    case "snake": {
+      const [head, ...body] = sketch.snake;
+      return (
+        <svg width={SKETCH_SIZE} height={SKETCH_SIZE} viewBox={`0 0 ${sketch.size} ${sketch.size}`}>
+          {Array.from({ length: sketch.size * sketch.size }, (_, index) => (
+            <rect
+              key={index}
+              x={(index % sketch.size) + 0.08}
+              y={Math.floor(index / sketch.size) + 0.08}
+              width={0.84}
+              height={0.84}
+              rx={0.2}
+              fill="rgba(0,0,0,0.25)"
+            />
+          ))}
+          {body.map(([x, y], index) => (
+            <rect key={index} x={x + 0.08} y={y + 0.08} width={0.84} height={0.84} rx={0.2} fill="rgba(255,255,255,0.8)" />
+          ))}
+          {head && <rect x={head[0] + 0.08} y={head[1] + 0.08} width={0.84} height={0.84} rx={0.2} fill="#f8fafc" />}
+          {sketch.food && <circle cx={sketch.food[0] + 0.5} cy={sketch.food[1] + 0.5} r={0.32} fill="#f472b6" />}
+        </svg>
+      );
+    }
+    case "stack": {
+      const scale = SKETCH_SIZE / Math.max(sketch.cols, sketch.rows);
+      return (
+        <svg width={sketch.cols * scale} height={sketch.rows * scale} viewBox={`0 0 ${sketch.cols} ${sketch.rows}`}>
+          <rect width={sketch.cols} height={sketch.rows} rx={0.3} fill="rgba(15,23,42,0.6)" />
+          {sketch.cells.map((color, index) =>
+            color ? (
+              <rect
+                key={index}
+                x={(index % sketch.cols) + 0.06}
+                y={Math.floor(index / sketch.cols) + 0.06}
+                width={0.88}
+                height={0.88}
+                rx={0.15}
+                fill={color}
+              />
+            ) : null,
+          )}
+        </svg>
+      );
+    }
+    case "trace":
+      return (
+        <svg width={SKETCH_SIZE} height={SKETCH_SIZE} viewBox={`0 0 ${sketch.size} ${sketch.size}`}>
+          <polygon points={toPoints(sketch.reference)} fill={sketch.color} fillOpacity={0.25} stroke={sketch.color} strokeWidth={3} />
+          {sketch.strokes.map((stroke, index) => (
+            <polyline
+              key={index}
+              points={toPoints(stroke)}
+              fill="none"
+              stroke="#f8fafc"
+              strokeWidth={5}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+          ))}
+        </svg>
+      );
+  }
+};
+
+/** The share card: title, day, score and best beside the run's final picture. */
+export const renderShareCard = (card: ShareCard, game: GameDefinition) => {
+  const t = createTranslator(APP_MESSAGES, card.locale);
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          padding: 72,
+          background: "radial-gradient(120% 140% at 0% -20%, #0e7490, #0f172a 55%, #030712 100%)",
+          color: "#f8fafc",
+        }}
+      >
+        <div style={{ display: "flex", flexDirection: "column", gap: 12 }}>
+          <div style={{ fontSize: 24, letterSpacing: 8, color: "rgba(248,250,252,0.6)" }}>MM GAMES</div>
+          <div style={{ fontSize: 32, color: "rgba(248,250,252,0.7)" }}>
+            {formatWeekday(card.locale, getDayIndex(game.day))}
+          </div>
+          <div style={{ fontSize: 72, fontWeight: 700, letterSpacing: -2 }}>{game.title}</div>
+          <div style={{ display: "flex", gap: 56, marginTop: 40 }}>
+            <div style={{ display: "flex", flexDirection: "column" }}>
+              <div style={{ fontSize: 24, letterSpacing: 6, color: "rgba(248,250,252,0.6)" }}>
+                {t("share.score").toLocaleUpperCase(card.locale)}
+              </div>
+              <div style={{ fontSize: 120, fontWeight: 700, lineHeight: 1 }}>{formatNumber(card.locale, card.score)}</div>
+            </div>
+            <div style={{ display: "flex", flexDirection: "column", justifyContent: "flex-end" }}>
+              <div style={{ fontSize: 24, letterSpacing: 6, color: "rgba(248,250,252,0.6)" }}>
+                {t("share.best").toLocaleUpperCase(card.locale)}
+              </div>
+              <div style={{ fontSize: 56, lineHeight: 1.2, color: "rgba(248,250,252,0.8)" }}>
+                {formatNumber(card.locale, card.best)}
+              </div>
+            </div>
+          </div>
+        </div>
+        <div
+          style={{
+            width: SKETCH_SIZE + 48,
+            height: SKETCH_SIZE + 48,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            borderRadius: 48,
+            border: "1px solid rgba(255,255,255,0.1)",
+            background: "rgba(15,23,42,0.5)",
+          }}
+        >
+          {card.sketch ? (
+            renderSketch(card.sketch)
+          ) : (
+            <div style={{ fontSize: 160, fontWeight: 700, color: "rgba(248,250,252,0.15)" }}>MM</div>
+          )}
+        </div>
+      </div>
+    ),
+    CARD_SIZE,
+  );
+};
@@ -0,0 +1,43 @@
+import type { ShareCard } from "@/lib/share/types";
+import { ensurePlayerAuthorization } from "@/lib/accounts/client";
+
+export type ShareOutcome = "shared" | "dismissed" | "copied" | "failed";
+
+/** Uploads a run's card so its page and preview image can be rendered for anyone opening the link. */
+export const publishShareCard = async (card: ShareCard) => {
+  try {
+    const authorization = await ensurePlayerAuthorization();
+    const response = await fetch(`/api/share/${card.gameId}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...(authorization ? { Authorization: authorization } : {}) },
+      body: JSON.stringify(card),
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Shares a link through the Web Share API, falling back to copying it to the
+ * clipboard when there is no share sheet or it refuses to open.
+ */
+export const shareLink = async ({ text, url }: { text: string; url: string }): Promise<ShareOutcome> => {
+  if (navigator.share) {
+    try {
+      await navigator.share({ text, url });
+      return "shared";
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") {
+        return "dismissed";
+      }
+    }
+  }
+  try {
+    await navigator.clipboard.writeText(`${text} ${url}`);
+    return "copied";
+  } catch {
+    // clipboard access denied
+    return "failed";
+  }
+};
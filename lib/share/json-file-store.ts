@@ -0,0 +1,32 @@
+import type { ShareCardStore } from "@/lib/share/store";
+import type { ShareCard } from "@/lib/share/types";
+import { createJsonFile } from "@/lib/server/json-file";
+
+// A player's oldest cards are dropped past this, so nobody can push out other players' links.
+const MAX_CARDS_PER_PLAYER = 50;
+
+/** Cards saved before uploads were tied to a player have no `playerId`. */
+type StoredShareCard = ShareCard & { playerId?: string };
+
+type ShareCardDocument = {
+  cards: StoredShareCard[];
+};
+
+export const createJsonFileShareCardStore = (filePath: string): ShareCardStore => {
+  const file = createJsonFile<ShareCardDocument>(filePath, () => ({ cards: [] }));
+
+  return {
+    saveCard: (card, playerId) =>
+      file.update((current) => {
+        const existing = current.cards.find((candidate) => candidate.runId === card.runId);
+        if (existing) {
+          return { data: current, result: existing.playerId === playerId ? existing : null };
+        }
+        const players = current.cards.filter((candidate) => candidate.playerId === playerId);
+        const dropped = new Set(players.slice(0, Math.max(0, players.length + 1 - MAX_CARDS_PER_PLAYER)));
+        const cards = [...current.cards.filter((candidate) => !dropped.has(candidate)), { ...card, playerId }];
+        return { data: { cards }, result: card };
+      }),
+    findCard: async (runId) => (await file.read()).cards.find((card) => card.runId === runId) ?? null,
+  };
+};
@@ -0,0 +1,23 @@
+import type { ShareCard } from "@/lib/share/types";
+import { getDataPath } from "@/lib/server/json-file";
+import { createJsonFileShareCardStore } from "@/lib/share/json-file-store";
+
+/** Storage adapter behind the share routes. Cards are written once per run and never change. */
+export type ShareCardStore = {
+  /**
+   * Keeps the first card saved for a run and returns it, or null when another
+   * player already saved one for that run id. Each player keeps only their
+   * latest cards.
+   */
+  saveCard: (card: ShareCard, playerId: string) => Promise<ShareCard | null>;
+  findCard: (runId: string) => Promise<ShareCard | null>;
+};
+
+let store: ShareCardStore | null = null;
+
+export const getShareCardStore = () => {
+  if (!store) {
+    store = createJsonFileShareCardStore(getDataPath("share-cards.json"));
+  }
+  return store;
+};
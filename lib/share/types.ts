@@ -0,0 +1,24 @@
+import type { GameId } from "@/games/registry";
+import type { Locale } from "@/lib/i18n/types";
+
+export type SketchPoint = [x: number, y: number];
+
+/** A small picture of how a run ended, drawn on its share card. */
+export type ShareSketch =
+  | { kind: "snake"; size: number; snake: SketchPoint[]; food: SketchPoint | null }
+  /** Row-major cell colors, null for empty cells. */
+  | { kind: "stack"; cols: number; rows: number; cells: (string | null)[] }
+  | { kind: "trace"; size: number; color: string; reference: SketchPoint[]; strokes: SketchPoint[][] };
+
+export type ShareCard = {
+  runId: string;
+  gameId: GameId;
+  score: number;
+  best: number;
+  playedAt: string;
+  /** The sharer's language; crawlers fetching the image send no preference of their own. */
+  locale: Locale;
+  sketch: ShareSketch | null;
+};
+
+export const shareCardPath = (gameId: GameId, runId: string) => `/share/${gameId}/${runId}`;
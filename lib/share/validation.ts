@@ -0,0 +1,91 @@
+import type { GameId } from "@/games/registry";
+import type { ValidationResult } from "@/lib/leaderboards/validation";
+import type { ShareCard, ShareSketch, SketchPoint } from "@/lib/share/types";
+import { isLocale } from "@/lib/i18n/locales";
+import { MAX_SCORE, isPastTimestamp, isRecord, isWholeNumber } from "@/lib/leaderboards/validation";
+
+const RUN_ID = /^[\w-]{1,64}$/;
+const COLOR = /^#[0-9a-f]{3,8}$/i;
+const MAX_GRID = 64;
+const MAX_CANVAS = 2000;
+const MAX_TRACE_POINTS = 2000;
+
+export const isRunId = (value: unknown): value is string => typeof value === "string" && RUN_ID.test(value);
+
+const isPoint = (value: unknown, max: number): value is SketchPoint =>
+  Array.isArray(value) && value.length === 2 && value.every((coordinate) => isWholeNumber(coordinate, max));
+
+const isPointList = (value: unknown, max: number): value is SketchPoint[] =>
+  Array.isArray(value) && value.every((point) => isPoint(point, max));
+
+const countPoints = (strokes: SketchPoint[][]) => strokes.reduce((total, stroke) => total + stroke.length, 0);
+
+const parseSketch = (value: unknown): ShareSketch | null | undefined => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (!isRecord(value)) {
+    return undefined;
+  }
+  switch (value.kind) {
+    case "snake": {
+      const { size, snake, food } = value;
+      if (!isWholeNumber(size, MAX_GRID) || !isPointList(snake, size - 1) || snake.length > size * size) {
+        return undefined;
+      }
+      if (food !== null && !isPoint(food, size - 1)) {
+        return undefined;
+      }
+      return { kind: "snake", size, snake, food };
+    }
+    case "stack": {
+      const { cols, rows, cells } = value;
+      if (!isWholeNumber(cols, MAX_GRID) || !isWholeNumber(rows, MAX_GRID) || !Array.isArray(cells)) {
+        return undefined;
+      }
+      if (cells.length !== cols * rows || !cells.every((cell) => cell === null || (typeof cell === "string" && COLOR.test(cell)))) {
+        return undefined;
+      }
+      return { kind: "stack", cols, rows, cells };
+    }
+    case "trace": {
+      const { size, color, reference, strokes } = value;
+      if (!isWholeNumber(size, MAX_CANVAS) || typeof color !== "string" || !COLOR.test(color)) {
+        return undefined;
+      }
+      if (!isPointList(reference, size) || !Array.isArray(strokes) || !strokes.every((stroke) => isPointList(stroke, size))) {
+        return undefined;
+      }
+      if (reference.length + countPoints(strokes) > MAX_TRACE_POINTS) {
+        return undefined;
+      }
+      return { kind: "trace", size, color, reference, strokes };
+    }
+    default:
+      return undefined;
+  }
+};
+
+export const parseShareCard = (body: unknown, gameId: GameId): ValidationResult<ShareCard> => {
+  if (!isRecord(body)) {
+    return { ok: false, error: "Expected a JSON object" };
+  }
+  const { runId, score, best, playedAt, locale, sketch: rawSketch } = body;
+  if (!isRunId(runId)) {
+    return { ok: false, error: "runId is required" };
+  }
+  if (!isWholeNumber(score, MAX_SCORE) || !isWholeNumber(best, MAX_SCORE)) {
+    return { ok: false, error: "score and best must be whole numbers" };
+  }
+  if (!isPastTimestamp(playedAt)) {
+    return { ok: false, error: "playedAt must be a timestamp that is not in the future" };
+  }
+  if (!isLocale(locale)) {
+    return { ok: false, error: "locale is not supported" };
+  }
+  const sketch = parseSketch(rawSketch);
+  if (sketch === undefined) {
+    return { ok: false, error: "sketch is malformed" };
+  }
+  return { ok: true, value: { runId, gameId, score, best: Math.max(best, score), playedAt, locale, sketch } };
+};
@@ -0,0 +1,18 @@
+import type { GameId } from "@/games/registry";
+import type { Simulation } from "@/lib/simulation/types";
+import { ANGRYMOJI_SIMULATION } from "@/games/angrymoji/simulation";
+import { CHROMA_SIMULATION } from "@/games/chroma-trace/simulation";
+import { COLORS_SIMULATION } from "@/games/colors-plus/simulation";
+import { SIMON_SIMULATION } from "@/games/simon-colors/simulation";
+import { SNAKEMOJI_SIMULATION } from "@/games/snakemoji/simulation";
+import { TILT_DROP_SIMULATION } from "@/games/tilt-drop/simulation";
+
+/** Games the simulation script can play. Low Tide cannot be lost, so it has no curve to balance. */
+export const SIMULATIONS: Partial<Record<GameId, Simulation>> = {
+  snakemoji: SNAKEMOJI_SIMULATION,
+  "colors-plus": COLORS_SIMULATION,
+  "chroma-trace": CHROMA_SIMULATION,
+  "tilt-drop": TILT_DROP_SIMULATION,
+  "simon-colors": SIMON_SIMULATION,
+  angrymoji: ANGRYMOJI_SIMULATION,
+};
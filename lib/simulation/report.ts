@@ -0,0 +1,117 @@
+import type { SimulatedRun } from "@/lib/simulation/types";
+
+const HISTOGRAM_BINS = 10;
+const SURVIVAL_SAMPLES = 20;
+
+export type Distribution = {
+  mean: number;
+  min: number;
+  p10: number;
+  p25: number;
+  median: number;
+  p75: number;
+  p90: number;
+  max: number;
+};
+
+export type HistogramBin = { from: number; to: number; runs: number };
+
+/** Share of runs still going after `seconds` of game time. */
+export type SurvivalPoint = { seconds: number; alive: number };
+
+/** Runs that reached a level and runs that ended on it. */
+export type LevelRow = { level: number; reached: number; failed: number; failureRate: number };
+
+export type SimulationSummary = {
+  runs: number;
+  /** Runs cut off at the time limit. */
+  survivors: number;
+  scores: Distribution;
+  scoreHistogram: HistogramBin[];
+  durationSeconds: Distribution;
+  survival: SurvivalPoint[];
+  levels: LevelRow[];
+};
+
+const round = (value: number, digits = 3) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const percentile = (sorted: number[], share: number) =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(share * sorted.length) - 1))];
+
+const distribute = (values: number[]): Distribution => {
+  const sorted = [...values].sort((a, b) => a - b);
+  if (sorted.length === 0) {
+    return { mean: 0, min: 0, p10: 0, p25: 0, median: 0, p75: 0, p90: 0, max: 0 };
+  }
+  return {
+    mean: round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+    min: sorted[0],
+    p10: percentile(sorted, 0.1),
+    p25: percentile(sorted, 0.25),
+    median: percentile(sorted, 0.5),
+    p75: percentile(sorted, 0.75),
+    p90: percentile(sorted, 0.9),
+    max: sorted[sorted.length - 1],
+  };
+};
+
+const histogram = (values: number[]): HistogramBin[] => {
+  if (values.length === 0) {
+    return [];
+  }
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const width = Math.max(1, Math.ceil((max - min + 1) / HISTOGRAM_BINS));
+  const bins = Array.from({ length: Math.ceil((max - min + 1) / width) }, (_, index) => ({
+    from: min + index * width,
+    to: min + (index + 1) * width - 1,
+    runs: 0,
+  }));
+  values.forEach((value) => {
+    bins[Math.floor((value - min) / width)].runs += 1;
+  });
+  return bins;
+};
+
+export const summarizeRuns = (runs: SimulatedRun[], maxMs: number): SimulationSummary => {
+  const survival = Array.from({ length: SURVIVAL_SAMPLES + 1 }, (_, index) => {
+    const ms = (maxMs * index) / SURVIVAL_SAMPLES;
+    const alive = runs.filter((run) => !run.ended || run.durationMs > ms).length;
+    return { seconds: round(ms / 1000, 1), alive: runs.length === 0 ? 0 : round(alive / runs.length) };
+  });
+
+  const topLevel = runs.reduce((max, run) => Math.max(max, run.level), 0);
+  const levels = Array.from({ length: topLevel }, (_, index) => {
+    const level = index + 1;
+    const reached = runs.filter((run) => run.level >= level).length;
+    const failed = runs.filter((run) => run.ended && run.level === level).length;
+    return { level, reached, failed, failureRate: reached === 0 ? 0 : round(failed / reached) };
+  });
+
+  return {
+    runs: runs.length,
+    survivors: runs.filter((run) => !run.ended).length,
+    scores: distribute(runs.map((run) => run.score)),
+    scoreHistogram: histogram(runs.map((run) => run.score)),
+    durationSeconds: distribute(runs.map((run) => round(run.durationMs / 1000, 1))),
+    survival,
+    levels,
+  };
+};
+
+const csvCell = (value: string | number | boolean) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Rows as CSV, with the first row's keys as the header. */
+export const toCsv = (rows: Record<string, string | number | boolean>[]) => {
+  if (rows.length === 0) {
+    return "";
+  }
+  const columns = Object.keys(rows[0]);
+  return [columns, ...rows.map((row) => columns.map((column) => row[column]))]
+    .map((cells) => cells.map(csvCell).join(","))
+    .join("\n")
+    .concat("\n");
+};
@@ -0,0 +1,54 @@
+import type { GameSimulation, SimulatedRun, Simulation, SimulationOptions } from "@/lib/simulation/types";
+import { createRng } from "@/lib/random";
+
+/** The default config with `overrides` applied; only existing numeric values can be replaced. */
+export const applyOverrides = <Config>(config: Config, overrides: Record<string, number>): Config => {
+  const values = config as Record<string, unknown>;
+  Object.keys(overrides).forEach((key) => {
+    if (typeof values[key] !== "number") {
+      throw new Error(`Unknown config value "${key}"; expected one of ${Object.keys(values).join(", ")}`);
+    }
+  });
+  return { ...config, ...overrides };
+};
+
+const playRun = <Config, State, Input>(
+  simulation: GameSimulation<Config, State, Input>,
+  config: Config,
+  bot: string,
+  seed: string,
+  maxMs: number,
+): SimulatedRun => {
+  const { engine, stepMs, isOver } = simulation;
+  const play = simulation.bots[bot](createRng(`${seed}:bot`));
+  let state = engine.step(engine.init(seed, config), simulation.start, 0);
+  let time = 0;
+  while (!isOver(state) && time < maxMs) {
+    state = engine.step(state, play(state, time), stepMs);
+    time += stepMs;
+  }
+  return {
+    seed,
+    score: simulation.getScore(state),
+    level: simulation.getLevel(state),
+    durationMs: time,
+    ended: isOver(state),
+  };
+};
+
+export const defineSimulation = <Config, State, Input>(
+  simulation: GameSimulation<Config, State, Input>,
+): Simulation => ({
+  bots: Object.keys(simulation.bots),
+  config: simulation.engine.config as Record<string, unknown>,
+  run: ({ bot, runs, seed, maxMs, overrides }: SimulationOptions) => {
+    if (!simulation.bots[bot]) {
+      throw new Error(`Unknown bot "${bot}"; expected one of ${Object.keys(simulation.bots).join(", ")}`);
+    }
+    const config = applyOverrides(simulation.engine.config, overrides);
+    return {
+      config: config as Record<string, unknown>,
+      runs: Array.from({ length: runs }, (_, index) => playRun(simulation, config, bot, `${seed}-${index + 1}`, maxMs)),
+    };
+  },
+});
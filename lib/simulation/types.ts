@@ -0,0 +1,50 @@
+import type { GameEngine } from "@/lib/engine/types";
+import type { Rng } from "@/lib/random";
+
+/** A scripted player: looks at the state and returns its next input, if any. `time` is game time since the run began. */
+export type Bot<State, Input> = (state: State, time: number) => Input | null;
+
+/** Builds a fresh bot for every run; its generator is seeded from the run's seed. */
+export type BotFactory<State, Input> = (rng: Rng) => Bot<State, Input>;
+
+/** How a game is played headlessly: its engine, the bots that play it, and how a run is read. */
+export type GameSimulation<Config, State, Input> = {
+  engine: GameEngine<Config, State, Input>;
+  /** Game time each step advances; coarser steps simulate faster. */
+  stepMs: number;
+  /** The first bot is the default. */
+  bots: Record<string, BotFactory<State, Input>>;
+  /** The input that begins a run. */
+  start: Input;
+  isOver: (state: State) => boolean;
+  /** How far the run got, from 1; failure rates are reported per level. */
+  getLevel: (state: State) => number;
+  getScore: (state: State) => number;
+};
+
+export type SimulationOptions = {
+  bot: string;
+  runs: number;
+  /** Run `n` plays the seed `${seed}-${n}`. */
+  seed: string;
+  /** Runs still going after this much game time are cut off and count as survivors. */
+  maxMs: number;
+  /** Replaces numeric config values by name. */
+  overrides: Record<string, number>;
+};
+
+export type SimulatedRun = {
+  seed: string;
+  score: number;
+  level: number;
+  durationMs: number;
+  /** False when the run was cut off at `maxMs`. */
+  ended: boolean;
+};
+
+/** A game's simulation with its types erased, so the catalogue can list every game together. */
+export type Simulation = {
+  bots: string[];
+  config: Record<string, unknown>;
+  run: (options: SimulationOptions) => { config: Record<string, unknown>; runs: SimulatedRun[] };
+};
@@ -0,0 +1,44 @@
+import type { GameRecord } from "@/lib/run-history";
+
+export type GameSummary = {
+  runs: number;
+  durationMs: number;
+  best: number;
+  /** Over the recent runs still kept in history. */
+  average: number;
+};
+
+export type HistogramBin = {
+  from: number;
+  to: number;
+  count: number;
+};
+
+const HISTOGRAM_BINS = 8;
+
+export const summarizeRecord = ({ best, runs, played }: GameRecord): GameSummary => ({
+  runs: played.runs,
+  durationMs: played.durationMs,
+  best,
+  average: runs.length === 0 ? 0 : runs.reduce((total, run) => total + run.score, 0) / runs.length,
+});
+
+/** Splits scores into equal-width bins from zero to the highest score, rounded to whole points. */
+export const buildHistogram = (scores: number[], binCount = HISTOGRAM_BINS): HistogramBin[] => {
+  if (scores.length === 0) {
+    return [];
+  }
+  const width = Math.max(1, Math.ceil((Math.max(...scores) + 1) / binCount));
+  const bins = Array.from({ length: binCount }, (_, index) => ({
+    from: index * width,
+    to: (index + 1) * width - 1,
+    count: 0,
+  }));
+  for (const score of scores) {
+    bins[Math.min(binCount - 1, Math.floor(score / width))].count += 1;
+  }
+  while (bins.length > 1 && bins[bins.length - 1].count === 0) {
+    bins.pop();
+  }
+  return bins;
+};
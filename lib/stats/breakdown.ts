@@ -0,0 +1,35 @@
+import type { GameRun, RunStats } from "@/lib/run-history";
+
+/**
+ * Run stats can carry a breakdown as `<group>.<key>` entries, e.g. `shots.3`
+ * for the shots fired in wave 3, next to the run's plain totals.
+ */
+export const breakdownKey = (group: string, key: string | number) => `${group}.${key}`;
+
+export const addToBreakdown = (stats: RunStats, group: string, key: string | number, amount = 1): RunStats => {
+  const entry = breakdownKey(group, key);
+  return { ...stats, [entry]: (stats[entry] ?? 0) + amount };
+};
+
+export type BreakdownEntry = {
+  total: number;
+  /** How many runs reported the key at all. */
+  runs: number;
+};
+
+/** Sums one breakdown group across runs, keyed by the part after the group. */
+export const collectBreakdown = (runs: GameRun[], group: string) => {
+  const prefix = `${group}.`;
+  const entries = new Map<string, BreakdownEntry>();
+  for (const run of runs) {
+    for (const [name, value] of Object.entries(run.stats)) {
+      if (!name.startsWith(prefix)) {
+        continue;
+      }
+      const key = name.slice(prefix.length);
+      const entry = entries.get(key) ?? { total: 0, runs: 0 };
+      entries.set(key, { total: entry.total + value, runs: entry.runs + 1 });
+    }
+  }
+  return entries;
+};
@@ -0,0 +1,18 @@
+import type { GameId } from "@/games/registry";
+import type { GameInsight } from "@/lib/stats/types";
+import { ANGRYMOJI_INSIGHTS } from "@/games/angrymoji/stats";
+import { CHROMA_INSIGHTS } from "@/games/chroma-trace/stats";
+import { COLORS_INSIGHTS } from "@/games/colors-plus/stats";
+import { SNAKEMOJI_INSIGHTS } from "@/games/snakemoji/stats";
+import { TILT_DROP_INSIGHTS } from "@/games/tilt-drop/stats";
+
+/** Game-specific charts for `/stats`; games without an entry only get the shared summary. */
+export const INSIGHTS: Partial<Record<GameId, GameInsight[]>> = {
+  snakemoji: SNAKEMOJI_INSIGHTS,
+  "colors-plus": COLORS_INSIGHTS,
+  "chroma-trace": CHROMA_INSIGHTS,
+  "tilt-drop": TILT_DROP_INSIGHTS,
+  angrymoji: ANGRYMOJI_INSIGHTS,
+};
+
+export const getInsights = (gameId: GameId): GameInsight[] => INSIGHTS[gameId] ?? [];
@@ -0,0 +1,17 @@
+import type { LocalizedText } from "@/lib/i18n/types";
+import type { GameRun } from "@/lib/run-history";
+
+export type StatBar = {
+  key: string;
+  label: LocalizedText | string;
+  value: number;
+};
+
+/** One game-specific chart on `/stats`, computed from the game's recent runs. */
+export type GameInsight = {
+  id: string;
+  title: LocalizedText;
+  /** Percent values are fractions, 0–1. */
+  unit: "percent" | "count";
+  bars: (runs: GameRun[]) => StatBar[];
+};
@@ -0,0 +1,133 @@
+type Migration = (data: unknown) => unknown;
+
+type StoredEnvelope = {
+  version: number;
+  data: unknown;
+};
+
+export type PersistedStoreOptions<T> = {
+  key: string;
+  version: number;
+  initial: () => T;
+  /** Keyed by the version each migration upgrades the data *to*. */
+  migrations?: Record<number, Migration>;
+};
+
+export type PersistedStore<T> = {
+  read: () => T;
+  write: (data: T) => void;
+  update: (updater: (current: T) => T) => T;
+  subscribe: (listener: () => void) => () => void;
+  getServerSnapshot: () => T;
+};
+
+const canUseStorage = () => typeof window !== "undefined" && typeof window.localStorage !== "undefined";
+
+const isEnvelope = (value: unknown): value is StoredEnvelope =>
+  typeof value === "object" && value !== null && "version" in value && "data" in value;
+
+export const createPersistedStore = <T>({ key, version, initial, migrations = {} }: PersistedStoreOptions<T>): PersistedStore<T> => {
+  const listeners = new Set<() => void>();
+  const serverSnapshot = initial();
+  let cache: T | null = null;
+
+  const migrate = (envelope: StoredEnvelope): T => {
+    let data = envelope.data;
+    for (let next = envelope.version + 1; next <= version; next += 1) {
+      const migration = migrations[next];
+      if (!migration) {
+        return initial();
+      }
+      data = migration(data);
+    }
+    return data as T;
+  };
+
+  const persist = (data: T) => {
+    if (!canUseStorage()) {
+      return;
+    }
+    try {
+      const envelope: StoredEnvelope = { version, data };
+      window.localStorage.setItem(key, JSON.stringify(envelope));
+    } catch {
+      // storage may be full or disabled; keep the in-memory copy
+    }
+  };
+
+  const load = (): T => {
+    if (!canUseStorage()) {
+      return serverSnapshot;
+    }
+    try {
+      const raw = window.localStorage.getItem(key);
+      if (!raw) {
+        return initial();
+      }
+      const parsed: unknown = JSON.parse(raw);
+      if (!isEnvelope(parsed) || parsed.version > version) {
+        return initial();
+      }
+      if (parsed.version === version) {
+        return parsed.data as T;
+      }
+      const migrated = migrate(parsed);
+      persist(migrated);
+      return migrated;
+    } catch {
+      return initial();
+    }
+  };
+
+  const notify = () => {
+    listeners.forEach((listener) => listener());
+  };
+
+  const read = () => {
+    if (cache === null) {
+      cache = load();
+    }
+    return cache;
+  };
+
+  const write = (data: T) => {
+    cache = data;
+    persist(data);
+    notify();
+  };
+
+  const update = (updater: (current: T) => T) => {
+    const next = updater(read());
+    write(next);
+    return next;
+  };
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== key) {
+      return;
+    }
+    cache = null;
+    notify();
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    if (listeners.size === 1 && canUseStorage()) {
+      window.addEventListener("storage", handleStorage);
+    }
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && canUseStorage()) {
+        window.removeEventListener("storage", handleStorage);
+      }
+    };
+  };
+
+  return {
+    read,
+    write,
+    update,
+    subscribe,
+    getServerSnapshot: () => serverSnapshot,
+  };
+};
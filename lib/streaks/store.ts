@@ -0,0 +1,41 @@
+import type { GameId } from "@/games/registry";
+import type { GameRun } from "@/lib/run-history";
+import type { ScheduleConfig } from "@/lib/schedule";
+import { getGame } from "@/games/registry";
+import { getArcadeDate, getDayIndex } from "@/lib/schedule";
+import { createPersistedStore } from "@/lib/storage";
+
+export type PlayedDay = {
+  gameId: GameId;
+  best: number;
+};
+
+export type StreakLog = {
+  /** Keyed by arcade date key; only days on which that day's game was played. */
+  played: Record<string, PlayedDay>;
+  /** Missed days covered by a streak freeze. */
+  frozen: string[];
+};
+
+export const streakStore = createPersistedStore<StreakLog>({
+  key: "mmgames:streaks",
+  version: 1,
+  initial: () => ({ played: {}, frozen: [] }),
+});
+
+/** Marks the run's arcade day as played when the run was of that day's game. */
+export const recordPlayedDay = (gameId: GameId, run: GameRun, schedule: ScheduleConfig) => {
+  const { dayIndex, dateKey } = getArcadeDate(new Date(run.playedAt), schedule);
+  const game = getGame(gameId);
+  if (!game || getDayIndex(game.day) !== dayIndex) {
+    return;
+  }
+  streakStore.update((log) => ({
+    ...log,
+    played: { ...log.played, [dateKey]: { gameId, best: Math.max(log.played[dateKey]?.best ?? 0, run.score) } },
+  }));
+};
+
+export const freezeDays = (dateKeys: string[]) => {
+  streakStore.update((log) => ({ ...log, frozen: [...log.frozen, ...dateKeys.filter((key) => !log.frozen.includes(key))] }));
+};
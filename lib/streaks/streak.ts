@@ -0,0 +1,94 @@
+import type { AchievementState } from "@/lib/achievements/store";
+import type { DayId } from "@/lib/schedule";
+import type { StreakLog } from "@/lib/streaks/store";
+import { DAYS, getDayState, shiftDateKey } from "@/lib/schedule";
+
+// A gap longer than this breaks the streak outright rather than draining the freezes.
+const MAX_FROZEN_GAP = 7;
+
+export type CalendarStatus = "played" | "frozen" | "missed" | "today" | "upcoming";
+
+export type CalendarDay = {
+  dayId: DayId;
+  dateKey: string;
+  status: CalendarStatus;
+  /** Best score of the day's game on that date, if it was played. */
+  best: number | null;
+};
+
+const isKept = (log: StreakLog, dateKey: string) => dateKey in log.played || log.frozen.includes(dateKey);
+
+/** Every unlocked achievement earns one streak freeze. */
+export const countEarnedFreezes = (achievements: AchievementState) =>
+  Object.values(achievements).reduce(
+    (total, progress) => total + Object.values(progress ?? {}).filter(({ unlockedAt }) => unlockedAt).length,
+    0,
+  );
+
+export const getAvailableFreezes = (log: StreakLog, earned: number) => Math.max(0, earned - log.frozen.length);
+
+/**
+ * The missed days between the last kept day and yesterday. Returns nothing
+ * when there is no streak to protect or the gap is too long to freeze.
+ */
+export const findMissedDays = (log: StreakLog, todayKey: string) => {
+  const missed: string[] = [];
+  let dateKey = shiftDateKey(todayKey, -1);
+  while (!isKept(log, dateKey)) {
+    if (missed.length === MAX_FROZEN_GAP) {
+      return [];
+    }
+    missed.push(dateKey);
+    dateKey = shiftDateKey(dateKey, -1);
+  }
+  return missed;
+};
+
+/** Consecutive kept days up to today; today only counts once it is played, and does not break the streak before. */
+export const getCurrentStreak = (log: StreakLog, todayKey: string) => {
+  let streak = 0;
+  let dateKey = isKept(log, todayKey) ? todayKey : shiftDateKey(todayKey, -1);
+  while (isKept(log, dateKey)) {
+    streak += 1;
+    dateKey = shiftDateKey(dateKey, -1);
+  }
+  return streak;
+};
+
+export const getLongestStreak = (log: StreakLog) => {
+  const kept = [...new Set([...Object.keys(log.played), ...log.frozen])].sort();
+  let longest = 0;
+  let run = 0;
+  kept.forEach((dateKey, index) => {
+    run = index > 0 && shiftDateKey(kept[index - 1], 1) === dateKey ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+  return longest;
+};
+
+const getCalendarStatus = (log: StreakLog, dateKey: string, index: number, todayIndex: number): CalendarStatus => {
+  const { isToday, isBeforeToday } = getDayState(index, todayIndex);
+  if (dateKey in log.played) {
+    return "played";
+  }
+  if (log.frozen.includes(dateKey)) {
+    return "frozen";
+  }
+  if (isToday) {
+    return "today";
+  }
+  return isBeforeToday ? "missed" : "upcoming";
+};
+
+export const getWeekCalendar = (log: StreakLog, weekKey: string, todayIndex: number): CalendarDay[] =>
+  DAYS.map((day, index) => {
+    const dateKey = shiftDateKey(weekKey, index);
+    return {
+      dayId: day.id,
+      dateKey,
+      status: getCalendarStatus(log, dateKey, index, todayIndex),
+      best: log.played[dateKey]?.best ?? null,
+    };
+  });
+
+export const isWeekComplete = (calendar: CalendarDay[]) => calendar.every(({ status }) => status === "played");
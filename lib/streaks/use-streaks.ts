@@ -0,0 +1,43 @@
+import { useEffect, useSyncExternalStore } from "react";
+import type { ArcadeSchedule } from "@/lib/schedule";
+import { achievementStore } from "@/lib/achievements/store";
+import { freezeDays, streakStore } from "@/lib/streaks/store";
+import {
+  countEarnedFreezes,
+  findMissedDays,
+  getAvailableFreezes,
+  getCurrentStreak,
+  getLongestStreak,
+  getWeekCalendar,
+  isWeekComplete,
+} from "@/lib/streaks/streak";
+
+/**
+ * Reads the streak for the server's arcade day. Missed days since the last
+ * kept one are covered with freezes as soon as enough have been earned.
+ */
+export const useStreaks = ({ dateKey, weekKey, todayIndex }: ArcadeSchedule) => {
+  const log = useSyncExternalStore(streakStore.subscribe, streakStore.read, streakStore.getServerSnapshot);
+  const achievements = useSyncExternalStore(
+    achievementStore.subscribe,
+    achievementStore.read,
+    achievementStore.getServerSnapshot,
+  );
+  const freezes = getAvailableFreezes(log, countEarnedFreezes(achievements));
+
+  useEffect(() => {
+    const missed = findMissedDays(log, dateKey);
+    if (missed.length > 0 && missed.length <= freezes) {
+      freezeDays(missed);
+    }
+  }, [dateKey, freezes, log]);
+
+  const calendar = getWeekCalendar(log, weekKey, todayIndex);
+  return {
+    current: getCurrentStreak(log, dateKey),
+    longest: getLongestStreak(log),
+    freezes,
+    calendar,
+    weekComplete: isWeekComplete(calendar),
+  };
+};
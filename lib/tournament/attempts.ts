@@ -0,0 +1,30 @@
+import type { GameId } from "@/games/registry";
+import { createPersistedStore } from "@/lib/storage";
+
+const MAX_ATTEMPTS = 30;
+
+/** `playing` until the run ends; `closed` when the arcade day rolled over first. */
+export type TournamentAttemptStatus = "playing" | "sending" | "recorded" | "closed" | "failed";
+
+export type TournamentAttempt = {
+  runId: string;
+  gameId: GameId;
+  dateKey: string;
+  status: TournamentAttemptStatus;
+  score: number | null;
+};
+
+/** This browser's tournament runs, newest first. */
+export const tournamentAttemptStore = createPersistedStore<TournamentAttempt[]>({
+  key: "mmgames:tournament-attempts",
+  version: 1,
+  initial: () => [],
+});
+
+export const saveAttempt = (attempt: TournamentAttempt) =>
+  tournamentAttemptStore.update((attempts) =>
+    [attempt, ...attempts.filter(({ runId }) => runId !== attempt.runId)].slice(0, MAX_ATTEMPTS),
+  );
+
+export const findAttempt = (attempts: TournamentAttempt[], runId: string) =>
+  attempts.find((attempt) => attempt.runId === runId) ?? null;
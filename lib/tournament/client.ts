@@ -0,0 +1,73 @@
+import type { GameRun } from "@/lib/run-history";
+import type { TournamentRun, TournamentWeek } from "@/lib/tournament/types";
+import { ensurePlayerAuthorization } from "@/lib/accounts/client";
+import { getCurrentProfile } from "@/lib/player";
+import { findAttempt, saveAttempt, tournamentAttemptStore } from "@/lib/tournament/attempts";
+
+const ENDPOINT = "/api/tournament";
+
+const send = async (url: string, method: "POST" | "PUT", body: unknown) => {
+  const authorization = await ensurePlayerAuthorization();
+  return fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json", ...(authorization ? { Authorization: authorization } : {}) },
+    body: JSON.stringify(body),
+  });
+};
+
+export const fetchTournamentWeek = async (): Promise<TournamentWeek> => {
+  const response = await fetch(ENDPOINT);
+  if (!response.ok) {
+    throw new Error(`Tournament request failed (${response.status})`);
+  }
+  return (await response.json()) as TournamentWeek;
+};
+
+export const joinTournament = async () => {
+  const { id, name } = getCurrentProfile();
+  try {
+    return (await send(ENDPOINT, "POST", { playerId: id, playerName: name })).ok;
+  } catch {
+    return false;
+  }
+};
+
+/** Claims today's single attempt; returns null when the server refuses it or cannot be reached. */
+export const startTournamentRun = async (): Promise<TournamentRun | null> => {
+  try {
+    const response = await send(`${ENDPOINT}/runs`, "POST", {});
+    if (!response.ok) {
+      return null;
+    }
+    const { run } = (await response.json()) as { run: TournamentRun };
+    saveAttempt({ runId: run.id, gameId: run.gameId, dateKey: run.dateKey, status: "playing", score: null });
+    return run;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Sends the first run a tournament session finishes. Later runs in the same
+ * session find the attempt already used and only count for the leaderboards.
+ */
+export const finishTournamentRun = async (claimed: TournamentRun, run: GameRun) => {
+  const attempt = findAttempt(tournamentAttemptStore.read(), claimed.id);
+  if (attempt?.status !== "playing") {
+    return;
+  }
+  saveAttempt({ ...attempt, status: "sending", score: run.score });
+  const player = getCurrentProfile();
+  try {
+    const response = await send(`${ENDPOINT}/runs/${claimed.id}`, "PUT", {
+      playerId: player.id,
+      playerName: player.name,
+      score: run.score,
+      level: run.level,
+      durationMs: Math.round(run.durationMs),
+    });
+    saveAttempt({ ...attempt, score: run.score, status: response.ok ? "recorded" : response.status === 409 ? "closed" : "failed" });
+  } catch {
+    saveAttempt({ ...attempt, score: run.score, status: "failed" });
+  }
+};
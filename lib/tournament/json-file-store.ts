@@ -0,0 +1,61 @@
+import type { TournamentStore } from "@/lib/tournament/store";
+import type { TournamentEntrant, TournamentRun } from "@/lib/tournament/types";
+import { createJsonFile } from "@/lib/server/json-file";
+
+type TournamentDocument = {
+  entrants: TournamentEntrant[];
+  runs: TournamentRun[];
+};
+
+export const createJsonFileTournamentStore = (filePath: string): TournamentStore => {
+  const file = createJsonFile<TournamentDocument>(filePath, () => ({ entrants: [], runs: [] }));
+
+  return {
+    addEntrant: (entrant) =>
+      file.update((current) => {
+        if (current.entrants.some(({ playerId, weekKey }) => playerId === entrant.playerId && weekKey === entrant.weekKey)) {
+          return { data: current, result: false };
+        }
+        return { data: { ...current, entrants: [...current.entrants, entrant] }, result: true };
+      }),
+    addRun: (run) =>
+      file.update((current) => {
+        if (current.runs.some(({ playerId, dateKey }) => playerId === run.playerId && dateKey === run.dateKey)) {
+          return { data: current, result: false };
+        }
+        return { data: { ...current, runs: [...current.runs, run] }, result: true };
+      }),
+    finishRun: (runId, result, finishedAt) =>
+      file.update((current) => {
+        const run = current.runs.find(({ id }) => id === runId);
+        if (!run || run.finishedAt !== null) {
+          return { data: current, result: null };
+        }
+        const finished = { ...run, ...result, finishedAt };
+        return {
+          data: { ...current, runs: current.runs.map((candidate) => (candidate.id === runId ? finished : candidate)) },
+          result: finished,
+        };
+      }),
+    findRun: async (runId) => (await file.read()).runs.find(({ id }) => id === runId) ?? null,
+    listWeek: async (weekKey) => {
+      const { entrants, runs } = await file.read();
+      return {
+        entrants: entrants.filter((entrant) => entrant.weekKey === weekKey),
+        runs: runs.filter((run) => run.weekKey === weekKey),
+      };
+    },
+    reassignPlayer: (fromPlayerId, playerId, playerName) =>
+      file.update((current) => {
+        const weeks = new Set(current.entrants.filter((entrant) => entrant.playerId === playerId).map(({ weekKey }) => weekKey));
+        const days = new Set(current.runs.filter((run) => run.playerId === playerId).map(({ dateKey }) => dateKey));
+        const entrants = current.entrants
+          .filter((entrant) => entrant.playerId !== fromPlayerId || !weeks.has(entrant.weekKey))
+          .map((entrant) => (entrant.playerId === fromPlayerId ? { ...entrant, playerId, playerName } : entrant));
+        const runs = current.runs
+          .filter((run) => run.playerId !== fromPlayerId || !days.has(run.dateKey))
+          .map((run) => (run.playerId === fromPlayerId ? { ...run, playerId } : run));
+        return { data: { entrants, runs }, result: undefined };
+      }),
+  };
+};
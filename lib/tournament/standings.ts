@@ -0,0 +1,85 @@
+import type { ArcadeSchedule } from "@/lib/schedule";
+import type {
+  TournamentDay,
+  TournamentEntrant,
+  TournamentRun,
+  TournamentStanding,
+  TournamentWeek,
+} from "@/lib/tournament/types";
+import { getGameForDay } from "@/games/registry";
+import { BRACKET_SIZE } from "@/lib/tournament/types";
+import { DAYS, shiftDateKey } from "@/lib/schedule";
+
+/**
+ * The share of the other scores a score beats, from 0 to 100, with ties
+ * counting half. A lone run beats the whole field.
+ */
+export const getPercentile = (score: number, field: number[]) => {
+  if (field.length <= 1) {
+    return 100;
+  }
+  const below = field.filter((other) => other < score).length;
+  const tied = field.filter((other) => other === score).length - 1;
+  return Math.round(((below + tied / 2) / (field.length - 1)) * 100);
+};
+
+/**
+ * Scores every entrant's week. Each day's runs are normalized to percentiles
+ * among that day's finished runs, so every game weighs the same however its
+ * scores scale; runs that were started but never finished earn nothing.
+ * Entrants are ranked across the whole field and inside their bracket, which
+ * is filled in join order. Ties keep the entrant who joined first ahead.
+ */
+export const buildTournamentWeek = (
+  entrants: TournamentEntrant[],
+  runs: TournamentRun[],
+  schedule: Pick<ArcadeSchedule, "weekKey" | "dateKey" | "todayIndex" | "nextRolloverAt">,
+): TournamentWeek => {
+  const { weekKey, dateKey, todayIndex, nextRolloverAt } = schedule;
+  const weekRuns = runs.filter((run) => run.weekKey === weekKey);
+  const fields = DAYS.map((_, dayIndex) => {
+    const dayKey = shiftDateKey(weekKey, dayIndex);
+    return weekRuns.flatMap((run) => (run.dateKey === dayKey && run.score !== null ? [run.score] : []));
+  });
+  const days: TournamentDay[] = DAYS.map((day, dayIndex) => ({
+    dayIndex,
+    dateKey: shiftDateKey(weekKey, dayIndex),
+    gameId: getGameForDay(day.id)?.id ?? null,
+    finished: fields[dayIndex].length,
+  }));
+
+  const weekEntrants = entrants
+    .filter((entrant) => entrant.weekKey === weekKey)
+    .sort((left, right) => left.joinedAt.localeCompare(right.joinedAt));
+  const bracketRanks = new Map<number, number>();
+  const standings = weekEntrants
+    .map((entrant, joinIndex) => {
+      const results = days.map((day, dayIndex) => {
+        const run = weekRuns.find((candidate) => candidate.playerId === entrant.playerId && candidate.dateKey === day.dateKey);
+        if (!run) {
+          return null;
+        }
+        return {
+          runId: run.id,
+          score: run.score,
+          points: run.score === null ? 0 : getPercentile(run.score, fields[dayIndex]),
+        };
+      });
+      return {
+        playerId: entrant.playerId,
+        playerName: entrant.playerName,
+        bracket: Math.floor(joinIndex / BRACKET_SIZE),
+        points: results.reduce((total, result) => total + (result?.points ?? 0), 0),
+        days: results,
+      };
+    })
+    .sort((left, right) => right.points - left.points)
+    .map<TournamentStanding>((standing, index) => {
+      const bracketRank = (bracketRanks.get(standing.bracket) ?? 0) + 1;
+      bracketRanks.set(standing.bracket, bracketRank);
+      return { ...standing, rank: index + 1, bracketRank };
+    });
+
+  const brackets = Math.ceil(weekEntrants.length / BRACKET_SIZE);
+  return { weekKey, dateKey, todayIndex, nextRolloverAt, days, brackets, standings };
+};
@@ -0,0 +1,33 @@
+import type { TournamentEntrant, TournamentRun, TournamentRunResult } from "@/lib/tournament/types";
+import { getDataPath } from "@/lib/server/json-file";
+import { createJsonFileTournamentStore } from "@/lib/tournament/json-file-store";
+
+/**
+ * Storage adapter behind the tournament routes. The single-attempt rule is
+ * enforced here so concurrent requests cannot both claim a day; scoring lives
+ * in `standings.ts`.
+ */
+export type TournamentStore = {
+  /** Returns false when the player has already joined that week. */
+  addEntrant: (entrant: TournamentEntrant) => Promise<boolean>;
+  /** Returns false when the player already has a run on that day. */
+  addRun: (run: TournamentRun) => Promise<boolean>;
+  /** Records the result of an unfinished run; returns null if there is none with that id. */
+  finishRun: (runId: string, result: TournamentRunResult, finishedAt: string) => Promise<TournamentRun | null>;
+  findRun: (runId: string) => Promise<TournamentRun | null>;
+  listWeek: (weekKey: string) => Promise<{ entrants: TournamentEntrant[]; runs: TournamentRun[] }>;
+  /**
+   * Moves a guest's entries and runs to the account it was merged into. Where
+   * both entered the same week or played the same day, the account's stand.
+   */
+  reassignPlayer: (fromPlayerId: string, playerId: string, playerName: string) => Promise<void>;
+};
+
+let store: TournamentStore | null = null;
+
+export const getTournamentStore = () => {
+  if (!store) {
+    store = createJsonFileTournamentStore(getDataPath("tournaments.json"));
+  }
+  return store;
+};
@@ -0,0 +1,69 @@
+import type { GameId } from "@/games/registry";
+
+export type TournamentEntrant = {
+  playerId: string;
+  playerName: string;
+  weekKey: string;
+  joinedAt: string;
+};
+
+/** One entrant's single attempt at a day's game; the score stays null until the run is finished. */
+export type TournamentRun = {
+  id: string;
+  playerId: string;
+  gameId: GameId;
+  dateKey: string;
+  weekKey: string;
+  startedAt: string;
+  score: number | null;
+  level: number | null;
+  durationMs: number | null;
+  finishedAt: string | null;
+};
+
+export type TournamentRunResult = Pick<TournamentRun, "score" | "level" | "durationMs">;
+
+/** A day's run in the standings. `points` is the run's percentile among the day's finished runs. */
+export type TournamentDayResult = {
+  runId: string;
+  score: number | null;
+  points: number;
+};
+
+export type TournamentStanding = {
+  /** Rank in the whole field. */
+  rank: number;
+  /** The bracket the entrant plays in, from 0, and their rank inside it. */
+  bracket: number;
+  bracketRank: number;
+  playerId: string;
+  playerName: string;
+  points: number;
+  /** Indexed by arcade day, Monday first; null for days the entrant did not play. */
+  days: (TournamentDayResult | null)[];
+};
+
+export type TournamentDay = {
+  dayIndex: number;
+  dateKey: string;
+  gameId: GameId | null;
+  /** Finished runs, the field the day's percentiles are taken over. */
+  finished: number;
+};
+
+export type TournamentWeek = {
+  weekKey: string;
+  dateKey: string;
+  todayIndex: number;
+  nextRolloverAt: string;
+  days: TournamentDay[];
+  /** How many brackets the week's entrants are split into. */
+  brackets: number;
+  standings: TournamentStanding[];
+};
+
+/** Entrants are split into brackets of this many, in the order they joined. */
+export const BRACKET_SIZE = 16;
+
+/** Entrants join on Monday, the first day of the arcade week. */
+export const JOIN_DAY_INDEX = 0;
@@ -0,0 +1,17 @@
+import { useCallback } from "react";
+import type { GameEvent } from "@/lib/achievements/types";
+import { useGameSession } from "@/lib/replay/session";
+
+/**
+ * Returns an emitter for a game's achievement events. Events are checked
+ * against the game's catalogue as they arrive; replays emit into the void.
+ */
+export const useAchievementEvents = <E extends GameEvent>() => {
+  const session = useGameSession();
+  return useCallback(
+    (event: E) => {
+      session.achievements?.track(event);
+    },
+    [session],
+  );
+};
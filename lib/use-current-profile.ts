@@ -0,0 +1,16 @@
+import { useSyncExternalStore } from "react";
+import { accountSessionStore, playerStore, toProfile } from "@/lib/player";
+
+/**
+ * The profile runs are submitted under, and the signed-in account if there is
+ * one. The profile is null until the guest profile has been created.
+ */
+export const useCurrentProfile = () => {
+  const guest = useSyncExternalStore(playerStore.subscribe, playerStore.read, playerStore.getServerSnapshot);
+  const session = useSyncExternalStore(
+    accountSessionStore.subscribe,
+    accountSessionStore.read,
+    accountSessionStore.getServerSnapshot,
+  );
+  return { profile: session ? toProfile(session.account) : guest, account: session?.account ?? null };
+};
@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+import { useGameSession } from "@/lib/replay/session";
+
+const notPaused = () => false;
+
+/** The session's pause state, for overlays and anything that should stop with the clock (music). */
+export const useGamePause = () => {
+  const session = useGameSession();
+  const paused = useSyncExternalStore(session.pause.subscribe, session.pause.isPaused, notPaused);
+  const setPaused = useCallback((next: boolean) => session.pause.setPaused(next), [session]);
+  return { paused, setPaused };
+};
+
+/**
+ * Pauses a live run when the tab is hidden or the window loses focus. Only
+ * active while `running`; a run that ends while paused is released.
+ */
+export const useAutoPause = (running: boolean) => {
+  const session = useGameSession();
+
+  useEffect(() => {
+    if (session.mode !== "live") {
+      return;
+    }
+    if (!running) {
+      session.pause.setPaused(false);
+      return;
+    }
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        session.pause.setPaused(true);
+      }
+    };
+    const handleBlur = () => session.pause.setPaused(true);
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("blur", handleBlur);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("blur", handleBlur);
+    };
+  }, [running, session]);
+};
@@ -0,0 +1,100 @@
+import { useCallback, useRef, useState, useSyncExternalStore } from "react";
+import type { GameId } from "@/games/registry";
+import type { GameRun, RunStats } from "@/lib/run-history";
+import { syncAccountRun } from "@/lib/accounts/client";
+import { recordChallengeAttempt } from "@/lib/challenges/store";
+import { createId } from "@/lib/ids";
+import { submitRun } from "@/lib/leaderboards/client";
+import { saveRecording } from "@/lib/replay/recording";
+import { useGameSession } from "@/lib/replay/session";
+import { appendRun, getGameRecord, runHistoryStore } from "@/lib/run-history";
+import { recordPlayedDay } from "@/lib/streaks/store";
+import { finishTournamentRun } from "@/lib/tournament/client";
+
+export type FinishedRun = {
+  score: number;
+  level?: number | null;
+  stats?: RunStats;
+};
+
+/**
+ * Reads a game's persisted best and recent runs, and brackets each run with
+ * `startRun`/`finishRun`. `finishRun` is idempotent per run, so it can be
+ * called from an effect that fires whenever the game reaches its end state.
+ * Finished runs are stored locally, added to the signed-in account, and
+ * submitted to the leaderboards under the current profile, along with the
+ * session's input recording. Challenge runs are recorded against the
+ * challenge instead of the leaderboards, whose boards belong to the daily seed.
+ * Daily runs also mark their arcade day as played for the streak, and a
+ * tournament session sends its first finished run as the day's attempt.
+ * Durations are measured on the session's game clock, so paused time is left
+ * out, as it is from the replay. Replays only report their final score.
+ * `lastRun` is the latest run this session finished, for sharing it.
+ */
+export const useRunHistory = (gameId: GameId) => {
+  const history = useSyncExternalStore(
+    runHistoryStore.subscribe,
+    runHistoryStore.read,
+    runHistoryStore.getServerSnapshot,
+  );
+  const record = getGameRecord(history, gameId);
+  const session = useGameSession();
+  const activeRunRef = useRef<{ startedAt: number } | null>(null);
+  const [lastRun, setLastRun] = useState<GameRun | null>(null);
+
+  const startRun = useCallback(() => {
+    activeRunRef.current = { startedAt: session.clock.now() };
+    session.recorder?.begin();
+    session.achievements?.beginRun();
+  }, [session]);
+
+  const finishRun = useCallback(
+    ({ score, level = null, stats = {} }: FinishedRun): GameRun | null => {
+      const active = activeRunRef.current;
+      if (!active) {
+        return null;
+      }
+      activeRunRef.current = null;
+      if (session.mode === "replay") {
+        session.onReplayFinish?.(score);
+        return null;
+      }
+      const run: GameRun = {
+        id: createId(),
+        score,
+        level,
+        durationMs: session.clock.now() - active.startedAt,
+        playedAt: new Date().toISOString(),
+        stats,
+      };
+      appendRun(gameId, run);
+      void syncAccountRun(gameId, run);
+      setLastRun(run);
+      if (session.schedule) {
+        recordPlayedDay(gameId, run, session.schedule);
+      }
+      if (session.tournament) {
+        void finishTournamentRun(session.tournament, run);
+      }
+      const log = session.recorder?.finish();
+      if (log) {
+        saveRecording({ runId: run.id, gameId, seed: session.seed, recordedAt: run.playedAt, score, ...log });
+      }
+      if (session.challenge) {
+        recordChallengeAttempt(session.challenge.id, { runId: run.id, score, playedAt: run.playedAt });
+      } else {
+        void submitRun(gameId, run);
+      }
+      return run;
+    },
+    [gameId, session],
+  );
+
+  return {
+    best: record.best,
+    runs: record.runs,
+    lastRun,
+    startRun,
+    finishRun,
+  };
+};
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { getArcadeSchedule, getDayIndex, isDayUnlocked } from "@/lib/schedule";
+
+export function middleware(request: NextRequest) {
+  const [, , dayId] = request.nextUrl.pathname.split("/");
+  if (!dayId || getDayIndex(dayId) === -1) {
+    return NextResponse.next();
+  }
+
+  if (isDayUnlocked(dayId, getArcadeSchedule())) {
+    return NextResponse.next();
+  }
+
+  return NextResponse.redirect(new URL("/", request.url));
+}
+
+export const config = {
+  matcher: "/games/:day/:path*",
+};
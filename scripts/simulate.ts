@@ -0,0 +1,100 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { SIMULATIONS } from "@/lib/simulation/catalogue";
+import { summarizeRuns, toCsv } from "@/lib/simulation/report";
+
+const USAGE = `Usage: npm run simulate -- <game> [options]
+
+Plays seeded runs of a game with a bot and reports how they went.
+
+Options:
+  --bot <name>          Bot to play with (defaults to the game's first bot)
+  --runs <n>            Number of runs (default 500)
+  --seed <prefix>       Run n plays the seed <prefix>-n (default "sim")
+  --max-minutes <m>     Game minutes after which a run is cut off (default 10)
+  --set <key=value>     Override a numeric config value; repeatable
+  --out <dir>           Write report.json and CSV tables there instead of printing JSON
+
+Games: ${Object.keys(SIMULATIONS).join(", ")}`;
+
+const readNumber = (value: string, name: string) => {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new Error(`--${name} must be a positive number`);
+  }
+  return number;
+};
+
+const readOverrides = (pairs: string[]) =>
+  Object.fromEntries(
+    pairs.map((pair) => {
+      const [key, value] = pair.split("=");
+      const number = Number(value);
+      if (!key || value === undefined || !Number.isFinite(number)) {
+        throw new Error(`--set expects key=number, got "${pair}"`);
+      }
+      return [key, number];
+    }),
+  );
+
+const main = async () => {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      bot: { type: "string" },
+      runs: { type: "string", default: "500" },
+      seed: { type: "string", default: "sim" },
+      "max-minutes": { type: "string", default: "10" },
+      set: { type: "string", multiple: true, default: [] },
+      out: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const [gameId] = positionals;
+  const simulation = SIMULATIONS[gameId as keyof typeof SIMULATIONS];
+  if (values.help || !simulation) {
+    console.log(USAGE);
+    process.exitCode = values.help ? 0 : 1;
+    return;
+  }
+
+  const bot = values.bot ?? simulation.bots[0];
+  const runs = Math.floor(readNumber(values.runs, "runs"));
+  const maxMinutes = readNumber(values["max-minutes"], "max-minutes");
+  const maxMs = maxMinutes * 60_000;
+  const { config, runs: results } = simulation.run({
+    bot,
+    runs,
+    seed: values.seed,
+    maxMs,
+    overrides: readOverrides(values.set),
+  });
+  const summary = summarizeRuns(results, maxMs);
+  const report = { game: gameId, bot, seed: values.seed, maxMinutes, config, ...summary };
+
+  if (!values.out) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  await mkdir(values.out, { recursive: true });
+  const files: Record<string, string> = {
+    "report.json": `${JSON.stringify(report, null, 2)}\n`,
+    "runs.csv": toCsv(results),
+    "scores.csv": toCsv(summary.scoreHistogram),
+    "survival.csv": toCsv(summary.survival),
+    "levels.csv": toCsv(summary.levels),
+  };
+  await Promise.all(Object.entries(files).map(([name, content]) => writeFile(path.join(values.out!, name), content)));
+  console.log(
+    `${gameId} · ${bot} · ${summary.runs} runs: median score ${summary.scores.median}, ` +
+      `${summary.survivors} survived ${maxMinutes} min → ${values.out}`,
+  );
+};
+
+main().catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+import type { Account } from "@/lib/accounts/types";
+import { POST as merge } from "@/app/api/account/merge/route";
+import { hashSecret } from "@/lib/accounts/login";
+import { getAccountStore } from "@/lib/accounts/store";
+import { getLeaderboardStore } from "@/lib/leaderboards/store";
+
+let dataDir = "";
+
+before(async () => {
+  dataDir = await mkdtemp(path.join(tmpdir(), "mmgames-merge-"));
+  process.env.ARCADE_DATA_DIR = dataDir;
+});
+
+after(async () => {
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+const createdAt = new Date().toISOString();
+
+const account = (id: string, email: string): Account => ({ id, email, displayName: email, avatar: "🙂", createdAt });
+
+const mergeAs = (token: string) =>
+  merge(
+    new Request("http://localhost/api/account/merge", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ history: {}, achievements: {}, settings: {} }),
+    }),
+  );
+
+test("signing in as another account on a signed-out device leaves the first account's entries alone", async () => {
+  const store = getAccountStore();
+  // Account X was created on this device, so it took the device's guest id.
+  await store.claimGuest({ guestId: "device-guest", secretHash: hashSecret("secret"), claimedAt: createdAt });
+  await store.createAccount(account("device-guest", "x@example.com"));
+  await getLeaderboardStore().addEntry({
+    id: "x-run",
+    gameId: "snakemoji",
+    playerId: "device-guest",
+    playerName: "X",
+    score: 120,
+    level: null,
+    durationMs: 60_000,
+    submittedAt: createdAt,
+    dateKey: "2026-10-19",
+    weekKey: "2026-10-19",
+  });
+
+  // X signs out, and account Y signs in on the same device.
+  await store.createAccount(account("account-y", "y@example.com"));
+  await store.addSession({ token: "token-y", accountId: "account-y", deviceId: "device-guest", linkedAt: createdAt });
+
+  const response = await mergeAs("token-y");
+  assert.equal(response.status, 200);
+
+  const { entries } = await getLeaderboardStore().listEntries(
+    { gameId: "snakemoji", window: "all-time", dateKey: "2026-10-19", weekKey: "2026-10-19" },
+    1,
+    10,
+  );
+  assert.deepEqual(
+    entries.map(({ id, playerId }) => ({ id, playerId })),
+    [{ id: "x-run", playerId: "device-guest" }],
+  );
+});